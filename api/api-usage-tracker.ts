@@ -1,5 +1,5 @@
 // API Usage Tracker
-// Tracks API calls for cost monitoring
+// Tracks API calls for cost and quota monitoring
 // This is a simple in-memory tracker (resets on cold start)
 // For production, consider using a database or external service
 
@@ -8,6 +8,7 @@ interface ApiCall {
   api: string
   endpoint: string
   cost?: number // Estimated cost in USD
+  quotaUnits?: number // Units spent from a daily API quota (YouTube)
   cached: boolean
   ip?: string
 }
@@ -16,6 +17,7 @@ interface ApiStats {
   totalCalls: number
   cachedCalls: number
   estimatedCost: number
+  quotaUnitsByDay: Record<string, number>
   callsByDay: Record<string, number>
   callsByApi: Record<string, number>
 }
@@ -29,6 +31,13 @@ const MAX_STORED_CALLS = 10000 // Limit memory usage
 const GOOGLE_PLACES_COST_PER_1000 = 32
 const COST_PER_REQUEST = GOOGLE_PLACES_COST_PER_1000 / 1000 // $0.032 per request
 
+// YouTube Data API v3 is free but metered in quota units (10,000 per day by default)
+// search.list costs 100 units, most other reads cost 1
+const YOUTUBE_QUOTA_UNITS: Record<string, number> = {
+  search: 100,
+}
+const YOUTUBE_DEFAULT_QUOTA_UNITS = 1
+
 function addApiCall(api: string, endpoint: string, cached: boolean = false, ip?: string) {
   const now = Date.now()
   
@@ -37,12 +46,19 @@ function addApiCall(api: string, endpoint: string, cached: boolean = false, ip?:
   if (api === 'google-places' && !cached) {
     cost = COST_PER_REQUEST
   }
+
+  // Work out the quota spent (cached responses spend none)
+  let quotaUnits = 0
+  if (api === 'youtube' && !cached) {
+    quotaUnits = YOUTUBE_QUOTA_UNITS[endpoint] ?? YOUTUBE_DEFAULT_QUOTA_UNITS
+  }
   
   const call: ApiCall = {
     timestamp: now,
     api,
     endpoint,
     cost,
+    quotaUnits,
     cached,
     ip
   }
@@ -56,7 +72,8 @@ function addApiCall(api: string, endpoint: string, cached: boolean = false, ip?:
   
   // Log to console for Vercel logs
   if (!cached) {
-    console.log(`[API Usage] ${api} - ${endpoint} - Cost: $${cost.toFixed(6)} - IP: ${ip || 'unknown'}`)
+    const quota = quotaUnits > 0 ? ` - Quota: ${quotaUnits} units` : ''
+    console.log(`[API Usage] ${api} - ${endpoint} - Cost: $${cost.toFixed(6)}${quota} - IP: ${ip || 'unknown'}`)
   } else {
     console.log(`[API Usage] ${api} - ${endpoint} - CACHED (no cost)`)
   }
@@ -73,6 +90,7 @@ function getStats(): ApiStats {
     totalCalls: recentCalls.length,
     cachedCalls: recentCalls.filter(call => call.cached).length,
     estimatedCost: recentCalls.reduce((sum, call) => sum + (call.cost || 0), 0),
+    quotaUnitsByDay: {},
     callsByDay: {},
     callsByApi: {}
   }
@@ -81,6 +99,9 @@ function getStats(): ApiStats {
   recentCalls.forEach(call => {
     const date = new Date(call.timestamp).toISOString().split('T')[0]
     stats.callsByDay[date] = (stats.callsByDay[date] || 0) + 1
+    if (call.quotaUnits) {
+      stats.quotaUnitsByDay[date] = (stats.quotaUnitsByDay[date] || 0) + call.quotaUnits
+    }
   })
   
   // Group by API
@@ -1,141 +1,55 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import { createClient } from 'redis'
-
-interface WhichOnesFalseSubmission {
-  playerName: string
-  statements: string[]
-  submittedAt: number
-}
-
-interface GOATSubmission {
-  playerName: string
-  movies: string[]
-  submittedAt: number
-}
-
-// KV keys
-const WHICH_ONES_FALSE_KEY = 'birthday-games:which-ones-false'
-const GOAT_KEY = 'birthday-games:goat'
-
-// Initialize Redis client (reused across requests)
-let redisClient: ReturnType<typeof createClient> | null = null
-
-// Get or create Redis client
-async function getRedisClient() {
-  if (!redisClient) {
-    // Check for various possible Redis environment variable names
-    // Different Redis providers (Vercel KV, Upstash, etc.) use different names
-    const redisUrl = 
-      process.env.KV_REST_API_URL || 
-      process.env.REDIS_URL || 
-      process.env.UPSTASH_REDIS_REST_URL ||
-      process.env.REDIS_REST_URL
-    
-    const redisToken = 
-      process.env.KV_REST_API_TOKEN || 
-      process.env.REDIS_PASSWORD || 
-      process.env.UPSTASH_REDIS_REST_TOKEN ||
-      process.env.REDIS_REST_TOKEN
-    
-    if (redisUrl) {
-      redisClient = createClient({
-        url: redisUrl,
-        ...(redisToken && { password: redisToken }),
-      })
-    } else {
-      // Fallback: try to create client without explicit config
-      // This might work if Redis is configured via other means
-      console.warn('No Redis URL found in environment variables. Attempting default connection.')
-      redisClient = createClient()
-    }
-    
-    redisClient.on('error', (err) => console.error('Redis Client Error', err))
-    
-    if (!redisClient.isOpen) {
-      await redisClient.connect()
-    }
-  }
-  return redisClient
-}
-
-async function getSubmissions(): Promise<Record<string, WhichOnesFalseSubmission>> {
-  try {
-    const redis = await getRedisClient()
-    const data = await redis.get(WHICH_ONES_FALSE_KEY)
-    if (data) {
-      return JSON.parse(data as string) as Record<string, WhichOnesFalseSubmission>
-    }
-    return {}
-  } catch (error) {
-    console.error('Error getting submissions from Redis:', error)
-    // Return empty object if Redis fails
-    return {}
-  }
-}
-
-async function saveSubmission(playerName: string, statements: string[]): Promise<void> {
-  try {
-    const redis = await getRedisClient()
-    const submissions = await getSubmissions()
-    
-    // Sanitize player name for key (remove special characters, limit length)
-    const sanitizedName = playerName.trim().substring(0, 50).replace(/[^a-zA-Z0-9\s]/g, '')
-    const key = sanitizedName.toLowerCase().replace(/\s+/g, '-')
-    
-    submissions[key] = {
-      playerName: playerName.trim().substring(0, 50),
-      statements: statements.map(s => s.trim().substring(0, 200)),
-      submittedAt: Date.now()
-    }
-    
-    await redis.set(WHICH_ONES_FALSE_KEY, JSON.stringify(submissions))
-  } catch (error) {
-    console.error('Error saving submission to Redis:', error)
-    throw error
-  }
-}
-
-async function getGOATSubmissions(): Promise<Record<string, GOATSubmission>> {
-  try {
-    const redis = await getRedisClient()
-    const data = await redis.get(GOAT_KEY)
-    if (data) {
-      return JSON.parse(data as string) as Record<string, GOATSubmission>
-    }
-    return {}
-  } catch (error) {
-    console.error('Error getting GOAT submissions from Redis:', error)
-    return {}
-  }
-}
-
-async function saveGOATSubmission(playerName: string, movies: string[]): Promise<void> {
-  try {
-    const redis = await getRedisClient()
-    const submissions = await getGOATSubmissions()
-    
-    // Sanitize player name for key (remove special characters, limit length)
-    const sanitizedName = playerName.trim().substring(0, 50).replace(/[^a-zA-Z0-9\s]/g, '')
-    const key = sanitizedName.toLowerCase().replace(/\s+/g, '-')
-    
-    submissions[key] = {
-      playerName: playerName.trim().substring(0, 50),
-      movies: movies.map(m => m.trim().substring(0, 200)),
-      submittedAt: Date.now()
-    }
-    
-    await redis.set(GOAT_KEY, JSON.stringify(submissions))
-  } catch (error) {
-    console.error('Error saving GOAT submission to Redis:', error)
-    throw error
-  }
-}
+import { getVoterFromRequest, resolveVoter, VOTER_TOKEN_HEADER, type VoterIdentity } from './voter-identity'
+import { getEvent, getEventIdFromRequest } from './event-store'
+import { checkInviteSession, INVITE_SESSION_HEADER } from './invite-session'
+import {
+  GAME_TYPES,
+  getGameDefinition,
+  isGameType,
+  parseSubmission,
+  type GameDefinition,
+  type GameType,
+} from './game-definitions'
+import { buildGamesUpdate, publishLiveUpdate } from './live-updates'
+import { validatePlayerName } from './submission-validation'
+import { checkRateLimit, type RateLimit } from './rate-limit'
+import { getClientIP } from './client-ip'
+import { EMPTY_AUTHORSHIP } from './guess-who'
+
+// Party games, dispatched through the registry in ./game-definitions
+// ?gameType= picks the game (defaults to which-ones-false); GET returns what every player sees
+// plus your own guesses or votes, POST submits your entries, POST ?resource= runs a game action
+// Rejected submissions list what's wrong with each input in fieldErrors ([{ field, index?, message }]),
+// and each IP can only submit so often (429 with Retry-After)
+//
+// Which One's False
+// POST                     - three statements and the index of the false one ({ playerName, statements, falseIndex })
+// POST ?resource=guesses   - guess another player's false statement ({ playerName, submitterId, guessIndex })
+// The host reveals every answer and the scoreboard through ./event-admin (guesses lock)
+//
+// GOAT (?gameType=goat)
+// POST                     - your top three movies ({ playerName, movies })
+// POST ?resource=votes     - vote for up to three films on the merged list ({ playerName, movieIds })
+//
+// Guess Who (both games above; see ./guess-who)
+// Submissions are keyed by an anonymous id and come without the author's name until it's revealed;
+// your own guesses, and which submission is yours, come back as myAuthorship
+// POST ?resource=author-guesses - guess who wrote a submission ({ playerName, submissionId, authorName })
+// The host reveals authors one submission at a time through ./event-admin, scoring the guesses on each
+//
+// Trivia (?gameType=trivia; the host loads and advances questions through ./event-admin)
+// POST ?resource=answers   - answer the open question before time runs out ({ playerName, questionIndex, choice })
+
+const DEFAULT_GAME_TYPE: GameType = 'which-ones-false'
+
+// Guests at a party often share one wifi network (and so one IP), so the limit is generous
+const SUBMISSION_RATE_LIMIT: RateLimit = { limit: 30, windowMs: 10 * 60 * 1000 }
 
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Headers': `Content-Type, ${VOTER_TOKEN_HEADER}, ${INVITE_SESSION_HEADER}`,
 }
 
 export default async function handler(
@@ -152,52 +66,142 @@ export default async function handler(
     res.setHeader(key, value)
   })
 
-  // POST: Submit statements or movies
-  if (req.method === 'POST') {
-    try {
-      const { playerName, statements, movies, gameType } = req.body
+  // Submissions belong to one event (?eventId=, defaults to the original birthday invite)
+  const eventId = getEventIdFromRequest(req)
+  try {
+    const event = await getEvent(eventId)
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+
+    // Password-protected events only answer guests who unlocked the invite
+    const session = checkInviteSession(req, event)
+    if (!session.ok) {
+      return res.status(session.status).json({ error: session.error })
+    }
+  } catch (error) {
+    console.error('Error loading event:', error)
+    return res.status(500).json({ error: 'Failed to load event' })
+  }
+
+  // The game comes from the query (or the body, which older clients used for GOAT submissions)
+  const requestedType = req.query.gameType ?? req.body?.gameType ?? DEFAULT_GAME_TYPE
+  if (!isGameType(requestedType)) {
+    return res.status(400).json({ error: `gameType must be one of: ${GAME_TYPES.join(', ')}` })
+  }
+  const gameType = requestedType
+  const game: GameDefinition<object> = getGameDefinition(gameType)
+
+  // Everything a player sees after a change: the game, their own guesses or votes, and their identity
+  const respond = async (voter: VoterIdentity | null, issuedToken?: string) => {
+    const [state, mine, authorship] = await Promise.all([
+      game.getState(eventId),
+      voter ? game.player.get(eventId, voter.id) : undefined,
+      voter && game.guessWho ? game.guessWho.get(eventId, voter.id) : undefined,
+    ])
+    return res.status(200).json({
+      success: true,
+      ...state,
+      ...(voter && { [game.player.key]: mine, voterName: voter.name }),
+      ...(authorship && { myAuthorship: authorship }),
+      ...(issuedToken && { voterToken: issuedToken })
+    })
+  }
 
-      if (!playerName || !playerName.trim()) {
-        return res.status(400).json({ error: 'Player name is required' })
+  // POST: Game actions (guesses, votes, answers)
+  const resource = req.query.resource
+  if (req.method === 'POST' && resource) {
+    const action = typeof resource === 'string' && Object.keys(game.actions).includes(resource) ? game.actions[resource] : undefined
+    if (!action) {
+      return res.status(404).json({ error: 'Unknown resource' })
+    }
+
+    try {
+      // Guesses and votes are saved under the name the voter token belongs to
+      const resolution = await resolveVoter(req, eventId, req.body?.playerName)
+      if (!resolution.ok) {
+        const { status, ...body } = resolution
+        return res.status(status).json(body)
+      }
+      const { voter, issuedToken } = resolution
+
+      const result = await action.run({ eventId, voter, body: req.body ?? {} })
+      if (!result.ok) {
+        // A newly claimed name still belongs to this player, so hand over its token
+        return res.status(result.status).json({
+          error: result.error,
+          ...(issuedToken && { voterName: voter.name, voterToken: issuedToken })
+        })
       }
 
-      // Handle GOAT game (movies)
-      if (gameType === 'goat') {
-        if (!movies || !Array.isArray(movies) || movies.length !== 3) {
-          return res.status(400).json({ error: 'Three movies are required' })
-        }
+      await publishLiveUpdate(eventId, await buildGamesUpdate(eventId, gameType))
+      return await respond(voter, issuedToken)
+    } catch (error) {
+      console.error(`Error running ${gameType} ${resource}:`, error)
+      return res.status(500).json({ 
+        error: action.failure 
+      })
+    }
+  }
+
+  // POST: Submit entries
+  if (req.method === 'POST') {
+    try {
+      const body = req.body ?? {}
 
-        // Validate all movies are non-empty
-        if (movies.some(m => !m || !m.trim())) {
-          return res.status(400).json({ error: 'All movies must be non-empty' })
-        }
+      // Live games (trivia) are only played through their actions
+      const rules = game.submissions
+      if (!rules) {
+        return res.status(400).json({ error: 'This game does not take submissions' })
+      }
 
-        await saveGOATSubmission(playerName, movies)
-        const allSubmissions = await getGOATSubmissions()
+      const rateLimit = await checkRateLimit(`game-submissions:${eventId}`, getClientIP(req), SUBMISSION_RATE_LIMIT)
+      if (!rateLimit.allowed) {
+        res.setHeader('Retry-After', String(rateLimit.retryAfter))
+        return res.status(429).json({
+          error: 'Too many submissions',
+          message: 'Too many submissions from this network. Please try again in a few minutes.',
+          retryAfter: rateLimit.retryAfter
+        })
+      }
 
-        return res.status(200).json({
-          success: true,
-          submissions: allSubmissions
+      // Check the name and every entry up front, so the player sees all the problems at once
+      const name = validatePlayerName(body.playerName)
+      const submission = parseSubmission(rules, body)
+      if (!name.ok) {
+        return res.status(400).json({
+          error: name.fieldErrors[0].message,
+          fieldErrors: [...name.fieldErrors, ...(!submission.ok && submission.fieldErrors ? submission.fieldErrors : [])]
         })
       }
+      if (!submission.ok) {
+        return res.status(submission.status).json({ error: submission.error, fieldErrors: submission.fieldErrors })
+      }
+
+      const open = rules.canSubmit ? await rules.canSubmit(eventId) : { ok: true as const }
+      if (!open.ok) {
+        return res.status(open.status).json({ error: open.error })
+      }
 
-      // Handle Which One's False game (statements)
-      if (!statements || !Array.isArray(statements) || statements.length !== 3) {
-        return res.status(400).json({ error: 'Three statements are required' })
+      // Submissions are saved under the name the voter token belongs to
+      const resolution = await resolveVoter(req, eventId, name.value)
+      if (!resolution.ok) {
+        const { status, ...body } = resolution
+        return res.status(status).json(body)
       }
+      const { voter, issuedToken } = resolution
 
-      // Validate all statements are non-empty
-      if (statements.some(s => !s || !s.trim())) {
-        return res.status(400).json({ error: 'All statements must be non-empty' })
+      // A voter token's name is what gets saved (the one sent is ignored), and it may have been claimed
+      // through the poll, which doesn't check names this strictly
+      const savedName = validatePlayerName(voter.name)
+      if (!savedName.ok) {
+        return res.status(400).json({ error: savedName.fieldErrors[0].message, fieldErrors: savedName.fieldErrors })
       }
 
-      await saveSubmission(playerName, statements)
-      const allSubmissions = await getSubmissions()
+      await rules.save(eventId, voter, submission.entries, body)
+      await publishLiveUpdate(eventId, await buildGamesUpdate(eventId, gameType))
 
-      return res.status(200).json({
-        success: true,
-        submissions: allSubmissions
-      })
+      return await respond(voter, issuedToken)
     } catch (error) {
       console.error('Error submitting:', error)
       return res.status(500).json({ 
@@ -206,20 +210,21 @@ export default async function handler(
     }
   }
 
-  // GET: Retrieve all submissions or songs
+  // GET: Retrieve the game as players see it
   if (req.method === 'GET') {
     try {
-      const { gameType } = req.query
-
-      // Handle GOAT game
-      if (gameType === 'goat') {
-        const submissions = await getGOATSubmissions()
-        return res.status(200).json({ submissions })
-      }
-
-      // Default to Which One's False
-      const submissions = await getSubmissions()
-      return res.status(200).json({ submissions })
+      // The asking player's own guesses and votes come back if they have a voter token
+      const voter = getVoterFromRequest(req, eventId)
+      const [state, mine, authorship] = await Promise.all([
+        game.getState(eventId),
+        voter ? game.player.get(eventId, voter.id) : undefined,
+        voter && game.guessWho ? game.guessWho.get(eventId, voter.id) : undefined,
+      ])
+      return res.status(200).json({
+        ...state,
+        [game.player.key]: mine ?? game.player.empty,
+        ...(game.guessWho && { myAuthorship: authorship ?? EMPTY_AUTHORSHIP })
+      })
     } catch (error) {
       console.error('Error getting submissions:', error)
       return res.status(500).json({ 
@@ -230,4 +235,3 @@ export default async function handler(
 
   return res.status(405).json({ error: 'Method not allowed' })
 }
-
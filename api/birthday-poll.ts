@@ -1,208 +1,58 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import { createClient } from 'redis'
-
-interface Restaurant {
-  id: string
-  name: string
-  description?: string
-  votes: number
-  voters: string[] // Array of voter names with guest counts
-  link?: string
-}
-
-interface VoteData {
-  restaurants: Restaurant[]
-  lastUpdated: number
-}
-
+import { resolveVoter, VOTER_TOKEN_HEADER } from './voter-identity'
+import { getEvent, getEventIdFromRequest, getPollMode } from './event-store'
+import { checkInviteSession, INVITE_SESSION_HEADER } from './invite-session'
+import {
+  addComment,
+  castVote,
+  changeVote,
+  createBallot,
+  createPollContext,
+  getComments,
+  getPollData,
+  getPollSchedule,
+  getPollSnapshot,
+  retractVote,
+  type PollContext,
+  type PollSchedule,
+} from './poll-store'
+import { pollUpdateFrom, publishLiveUpdate } from './live-updates'
+
+// Plurality polls send restaurantId; approval and ranked polls send choices
+// (every approved option, or options in order of preference)
 interface VoteRequest {
-  restaurantId: string
+  restaurantId?: string
+  choices?: string[]
   name: string
   guestCount?: number
   comment?: string
 }
 
-interface CommentRequest {
+interface ChangeVoteRequest {
+  restaurantId?: string
+  choices?: string[]
   name: string
-  comment: string
-}
-
-// Default poll data structure
-const DEFAULT_POLL_DATA: VoteData = {
-  restaurants: [
-    { id: '1', name: `Arnoldi's`, description: 'Italian cuisine', votes: 0, voters: [], link: 'https://www.arnoldis.com/' },
-    { id: '2', name: 'La Paloma', description: 'Mexican cuisine', votes: 0, voters: [], link: 'https://lapalomasb.com/' },
-    { id: '3', name: 'Third Window Brewery', description: 'American', votes: 0, voters: [], link: 'https://www.thirdwindowbrewing.com/' },
-    { id: '4', name: 'SB Public Market', description: 'American/Mexican/Japanese/Korean', votes: 0, voters: [], link: 'https://www.sbpublicmarket.com/' },
-    { id: '5', name: 'M Special', description: 'American', votes: 0, voters: [], link: 'https://mspecialbrewco.com/' },
-    { id: '6', name: 'Cant Go', description: 'Happy Birthday!', votes: 0, voters: [], link: 'https://www.theingredients.io/coffee' },
-  ],
-  lastUpdated: Date.now()
-}
-
-// KV keys
-const POLL_DATA_KEY = 'birthday-poll:data'
-const VOTER_REGISTRY_KEY = 'birthday-poll:voters'
-const COMMENTS_KEY = 'birthday-poll:comments'
-
-// Initialize Redis client (reused across requests)
-let redisClient: ReturnType<typeof createClient> | null = null
-
-// Get or create Redis client
-async function getRedisClient() {
-  if (!redisClient) {
-    // Check for various possible Redis environment variable names
-    // Different Redis providers (Vercel KV, Upstash, etc.) use different names
-    const redisUrl = 
-      process.env.KV_REST_API_URL || 
-      process.env.REDIS_URL || 
-      process.env.UPSTASH_REDIS_REST_URL ||
-      process.env.REDIS_REST_URL
-    
-    const redisToken = 
-      process.env.KV_REST_API_TOKEN || 
-      process.env.REDIS_PASSWORD || 
-      process.env.UPSTASH_REDIS_REST_TOKEN ||
-      process.env.REDIS_REST_TOKEN
-    
-    if (redisUrl) {
-      redisClient = createClient({
-        url: redisUrl,
-        ...(redisToken && { password: redisToken }),
-      })
-    } else {
-      // Fallback: try to create client without explicit config
-      // This might work if Redis is configured via other means
-      console.warn('No Redis URL found in environment variables. Attempting default connection.')
-      redisClient = createClient()
-    }
-    
-    redisClient.on('error', (err) => console.error('Redis Client Error', err))
-    
-    if (!redisClient.isOpen) {
-      await redisClient.connect()
-    }
-  }
-  return redisClient
-}
-
-// Helper function to get poll data from Redis
-async function getPollData(): Promise<VoteData> {
-  try {
-    const redis = await getRedisClient()
-    const data = await redis.get(POLL_DATA_KEY)
-    if (data) {
-      return JSON.parse(data as string) as VoteData
-    }
-    // Initialize with default data if not found
-    await savePollData(DEFAULT_POLL_DATA)
-    return DEFAULT_POLL_DATA
-  } catch (error) {
-    console.error('Error getting poll data from Redis:', error)
-    // Return default data if Redis fails
-    return DEFAULT_POLL_DATA
-  }
-}
-
-// Helper function to save poll data to Redis
-async function savePollData(data: VoteData): Promise<void> {
-  try {
-    const redis = await getRedisClient()
-    await redis.set(POLL_DATA_KEY, JSON.stringify(data))
-  } catch (error) {
-    console.error('Error saving poll data to Redis:', error)
-    throw error
-  }
-}
-
-// Helper function to check if voter has already voted
-async function hasVoted(name: string): Promise<boolean> {
-  try {
-    const redis = await getRedisClient()
-    const voterRegistryData = await redis.get(VOTER_REGISTRY_KEY)
-    const voterRegistry = voterRegistryData ? JSON.parse(voterRegistryData as string) as Record<string, string> : {}
-    return name in voterRegistry
-  } catch (error) {
-    console.error('Error checking voter registry:', error)
-    return false
-  }
+  guestCount?: number
 }
 
-// Helper function to get previous vote for a voter
-async function getPreviousVote(name: string): Promise<string | null> {
-  try {
-    const redis = await getRedisClient()
-    const voterRegistryData = await redis.get(VOTER_REGISTRY_KEY)
-    const voterRegistry = voterRegistryData ? JSON.parse(voterRegistryData as string) as Record<string, string> : {}
-    return voterRegistry[name] || null
-  } catch (error) {
-    console.error('Error getting previous vote:', error)
-    return null
-  }
+interface RetractVoteRequest {
+  name: string
 }
 
-// Helper function to register a voter
-async function registerVoter(name: string, restaurantId: string): Promise<void> {
-  try {
-    const redis = await getRedisClient()
-    const voterRegistryData = await redis.get(VOTER_REGISTRY_KEY)
-    const voterRegistry = voterRegistryData ? JSON.parse(voterRegistryData as string) as Record<string, string> : {}
-    voterRegistry[name] = restaurantId
-    await redis.set(VOTER_REGISTRY_KEY, JSON.stringify(voterRegistry))
-  } catch (error) {
-    console.error('Error registering voter:', error)
-    throw error
-  }
+interface CommentRequest {
+  name: string
+  comment: string
 }
 
-// Helper function to get comments
-async function getComments(): Promise<Record<string, string[]>> {
-  try {
-    const redis = await getRedisClient()
-    const commentsData = await redis.get(COMMENTS_KEY)
-    if (!commentsData) return {}
-    
-    const parsed = JSON.parse(commentsData as string)
-    // Migrate old format (single string) to new format (array)
-    const migrated: Record<string, string[]> = {}
-    for (const [name, comment] of Object.entries(parsed)) {
-      if (typeof comment === 'string') {
-        // Old format: single string, convert to array
-        migrated[name] = comment.trim() ? [comment] : []
-      } else if (Array.isArray(comment)) {
-        // New format: already an array
-        migrated[name] = comment.filter((c: string) => c && c.trim())
-      }
-    }
-    return migrated
-  } catch (error) {
-    console.error('Error getting comments:', error)
-    return {}
+// Votes can only be cast, changed or removed while the poll is open (comments are always allowed)
+function closedPollError({ status, opensAt, closesAt }: PollSchedule) {
+  if (status === 'scheduled') {
+    return { error: 'Poll has not opened yet', message: 'Voting has not opened yet', opensAt }
   }
-}
-
-// Helper function to add a comment (supports multiple comments per user)
-async function addComment(name: string, comment: string): Promise<void> {
-  try {
-    const redis = await getRedisClient()
-    const comments = await getComments()
-    
-    // Initialize array if user doesn't have comments yet
-    if (!comments[name]) {
-      comments[name] = []
-    }
-    
-    // Add new comment to the array
-    const sanitizedComment = comment.trim().substring(0, 500)
-    if (sanitizedComment) {
-      comments[name].push(sanitizedComment)
-    }
-    
-    await redis.set(COMMENTS_KEY, JSON.stringify(comments))
-  } catch (error) {
-    console.error('Error saving comment:', error)
-    throw error
+  if (status === 'closed') {
+    return { error: 'Poll is closed', message: 'Voting has closed', closesAt }
   }
+  return null
 }
 
 export default async function handler(
@@ -211,33 +61,47 @@ export default async function handler(
 ) {
   // Enable CORS
   res.setHeader('Access-Control-Allow-Origin', '*')
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, OPTIONS')
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', `Content-Type, ${VOTER_TOKEN_HEADER}, ${INVITE_SESSION_HEADER}`)
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end()
   }
 
+  // Every request works on one event's poll (?eventId=, defaults to the original birthday invite)
+  const eventId = getEventIdFromRequest(req)
+  let ctx: PollContext
+  try {
+    const event = await getEvent(eventId)
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+
+    // Password-protected events only answer guests who unlocked the invite
+    const session = checkInviteSession(req, event)
+    if (!session.ok) {
+      return res.status(session.status).json({ error: session.error })
+    }
+    ctx = createPollContext(event)
+  } catch (error) {
+    console.error('Error loading event:', error)
+    return res.status(500).json({ error: 'Failed to load event' })
+  }
+
   // GET: Retrieve current poll data
   if (req.method === 'GET') {
     try {
-      const pollData = await getPollData()
-      const comments = await getComments()
-      
-      // Get voter registry to show who voted for what
-      let voterRegistry: Record<string, string> = {}
-      try {
-        const redis = await getRedisClient()
-        const voterRegistryData = await redis.get(VOTER_REGISTRY_KEY)
-        voterRegistry = voterRegistryData ? JSON.parse(voterRegistryData as string) as Record<string, string> : {}
-      } catch (error) {
-        console.error('Error getting voter registry:', error)
-      }
+      const { pollData, voterRegistry, voterBallots, results, summary } = await getPollSnapshot(ctx)
+      const comments = await getComments(ctx)
       
       return res.status(200).json({
         ...pollData,
         comments,
-        voterRegistry // Map of name -> restaurantId
+        voterRegistry, // Map of name -> restaurantId (first pick)
+        voterBallots, // Map of name -> every pick, in order
+        mode: getPollMode(ctx.event),
+        results, // Round-by-round tally for the poll's mode
+        summary // Winner and final standings
       })
     } catch (error) {
       console.error('Error getting poll data:', error)
@@ -250,84 +114,184 @@ export default async function handler(
   // POST: Submit a vote
   if (req.method === 'POST') {
     try {
-      const { restaurantId, name, guestCount = 0, comment }: VoteRequest = req.body
+      const { restaurantId, choices, name, guestCount = 0, comment }: VoteRequest = req.body
 
       // Validate input
-      if (!restaurantId || !name || typeof name !== 'string' || name.trim() === '') {
+      if ((!restaurantId && !choices) || !name || typeof name !== 'string' || name.trim() === '') {
         return res.status(400).json({ 
           error: 'Restaurant ID and name are required' 
         })
       }
 
-      const sanitizedName = name.trim()
       const guests = Math.max(0, Math.min(50, Math.floor(guestCount || 0))) // Clamp between 0-50
-      const totalPeople = 1 + guests
 
-      // Get current poll data
-      const pollData = await getPollData()
+      const pollData = await getPollData(ctx)
+      const closed = closedPollError(pollData)
+      if (closed) {
+        return res.status(403).json(closed)
+      }
+
+      // Check the picks against the poll's options and mode
+      const parsed = createBallot(getPollMode(ctx.event), choices ?? [restaurantId], pollData.restaurants.map(r => r.id))
+      if ('error' in parsed) {
+        return res.status(parsed.error === 'Restaurant not found' ? 404 : 400).json({ 
+          error: parsed.error 
+        })
+      }
+
+      // Identify the voter (first vote claims the name and issues a voter token)
+      const resolution = await resolveVoter(req, eventId, name)
+      if (!resolution.ok) {
+        const { status, ...body } = resolution
+        return res.status(status).json(body)
+      }
+      const { voter, issuedToken } = resolution
 
-      // Check if this person has already voted
-      if (await hasVoted(sanitizedName)) {
-        const previousVote = await getPreviousVote(sanitizedName)
-        const restaurantName = pollData.restaurants.find(r => r.id === previousVote)?.name || 'a restaurant'
+      // Register the voter and count their party in one atomic step
+      const previousVote = await castVote(ctx, voter, parsed.ballot, guests)
+      if (previousVote) {
+        const restaurantName = pollData.restaurants.find(r => r.id === previousVote.restaurantId)?.name || 'a restaurant'
         return res.status(409).json({ 
           error: 'You have already voted',
-          previousVote: previousVote,
-          message: `You already voted for ${restaurantName}`
+          previousVote: previousVote.restaurantId,
+          message: `You already voted for ${restaurantName}`,
+          voterName: voter.name,
+          ...(issuedToken && { voterToken: issuedToken })
+        })
+      }
+
+      // Save comment if provided
+      if (comment && comment.trim()) {
+        await addComment(ctx, voter.name, comment)
+      }
+
+      const [snapshot, comments] = await Promise.all([getPollSnapshot(ctx), getComments(ctx)])
+
+      // Let everyone watching the poll see the new vote (and comment)
+      await Promise.all([
+        publishLiveUpdate(eventId, pollUpdateFrom(snapshot)),
+        comment && comment.trim() ? publishLiveUpdate(eventId, { type: 'comments', comments }) : undefined,
+      ])
+
+      return res.status(200).json({
+        success: true,
+        message: 'Vote recorded successfully',
+        ...snapshot,
+        comments,
+        voterName: voter.name,
+        ...(issuedToken && { voterToken: issuedToken })
+      })
+    } catch (error) {
+      console.error('Error submitting vote:', error)
+      return res.status(500).json({ 
+        error: 'Failed to submit vote',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  // PUT: Change an existing vote to other picks
+  if (req.method === 'PUT') {
+    try {
+      const { restaurantId, choices, name, guestCount }: ChangeVoteRequest = req.body
+
+      // Validate input
+      if (!restaurantId && !choices) {
+        return res.status(400).json({ 
+          error: 'Restaurant ID is required' 
+        })
+      }
+
+      // Only the voter's own token can change their vote
+      const resolution = await resolveVoter(req, eventId, name, { allowClaim: false })
+      if (!resolution.ok) {
+        const { status, ...body } = resolution
+        return res.status(status).json(body)
+      }
+      const { voter } = resolution
+
+      // Keep the current guest count unless a new one is provided
+      const guests = guestCount === undefined || guestCount === null
+        ? undefined
+        : Math.max(0, Math.min(50, Math.floor(Number(guestCount) || 0))) // Clamp between 0-50
+
+      const pollData = await getPollData(ctx)
+      const closed = closedPollError(pollData)
+      if (closed) {
+        return res.status(403).json(closed)
+      }
+
+      const parsed = createBallot(getPollMode(ctx.event), choices ?? [restaurantId], pollData.restaurants.map(r => r.id))
+      if ('error' in parsed) {
+        return res.status(parsed.error === 'Restaurant not found' ? 404 : 400).json({ 
+          error: parsed.error 
         })
       }
 
-      // Find the restaurant
-      const restaurant = pollData.restaurants.find(r => r.id === restaurantId)
-      if (!restaurant) {
+      const previousVote = await changeVote(ctx, voter, parsed.ballot, guests)
+      if (!previousVote) {
         return res.status(404).json({ 
-          error: 'Restaurant not found' 
+          error: 'No vote found',
+          message: 'You have not voted yet'
         })
       }
 
-      // Update the vote
-      const updatedRestaurants = pollData.restaurants.map(r => {
-        if (r.id === restaurantId) {
-          const displayName = guests > 0 ? `${sanitizedName} (+${guests})` : sanitizedName
-          return {
-            ...r,
-            votes: r.votes + totalPeople,
-            voters: [...r.voters, displayName]
-          }
-        }
-        return r
+      const snapshot = await getPollSnapshot(ctx)
+      await publishLiveUpdate(eventId, pollUpdateFrom(snapshot))
+
+      return res.status(200).json({
+        success: true,
+        message: 'Vote changed successfully',
+        previousVote: previousVote.restaurantId,
+        ...snapshot
       })
+    } catch (error) {
+      console.error('Error changing vote:', error)
+      return res.status(500).json({ 
+        error: 'Failed to change vote',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
 
-      // Update poll data
-      const updatedPollData: VoteData = {
-        restaurants: updatedRestaurants,
-        lastUpdated: Date.now()
-      }
+  // DELETE: Retract a vote (the voter can vote again afterwards)
+  if (req.method === 'DELETE') {
+    try {
+      const { name }: RetractVoteRequest = req.body || {}
 
-      // Save to KV
-      await savePollData(updatedPollData)
+      const closed = closedPollError(await getPollSchedule(ctx))
+      if (closed) {
+        return res.status(403).json(closed)
+      }
 
-      // Register the voter
-      await registerVoter(sanitizedName, restaurantId)
+      // Only the voter's own token can remove their vote
+      const resolution = await resolveVoter(req, eventId, name, { allowClaim: false })
+      if (!resolution.ok) {
+        const { status, ...body } = resolution
+        return res.status(status).json(body)
+      }
 
-      // Save comment if provided
-      if (comment && comment.trim()) {
-        const sanitizedComment = comment.trim().substring(0, 500) // Max 500 characters
-        await saveComment(sanitizedName, sanitizedComment)
+      const previousVote = await retractVote(ctx, resolution.voter.id)
+      if (!previousVote) {
+        return res.status(404).json({ 
+          error: 'No vote found',
+          message: 'You have not voted yet'
+        })
       }
 
-      const comments = await getComments()
+      const snapshot = await getPollSnapshot(ctx)
+      await publishLiveUpdate(eventId, pollUpdateFrom(snapshot))
 
       return res.status(200).json({
         success: true,
-        message: 'Vote recorded successfully',
-        pollData: updatedPollData,
-        comments
+        message: 'Vote removed successfully',
+        previousVote: previousVote.restaurantId,
+        ...snapshot
       })
     } catch (error) {
-      console.error('Error submitting vote:', error)
+      console.error('Error removing vote:', error)
       return res.status(500).json({ 
-        error: 'Failed to submit vote',
+        error: 'Failed to remove vote',
         message: error instanceof Error ? error.message : 'Unknown error'
       })
     }
@@ -339,30 +303,31 @@ export default async function handler(
       const { name, comment }: CommentRequest = req.body
 
       // Validate input
-      if (!name || typeof name !== 'string' || name.trim() === '') {
-        return res.status(400).json({ 
-          error: 'Name is required' 
-        })
-      }
-
       if (!comment || typeof comment !== 'string' || !comment.trim()) {
         return res.status(400).json({ 
           error: 'Comment is required' 
         })
       }
 
-      const sanitizedName = name.trim()
-
       // Allow comments from anyone with a name (no voting requirement)
-      // Add new comment (supports multiple comments per user)
-      await addComment(sanitizedName, comment)
+      // First comment claims the name and issues a voter token, like a first vote
+      const resolution = await resolveVoter(req, eventId, name)
+      if (!resolution.ok) {
+        const { status, ...body } = resolution
+        return res.status(status).json(body)
+      }
+      const { voter, issuedToken } = resolution
 
-      const comments = await getComments()
+      // Add new comment (supports multiple comments per user)
+      const comments = await addComment(ctx, voter.name, comment)
+      await publishLiveUpdate(eventId, { type: 'comments', comments })
 
       return res.status(200).json({
         success: true,
         message: 'Comment added successfully',
-        comments
+        comments,
+        voterName: voter.name,
+        ...(issuedToken && { voterToken: issuedToken })
       })
     } catch (error) {
       console.error('Error adding comment:', error)
@@ -0,0 +1,117 @@
+// Built-in Events
+// Events that ship with the code. Hosts can add more (or override these) through /api/events,
+// which stores them in Redis, so a new party doesn't need a deploy.
+
+import type { EventDefinition } from './event-store'
+
+// The original birthday invite (was hard-coded at /jda11202025 before events existed)
+// Its poll, comments and games live under the original un-prefixed storage keys
+export const LEGACY_EVENT_ID = 'jda11202025'
+
+function legacyBirthdayEvent(): EventDefinition {
+  return {
+    id: LEGACY_EVENT_ID,
+    title: "Jerome's 39th Birthday Celebration!",
+    startsAt: '2025-11-21T19:30:00-08:00',
+    timeZone: 'America/Los_Angeles',
+    details: ['Dinner reservation at 7:30pm', 'Downtown/Pickle Room post dinner'],
+    venue: {
+      name: `Arnoldi's`,
+      link: 'https://www.arnoldis.com/',
+      menuUrl: 'https://www.arnoldis.com/popmenu-order/arnoldis-cafe/menus/menu-online-ordering',
+    },
+    menu: [
+      {
+        name: 'Appetizers',
+        items: [
+          { name: 'Shrimp Gamberi', description: 'Sautéed grilled shrimp served in a spicy white wine tomato sauce', price: '$26.00' },
+          { name: 'Calamari Fritti', description: 'Fried wild calamari served with a spicy tomato sauce', price: '$25.00' },
+          { name: 'Pane Aglio', description: 'Garlic bread served with our arrabiata dipping sauce', price: '$16.00' },
+          { name: 'Arancini', description: 'Fried Italian balls stuffed with mozz cheese served with dipping sauce', price: '$18.00' },
+          { name: 'Pizzeta Olive Oil', price: '$18.00' },
+          { name: 'Pizzetta Rosemary', description: 'Oval pinsa with rosemary and EVOO', price: '$18.00' },
+          { name: 'Flor di Zucca', description: 'Fried zucchini blossoms filled with mascarpone and ricotta cheese served with spicy tomato arrabiatta sauce', price: '$18.00' },
+          { name: 'Pizzeta', price: '$18.00' },
+          { name: 'Burrata in Carrozza', description: 'Fried breaded burrata cheese in a sun dried tomato and spicy tomato sauce in a small cast iron pan, served with garlic bread', price: '$22.00' },
+        ]
+      },
+      {
+        name: 'Secondi Piatti - Meat Entrees',
+        items: [
+          { name: 'Salmone alla Griglia', description: 'Fresh salmon fillet marinated in herbs drizzled with extra virgin olive oil served with our midnight pasta and spinach', price: '$45.00' },
+          { name: 'Tuscan Chicken', description: 'Grilled chicken breast topped with sundried tomato alfredo sauce served with spaghetti in your choice of pomodoro sauce or alfredo sauce', price: '$35.00' },
+          { name: 'Milanese de Norte', description: 'Thinly pounded meat, breaded, sautéed, then finished with a drizzle of fresh squeezed lemon juice served with spaghetti pomodoro', price: '$39.00+' },
+          { name: 'Chicken Parmesan', description: 'Breaded chicken breast topped with tomato sauce and mozzarella cheese served with spaghetti pomodoro', price: '$36.00' },
+          { name: 'Chicken Picatta', description: 'Chicken picatta with linguine alfredo', price: '$33.00+' },
+          { name: 'Chicken Marsala', description: 'Sauteed chicken with marsala mushroom sauce, served with linguine alfredo', price: '$36.00' },
+        ]
+      },
+      {
+        name: 'Pastas',
+        items: [
+          { name: 'Spaghetti Carbonara', description: 'Spaghetti with an egg, cream, Pancetta and cheese sauce', price: '$19.00+' },
+          { name: 'Penne All\'Arrabbiata', description: 'Quill shaped pasta in a spicy tomato and garlic sauce', price: '$28.00+' },
+          { name: 'Lasagne alla Bolognese', description: 'Homemade meat lasagna in a pomodoro sauce', price: '$35.00' },
+          { name: 'Spaghetti alle Vongole', description: 'Spaghetti with fresh clams in a choice of white wine or our tomato sauce', price: '$30.00+' },
+          { name: 'Spaghetti ai Frutti di Mare', description: 'Spaghetti with fresh assorted seafood in a light spicy tomato sauce', price: '$24.00+' },
+          { name: 'Pasta al Pomodoro', description: 'Your choice of pasta in our traditional fresh tomato and basil sauce', price: '$26.00+' },
+          { name: 'Linguine Primavera', description: 'Fresh seasoned vegetables, garlic extra virgin olive oil and fresh herbs', price: '$31.00+' },
+          { name: 'Rotolo di Ricotta e Spinaci', description: 'Housemade pasta filled with ricotta and spinach in a spinach sauce', price: '$30.00' },
+          { name: 'Spaghetti alla Bolognese', description: 'Spaghetti with housemade meatballs in a ragù sauce', price: '$32.00+' },
+          { name: 'Penne Filanti al Quattro Formaggi', description: 'Quill shaped pasta in a cream sauce with Parmesan, Mozzarella and Pecorino cheese, prosciutto cotto and walnuts', price: '$32.00+' },
+          { name: 'Linguine al Pesto', description: 'Pasta in a traditional Genovese basil and pine nut pesto sauce', price: '$18.00+' },
+          { name: 'Gnocchi Tricolore', description: 'Traditional housemade potato dumplings in a Pomodoro, Gorgonzola and Pesto sauce', price: '$35.00+' },
+          { name: 'Ravioli Di Carne', description: 'Short rib ravioli in a gorgonzola cream sauce', price: '$35.00' },
+          { name: 'Pasta al Pomodoro (1)', description: 'Your choice of pasta in our traditional fresh tomato and basil sauce', price: '$28.00' },
+          { name: 'Pinsa EVOO/Rosemary Garlic Sauce', price: '$18.00' },
+          { name: 'Pinsa Pesto Sauce', price: '$18.00' },
+          { name: 'Pinsa White Sauce and Onions', price: '$18.00' },
+        ]
+      },
+      {
+        name: 'Desserts',
+        items: [
+          { name: 'Coffee Tiramisu', description: 'Traditional Coffee Tiramisu', price: '$14.00' },
+          { name: 'Chocolate Mousse', price: '$12.00' },
+          { name: 'Passion Fruit Sorbet', price: '$12.00' },
+          { name: 'Gelato', description: 'Vanilla bean gelato with a choice of chocolate or strawberry sauce', price: '$12.00' },
+          { name: 'Vanilla Gelato with Strawberry', price: '$12.00' },
+          { name: 'Cannoli', description: 'Fresh stuffed mini cannoli shells', price: '$14.00' },
+          { name: 'Cheesecake Monterosa', description: 'Creamy mix of mascarpone and ricotta cheese, divided by a delicate layer of sponge cake, topped with wild strawberries', price: '$14.00' },
+          { name: 'Gluten Free Rosso Velvet', description: 'Alternating layers of gluten free red heid mini chocolate sponge cake, and cream cheese icing topped with gluten free crumbs', price: '$12.00' },
+          { name: 'Limoncello Truffle', description: 'Lemon gelato ball with limoncello in the center', price: '$12.00' },
+          { name: 'Cappucino Gelato Ball', description: 'Italian coffee gelato with espresso core', price: '$8.00' },
+          { name: 'Lemon Blueberry Crumb Cheesecake', price: '$14.00' },
+        ]
+      },
+      {
+        name: 'Beverages',
+        items: [
+          { name: 'Shirley Temple', price: '$4.00' },
+          { name: 'Roy Roger', price: '$4.00' },
+          { name: 'Soda', price: '$4.00' },
+          { name: 'Coffee Regular', price: '$4.00' },
+        ]
+      },
+    ],
+    pollOptions: [
+      { id: '1', name: `Arnoldi's`, description: 'Italian cuisine', link: 'https://www.arnoldis.com/' },
+      { id: '2', name: 'La Paloma', description: 'Mexican cuisine', link: 'https://lapalomasb.com/' },
+      { id: '3', name: 'Third Window Brewery', description: 'American', link: 'https://www.thirdwindowbrewing.com/' },
+      { id: '4', name: 'SB Public Market', description: 'American/Mexican/Japanese/Korean', link: 'https://www.sbpublicmarket.com/' },
+      { id: '5', name: 'M Special', description: 'American', link: 'https://mspecialbrewco.com/' },
+      { id: '6', name: 'Cant Go', description: 'Happy Birthday!', link: 'https://www.theingredients.io/coffee' },
+    ],
+    payment: {
+      message: "I very much appreciate you coming and celebrating my 39th birthday! There's nothing better than having family and friends to celebrate. I made this to help pay the bill for the night. I hope this works!",
+      venmoUsername: 'Agustinjd',
+      zelleRecipient: 'jerome.agustin@example.com',
+      zelleName: 'Jerome Agustin',
+    },
+    passwordEnv: 'BIRTHDAY_INVITE_PASSWORD',
+  }
+}
+
+export function getBuiltInEvents(): EventDefinition[] {
+  return [legacyBirthdayEvent()]
+}
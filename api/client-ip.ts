@@ -0,0 +1,18 @@
+import type { VercelRequest } from '@vercel/node'
+
+export function getClientIP(req: VercelRequest): string {
+  // Try to get real IP from various headers (Vercel, Cloudflare, etc.)
+  const forwarded = req.headers['x-forwarded-for']
+  if (forwarded) {
+    const ips = Array.isArray(forwarded) ? forwarded[0] : forwarded
+    return ips.split(',')[0].trim()
+  }
+  
+  const realIP = req.headers['x-real-ip']
+  if (realIP) {
+    return Array.isArray(realIP) ? realIP[0] : realIP
+  }
+  
+  // Fallback to connection remote address
+  return req.socket?.remoteAddress || 'unknown'
+}
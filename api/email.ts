@@ -0,0 +1,69 @@
+// Email
+// Sends mail through Twilio SendGrid, shared by the vote notification and poll results emails.
+// Configuration: TWILIO_SENDGRID_API_KEY, plus optional TWILIO_FROM_EMAIL / TWILIO_FROM_NAME
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export type EmailResult =
+  | { ok: true; messageId: string }
+  | { ok: false; error: string }
+
+// Makes text safe to put in an email's HTML (event titles, restaurant names and the like are user input)
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export async function sendEmail({ to, subject, html, text }: EmailMessage): Promise<EmailResult> {
+  // Get Twilio SendGrid API key
+  const sendGridApiKey = process.env.TWILIO_SENDGRID_API_KEY
+  if (!sendGridApiKey) {
+    console.error('TWILIO_SENDGRID_API_KEY environment variable not set')
+    return { ok: false, error: 'Email service not configured' }
+  }
+
+  // Get from email address
+  const fromEmail = process.env.TWILIO_FROM_EMAIL || 'notifications@yourdomain.com'
+  const fromName = process.env.TWILIO_FROM_NAME || 'Birthday Poll'
+
+  // Send email via Twilio SendGrid
+  const emailResponse = await fetch('https://api.sendgrid.com/v3/mail/send', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${sendGridApiKey}`,
+    },
+    body: JSON.stringify({
+      personalizations: [{
+        to: [{ email: to }],
+        subject,
+      }],
+      from: {
+        email: fromEmail,
+        name: fromName,
+      },
+      content: [
+        { type: 'text/html', value: html },
+        { type: 'text/plain', value: text },
+      ],
+    }),
+  })
+
+  if (!emailResponse.ok) {
+    const errorData = await emailResponse.text()
+    console.error('Twilio SendGrid API error:', emailResponse.status, errorData)
+    return { ok: false, error: 'Failed to send email notification' }
+  }
+
+  // SendGrid returns 202 Accepted on success (no body)
+  return { ok: true, messageId: emailResponse.headers.get('x-message-id') || 'unknown' }
+}
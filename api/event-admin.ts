@@ -0,0 +1,496 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getEvent, getEventIdFromRequest, type EventDefinition } from './event-store'
+import { checkHostRequest } from './host-auth'
+import { getQueryValue } from './query'
+import { releaseVoterName } from './voter-identity'
+import {
+  ballotChoices,
+  createPollContext,
+  getComments,
+  getPollData,
+  getPollSnapshot,
+  getVoterRegistry,
+  removeComment,
+  resetVotes,
+  retractVote,
+  savePollOptions,
+  savePollSchedule,
+  type PollContext,
+  type RestaurantOption,
+} from './poll-store'
+import { buildGamesUpdate, buildLiveSnapshot, buildPlaylistUpdate, publishLiveUpdate } from './live-updates'
+import {
+  getPollClosedNoticeTime,
+  isPollClosedEmailEnabled,
+  notifyPollClosed,
+  resetPollClosedNotice,
+} from './poll-close-notification'
+import {
+  advanceTrivia,
+  getGOATSubmissions,
+  getSubmissions,
+  getTriviaRound,
+  isWhichOnesFalseRevealed,
+  revealWhichOnesFalse,
+  saveTriviaQuestions,
+} from './games-store'
+import { parseTriviaQuestionSet } from './trivia'
+import { clearGameSubmissions, GAME_TYPES, getGameDefinition, isGameType, type GameType } from './game-definitions'
+import { getRevealedAuthors } from './guess-who'
+import { clearPlaylist, getPlaylist, playNextSong, removeSong } from './playlist-store'
+
+// Host admin API for one event (?eventId=)
+// GET     - everything stored for the event (add ?download=1 to save it as a file)
+// PUT     ?resource=restaurants            - replace the poll options
+// PUT     ?resource=poll-schedule          - set when voting opens and closes ({ opensAt, closesAt }, null for none)
+// PUT     ?resource=trivia                 - load a trivia question set ({ questions, secondsPerQuestion }, starts over)
+// POST    ?resource=poll-close-email       - email the results once the poll has closed (events with pollCloseEmail)
+// POST    ?resource=games-reveal           - reveal every Which One's False answer and the scoreboard (guesses lock)
+// POST    ?resource=reveal-author          - show who wrote one submission and score the guesses on it (&gameType=&voterId=)
+// POST    ?resource=trivia-next            - open the next trivia question on every phone (finishes after the last)
+// POST    ?resource=playlist-next          - play the most-upvoted song (stops the music when the queue is empty)
+// DELETE  ?resource=voter&voterId=         - remove a voter's vote and free their name
+// DELETE  ?resource=comment&name=&index=   - remove one comment
+// DELETE  ?resource=votes                  - clear every vote
+// DELETE  ?resource=games[&gameType=]      - clear game submissions (all games by default)
+// DELETE  ?resource=playlist-song&videoId= - take a song out of the queue
+// DELETE  ?resource=playlist               - clear the queue and stop the music
+
+interface AdminVoter {
+  id: string
+  name: string
+  restaurantId: string
+  choices: string[] // Every pick, in order (approval and ranked polls)
+  guests: number
+  votedAt: number
+}
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+}
+
+// Helper function to mark the submissions (keyed by voter id) whose author the host has revealed
+function withRevealedAuthors<T extends object>(submissions: Record<string, T>, revealedAt: Record<string, number>) {
+  return Object.fromEntries(
+    Object.entries(submissions).map(([voterId, submission]) => [
+      voterId,
+      { ...submission, revealedAt: Object.keys(revealedAt).includes(voterId) ? revealedAt[voterId] : null },
+    ])
+  )
+}
+
+// Helper function to collect everything stored for an event
+async function buildExport(event: EventDefinition, ctx: PollContext) {
+  const [
+    poll, closeEmailSentAt, registry, comments,
+    whichOnesFalse, whichOnesFalseAuthors, whichOnesFalseRevealed, goat, goatAuthors, trivia, playlist,
+  ] = await Promise.all([
+    getPollData(ctx),
+    getPollClosedNoticeTime(ctx),
+    getVoterRegistry(ctx),
+    getComments(ctx),
+    getSubmissions(event.id),
+    getRevealedAuthors(event.id, 'which-ones-false'),
+    isWhichOnesFalseRevealed(event.id),
+    getGOATSubmissions(event.id),
+    getRevealedAuthors(event.id, 'goat'),
+    getTriviaRound(event.id),
+    getPlaylist(event.id),
+  ])
+
+  const voters: AdminVoter[] = Object.entries(registry)
+    .map(([id, record]) => ({
+      id,
+      name: record.name || id,
+      restaurantId: record.restaurantId,
+      choices: ballotChoices(record),
+      guests: record.guests,
+      votedAt: record.votedAt,
+    }))
+    .sort((a, b) => a.votedAt - b.votedAt)
+
+  const { password: _password, passwordEnv: _passwordEnv, ...eventDetails } = event
+
+  return {
+    exportedAt: new Date().toISOString(),
+    event: eventDetails,
+    poll,
+    closeEmail: { enabled: isPollClosedEmailEnabled(ctx), sentAt: closeEmailSentAt },
+    voters,
+    comments,
+    games: {
+      whichOnesFalse: withRevealedAuthors(whichOnesFalse, whichOnesFalseAuthors),
+      whichOnesFalseRevealed,
+      goat: withRevealedAuthors(goat, goatAuthors),
+      trivia,
+    },
+    playlist,
+  }
+}
+
+// Helper function to push the event's new state to guests watching live
+async function publishChanges(ctx: PollContext) {
+  const updates = await buildLiveSnapshot(ctx)
+  await Promise.all(updates.map(update => publishLiveUpdate(ctx.event.id, update)))
+}
+
+// Validate restaurant options sent by a host
+function parseRestaurantOptions(raw: unknown): RestaurantOption[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return null
+  }
+
+  const options: RestaurantOption[] = []
+  for (const option of raw) {
+    const id = typeof option?.id === 'string' ? option.id.trim() : ''
+    const name = typeof option?.name === 'string' ? option.name.trim() : ''
+    if (!id || !name) {
+      return null
+    }
+    options.push({
+      id: id.substring(0, 50),
+      name: name.substring(0, 100),
+      ...(typeof option.description === 'string' && option.description.trim() && { description: option.description.trim().substring(0, 200) }),
+      ...(typeof option.link === 'string' && option.link.trim() && { link: option.link.trim() }),
+    })
+  }
+
+  return new Set(options.map(option => option.id)).size === options.length ? options : null
+}
+
+// Validate open/close times sent by a host (null or '' means no time)
+function parsePollSchedule(raw: unknown): { opensAt: string | null; closesAt: string | null } | string {
+  const input = (raw ?? {}) as Record<string, unknown>
+  const schedule: { opensAt: string | null; closesAt: string | null } = { opensAt: null, closesAt: null }
+
+  for (const field of ['opensAt', 'closesAt'] as const) {
+    const value = input[field]
+    if (value === undefined || value === null || value === '') {
+      continue
+    }
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      return `${field} must be an ISO 8601 date`
+    }
+    schedule[field] = new Date(value).toISOString()
+  }
+
+  if (schedule.opensAt && schedule.closesAt && Date.parse(schedule.opensAt) >= Date.parse(schedule.closesAt)) {
+    return 'closesAt must be after opensAt'
+  }
+  return schedule
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Set CORS headers
+  Object.entries(corsHeaders).forEach(([key, value]) => {
+    res.setHeader(key, value)
+  })
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).json({})
+  }
+
+  // Every admin request needs the host token
+  const host = checkHostRequest(req)
+  if (!host.ok) {
+    return res.status(host.status).json({ error: host.error })
+  }
+
+  let event: EventDefinition
+  try {
+    const found = await getEvent(getEventIdFromRequest(req))
+    if (!found) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+    event = found
+  } catch (error) {
+    console.error('Error loading event:', error)
+    return res.status(500).json({ error: 'Failed to load event' })
+  }
+  const ctx = createPollContext(event)
+
+  // GET: Export everything
+  if (req.method === 'GET') {
+    try {
+      const data = await buildExport(event, ctx)
+
+      if (getQueryValue(req, 'download')) {
+        const date = data.exportedAt.substring(0, 10)
+        res.setHeader('Content-Disposition', `attachment; filename="${event.id}-export-${date}.json"`)
+      }
+
+      return res.status(200).json(data)
+    } catch (error) {
+      console.error('Error exporting event data:', error)
+      return res.status(500).json({ error: 'Failed to export event data' })
+    }
+  }
+
+  // PUT: Set when the poll opens and closes
+  if (req.method === 'PUT' && getQueryValue(req, 'resource') === 'poll-schedule') {
+    try {
+      const schedule = parsePollSchedule(req.body)
+      if (typeof schedule === 'string') {
+        return res.status(400).json({ error: schedule })
+      }
+
+      const { status } = await savePollSchedule(ctx, schedule)
+
+      // Closing the poll early sends the results email; reopening lets it go out again later
+      if (status === 'closed') {
+        await notifyPollClosed(ctx, (await getPollSnapshot(ctx)).summary)
+      } else {
+        await resetPollClosedNotice(ctx)
+      }
+
+      await publishChanges(ctx)
+
+      return res.status(200).json({
+        success: true,
+        data: await buildExport(event, ctx)
+      })
+    } catch (error) {
+      console.error('Error saving poll schedule:', error)
+      return res.status(500).json({ error: 'Failed to save poll schedule' })
+    }
+  }
+
+  // POST: Email the results of a poll that closed on schedule
+  if (req.method === 'POST' && getQueryValue(req, 'resource') === 'poll-close-email') {
+    try {
+      if (!isPollClosedEmailEnabled(ctx)) {
+        return res.status(400).json({ error: 'This event does not send a results email' })
+      }
+
+      const { summary } = await getPollSnapshot(ctx)
+      if (summary.status !== 'closed') {
+        return res.status(409).json({ error: 'The poll has not closed yet' })
+      }
+
+      if (!(await notifyPollClosed(ctx, summary))) {
+        return res.status(502).json({ error: 'Failed to send the results email' })
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: await buildExport(event, ctx)
+      })
+    } catch (error) {
+      console.error('Error sending poll results email:', error)
+      return res.status(500).json({ error: 'Failed to send the results email' })
+    }
+  }
+
+  // PUT: Load a trivia question set
+  if (req.method === 'PUT' && getQueryValue(req, 'resource') === 'trivia') {
+    try {
+      const questionSet = parseTriviaQuestionSet(req.body)
+      if (typeof questionSet === 'string') {
+        return res.status(400).json({ error: questionSet })
+      }
+
+      await saveTriviaQuestions(event.id, questionSet)
+      await publishLiveUpdate(event.id, await buildGamesUpdate(event.id, 'trivia'))
+
+      return res.status(200).json({
+        success: true,
+        data: await buildExport(event, ctx)
+      })
+    } catch (error) {
+      console.error('Error saving trivia questions:', error)
+      return res.status(500).json({ error: 'Failed to save trivia questions' })
+    }
+  }
+
+  // POST: Reveal the Which One's False answers and scoreboard to every player
+  if (req.method === 'POST' && getQueryValue(req, 'resource') === 'games-reveal') {
+    try {
+      await revealWhichOnesFalse(event.id)
+      await publishLiveUpdate(event.id, await buildGamesUpdate(event.id, 'which-ones-false'))
+
+      return res.status(200).json({
+        success: true,
+        data: await buildExport(event, ctx)
+      })
+    } catch (error) {
+      console.error('Error revealing answers:', error)
+      return res.status(500).json({ error: 'Failed to reveal answers' })
+    }
+  }
+
+  // POST: Reveal who wrote one submission
+  if (req.method === 'POST' && getQueryValue(req, 'resource') === 'reveal-author') {
+    const gameType = getQueryValue(req, 'gameType')
+    const voterId = getQueryValue(req, 'voterId')
+    if (!isGameType(gameType) || !voterId) {
+      return res.status(400).json({ error: 'gameType and voterId are required' })
+    }
+    const guessWho = getGameDefinition(gameType).guessWho
+    if (!guessWho) {
+      return res.status(400).json({ error: `${gameType} submissions have no authors to reveal` })
+    }
+
+    try {
+      const result = await guessWho.reveal(event.id, voterId)
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error })
+      }
+
+      await publishLiveUpdate(event.id, await buildGamesUpdate(event.id, gameType))
+
+      return res.status(200).json({
+        success: true,
+        data: await buildExport(event, ctx)
+      })
+    } catch (error) {
+      console.error('Error revealing author:', error)
+      return res.status(500).json({ error: 'Failed to reveal the author' })
+    }
+  }
+
+  // POST: Move every phone on to the next trivia question
+  if (req.method === 'POST' && getQueryValue(req, 'resource') === 'trivia-next') {
+    try {
+      const result = await advanceTrivia(event.id)
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error })
+      }
+
+      await publishLiveUpdate(event.id, await buildGamesUpdate(event.id, 'trivia'))
+
+      return res.status(200).json({
+        success: true,
+        data: await buildExport(event, ctx)
+      })
+    } catch (error) {
+      console.error('Error advancing trivia:', error)
+      return res.status(500).json({ error: 'Failed to open the next question' })
+    }
+  }
+
+  // POST: Play the next song in the queue
+  if (req.method === 'POST' && getQueryValue(req, 'resource') === 'playlist-next') {
+    try {
+      await playNextSong(event.id)
+      await publishLiveUpdate(event.id, await buildPlaylistUpdate(event.id))
+
+      return res.status(200).json({
+        success: true,
+        data: await buildExport(event, ctx)
+      })
+    } catch (error) {
+      console.error('Error playing next song:', error)
+      return res.status(500).json({ error: 'Failed to play the next song' })
+    }
+  }
+
+  // PUT: Replace the restaurant options
+  if (req.method === 'PUT') {
+    try {
+      if (getQueryValue(req, 'resource') !== 'restaurants') {
+        return res.status(400).json({ error: 'Unknown resource' })
+      }
+
+      const options = parseRestaurantOptions(req.body?.restaurants)
+      if (!options) {
+        return res.status(400).json({ error: 'Restaurants must be a non-empty list of { id, name } with unique ids' })
+      }
+
+      // Don't drop an option people have voted for (their votes would disappear from the totals)
+      const [pollData, registry] = await Promise.all([getPollData(ctx), getVoterRegistry(ctx)])
+      const pickedIds = new Set(Object.values(registry).flatMap(ballotChoices))
+      const removedWithVotes = pollData.restaurants.filter(r => pickedIds.has(r.id) && !options.some(option => option.id === r.id))
+      if (removedWithVotes.length > 0) {
+        return res.status(409).json({
+          error: 'Restaurant has votes',
+          message: `Remove the votes for ${removedWithVotes.map(r => r.name).join(', ')} before deleting it`
+        })
+      }
+
+      await savePollOptions(ctx, options)
+
+      await publishChanges(ctx)
+
+      return res.status(200).json({
+        success: true,
+        data: await buildExport(event, ctx)
+      })
+    } catch (error) {
+      console.error('Error saving restaurants:', error)
+      return res.status(500).json({ error: 'Failed to save restaurants' })
+    }
+  }
+
+  // DELETE: Moderation and clean-up
+  if (req.method === 'DELETE') {
+    try {
+      const resource = getQueryValue(req, 'resource')
+
+      if (resource === 'voter') {
+        const voterId = getQueryValue(req, 'voterId')
+        if (!voterId) {
+          return res.status(400).json({ error: 'voterId is required' })
+        }
+
+        const [removedVote, releasedName] = await Promise.all([
+          retractVote(ctx, voterId),
+          releaseVoterName(event.id, voterId),
+        ])
+        if (!removedVote && !releasedName) {
+          return res.status(404).json({ error: 'Voter not found' })
+        }
+      } else if (resource === 'comment') {
+        const name = getQueryValue(req, 'name')
+        const index = Number(getQueryValue(req, 'index'))
+        if (!name || !Number.isInteger(index)) {
+          return res.status(400).json({ error: 'name and index are required' })
+        }
+
+        if (!(await removeComment(ctx, name, index))) {
+          return res.status(404).json({ error: 'Comment not found' })
+        }
+      } else if (resource === 'votes') {
+        await resetVotes(ctx)
+      } else if (resource === 'games') {
+        const gameType = getQueryValue(req, 'gameType')
+        if (gameType && !isGameType(gameType)) {
+          return res.status(400).json({ error: `gameType must be one of: ${GAME_TYPES.join(', ')}` })
+        }
+
+        await clearGameSubmissions(event.id, gameType as GameType | undefined)
+      } else if (resource === 'playlist-song') {
+        const videoId = getQueryValue(req, 'videoId')
+        if (!videoId) {
+          return res.status(400).json({ error: 'videoId is required' })
+        }
+
+        if (!(await removeSong(event.id, videoId))) {
+          return res.status(404).json({ error: 'Song not found' })
+        }
+      } else if (resource === 'playlist') {
+        await clearPlaylist(event.id)
+      } else {
+        return res.status(400).json({ error: 'Unknown resource' })
+      }
+
+      await publishChanges(ctx)
+
+      return res.status(200).json({
+        success: true,
+        data: await buildExport(event, ctx)
+      })
+    } catch (error) {
+      console.error('Error deleting event data:', error)
+      return res.status(500).json({ error: 'Failed to delete' })
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,179 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getEvent, getEventIdFromRequest, type EventDefinition } from './event-store'
+import { checkInviteSession, INVITE_SESSION_HEADER } from './invite-session'
+import { getQueryValue } from './query'
+import { createPollContext, getComments, getPollSnapshot, type PollSummary } from './poll-store'
+import { getGameDefinition, type GameState } from './game-definitions'
+import type { TriviaScore } from './games-store'
+
+// Event recap: the party's results for guests to keep once it's over (?eventId=)
+// GET                 - poll results, comments and every game's results as JSON
+// GET ?format=csv     - the same as one CSV sheet (section, player, entry, value)
+// Add ?download=1 to save either as a file. The recap shows what guests could see at the party:
+// game authors stay anonymous unless they were revealed, and answers only show once revealed.
+// Hosts get everything stored, including each voter's ballot, from ./event-admin instead.
+
+export interface EventRecap {
+  generatedAt: string
+  event: Pick<EventDefinition, 'id' | 'title' | 'startsAt' | 'timeZone' | 'venue'>
+  poll: PollSummary
+  comments: Record<string, string[]>
+  games: {
+    whichOnesFalse: GameState<'which-ones-false'>
+    goat: GameState<'goat'>
+    trivia: { questionCount: number; leaderboard: TriviaScore[] }
+  }
+}
+
+type CsvRow = [section: string, player: string, entry: string, value: string | number]
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': `Content-Type, ${INVITE_SESSION_HEADER}`,
+}
+
+async function buildRecap(event: EventDefinition): Promise<EventRecap> {
+  const ctx = createPollContext(event)
+  const [{ summary }, comments, whichOnesFalse, goat, trivia] = await Promise.all([
+    getPollSnapshot(ctx),
+    getComments(ctx),
+    getGameDefinition('which-ones-false').getState(event.id),
+    getGameDefinition('goat').getState(event.id),
+    getGameDefinition('trivia').getState(event.id),
+  ])
+
+  return {
+    generatedAt: new Date().toISOString(),
+    event: {
+      id: event.id,
+      title: event.title,
+      startsAt: event.startsAt,
+      ...(event.timeZone && { timeZone: event.timeZone }),
+      venue: event.venue,
+    },
+    poll: summary,
+    comments,
+    games: {
+      whichOnesFalse,
+      goat,
+      trivia: { questionCount: trivia.questionCount, leaderboard: trivia.leaderboard },
+    },
+  }
+}
+
+// Quotes a CSV field when needed; fields a spreadsheet would run as a formula get a leading quote
+function csvField(value: string | number): string {
+  let text = String(value)
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Submissions are listed in the order they came in; unrevealed authors are numbered like on the big screen
+function byPlayerNumber<T extends { playerName?: string; submittedAt: number }>(submissions: Record<string, T>) {
+  return Object.values(submissions)
+    .sort((a, b) => a.submittedAt - b.submittedAt)
+    .map((submission, index) => ({ ...submission, player: submission.playerName ?? `Player ${index + 1}` }))
+}
+
+function recapToCsv({ poll, comments, games }: EventRecap): string {
+  const rows: CsvRow[] = [['section', 'player', 'entry', 'value']]
+
+  for (const standing of poll.standings) {
+    rows.push(['poll', '', standing.name, standing.people])
+  }
+  for (const [name, list] of Object.entries(comments)) {
+    for (const comment of list) {
+      rows.push(['comment', name, comment, ''])
+    }
+  }
+
+  const { whichOnesFalse, goat, trivia } = games
+  for (const submission of byPlayerNumber(whichOnesFalse.submissions)) {
+    submission.statements.forEach((statement, index) => {
+      const answer = submission.falseIndex === undefined ? '' : submission.falseIndex === index ? 'false' : 'true'
+      rows.push(['which-ones-false', submission.player, statement, answer])
+    })
+  }
+  for (const entry of whichOnesFalse.scoreboard ?? []) {
+    rows.push(['which-ones-false-score', entry.playerName, `${entry.guessed} guessed`, entry.correct])
+  }
+
+  for (const submission of byPlayerNumber(goat.submissions)) {
+    submission.movies.forEach((movie, index) => {
+      rows.push(['goat', submission.player, movie, index + 1])
+    })
+  }
+  for (const movie of goat.leaderboard) {
+    rows.push(['goat-leaderboard', movie.nominators.join('; '), movie.title, movie.votes])
+  }
+
+  for (const entry of trivia.leaderboard) {
+    rows.push(['trivia', entry.playerName, `${entry.correct} correct`, entry.points])
+  }
+
+  for (const [label, guessWho] of [['which-ones-false-guess-who', whichOnesFalse.guessWho], ['goat-guess-who', goat.guessWho]] as const) {
+    for (const entry of guessWho.scoreboard) {
+      rows.push([label, entry.playerName, `${entry.guessed} guessed`, entry.correct])
+    }
+  }
+
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).json({})
+  }
+
+  // Set CORS headers
+  Object.entries(corsHeaders).forEach(([key, value]) => {
+    res.setHeader(key, value)
+  })
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const format = getQueryValue(req, 'format') ?? 'json'
+  if (format !== 'json' && format !== 'csv') {
+    return res.status(400).json({ error: 'format must be json or csv' })
+  }
+
+  const eventId = getEventIdFromRequest(req)
+  try {
+    const event = await getEvent(eventId)
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+
+    // Password-protected events only answer guests who unlocked the invite
+    const session = checkInviteSession(req, event)
+    if (!session.ok) {
+      return res.status(session.status).json({ error: session.error })
+    }
+
+    const recap = await buildRecap(event)
+
+    if (getQueryValue(req, 'download')) {
+      const date = recap.generatedAt.substring(0, 10)
+      res.setHeader('Content-Disposition', `attachment; filename="${event.id}-recap-${date}.${format}"`)
+    }
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+      return res.status(200).send(recapToCsv(recap))
+    }
+    return res.status(200).json(recap)
+  } catch (error) {
+    console.error('Error building event recap:', error)
+    return res.status(500).json({ error: 'Failed to build event recap' })
+  }
+}
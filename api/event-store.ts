@@ -0,0 +1,253 @@
+// Event Store
+// An event is one party: its invite details, menu, poll options and password.
+// Built-in events ship with the code (./builtin-events); hosts can add or override
+// events through /api/events, which stores them under events:<id>.
+// Every event-scoped handler reads ?eventId= and keeps its data under per-event keys.
+
+import type { VercelRequest } from '@vercel/node'
+import { createJsonRepository, getStorage, namespacedKey, type StorageScript } from './storage'
+import { getBuiltInEvents, LEGACY_EVENT_ID } from './builtin-events'
+
+export interface MenuItem {
+  name: string
+  description?: string
+  price: string
+}
+
+export interface MenuCategory {
+  name: string
+  items: MenuItem[]
+}
+
+export interface EventVenue {
+  name: string
+  address?: string
+  link?: string
+  menuUrl?: string // "View full menu" link under the menu
+}
+
+export interface PollOption {
+  id: string
+  name: string
+  description?: string
+  link?: string
+}
+
+// How the restaurant poll is counted
+// - plurality: one pick per guest (the original poll)
+// - approval: guests pick every option they'd be happy with
+// - ranked: guests rank the options and the winner is found by instant runoff
+export const POLL_MODES = ['plurality', 'approval', 'ranked'] as const
+export type PollMode = typeof POLL_MODES[number]
+
+// Optional "Help Pay Bill" details
+export interface EventPayment {
+  message: string
+  venmoUsername?: string
+  zelleRecipient?: string
+  zelleName?: string
+}
+
+export interface EventDefinition {
+  id: string
+  title: string
+  startsAt: string // ISO 8601 date-time with offset, e.g. 2025-11-21T19:30:00-08:00
+  timeZone?: string // IANA zone used to display startsAt
+  details?: string[] // Extra lines shown under the date
+  venue: EventVenue
+  menu: MenuCategory[]
+  pollOptions: PollOption[]
+  pollMode?: PollMode // Defaults to plurality
+  pollOpensAt?: string // ISO 8601; votes are refused before this (hosts can override it in the admin console)
+  pollClosesAt?: string // ISO 8601; votes are refused after this and the winner is locked in
+  pollCloseEmail?: boolean // Email the results to BIRTHDAY_POLL_NOTIFICATION_EMAIL when the poll closes
+  payment?: EventPayment
+  password?: string // Invite password (no password or passwordEnv = open invite)
+  passwordEnv?: string // Environment variable holding the password (keeps built-in passwords out of the code)
+}
+
+// What guests get: everything except the password
+export type PublicEvent = Omit<EventDefinition, 'password' | 'passwordEnv'> & { requiresPassword: boolean }
+
+// Requests without an eventId keep working against the original birthday invite
+export const DEFAULT_EVENT_ID = LEGACY_EVENT_ID
+
+const EVENTS_NAMESPACE = 'events'
+// Hash: id of each event created through the API -> first saved timestamp
+const EVENT_IDS_KEY = namespacedKey(EVENTS_NAMESPACE, 'ids')
+
+// Adds an event id to the index (first save time is kept)
+// KEYS: event ids hash; ARGV: event id, timestamp
+const REGISTER_EVENT_SCRIPT: StorageScript = {
+  lua: `return redis.call('HSETNX', KEYS[1], ARGV[1], ARGV[2])`,
+  memory: (store, [idsKey], [id, createdAt]) => {
+    if (store.hGet(idsKey, id) !== null) {
+      return 0
+    }
+    store.hSet(idsKey, id, createdAt)
+    return 1
+  },
+}
+
+const EVENT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/
+
+export function isValidEventId(eventId: unknown): eventId is string {
+  return typeof eventId === 'string' && EVENT_ID_PATTERN.test(eventId)
+}
+
+// Storage key for event-scoped data, e.g. eventKey('birthday-poll', 'bbq-2026', 'data') -> 'birthday-poll:bbq-2026:data'
+// The legacy event keeps its original keys ('birthday-poll:data') so existing votes and comments carry over
+export function eventKey(namespace: string, eventId: string, ...parts: string[]): string {
+  return eventId === LEGACY_EVENT_ID
+    ? namespacedKey(namespace, ...parts)
+    : namespacedKey(namespace, eventId, ...parts)
+}
+
+function eventRepository(eventId: string) {
+  return createJsonRepository<EventDefinition | null>({
+    key: namespacedKey(EVENTS_NAMESPACE, eventId),
+    initial: () => null,
+  })
+}
+
+// Reads the event id from the query string (or the JSON body), defaulting to the legacy event
+export function getEventIdFromRequest(req: VercelRequest): string {
+  const fromQuery = Array.isArray(req.query?.eventId) ? req.query.eventId[0] : req.query?.eventId
+  const eventId = fromQuery ?? req.body?.eventId
+  return typeof eventId === 'string' && eventId.trim() ? eventId.trim().toLowerCase() : DEFAULT_EVENT_ID
+}
+
+// Stored events win over built-in ones with the same id
+export async function getEvent(eventId: string): Promise<EventDefinition | null> {
+  if (!isValidEventId(eventId)) {
+    return null
+  }
+
+  const builtIn = getBuiltInEvents().find(event => event.id === eventId) ?? null
+  try {
+    const stored = await eventRepository(eventId).get()
+    // Keep the built-in password source unless the host set a new one
+    return stored && builtIn && !stored.password ? { ...stored, passwordEnv: builtIn.passwordEnv } : stored ?? builtIn
+  } catch (error) {
+    console.error(`Error loading event ${eventId}:`, error)
+    return builtIn
+  }
+}
+
+export async function listEvents(): Promise<EventDefinition[]> {
+  const storage = await getStorage()
+  const storedIds = Object.keys(await storage.hGetAll(EVENT_IDS_KEY))
+  const ids = new Set([...getBuiltInEvents().map(event => event.id), ...storedIds])
+  const events = await Promise.all([...ids].map(getEvent))
+  return events.filter((event): event is EventDefinition => event !== null)
+}
+
+export async function saveEvent(event: EventDefinition): Promise<EventDefinition> {
+  const saved = await eventRepository(event.id).update(() => event)
+  const storage = await getStorage()
+  await storage.runScript(REGISTER_EVENT_SCRIPT, [EVENT_IDS_KEY], [event.id, String(Date.now())])
+  return saved as EventDefinition
+}
+
+export function requiresPassword(event: EventDefinition): boolean {
+  return Boolean(event.password || event.passwordEnv)
+}
+
+// Returns the event's password, or undefined if it's an open invite or the variable isn't set
+export function getEventPassword(event: EventDefinition): string | undefined {
+  return event.password || (event.passwordEnv ? process.env[event.passwordEnv] : undefined)
+}
+
+export function toPublicEvent(event: EventDefinition): PublicEvent {
+  const { password: _password, passwordEnv: _passwordEnv, ...details } = event
+  return { ...details, requiresPassword: requiresPassword(event) }
+}
+
+function isValidTimeZone(timeZone: unknown): boolean {
+  if (typeof timeZone !== 'string') {
+    return false
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function getPollMode(event: EventDefinition): PollMode {
+  return event.pollMode ?? 'plurality'
+}
+
+// Validates an event definition sent by a host
+// Returns the cleaned event, or a list of problems
+export function parseEventDefinition(raw: unknown): { event: EventDefinition } | { errors: string[] } {
+  const errors: string[] = []
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Partial<EventDefinition>
+
+  if (!isValidEventId(input.id)) {
+    errors.push('id must be 1-64 lowercase letters, numbers or dashes')
+  }
+  if (typeof input.title !== 'string' || !input.title.trim()) {
+    errors.push('title is required')
+  }
+  if (typeof input.startsAt !== 'string' || Number.isNaN(Date.parse(input.startsAt))) {
+    errors.push('startsAt must be an ISO 8601 date-time')
+  }
+  if (!input.venue || typeof input.venue.name !== 'string' || !input.venue.name.trim()) {
+    errors.push('venue.name is required')
+  }
+  if (input.menu !== undefined && !Array.isArray(input.menu)) {
+    errors.push('menu must be a list of categories')
+  }
+  if (!Array.isArray(input.pollOptions) || input.pollOptions.some(option => !option?.id || !option?.name)) {
+    errors.push('pollOptions must be a list of { id, name } options')
+  } else if (new Set(input.pollOptions.map(option => option.id)).size !== input.pollOptions.length) {
+    errors.push('pollOptions ids must be unique')
+  }
+  if (input.pollMode !== undefined && !POLL_MODES.includes(input.pollMode)) {
+    errors.push(`pollMode must be one of: ${POLL_MODES.join(', ')}`)
+  }
+  for (const field of ['pollOpensAt', 'pollClosesAt'] as const) {
+    if (input[field] !== undefined && (typeof input[field] !== 'string' || Number.isNaN(Date.parse(input[field]!)))) {
+      errors.push(`${field} must be an ISO 8601 date-time`)
+    }
+  }
+  if (input.pollOpensAt && input.pollClosesAt && Date.parse(input.pollOpensAt) >= Date.parse(input.pollClosesAt)) {
+    errors.push('pollClosesAt must be after pollOpensAt')
+  }
+  if (input.timeZone !== undefined && !isValidTimeZone(input.timeZone)) {
+    errors.push('timeZone must be an IANA time zone, e.g. America/Los_Angeles')
+  }
+  if (input.password !== undefined && typeof input.password !== 'string') {
+    errors.push('password must be a string')
+  }
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+
+  return {
+    event: {
+      id: input.id!,
+      title: input.title!.trim(),
+      startsAt: input.startsAt!,
+      ...(input.timeZone && { timeZone: input.timeZone }),
+      ...(Array.isArray(input.details) && { details: input.details.filter(line => typeof line === 'string') }),
+      venue: input.venue!,
+      menu: input.menu || [],
+      pollOptions: input.pollOptions!.map(({ id, name, description, link }) => ({
+        id: String(id),
+        name,
+        ...(description && { description }),
+        ...(link && { link }),
+      })),
+      ...(input.pollMode && { pollMode: input.pollMode }),
+      ...(input.pollOpensAt && { pollOpensAt: input.pollOpensAt }),
+      ...(input.pollClosesAt && { pollClosesAt: input.pollClosesAt }),
+      ...(input.pollCloseEmail === true && { pollCloseEmail: true }),
+      ...(input.payment && { payment: input.payment }),
+      ...(input.password && { password: input.password }),
+    },
+  }
+}
@@ -0,0 +1,97 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getEvent, getEventIdFromRequest } from './event-store'
+import { checkInviteSession } from './invite-session'
+import { createPollContext } from './poll-store'
+import { buildLiveSnapshot, subscribeToLiveUpdates, type LiveUpdate } from './live-updates'
+
+// Live updates for one event (?eventId=) over Server-Sent Events
+// The stream opens with the current poll, comments and game submissions, then forwards every change.
+// Serverless functions can't run forever, so the stream closes after a while and
+// the browser's EventSource reconnects (and gets a fresh snapshot, covering anything missed).
+
+const STREAM_DURATION_MS = 55 * 1000 // Keep under the function's maxDuration in vercel.json
+const HEARTBEAT_INTERVAL_MS = 20 * 1000 // Stops proxies from closing an idle connection
+const RECONNECT_DELAY_MS = 2000
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS')
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end()
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  let unsubscribe: (() => Promise<void>) | null = null
+  let snapshot: LiveUpdate[]
+  const pending: LiveUpdate[] = []
+  let isStreaming = false
+
+  try {
+    const event = await getEvent(getEventIdFromRequest(req))
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+
+    const session = checkInviteSession(req, event)
+    if (!session.ok) {
+      return res.status(session.status).json({ error: session.error })
+    }
+
+    // Subscribe before reading the snapshot so nothing written in between is lost
+    unsubscribe = await subscribeToLiveUpdates(event.id, (update) => {
+      if (isStreaming) {
+        sendUpdate(res, update)
+      } else {
+        pending.push(update)
+      }
+    })
+    snapshot = await buildLiveSnapshot(createPollContext(event))
+  } catch (error) {
+    console.error('Error opening live update stream:', error)
+    await unsubscribe?.()
+    return res.status(500).json({ error: 'Failed to open live updates' })
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  })
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+  // Updates that came in while the snapshot was read carry older state than it does, so they go first
+  pending.forEach(update => sendUpdate(res, update))
+  snapshot.forEach(update => sendUpdate(res, update))
+  isStreaming = true
+
+  // Keep the function alive until the stream ends
+  await new Promise<void>((resolve) => {
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS)
+    const timeout = setTimeout(finish, STREAM_DURATION_MS)
+
+    function finish() {
+      clearInterval(heartbeat)
+      clearTimeout(timeout)
+      req.off('close', finish)
+      resolve()
+    }
+
+    req.on('close', finish)
+  })
+
+  isStreaming = false
+  await unsubscribe().catch(error => console.error('Error closing live update stream:', error))
+  res.end()
+}
+
+// Helper function to write one update as an SSE message
+function sendUpdate(res: VercelResponse, update: LiveUpdate) {
+  res.write(`data: ${JSON.stringify(update)}\n\n`)
+}
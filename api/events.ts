@@ -0,0 +1,77 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getEvent, listEvents, parseEventDefinition, saveEvent, toPublicEvent } from './event-store'
+import { checkHostRequest } from './host-auth'
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Set CORS headers
+  Object.entries(corsHeaders).forEach(([key, value]) => {
+    res.setHeader(key, value)
+  })
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).json({})
+  }
+
+  // GET: One event's public details (?eventId=), or every event for hosts
+  if (req.method === 'GET') {
+    try {
+      const { eventId } = req.query
+
+      if (typeof eventId === 'string' && eventId) {
+        const event = await getEvent(eventId.toLowerCase())
+        if (!event) {
+          return res.status(404).json({ error: 'Event not found' })
+        }
+        return res.status(200).json({ event: toPublicEvent(event) })
+      }
+
+      const host = checkHostRequest(req)
+      if (!host.ok) {
+        return res.status(host.status).json({ error: host.error })
+      }
+
+      const events = await listEvents()
+      return res.status(200).json({ events: events.map(toPublicEvent) })
+    } catch (error) {
+      console.error('Error getting events:', error)
+      return res.status(500).json({ error: 'Failed to get events' })
+    }
+  }
+
+  // PUT: Create or replace an event (hosts only)
+  if (req.method === 'PUT') {
+    try {
+      const host = checkHostRequest(req)
+      if (!host.ok) {
+        return res.status(host.status).json({ error: host.error })
+      }
+
+      const parsed = parseEventDefinition(req.body)
+      if ('errors' in parsed) {
+        return res.status(400).json({ error: 'Invalid event', details: parsed.errors })
+      }
+
+      const event = await saveEvent(parsed.event)
+      return res.status(200).json({
+        success: true,
+        event: toPublicEvent(event)
+      })
+    } catch (error) {
+      console.error('Error saving event:', error)
+      return res.status(500).json({ error: 'Failed to save event' })
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' })
+}
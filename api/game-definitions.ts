@@ -0,0 +1,310 @@
+// Game Definitions
+// Every party game is described by a GameDefinition and registered in GAMES under its gameType,
+// so the guest API (./birthday-games), live updates (./live-updates) and the host admin API
+// (./event-admin) handle any game the same way. A definition covers:
+// - submissions: for games played by submitting entries (trivia has none, it's played through actions)
+//   - schema: the body field holding a player's entries, how many they send, how long each may be and
+//     whether repeats are allowed (checked by ./submission-validation, along with the word filter)
+//   - validate: checks beyond the schema (e.g. Which One's False needs the false statement marked)
+//   - canSubmit: reveal rules, i.e. when new submissions stop being accepted
+// - getState: what every player sees, with answers and scores only once the game allows them
+// - player: the asking player's own guesses or votes, returned under player.key (empty without a voter token)
+// - guessWho: for games whose submissions are anonymous (see ./guess-who), the player's own authorship
+//   guesses, returned as myAuthorship, and the host's per-submission author reveals
+// - actions: extra POST ?resource= endpoints players run (guesses, votes, answers, author-guesses)
+//   Host steps such as revealing answers or authors go through ./event-admin instead
+// Storage for each game lives in ./games-store.
+
+import type { VoterIdentity } from './voter-identity'
+import { validateEntries, type FieldError, type SubmissionSchema } from './submission-validation'
+import {
+  clearGOAT,
+  clearTrivia,
+  clearWhichOnesFalse,
+  getGOATGame,
+  getPlayerGOATVotes,
+  getPlayerGuesses,
+  getPlayerTriviaAnswers,
+  getTriviaGame,
+  getGOATSubmissions,
+  getSubmissions,
+  getWhichOnesFalseGame,
+  isWhichOnesFalseRevealed,
+  saveGOATSubmission,
+  saveGOATVotes,
+  saveGuess,
+  saveSubmission,
+  saveTriviaAnswer,
+  type GOATGame,
+  type GOATMovie,
+  type GOATSubmission,
+  type TriviaGame,
+  type WhichOnesFalseGame,
+  type WhichOnesFalseSubmission,
+} from './games-store'
+import {
+  clearGuessWho,
+  getRevealedAuthors,
+  loadGuessWho,
+  revealAuthor,
+  saveAuthorGuess,
+  submissionIds,
+  type AnonymousSubmission,
+  type GuessWhoResult,
+  type GuessWhoState,
+  type PlayerAuthorship,
+} from './guess-who'
+
+// Failures can point at the inputs that caused them (see ./submission-validation)
+export type GameCheck = { ok: true } | { ok: false; status: number; error: string; fieldErrors?: FieldError[] }
+
+export interface GameActionContext {
+  eventId: string
+  voter: VoterIdentity // The player, resolved from body.playerName and the voter token
+  body: Record<string, unknown>
+}
+
+export interface GameAction {
+  failure: string // Error returned when the action throws
+  run: (ctx: GameActionContext) => Promise<GameCheck>
+}
+
+export interface SubmissionRules {
+  schema: SubmissionSchema
+  validate?: (entries: string[], body: Record<string, unknown>) => GameCheck
+  canSubmit?: (eventId: string) => Promise<GameCheck>
+  save: (eventId: string, voter: VoterIdentity, entries: string[], body: Record<string, unknown>) => Promise<void>
+}
+
+// The submission games as players see them: submissions keyed by guess-who id, authors hidden until revealed
+export type AnonymousWhichOnesFalseGame = Omit<WhichOnesFalseGame, 'submissions'> & {
+  submissions: Record<string, AnonymousSubmission<WhichOnesFalseSubmission>>
+  guessWho: GuessWhoState
+}
+
+export type AnonymousGOATGame = Omit<GOATGame, 'submissions' | 'leaderboard'> & {
+  submissions: Record<string, AnonymousSubmission<GOATSubmission>>
+  leaderboard: Array<GOATMovie & { nominations: number }> // nominators only lists revealed authors
+  guessWho: GuessWhoState
+}
+
+export interface GameDefinition<TState extends object> {
+  submissions?: SubmissionRules
+  getState: (eventId: string) => Promise<TState>
+  player: {
+    key: string
+    empty: unknown
+    get: (eventId: string, voterId: string) => Promise<unknown>
+  }
+  guessWho?: {
+    get: (eventId: string, voterId: string) => Promise<PlayerAuthorship>
+    reveal: (eventId: string, voterId: string) => Promise<GuessWhoResult> // Host only (see ./event-admin)
+    getRevealed: (eventId: string) => Promise<Record<string, number>>
+  }
+  actions: Record<string, GameAction>
+  clear: (eventId: string) => Promise<void>
+}
+
+const OK: GameCheck = { ok: true }
+
+type SubmissionsLoader = (eventId: string) => Promise<Record<string, { playerName: string }>>
+
+// The guess-who pieces every submission game shares (its submissions are keyed by voter id)
+function guessWhoFor(gameType: string, getGameSubmissions: SubmissionsLoader) {
+  return {
+    guessWho: {
+      get: async (eventId: string, voterId: string) =>
+        (await loadGuessWho(eventId, gameType, await getGameSubmissions(eventId))).playerAuthorship(voterId),
+      // Reveal who wrote one submission (by its author's voter id) and score the guesses on it
+      reveal: async (eventId: string, voterId: string) =>
+        revealAuthor(eventId, gameType, await getGameSubmissions(eventId), voterId),
+      getRevealed: (eventId: string) => getRevealedAuthors(eventId, gameType),
+    },
+    actions: {
+      // Guess who wrote a submission ({ playerName, submissionId, authorName })
+      'author-guesses': {
+        failure: 'Failed to save guess',
+        run: async ({ eventId, voter, body: { submissionId, authorName } }) => {
+          if (typeof submissionId !== 'string' || typeof authorName !== 'string') {
+            return { ok: false, status: 400, error: 'submissionId and authorName are required' }
+          }
+          return saveAuthorGuess(eventId, gameType, await getGameSubmissions(eventId), voter, submissionId, authorName)
+        },
+      },
+    } satisfies Record<string, GameAction>,
+  }
+}
+
+const whichOnesFalseGuessWho = guessWhoFor('which-ones-false', getSubmissions)
+const goatGuessWho = guessWhoFor('goat', getGOATSubmissions)
+
+// Submissions go out under their guess-who ids, without names until each author is revealed
+async function getAnonymousWhichOnesFalseGame(eventId: string): Promise<AnonymousWhichOnesFalseGame> {
+  const game = await getWhichOnesFalseGame(eventId)
+  const guessWho = await loadGuessWho(eventId, 'which-ones-false', game.submissions)
+  return {
+    ...game,
+    submissions: guessWho.hideAuthors(game.submissions),
+    guessCounts: guessWho.rekey(game.guessCounts),
+    ...(game.statementGuesses && { statementGuesses: guessWho.rekey(game.statementGuesses) }),
+    guessWho: guessWho.state,
+  }
+}
+
+// Nominators stay hidden until their authorship is revealed; nominations still counts them all
+async function getAnonymousGOATGame(eventId: string): Promise<AnonymousGOATGame> {
+  const game = await getGOATGame(eventId)
+  const guessWho = await loadGuessWho(eventId, 'goat', game.submissions)
+  return {
+    submissions: guessWho.hideAuthors(game.submissions),
+    leaderboard: game.leaderboard.map(movie => ({
+      ...movie,
+      nominators: movie.nominators.filter(name => guessWho.isRevealedName(name)),
+      nominations: movie.nominators.length,
+    })),
+    guessWho: guessWho.state,
+  }
+}
+
+const whichOnesFalse: GameDefinition<AnonymousWhichOnesFalseGame> = {
+  submissions: {
+    schema: { field: 'statements', label: 'Statement', count: 3, minLength: 3, maxLength: 200, unique: true },
+    validate: (entries, { falseIndex }) =>
+      Number.isInteger(falseIndex) && (falseIndex as number) >= 0 && (falseIndex as number) < entries.length
+        ? OK
+        : {
+            ok: false,
+            status: 400,
+            error: 'Mark which statement is false',
+            fieldErrors: [{ field: 'falseIndex', message: 'Mark which statement is false' }],
+          },
+    // New statements after the reveal would give their answer away
+    canSubmit: async (eventId) =>
+      (await isWhichOnesFalseRevealed(eventId))
+        ? { ok: false, status: 409, error: 'The answers have already been revealed' }
+        : OK,
+    save: async (eventId, voter, entries, { falseIndex }) => {
+      await saveSubmission(eventId, voter, entries, falseIndex as number)
+    },
+  },
+  getState: getAnonymousWhichOnesFalseGame,
+  // Guesses are stored by the submitter's voter id and sent out by submission id
+  player: {
+    key: 'myGuesses',
+    empty: {},
+    get: async (eventId, voterId) => {
+      const [guesses, submissions] = await Promise.all([getPlayerGuesses(eventId, voterId), getSubmissions(eventId)])
+      return submissionIds(eventId, 'which-ones-false', Object.keys(submissions)).rekey(guesses)
+    },
+  },
+  guessWho: whichOnesFalseGuessWho.guessWho,
+  actions: {
+    ...whichOnesFalseGuessWho.actions,
+    // Guess another player's false statement ({ playerName, submitterId, guessIndex }, submitterId is the submission id)
+    guesses: {
+      failure: 'Failed to save guess',
+      run: async ({ eventId, voter, body: { submitterId, guessIndex } }) => {
+        if (typeof submitterId !== 'string' || typeof guessIndex !== 'number') {
+          return { ok: false, status: 400, error: 'submitterId and guessIndex are required' }
+        }
+        const submissions = await getSubmissions(eventId)
+        const submitterKey = submissionIds(eventId, 'which-ones-false', Object.keys(submissions)).keyFor(submitterId)
+        if (!submitterKey) {
+          return { ok: false, status: 404, error: 'Submission not found' }
+        }
+        const result = await saveGuess(eventId, voter, submitterKey, guessIndex)
+        return result.ok ? OK : result
+      },
+    },
+  },
+  clear: async (eventId) => {
+    await Promise.all([clearWhichOnesFalse(eventId), clearGuessWho(eventId, 'which-ones-false')])
+  },
+}
+
+const goat: GameDefinition<AnonymousGOATGame> = {
+  submissions: {
+    schema: { field: 'movies', label: 'Movie', count: 3, minLength: 1, maxLength: 200, unique: true },
+    save: async (eventId, voter, entries) => {
+      await saveGOATSubmission(eventId, voter, entries)
+    },
+  },
+  getState: getAnonymousGOATGame,
+  player: { key: 'myVotes', empty: [], get: getPlayerGOATVotes },
+  guessWho: goatGuessWho.guessWho,
+  actions: {
+    ...goatGuessWho.actions,
+    // Vote for up to three films on the merged list ({ playerName, movieIds })
+    votes: {
+      failure: 'Failed to save votes',
+      run: async ({ eventId, voter, body: { movieIds } }) => {
+        const result = await saveGOATVotes(eventId, voter, movieIds)
+        return result.ok ? OK : result
+      },
+    },
+  },
+  clear: async (eventId) => {
+    await Promise.all([clearGOAT(eventId), clearGuessWho(eventId, 'goat')])
+  },
+}
+
+// The host loads questions and moves through them from the admin API (see ./event-admin)
+const trivia: GameDefinition<TriviaGame> = {
+  getState: getTriviaGame,
+  player: { key: 'myAnswers', empty: {}, get: getPlayerTriviaAnswers },
+  actions: {
+    // Answer the open question ({ playerName, questionIndex, choice })
+    answers: {
+      failure: 'Failed to save answer',
+      run: async ({ eventId, voter, body: { questionIndex, choice } }) => {
+        if (typeof questionIndex !== 'number' || typeof choice !== 'number') {
+          return { ok: false, status: 400, error: 'questionIndex and choice are required' }
+        }
+        return saveTriviaAnswer(eventId, voter, questionIndex, choice)
+      },
+    },
+  },
+  clear: clearTrivia,
+}
+
+export const GAMES = {
+  'which-ones-false': whichOnesFalse,
+  goat,
+  trivia,
+}
+
+// Game types as named in the API (?gameType=)
+export type GameType = keyof typeof GAMES
+export const GAME_TYPES = Object.keys(GAMES) as GameType[]
+
+// What every player sees for one game type
+export type GameState<T extends GameType> = Awaited<ReturnType<(typeof GAMES)[T]['getState']>>
+
+export function isGameType(value: unknown): value is GameType {
+  return typeof value === 'string' && (GAME_TYPES as string[]).includes(value)
+}
+
+export function getGameDefinition<T extends GameType>(gameType: T): GameDefinition<GameState<T>> {
+  return GAMES[gameType] as GameDefinition<GameState<T>>
+}
+
+// Checks a submission against the game's schema and rules, returning the cleaned entries
+export function parseSubmission(
+  rules: SubmissionRules,
+  body: Record<string, unknown>
+): { ok: true; entries: string[] } | { ok: false; status: number; error: string; fieldErrors?: FieldError[] } {
+  const checked = validateEntries(rules.schema, body[rules.schema.field])
+  if (!checked.ok) {
+    return { ok: false, status: 400, error: checked.fieldErrors[0].message, fieldErrors: checked.fieldErrors }
+  }
+
+  const entries = checked.value
+  const check = rules.validate?.(entries, body) ?? OK
+  return check.ok ? { ok: true, entries } : check
+}
+
+// Helper function to delete submissions (all games when no type is given)
+export async function clearGameSubmissions(eventId: string, gameType?: GameType): Promise<void> {
+  const types = gameType ? [gameType] : GAME_TYPES
+  await Promise.all(types.map(type => GAMES[type].clear(eventId)))
+}
@@ -0,0 +1,598 @@
+// Games Store
+// Storage for an event's party game submissions, shared by the guest API
+// (./birthday-games) and the host admin API (./event-admin).
+// Which One's False: each player marks their false statement (falseIndex), others guess it,
+// and once the answers are revealed every player is scored on their correct guesses.
+// GOAT: nominations are merged into one list of films (see ./movie-titles) that players vote on.
+// Trivia: the host opens questions one at a time and players answer against the clock (see ./trivia).
+// The API reaches these through the game registry in ./game-definitions.
+
+import { createJsonRepository } from './storage'
+import { eventKey } from './event-store'
+import { normalizeVoterName, type VoterIdentity } from './voter-identity'
+import { mergeNominations, type MergedMovie } from './movie-titles'
+import {
+  ANSWER_GRACE_MS,
+  DEFAULT_SECONDS_PER_QUESTION,
+  scoreTriviaAnswer,
+  type TriviaQuestionSet,
+} from './trivia'
+
+export interface WhichOnesFalseSubmission {
+  playerName: string
+  statements: string[]
+  falseIndex?: number // Which statement is the lie (kept from other players until the reveal)
+  submittedAt: number
+}
+
+// One player's guesses: submitter's voter id -> index of the statement they think is false
+export interface WhichOnesFalseGuesses {
+  playerName: string
+  guesses: Record<string, number>
+  updatedAt: number
+}
+
+// Guessing round, keyed by guesser (normalized voter name, see ./voter-identity)
+interface WhichOnesFalseRound {
+  guesses: Record<string, WhichOnesFalseGuesses>
+  revealedAt: number | null
+}
+
+export interface ScoreboardEntry {
+  playerName: string
+  correct: number
+  guessed: number
+}
+
+// What every player sees; answers and scores only appear after the reveal
+export interface WhichOnesFalseGame {
+  submissions: Record<string, WhichOnesFalseSubmission>
+  revealed: boolean
+  guessCounts: Record<string, number> // Submitter's voter id -> players who have guessed
+  statementGuesses?: Record<string, number[]> // Submitter's voter id -> guesses per statement
+  scoreboard?: ScoreboardEntry[] // Most correct guesses first
+}
+
+export type GuessResult =
+  | { ok: true; guesses: WhichOnesFalseGuesses }
+  | { ok: false; status: number; error: string }
+
+export interface GOATSubmission {
+  playerName: string
+  movies: string[]
+  submittedAt: number
+}
+
+// GOAT votes, keyed by voter (normalized voter name, see ./voter-identity)
+interface GOATVote {
+  playerName: string
+  movieIds: string[]
+  votedAt: number
+}
+
+export interface GOATMovie extends MergedMovie {
+  votes: number
+}
+
+// What every player sees: the raw nominations plus the merged, voted leaderboard
+export interface GOATGame {
+  submissions: Record<string, GOATSubmission>
+  leaderboard: GOATMovie[] // Most votes first, then most nominations
+}
+
+export type GOATVoteResult =
+  | { ok: true; movieIds: string[] }
+  | { ok: false; status: number; error: string }
+
+// Votes each player can spread across the leaderboard
+export const MAX_GOAT_VOTES = 3
+
+interface TriviaAnswer {
+  choice: number
+  points: number
+  answeredAt: number
+}
+
+// One player's answers, keyed by question index
+interface TriviaPlayer {
+  playerName: string
+  answers: Record<string, TriviaAnswer>
+}
+
+// The loaded question set and how far the host has got, with answers keyed by voter
+export interface TriviaRound extends TriviaQuestionSet {
+  current: number // Question on screen: -1 before the host starts, questions.length once finished
+  openedAt: number | null // When the current question opened
+  players: Record<string, TriviaPlayer>
+}
+
+export type TriviaStatus = 'waiting' | 'question' | 'finished'
+
+export interface TriviaScore {
+  playerName: string
+  points: number
+  correct: number
+}
+
+// What every player sees; a question's answer only shows once its countdown is over
+export interface TriviaGame {
+  status: TriviaStatus
+  questionCount: number
+  secondsPerQuestion: number
+  question?: {
+    index: number
+    text: string
+    choices: string[]
+    remainingMs: number // Time left to answer when this state was built (0 once it's over)
+    answered: number // Players who have answered
+    correctIndex?: number // Once time is up and late answers are no longer taken
+    choiceCounts?: number[]
+  }
+  leaderboard: TriviaScore[] // Most points first, counting finished questions only
+}
+
+// One player's answers: question index -> their choice, plus points once the question is over
+export type TriviaPlayerAnswers = Record<string, { choice: number; points?: number }>
+
+export type TriviaResult =
+  | { ok: true }
+  | { ok: false; status: number; error: string }
+
+// Storage keys (one set per event, see eventKey in ./event-store)
+export const GAMES_NAMESPACE = 'birthday-games'
+
+// Submissions are keyed by the submitter's voter id (normalized voter name, see ./voter-identity);
+// playerName is only for display
+function whichOnesFalseRepository(eventId: string) {
+  return createJsonRepository<Record<string, WhichOnesFalseSubmission>>({
+    key: eventKey(GAMES_NAMESPACE, eventId, 'which-ones-false'),
+    initial: () => ({}),
+    parse: migrateSubmissionKeys,
+  })
+}
+
+function whichOnesFalseRoundRepository(eventId: string) {
+  return createJsonRepository<WhichOnesFalseRound>({
+    key: eventKey(GAMES_NAMESPACE, eventId, 'which-ones-false-round'),
+    initial: () => ({ guesses: {}, revealedAt: null }),
+  })
+}
+
+function goatRepository(eventId: string) {
+  return createJsonRepository<Record<string, GOATSubmission>>({
+    key: eventKey(GAMES_NAMESPACE, eventId, 'goat'),
+    initial: () => ({}),
+    parse: migrateSubmissionKeys,
+  })
+}
+
+function goatVotesRepository(eventId: string) {
+  return createJsonRepository<Record<string, GOATVote>>({
+    key: eventKey(GAMES_NAMESPACE, eventId, 'goat-votes'),
+    initial: () => ({}),
+  })
+}
+
+function triviaRepository(eventId: string) {
+  return createJsonRepository<TriviaRound>({
+    key: eventKey(GAMES_NAMESPACE, eventId, 'trivia'),
+    initial: () => ({ questions: [], secondsPerQuestion: DEFAULT_SECONDS_PER_QUESTION, current: -1, openedAt: null, players: {} }),
+  })
+}
+
+// Submissions saved before voter tokens were keyed by a slug of the name ("jo-smith"); they move to
+// the voter id that name claims ("jo smith"). Newer submissions already sit under that id
+function migrateSubmissionKeys<T extends { playerName: string }>(raw: unknown): Record<string, T> {
+  return Object.fromEntries(
+    Object.values(raw as Record<string, T>).map(submission => [normalizeVoterName(submission.playerName), submission])
+  )
+}
+
+export async function getSubmissions(eventId: string): Promise<Record<string, WhichOnesFalseSubmission>> {
+  try {
+    return await whichOnesFalseRepository(eventId).get()
+  } catch (error) {
+    console.error('Error getting submissions from storage:', error)
+    // Return empty object if storage fails
+    return {}
+  }
+}
+
+export async function saveSubmission(
+  eventId: string,
+  voter: VoterIdentity,
+  statements: string[],
+  falseIndex: number
+): Promise<Record<string, WhichOnesFalseSubmission>> {
+  try {
+    const submissions = await whichOnesFalseRepository(eventId).update(submissions => ({
+      ...submissions,
+      [voter.id]: {
+        playerName: voter.name,
+        statements: statements.map(s => s.trim().substring(0, 200)),
+        falseIndex,
+        submittedAt: Date.now()
+      }
+    }))
+
+    // Guesses were for the player's old statements
+    await whichOnesFalseRoundRepository(eventId).update(round => ({
+      ...round,
+      guesses: Object.fromEntries(
+        Object.entries(round.guesses).map(([guesserKey, entry]) => {
+          const { [voter.id]: _dropped, ...guesses } = entry.guesses
+          return [guesserKey, { ...entry, guesses }]
+        })
+      ),
+    }))
+    return submissions
+  } catch (error) {
+    console.error('Error saving submission to storage:', error)
+    throw error
+  }
+}
+
+// Correct guesses per player (submissions without a marked answer can't be scored)
+function buildScoreboard(
+  submissions: Record<string, WhichOnesFalseSubmission>,
+  guesses: Record<string, WhichOnesFalseGuesses>
+): ScoreboardEntry[] {
+  return Object.values(guesses)
+    .map(({ playerName, guesses: playerGuesses }) => {
+      const scored = Object.entries(playerGuesses).filter(([submitterKey]) => submissions[submitterKey]?.falseIndex !== undefined)
+      return {
+        playerName,
+        correct: scored.filter(([submitterKey, guess]) => submissions[submitterKey].falseIndex === guess).length,
+        guessed: scored.length,
+      }
+    })
+    .filter(entry => entry.guessed > 0)
+    .sort((a, b) => b.correct - a.correct || a.guessed - b.guessed || a.playerName.localeCompare(b.playerName))
+}
+
+// Helper function to get the game as players see it
+export async function getWhichOnesFalseGame(eventId: string): Promise<WhichOnesFalseGame> {
+  const [submissions, round] = await Promise.all([
+    getSubmissions(eventId),
+    whichOnesFalseRoundRepository(eventId).get().catch((error) => {
+      console.error('Error getting guesses from storage:', error)
+      return { guesses: {}, revealedAt: null } as WhichOnesFalseRound
+    }),
+  ])
+  const revealed = round.revealedAt !== null
+  const allGuesses = Object.values(round.guesses)
+  const guessesFor = (submitterKey: string) =>
+    allGuesses.map(entry => entry.guesses[submitterKey]).filter((guess): guess is number => guess !== undefined)
+
+  return {
+    submissions: revealed
+      ? submissions
+      : Object.fromEntries(Object.entries(submissions).map(([key, { falseIndex: _hidden, ...submission }]) => [key, submission])),
+    revealed,
+    guessCounts: Object.fromEntries(Object.keys(submissions).map(key => [key, guessesFor(key).length])),
+    ...(revealed && {
+      statementGuesses: Object.fromEntries(
+        Object.entries(submissions).map(([key, submission]) => [
+          key,
+          submission.statements.map((_, index) => guessesFor(key).filter(guess => guess === index).length),
+        ])
+      ),
+      scoreboard: buildScoreboard(submissions, round.guesses),
+    }),
+  }
+}
+
+// Helper function to get one player's guesses
+export async function getPlayerGuesses(eventId: string, guesserKey: string): Promise<Record<string, number>> {
+  const round = await whichOnesFalseRoundRepository(eventId).get()
+  return round.guesses[guesserKey]?.guesses ?? {}
+}
+
+// Helper function to record (or change) a guess; guesses lock once the answers are revealed
+export async function saveGuess(
+  eventId: string,
+  guesser: VoterIdentity,
+  submitterKey: string,
+  guessIndex: number
+): Promise<GuessResult> {
+  const submission = (await getSubmissions(eventId))[submitterKey]
+  if (!submission) {
+    return { ok: false, status: 404, error: 'Submission not found' }
+  }
+  if (submitterKey === guesser.id) {
+    return { ok: false, status: 400, error: "You can't guess your own statements" }
+  }
+  if (submission.falseIndex === undefined) {
+    return { ok: false, status: 400, error: 'This player has not marked a false statement' }
+  }
+  if (!Number.isInteger(guessIndex) || guessIndex < 0 || guessIndex >= submission.statements.length) {
+    return { ok: false, status: 400, error: 'Pick one of the statements' }
+  }
+
+  let locked = false
+  const round = await whichOnesFalseRoundRepository(eventId).update(current => {
+    locked = current.revealedAt !== null
+    if (locked) {
+      return current
+    }
+    const existing = current.guesses[guesser.id]
+    return {
+      ...current,
+      guesses: {
+        ...current.guesses,
+        [guesser.id]: {
+          playerName: guesser.name,
+          guesses: { ...existing?.guesses, [submitterKey]: guessIndex },
+          updatedAt: Date.now(),
+        },
+      },
+    }
+  })
+
+  if (locked) {
+    return { ok: false, status: 409, error: 'The answers have already been revealed' }
+  }
+  return { ok: true, guesses: round.guesses[guesser.id] }
+}
+
+// Helper function to reveal the answers and lock in the scores
+export async function revealWhichOnesFalse(eventId: string): Promise<void> {
+  await whichOnesFalseRoundRepository(eventId).update(round => ({
+    ...round,
+    revealedAt: round.revealedAt ?? Date.now(),
+  }))
+}
+
+export async function isWhichOnesFalseRevealed(eventId: string): Promise<boolean> {
+  const round = await whichOnesFalseRoundRepository(eventId).get()
+  return round.revealedAt !== null
+}
+
+export async function getGOATSubmissions(eventId: string): Promise<Record<string, GOATSubmission>> {
+  try {
+    return await goatRepository(eventId).get()
+  } catch (error) {
+    console.error('Error getting GOAT submissions from storage:', error)
+    return {}
+  }
+}
+
+export async function saveGOATSubmission(eventId: string, voter: VoterIdentity, movies: string[]): Promise<Record<string, GOATSubmission>> {
+  try {
+    return await goatRepository(eventId).update(submissions => ({
+      ...submissions,
+      [voter.id]: {
+        playerName: voter.name,
+        movies: movies.map(m => m.trim().substring(0, 200)),
+        submittedAt: Date.now()
+      }
+    }))
+  } catch (error) {
+    console.error('Error saving GOAT submission to storage:', error)
+    throw error
+  }
+}
+
+// Helper function to get the merged GOAT leaderboard
+export async function getGOATGame(eventId: string): Promise<GOATGame> {
+  const [submissions, votes] = await Promise.all([
+    getGOATSubmissions(eventId),
+    goatVotesRepository(eventId).get().catch((error) => {
+      console.error('Error getting GOAT votes from storage:', error)
+      return {} as Record<string, GOATVote>
+    }),
+  ])
+
+  const movies = mergeNominations(
+    Object.values(submissions).flatMap(({ playerName, movies: titles, submittedAt }) =>
+      titles.map(title => ({ title, playerName, submittedAt }))
+    )
+  )
+  const ballots = Object.values(votes)
+
+  // Stable sort keeps the earliest nominated film first on ties
+  const leaderboard = movies
+    .map(movie => ({ ...movie, votes: ballots.filter(ballot => ballot.movieIds.includes(movie.id)).length }))
+    .sort((a, b) => b.votes - a.votes || b.nominators.length - a.nominators.length)
+
+  return { submissions, leaderboard }
+}
+
+// Helper function to get the films one player voted for
+export async function getPlayerGOATVotes(eventId: string, voterId: string): Promise<string[]> {
+  const votes = await goatVotesRepository(eventId).get()
+  return votes[voterId]?.movieIds ?? []
+}
+
+// Helper function to replace a player's votes (an empty list takes them all back)
+export async function saveGOATVotes(eventId: string, voter: VoterIdentity, movieIds: unknown): Promise<GOATVoteResult> {
+  if (!Array.isArray(movieIds) || movieIds.some(id => typeof id !== 'string')) {
+    return { ok: false, status: 400, error: 'movieIds must be a list of movie ids' }
+  }
+  const uniqueIds = [...new Set(movieIds as string[])]
+  if (uniqueIds.length > MAX_GOAT_VOTES) {
+    return { ok: false, status: 400, error: `You can vote for up to ${MAX_GOAT_VOTES} movies` }
+  }
+
+  const { leaderboard } = await getGOATGame(eventId)
+  if (uniqueIds.some(id => !leaderboard.some(movie => movie.id === id))) {
+    return { ok: false, status: 404, error: 'Movie not found' }
+  }
+
+  await goatVotesRepository(eventId).update(votes => {
+    const { [voter.id]: _previous, ...others } = votes
+    return uniqueIds.length > 0
+      ? { ...others, [voter.id]: { playerName: voter.name, movieIds: uniqueIds, votedAt: Date.now() } }
+      : others
+  })
+  return { ok: true, movieIds: uniqueIds }
+}
+
+export async function getTriviaRound(eventId: string): Promise<TriviaRound> {
+  return triviaRepository(eventId).get()
+}
+
+// Milliseconds left to answer the current question (0 when none is open)
+function triviaTimeLeft(round: TriviaRound, now: number): number {
+  if (round.openedAt === null || round.current < 0 || round.current >= round.questions.length) {
+    return 0
+  }
+  return Math.max(0, round.openedAt + round.secondsPerQuestion * 1000 - now)
+}
+
+// Questions already asked whose countdown (and the grace for late answers) is over
+function isTriviaQuestionOver(round: TriviaRound, index: number, now: number): boolean {
+  if (index !== round.current) {
+    return index < round.current
+  }
+  return round.openedAt !== null && now > round.openedAt + round.secondsPerQuestion * 1000 + ANSWER_GRACE_MS
+}
+
+// Helper function to get trivia as players see it
+export async function getTriviaGame(eventId: string, now = Date.now()): Promise<TriviaGame> {
+  const round = await triviaRepository(eventId).get().catch((error) => {
+    console.error('Error getting trivia from storage:', error)
+    return null
+  })
+  if (!round) {
+    return { status: 'waiting', questionCount: 0, secondsPerQuestion: DEFAULT_SECONDS_PER_QUESTION, leaderboard: [] }
+  }
+
+  const players = Object.values(round.players)
+  const leaderboard = players
+    .map(({ playerName, answers }) => {
+      const scored = Object.entries(answers).filter(([index]) => isTriviaQuestionOver(round, Number(index), now))
+      return {
+        playerName,
+        points: scored.reduce((sum, [, answer]) => sum + answer.points, 0),
+        correct: scored.filter(([, answer]) => answer.points > 0).length,
+      }
+    })
+    .sort((a, b) => b.points - a.points || b.correct - a.correct || a.playerName.localeCompare(b.playerName))
+
+  const status: TriviaStatus = round.current < 0 ? 'waiting' : round.current >= round.questions.length ? 'finished' : 'question'
+  const current = round.questions[round.current]
+  const isOver = isTriviaQuestionOver(round, round.current, now)
+  const answersToCurrent = players.map(player => player.answers[round.current]).filter((answer): answer is TriviaAnswer => !!answer)
+
+  return {
+    status,
+    questionCount: round.questions.length,
+    secondsPerQuestion: round.secondsPerQuestion,
+    ...(status === 'question' && current && {
+      question: {
+        index: round.current,
+        text: current.question,
+        choices: current.choices,
+        remainingMs: triviaTimeLeft(round, now),
+        answered: answersToCurrent.length,
+        ...(isOver && {
+          correctIndex: current.correctIndex,
+          choiceCounts: current.choices.map((_, index) => answersToCurrent.filter(answer => answer.choice === index).length),
+        }),
+      },
+    }),
+    leaderboard,
+  }
+}
+
+// Helper function to get one player's answers (points stay hidden until each question is over)
+export async function getPlayerTriviaAnswers(eventId: string, voterId: string, now = Date.now()): Promise<TriviaPlayerAnswers> {
+  const round = await triviaRepository(eventId).get()
+  const answers = round.players[voterId]?.answers ?? {}
+  return Object.fromEntries(
+    Object.entries(answers).map(([index, { choice, points }]) => [
+      index,
+      isTriviaQuestionOver(round, Number(index), now) ? { choice, points } : { choice },
+    ])
+  )
+}
+
+// Helper function to record a player's answer to the open question (one answer each, scored on arrival)
+export async function saveTriviaAnswer(
+  eventId: string,
+  voter: VoterIdentity,
+  questionIndex: number,
+  choice: number
+): Promise<TriviaResult> {
+  let result: TriviaResult = { ok: true }
+  await triviaRepository(eventId).update(round => {
+    const now = Date.now()
+    const question = round.questions[round.current]
+    if (!question || questionIndex !== round.current || round.openedAt === null) {
+      result = { ok: false, status: 409, error: 'That question is no longer open' }
+      return round
+    }
+    const elapsed = now - round.openedAt
+    if (elapsed > round.secondsPerQuestion * 1000 + ANSWER_GRACE_MS) {
+      result = { ok: false, status: 409, error: "Time's up for this question" }
+      return round
+    }
+    if (!Number.isInteger(choice) || choice < 0 || choice >= question.choices.length) {
+      result = { ok: false, status: 400, error: 'Pick one of the answers' }
+      return round
+    }
+    const player = round.players[voter.id]
+    if (player?.answers[questionIndex]) {
+      result = { ok: false, status: 409, error: 'You already answered this question' }
+      return round
+    }
+
+    result = { ok: true }
+    return {
+      ...round,
+      players: {
+        ...round.players,
+        [voter.id]: {
+          playerName: voter.name,
+          answers: {
+            ...player?.answers,
+            [questionIndex]: {
+              choice,
+              points: scoreTriviaAnswer(choice === question.correctIndex, elapsed, round.secondsPerQuestion),
+              answeredAt: now,
+            },
+          },
+        },
+      },
+    }
+  })
+  return result
+}
+
+// Helper function to load a new question set (starts over, dropping every answer)
+export async function saveTriviaQuestions(eventId: string, questionSet: TriviaQuestionSet): Promise<void> {
+  await triviaRepository(eventId).update(() => ({ ...questionSet, current: -1, openedAt: null, players: {} }))
+}
+
+// Helper function to open the next question (or finish after the last one)
+export async function advanceTrivia(eventId: string): Promise<TriviaResult> {
+  let result: TriviaResult = { ok: true }
+  await triviaRepository(eventId).update(round => {
+    if (round.questions.length === 0) {
+      result = { ok: false, status: 409, error: 'Load a question set first' }
+      return round
+    }
+    if (round.current >= round.questions.length) {
+      result = { ok: false, status: 409, error: 'Trivia is already finished' }
+      return round
+    }
+    result = { ok: true }
+    const current = round.current + 1
+    return { ...round, current, openedAt: current < round.questions.length ? Date.now() : null }
+  })
+  return result
+}
+
+// Helper functions to delete a game's submissions along with its guesses or votes
+export async function clearWhichOnesFalse(eventId: string): Promise<void> {
+  await Promise.all([whichOnesFalseRepository(eventId).clear(), whichOnesFalseRoundRepository(eventId).clear()])
+}
+
+export async function clearGOAT(eventId: string): Promise<void> {
+  await Promise.all([goatRepository(eventId).clear(), goatVotesRepository(eventId).clear()])
+}
+
+export async function clearTrivia(eventId: string): Promise<void> {
+  await triviaRepository(eventId).clear()
+}
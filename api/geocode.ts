@@ -0,0 +1,156 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { addApiCall } from './api-usage-tracker'
+import { getClientIP } from './client-ip'
+import { getQueryValue } from './query'
+import { checkRateLimit, type RateLimit } from './rate-limit'
+import { getStorage, namespacedKey } from './storage'
+
+// Location search for the coffee finder, through OpenStreetMap's Nominatim geocoder
+// GET ?q=<address, city or place> - up to 5 matches ({ name, lat, lon }), best first
+// Nominatim's usage policy asks for an identifying User-Agent, caching and no more than one
+// request a second, so lookups go through the server:
+// - results are cached in shared storage by normalized query (case and spacing don't matter)
+// - each IP can only reach Nominatim so often (cached lookups don't count)
+
+export interface GeocodeResult {
+  name: string // Nominatim's display name, e.g. "Portland, Multnomah County, Oregon, United States"
+  lat: number
+  lon: number
+}
+
+interface NominatimPlace {
+  display_name?: string
+  lat?: string
+  lon?: string
+}
+
+interface CachedGeocode {
+  results: GeocodeResult[]
+  expiresAt: number // The memory driver keeps keys forever, so expiry is checked on read too
+}
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search'
+const USER_AGENT = process.env.NOMINATIM_USER_AGENT || 'the-ingredients-coffee-finder/1.0'
+
+const MAX_RESULTS = 5
+const MAX_QUERY_LENGTH = 200
+
+// Cities and streets don't move
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 1 week
+
+// Plenty for someone planning a few stops, well below what would get the server blocked
+const GEOCODE_RATE_LIMIT: RateLimit = { limit: 20, windowMs: 10 * 60 * 1000 }
+
+// "  Portland,   OR " and "portland, or" are the same lookup
+function normalizeQuery(query: string): string {
+  return query.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase().substring(0, MAX_QUERY_LENGTH)
+}
+
+function cacheKey(query: string): string {
+  return namespacedKey('geocode', query)
+}
+
+// The cache is best-effort: if storage is down, lookups go straight to Nominatim
+async function getCachedGeocode(query: string): Promise<GeocodeResult[] | null> {
+  try {
+    const storage = await getStorage()
+    const raw = await storage.get(cacheKey(query))
+    if (!raw) {
+      return null
+    }
+    const cached: CachedGeocode = JSON.parse(raw)
+    return cached.expiresAt > Date.now() ? cached.results : null
+  } catch (error) {
+    console.error('Error reading cached geocode:', error)
+    return null
+  }
+}
+
+async function cacheGeocode(query: string, results: GeocodeResult[]): Promise<void> {
+  try {
+    const storage = await getStorage()
+    const cached: CachedGeocode = { results, expiresAt: Date.now() + CACHE_TTL_MS }
+    await storage.setWithExpiry(cacheKey(query), JSON.stringify(cached), CACHE_TTL_MS)
+  } catch (error) {
+    console.error('Error caching geocode:', error)
+  }
+}
+
+function toGeocodeResult(place: NominatimPlace): GeocodeResult | null {
+  const lat = parseFloat(place.lat ?? '')
+  const lon = parseFloat(place.lon ?? '')
+  if (isNaN(lat) || isNaN(lon) || typeof place.display_name !== 'string') {
+    return null
+  }
+  return { name: place.display_name.substring(0, 200), lat, lon }
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end()
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const query = normalizeQuery(getQueryValue(req, 'q') ?? '')
+  if (query.length < 2) {
+    return res.status(400).json({ error: 'Enter an address, city or place to search for' })
+  }
+
+  try {
+    const clientIP = getClientIP(req)
+
+    // Check cache first (cached lookups don't count against the rate limit)
+    const cachedResults = await getCachedGeocode(query)
+    if (cachedResults) {
+      addApiCall('nominatim', 'search', true, clientIP)
+      return res.status(200).json({ results: cachedResults })
+    }
+
+    const rateLimit = await checkRateLimit('geocode', clientIP, GEOCODE_RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      res.setHeader('Retry-After', String(rateLimit.retryAfter))
+      return res.status(429).json({
+        error: 'Rate limit exceeded',
+        message: 'Too many location searches. Please try again in a few minutes.',
+        retryAfter: rateLimit.retryAfter
+      })
+    }
+
+    const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: String(MAX_RESULTS) })
+    const response = await fetch(`${NOMINATIM_URL}?${params}`, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept-Language': 'en',
+      },
+    })
+    addApiCall('nominatim', 'search', false, clientIP)
+
+    if (!response.ok) {
+      console.error('Nominatim error:', response.status, await response.text())
+      return res.status(502).json({ error: 'Location search is unavailable. Please try again later.' })
+    }
+
+    const data = await response.json()
+    const results = (Array.isArray(data) ? data : [])
+      .map(toGeocodeResult)
+      .filter((result): result is GeocodeResult => result !== null)
+
+    await cacheGeocode(query, results)
+
+    return res.status(200).json({ results })
+  } catch (error) {
+    console.error('Error geocoding location:', error)
+    return res.status(500).json({ error: 'Failed to search for the location' })
+  }
+}
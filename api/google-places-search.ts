@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { addApiCall } from './api-usage-tracker'
 import { updateBudgetStatus } from './budget-alerts'
+import { getClientIP } from './client-ip'
 
 // Rate limiting for Google Places API to control costs
 // Track requests by IP address
@@ -59,11 +60,11 @@ function cleanupRateLimitStore() {
   lastCleanup = now
 }
 
-function getCacheKey(lat: number, lon: number, radius: number, searchType: string): string {
+function getCacheKey(lat: number, lon: number, radius: number, searchType: string, openNow: boolean): string {
   // Round coordinates to ~100m precision to increase cache hits
   const roundedLat = Math.round(lat * 100) / 100
   const roundedLon = Math.round(lon * 100) / 100
-  return `${roundedLat},${roundedLon},${radius},${searchType}`
+  return `${roundedLat},${roundedLon},${radius},${searchType}${openNow ? ',open' : ''}`
 }
 
 function getCachedResponse(cacheKey: string): any | null {
@@ -127,21 +128,83 @@ function checkRateLimit(ip: string): { allowed: boolean; remaining: number; rese
   }
 }
 
-function getClientIP(req: VercelRequest): string {
-  // Try to get real IP from various headers (Vercel, Cloudflare, etc.)
-  const forwarded = req.headers['x-forwarded-for']
-  if (forwarded) {
-    const ips = Array.isArray(forwarded) ? forwarded[0] : forwarded
-    return ips.split(',')[0].trim()
+export type GoogleNearbySearch =
+  | { ok: true; results: any[] }
+  | { ok: false; status: number; error: string; message?: string; details?: string }
+
+// Runs one Nearby Search, or answers it from the cache, and tracks what it cost
+// Support different search types: 'coffee' for coffee roasters, 'drinks' for tea/smoothies
+// openNow only returns places Google knows are open right now
+// (also used by ./places, which merges these results with OpenStreetMap's)
+export async function searchGooglePlaces(
+  lat: number,
+  lon: number,
+  radiusMeters: number,
+  searchType: string,
+  clientIP: string,
+  openNow: boolean = false
+): Promise<GoogleNearbySearch> {
+  if (!process.env.GOOGLE_PLACES_API_KEY) {
+    return {
+      ok: false,
+      status: 500,
+      error: 'Google Places API is not configured. Please set GOOGLE_PLACES_API_KEY environment variable.'
+    }
   }
-  
-  const realIP = req.headers['x-real-ip']
-  if (realIP) {
-    return Array.isArray(realIP) ? realIP[0] : realIP
+
+  // Check cache first
+  const cacheKey = getCacheKey(lat, lon, radiusMeters, searchType, openNow)
+  const cachedResponse = getCachedResponse(cacheKey)
+  if (cachedResponse) {
+    // Track cached response (no cost)
+    addApiCall('google-places', `nearbysearch/${searchType}`, true, clientIP)
+    return { ok: true, results: cachedResponse.results }
   }
-  
-  // Fallback to connection remote address
-  return req.socket?.remoteAddress || 'unknown'
+
+  // Coffee: single search with the "coffee" keyword to catch roasters and coffee shops
+  // Drinks: all cafes without a keyword
+  // ./place-classification picks the roasters or drink places out of the results
+  const keyword = searchType === 'coffee' ? '&keyword=coffee' : ''
+  const openNowFilter = openNow ? '&opennow=true' : ''
+  const searchUrl = `https://maps.googleapis.com/maps/api/place/nearbysearch/json?location=${lat},${lon}&radius=${radiusMeters}&type=cafe${keyword}${openNowFilter}&key=${process.env.GOOGLE_PLACES_API_KEY}`
+
+  const googleResponse = await fetch(searchUrl, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  })
+
+  if (!googleResponse.ok) {
+    const errorText = await googleResponse.text()
+    console.error('Google Places API error:', errorText)
+    return {
+      ok: false,
+      status: googleResponse.status,
+      error: 'Failed to fetch from Google Places API',
+      details: errorText
+    }
+  }
+
+  const data = await googleResponse.json()
+
+  // Check for API errors
+  if (data.status && data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
+    return {
+      ok: false,
+      status: 400,
+      error: `Google Places API error: ${data.status}`,
+      message: data.error_message || 'Unknown error'
+    }
+  }
+
+  // Track API call (1 call per search)
+  addApiCall('google-places', `nearbysearch/${searchType === 'coffee' ? 'coffee' : 'drinks'}`, false, clientIP)
+  updateBudgetStatus(COST_PER_REQUEST)
+
+  const results = data.results || []
+  setCachedResponse(cacheKey, { results })
+  return { ok: true, results }
 }
 
 export default async function handler(
@@ -172,7 +235,7 @@ export default async function handler(
   res.setHeader('X-RateLimit-Reset', rateLimit.resetTime.toString())
 
   try {
-    const { latitude, longitude, radius = 8047, searchType } = req.query
+    const { latitude, longitude, radius = 8047, searchType, openNow } = req.query
 
     // Validate required parameters
     if (!latitude || !longitude) {
@@ -187,116 +250,15 @@ export default async function handler(
       return res.status(400).json({ error: 'Invalid coordinates' })
     }
 
-    // Check if Google Places API key is configured
-    if (!process.env.GOOGLE_PLACES_API_KEY) {
-      return res.status(500).json({ 
-        error: 'Google Places API is not configured. Please set GOOGLE_PLACES_API_KEY environment variable.' 
-      })
-    }
-
     // Convert radius from meters (Google Places API uses meters)
     const radiusMeters = Math.round(parseFloat(radius as string) || 8047)
 
-    // Check cache first
-    const cacheKey = getCacheKey(lat, lon, radiusMeters, searchType as string)
-    const cachedResponse = getCachedResponse(cacheKey)
-    if (cachedResponse) {
-      // Track cached response (no cost)
-      addApiCall('google-places', `nearbysearch/${searchType}`, true, clientIP)
-      // Return cached response (don't count against rate limit)
-      return res.status(200).json(cachedResponse)
-    }
-
-    // Google Places API Nearby Search endpoint
-    // Support different search types: 'coffee' for coffee roasters, 'drinks' for tea/smoothies
-    if (searchType === 'coffee') {
-      // Single search for coffee - using "coffee" keyword to catch roasters and coffee shops
-      // Frontend filtering will identify roasters from the results
-      const coffeeUrl = `https://maps.googleapis.com/maps/api/place/nearbysearch/json?location=${lat},${lon}&radius=${radiusMeters}&type=cafe&keyword=coffee&key=${process.env.GOOGLE_PLACES_API_KEY}`
-
-      const googleResponse = await fetch(coffeeUrl, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      })
-
-      if (!googleResponse.ok) {
-        const errorText = await googleResponse.text()
-        console.error('Google Places API error:', errorText)
-        return res.status(googleResponse.status).json({ 
-          error: 'Failed to fetch from Google Places API',
-          details: errorText
-        })
-      }
-
-      const data = await googleResponse.json()
-
-      // Check for API errors
-      if (data.status && data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
-        return res.status(400).json({ 
-          error: `Google Places API error: ${data.status}`,
-          message: data.error_message || 'Unknown error'
-        })
-      }
-
-      // Track API call (1 call per coffee search)
-      addApiCall('google-places', `nearbysearch/coffee`, false, clientIP)
-      updateBudgetStatus(COST_PER_REQUEST)
-      
-      const allResults = data.results || []
-      
-      // Cache and return results
-      const responseData = { 
-        results: allResults
-      }
-      setCachedResponse(cacheKey, responseData)
-      return res.status(200).json(responseData)
-    } else {
-      // Single search for drinks - using "beverage" or broader search without keyword
-      // Frontend filtering will identify drink places from the results
-      // Using type=cafe without keyword to get all cafes, then filter for drinks
-      const drinksUrl = `https://maps.googleapis.com/maps/api/place/nearbysearch/json?location=${lat},${lon}&radius=${radiusMeters}&type=cafe&key=${process.env.GOOGLE_PLACES_API_KEY}`
-
-      const googleResponse = await fetch(drinksUrl, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      })
-
-      if (!googleResponse.ok) {
-        const errorText = await googleResponse.text()
-        console.error('Google Places API error:', errorText)
-        return res.status(googleResponse.status).json({ 
-          error: 'Failed to fetch from Google Places API',
-          details: errorText
-        })
-      }
-
-      const data = await googleResponse.json()
-
-      // Check for API errors
-      if (data.status && data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
-        return res.status(400).json({ 
-          error: `Google Places API error: ${data.status}`,
-          message: data.error_message || 'Unknown error'
-        })
-      }
-
-      // Track API call (1 call per drinks search)
-      addApiCall('google-places', `nearbysearch/drinks`, false, clientIP)
-      updateBudgetStatus(COST_PER_REQUEST)
-      
-      const allResults = data.results || []
-      
-      // Cache and return combined results
-      const responseData = { 
-        results: allResults
-      }
-      setCachedResponse(cacheKey, responseData)
-      return res.status(200).json(responseData)
+    const search = await searchGooglePlaces(lat, lon, radiusMeters, searchType as string, clientIP, openNow === 'true' || openNow === '1')
+    if (!search.ok) {
+      const { ok: _ok, status, ...body } = search
+      return res.status(status).json(body)
     }
+    return res.status(200).json({ results: search.results })
   } catch (error) {
     console.error('Google Places search error:', error)
     
@@ -312,4 +274,3 @@ export default async function handler(
     })
   }
 }
-
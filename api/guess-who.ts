@@ -0,0 +1,227 @@
+// Guess Who
+// Submissions in the party games are anonymous: players see each one under an opaque id without its
+// author's name, and guess who wrote it from the list of everyone who took part. Authors are revealed
+// one submission at a time; guesses on a revealed submission lock, and each correct one scores a point
+// on the game's guess-who scoreboard. The submission games in ./game-definitions build their state
+// through loadGuessWho; the submissions themselves live in ./games-store.
+
+import { createHmac } from 'crypto'
+import { createJsonRepository } from './storage'
+import { eventKey } from './event-store'
+import { getSigningSecret } from './signed-token'
+import type { VoterIdentity } from './voter-identity'
+import { GAMES_NAMESPACE, type ScoreboardEntry } from './games-store'
+
+// One player's authorship guesses: submission key -> author's voter id
+interface AuthorGuesses {
+  playerName: string
+  guesses: Record<string, string>
+  updatedAt: number
+}
+
+// Keyed by guesser and by submission, both by voter id (normalized voter name, see ./voter-identity)
+interface GuessWhoRound {
+  guesses: Record<string, AuthorGuesses>
+  revealedAt: Record<string, number>
+}
+
+// What every player sees
+export interface GuessWhoState {
+  players: string[] // Everyone who submitted, alphabetically (the names to guess from)
+  guessCounts: Record<string, number> // Submission id -> players who guessed its author
+  scoreboard: ScoreboardEntry[] // Correct guesses on revealed submissions, most first
+}
+
+// The asking player's own guesses, returned as myAuthorship (see ./birthday-games)
+export interface PlayerAuthorship {
+  guesses: Record<string, string> // Submission id -> name guessed
+  mySubmission: string | null // Id of their own submission, so they don't guess it
+}
+
+// The author's name only comes along once it has been revealed
+export type AnonymousSubmission<T extends { playerName: string }> = Omit<T, 'playerName'> & {
+  playerName?: string
+  revealedAt?: number
+}
+
+export type GuessWhoResult = { ok: true } | { ok: false; status: number; error: string }
+
+export const EMPTY_AUTHORSHIP: PlayerAuthorship = { guesses: {}, mySubmission: null }
+
+// Maps submission keys (voter ids, which give the name away) to ids and back
+export interface SubmissionIds {
+  idFor(key: string): string
+  keyFor(id: string): string | undefined
+  rekey<V>(record: Record<string, V>): Record<string, V>
+}
+
+export interface GuessWho extends SubmissionIds {
+  state: GuessWhoState
+  isRevealedName(playerName: string): boolean
+  hideAuthors<T extends { playerName: string }>(submissions: Record<string, T>): Record<string, AnonymousSubmission<T>>
+  playerAuthorship(voterId: string): PlayerAuthorship
+}
+
+function guessWhoRepository(eventId: string, gameType: string) {
+  return createJsonRepository<GuessWhoRound>({
+    key: eventKey(GAMES_NAMESPACE, eventId, `${gameType}-guess-who`),
+    initial: () => ({ guesses: {}, revealedAt: {} }),
+  })
+}
+
+// Own keys only: a player called "Constructor" has the key "constructor"
+function hasKey(record: object, key: string): boolean {
+  return Object.keys(record).includes(key)
+}
+
+// Ids are keyed with the voter token secret, so they can't be worked out from a guest list
+export function submissionIds(eventId: string, gameType: string, keys: string[]): SubmissionIds {
+  const secret = getSigningSecret('VOTER_TOKEN_SECRET')
+  const ids = new Map(keys.map(key => [
+    key,
+    createHmac('sha256', secret).update(`guess-who:${eventId}:${gameType}:${key}`).digest('base64url').substring(0, 12),
+  ]))
+  const keysById = new Map([...ids].map(([key, id]) => [id, key]))
+  return {
+    idFor: key => ids.get(key) ?? '',
+    keyFor: id => keysById.get(id),
+    rekey: record => Object.fromEntries(
+      Object.entries(record).filter(([key]) => ids.has(key)).map(([key, value]) => [ids.get(key)!, value])
+    ),
+  }
+}
+
+// Correct guesses per player, counting revealed submissions only
+function buildScoreboard(round: GuessWhoRound): ScoreboardEntry[] {
+  return Object.values(round.guesses)
+    .map(({ playerName, guesses }) => {
+      const scored = Object.entries(guesses).filter(([key]) => hasKey(round.revealedAt, key))
+      return {
+        playerName,
+        correct: scored.filter(([key, authorKey]) => authorKey === key).length,
+        guessed: scored.length,
+      }
+    })
+    .filter(entry => entry.guessed > 0)
+    .sort((a, b) => b.correct - a.correct || a.guessed - b.guessed || a.playerName.localeCompare(b.playerName))
+}
+
+// Loads a game's guesses and reveals for its current submissions (keyed by voter id)
+export async function loadGuessWho(
+  eventId: string,
+  gameType: string,
+  submissions: Record<string, { playerName: string }>
+): Promise<GuessWho> {
+  const round = await guessWhoRepository(eventId, gameType).get().catch((error) => {
+    console.error('Error getting guess-who round from storage:', error)
+    return { guesses: {}, revealedAt: {} } as GuessWhoRound
+  })
+  const keys = Object.keys(submissions)
+  const ids = submissionIds(eventId, gameType, keys)
+  const allGuesses = Object.values(round.guesses)
+  const isRevealed = (key: string) => hasKey(round.revealedAt, key) && keys.includes(key)
+
+  return {
+    ...ids,
+    state: {
+      players: keys.map(key => submissions[key].playerName).sort((a, b) => a.localeCompare(b)),
+      guessCounts: Object.fromEntries(
+        keys.map(key => [ids.idFor(key), allGuesses.filter(entry => hasKey(entry.guesses, key)).length])
+      ),
+      scoreboard: buildScoreboard(round),
+    },
+    isRevealedName: playerName => keys.some(key => submissions[key].playerName === playerName && isRevealed(key)),
+    hideAuthors: <T extends { playerName: string }>(all: Record<string, T>) => Object.fromEntries(
+      Object.entries(all).map(([key, { playerName, ...submission }]) => [
+        ids.idFor(key),
+        (isRevealed(key) ? { ...submission, playerName, revealedAt: round.revealedAt[key] } : submission) as AnonymousSubmission<T>,
+      ])
+    ),
+    playerAuthorship: (voterId) => {
+      const guesses = hasKey(round.guesses, voterId) ? round.guesses[voterId].guesses : {}
+      return {
+        guesses: ids.rekey(
+          Object.fromEntries(
+            Object.entries(guesses)
+              .filter(([, authorKey]) => hasKey(submissions, authorKey))
+              .map(([key, authorKey]) => [key, submissions[authorKey].playerName])
+          )
+        ),
+        mySubmission: hasKey(submissions, voterId) ? ids.idFor(voterId) : null,
+      }
+    },
+  }
+}
+
+// Records (or changes) a guess at who wrote a submission; guesses lock once its author is revealed
+export async function saveAuthorGuess(
+  eventId: string,
+  gameType: string,
+  submissions: Record<string, { playerName: string }>,
+  guesser: VoterIdentity,
+  submissionId: string,
+  authorName: string
+): Promise<GuessWhoResult> {
+  const key = submissionIds(eventId, gameType, Object.keys(submissions)).keyFor(submissionId)
+  if (!key) {
+    return { ok: false, status: 404, error: 'Submission not found' }
+  }
+  if (key === guesser.id) {
+    return { ok: false, status: 400, error: "That one's yours" }
+  }
+  // Players pick authors by the name shown; display names are unique because voter ids are
+  const authorKey = Object.keys(submissions).find(candidate => submissions[candidate].playerName === authorName)
+  if (!authorKey || authorKey === guesser.id) {
+    return { ok: false, status: 400, error: 'Pick one of the other players' }
+  }
+
+  let locked = false
+  await guessWhoRepository(eventId, gameType).update(round => {
+    locked = hasKey(round.revealedAt, key)
+    if (locked) {
+      return round
+    }
+    const existing = hasKey(round.guesses, guesser.id) ? round.guesses[guesser.id] : undefined
+    return {
+      ...round,
+      guesses: {
+        ...round.guesses,
+        [guesser.id]: {
+          playerName: guesser.name,
+          guesses: { ...existing?.guesses, [key]: authorKey },
+          updatedAt: Date.now(),
+        },
+      },
+    }
+  })
+
+  return locked ? { ok: false, status: 409, error: 'The author has already been revealed' } : { ok: true }
+}
+
+// Shows who wrote one submission (keyed by its author's voter id) and scores the guesses on it; only the host
+// reveals authors (see ./event-admin)
+export async function revealAuthor(
+  eventId: string,
+  gameType: string,
+  submissions: Record<string, { playerName: string }>,
+  voterId: string
+): Promise<GuessWhoResult> {
+  if (!hasKey(submissions, voterId)) {
+    return { ok: false, status: 404, error: 'Submission not found' }
+  }
+
+  await guessWhoRepository(eventId, gameType).update(round => ({
+    ...round,
+    revealedAt: { ...round.revealedAt, [voterId]: hasKey(round.revealedAt, voterId) ? round.revealedAt[voterId] : Date.now() },
+  }))
+  return { ok: true }
+}
+
+// When each author was revealed, keyed by voter id (for the host's view)
+export async function getRevealedAuthors(eventId: string, gameType: string): Promise<Record<string, number>> {
+  return (await guessWhoRepository(eventId, gameType).get()).revealedAt
+}
+
+export async function clearGuessWho(eventId: string, gameType: string): Promise<void> {
+  await guessWhoRepository(eventId, gameType).clear()
+}
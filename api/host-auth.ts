@@ -0,0 +1,28 @@
+// Host Authentication
+// Hosts manage events with a shared admin token (EVENT_ADMIN_TOKEN), sent as
+// "Authorization: Bearer <token>". Guests never see or need it.
+
+import type { VercelRequest } from '@vercel/node'
+import { timingSafeEqual } from 'crypto'
+
+export type HostCheck = { ok: true } | { ok: false; status: number; error: string }
+
+export function checkHostRequest(req: VercelRequest): HostCheck {
+  const adminToken = process.env.EVENT_ADMIN_TOKEN
+  if (!adminToken) {
+    console.error('EVENT_ADMIN_TOKEN environment variable is not set')
+    return { ok: false, status: 500, error: 'Host access is not configured' }
+  }
+
+  const header = req.headers.authorization
+  const provided = typeof header === 'string' && header.startsWith('Bearer ') ? header.slice('Bearer '.length) : ''
+
+  // Constant-time comparison to prevent timing attacks
+  const expected = Buffer.from(adminToken)
+  const actual = Buffer.from(provided)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, status: 401, error: 'Host token required' }
+  }
+
+  return { ok: true }
+}
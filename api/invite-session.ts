@@ -0,0 +1,149 @@
+// Invite Sessions
+// Guests unlock a password-protected event once and get a signed, expiring session token.
+// The poll and games APIs require the token (sent in X-Invite-Session) for protected events.
+// Wrong passwords are counted per IP; too many in a row locks that IP out for a while.
+
+import type { VercelRequest } from '@vercel/node'
+import { createHmac, timingSafeEqual } from 'crypto'
+import { getStorage, namespacedKey, type StorageScript } from './storage'
+import { getSigningSecret, signToken, verifyToken } from './signed-token'
+import { requiresPassword, type EventDefinition } from './event-store'
+
+interface InviteSessionPayload {
+  evt: string
+  exp: number
+}
+
+export type InviteSessionCheck = { ok: true } | { ok: false; status: number; error: string }
+
+// Header clients send the session token in
+export const INVITE_SESSION_HEADER = 'X-Invite-Session'
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000 // 12 hours (one party night)
+
+// Lockout configuration: 5 wrong passwords within 15 minutes locks the IP for 15 minutes
+const MAX_FAILED_ATTEMPTS = 5
+const FAILURE_WINDOW_MS = 15 * 60 * 1000
+const LOCKOUT_MS = 15 * 60 * 1000
+
+interface LockoutRecord {
+  failures: number
+  windowStart: number
+  lockedUntil: number
+}
+
+// Counts a wrong password and locks the IP once it reaches the limit
+// KEYS: lockout record; ARGV: now, window ms, max failures, lockout ms
+// Returns the lockedUntil timestamp (0 if not locked)
+const RECORD_FAILURE_SCRIPT: StorageScript = {
+  lua: `
+local now = tonumber(ARGV[1])
+local record = { failures = 0, windowStart = now, lockedUntil = 0 }
+local raw = redis.call('GET', KEYS[1])
+if raw then record = cjson.decode(raw) end
+if record.lockedUntil > now then return record.lockedUntil end
+if now - record.windowStart > tonumber(ARGV[2]) then
+  record.failures = 0
+  record.windowStart = now
+end
+record.failures = record.failures + 1
+if record.failures >= tonumber(ARGV[3]) then
+  record.lockedUntil = now + tonumber(ARGV[4])
+  record.failures = 0
+  record.windowStart = now
+end
+redis.call('SET', KEYS[1], cjson.encode(record), 'PX', tonumber(ARGV[2]) + tonumber(ARGV[4]))
+return record.lockedUntil
+`,
+  memory: (store, [recordKey], [nowArg, windowArg, maxArg, lockoutArg]) => {
+    const now = Number(nowArg)
+    const raw = store.get(recordKey)
+    const record: LockoutRecord = raw ? JSON.parse(raw) : { failures: 0, windowStart: now, lockedUntil: 0 }
+    if (record.lockedUntil > now) {
+      return record.lockedUntil
+    }
+    if (now - record.windowStart > Number(windowArg)) {
+      record.failures = 0
+      record.windowStart = now
+    }
+    record.failures += 1
+    if (record.failures >= Number(maxArg)) {
+      record.lockedUntil = now + Number(lockoutArg)
+      record.failures = 0
+      record.windowStart = now
+    }
+    store.set(recordKey, JSON.stringify(record))
+    return record.lockedUntil
+  },
+}
+
+function lockoutKey(eventId: string, ip: string): string {
+  return namespacedKey('invite-lockout', eventId, ip)
+}
+
+// Returns when the IP's lockout ends, or null if it isn't locked out
+export async function getLockedUntil(eventId: string, ip: string): Promise<number | null> {
+  const storage = await getStorage()
+  const raw = await storage.get(lockoutKey(eventId, ip))
+  if (!raw) {
+    return null
+  }
+  const record = JSON.parse(raw) as LockoutRecord
+  return record.lockedUntil > Date.now() ? record.lockedUntil : null
+}
+
+// Returns when the IP's lockout ends if this failure locked it out, otherwise null
+export async function recordFailedAttempt(eventId: string, ip: string): Promise<number | null> {
+  const storage = await getStorage()
+  const now = Date.now()
+  const lockedUntil = await storage.runScript(
+    RECORD_FAILURE_SCRIPT,
+    [lockoutKey(eventId, ip)],
+    [String(now), String(FAILURE_WINDOW_MS), String(MAX_FAILED_ATTEMPTS), String(LOCKOUT_MS)]
+  )
+  return Number(lockedUntil) > now ? Number(lockedUntil) : null
+}
+
+export async function clearFailedAttempts(eventId: string, ip: string): Promise<void> {
+  const storage = await getStorage()
+  await storage.del([lockoutKey(eventId, ip)])
+}
+
+// Constant-time comparison to prevent timing attacks
+// Both sides are hashed first so the comparison doesn't leak the password length either
+export function passwordsMatch(provided: string, expected: string): boolean {
+  const secret = getSigningSecret('INVITE_SESSION_SECRET')
+  const providedDigest = createHmac('sha256', secret).update(provided).digest()
+  const expectedDigest = createHmac('sha256', secret).update(expected).digest()
+  return timingSafeEqual(providedDigest, expectedDigest)
+}
+
+export function issueInviteSession(eventId: string): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + SESSION_TTL_MS
+  const payload: InviteSessionPayload = { evt: eventId, exp: expiresAt }
+  return { token: signToken(payload, getSigningSecret('INVITE_SESSION_SECRET')), expiresAt }
+}
+
+// Open events don't need a session; protected ones need an unexpired token for that event
+export function checkInviteSession(req: VercelRequest, event: EventDefinition): InviteSessionCheck {
+  if (!requiresPassword(event)) {
+    return { ok: true }
+  }
+
+  // EventSource can't send headers, so the live update stream passes the token as ?inviteSession=
+  const header = req.headers[INVITE_SESSION_HEADER.toLowerCase()] ?? req.query.inviteSession
+  const token = Array.isArray(header) ? header[0] : header
+  if (!token) {
+    return { ok: false, status: 401, error: 'Invite session required' }
+  }
+
+  const payload = verifyToken<InviteSessionPayload>(token, getSigningSecret('INVITE_SESSION_SECRET'))
+  if (!payload || payload.evt !== event.id) {
+    return { ok: false, status: 401, error: 'Invite session invalid' }
+  }
+  if (payload.exp <= Date.now()) {
+    return { ok: false, status: 401, error: 'Invite session expired' }
+  }
+
+  return { ok: true }
+}
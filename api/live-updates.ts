@@ -0,0 +1,96 @@
+// Live Updates
+// Poll, comment, game and playlist changes are published on a per-event channel after every write,
+// and ./event-stream forwards them to connected guests over Server-Sent Events.
+// Each message carries the full current state of what changed, so clients just replace it.
+
+import { getStorage } from './storage'
+import { eventKey } from './event-store'
+import {
+  getComments,
+  getPollSnapshot,
+  type PollContext,
+  type PollSnapshot,
+  type PollStatus,
+  type PollSummary,
+  type Restaurant,
+} from './poll-store'
+import type { PollResults } from './poll-tally'
+import { GAME_TYPES, getGameDefinition, type GameState, type GameType } from './game-definitions'
+import { getPlaylist, type Playlist } from './playlist-store'
+
+// One games message per registered game type (see ./game-definitions)
+type GamesUpdate = { [T in GameType]: { type: 'games'; gameType: T } & GameState<T> }[GameType]
+
+export type LiveUpdate =
+  | {
+      type: 'poll'
+      restaurants: Restaurant[]
+      people: number
+      voterRegistry: Record<string, string>
+      voterBallots: Record<string, string[]>
+      results: PollResults
+      summary: PollSummary
+      status: PollStatus
+      opensAt?: string
+      closesAt?: string
+    }
+  | { type: 'comments'; comments: Record<string, string[]> }
+  | GamesUpdate
+  | ({ type: 'playlist' } & Playlist)
+
+function channelFor(eventId: string): string {
+  return eventKey('live', eventId)
+}
+
+// Publishing is best-effort: a failed broadcast shouldn't fail the write that triggered it
+export async function publishLiveUpdate(eventId: string, update: LiveUpdate): Promise<void> {
+  try {
+    const storage = await getStorage()
+    await storage.publish(channelFor(eventId), JSON.stringify(update))
+  } catch (error) {
+    console.error('Error publishing live update:', error)
+  }
+}
+
+export async function subscribeToLiveUpdates(
+  eventId: string,
+  listener: (update: LiveUpdate) => void
+): Promise<() => Promise<void>> {
+  const storage = await getStorage()
+  return storage.subscribe(channelFor(eventId), (message) => {
+    try {
+      listener(JSON.parse(message) as LiveUpdate)
+    } catch (error) {
+      console.error('Error parsing live update:', error)
+    }
+  })
+}
+
+export function pollUpdateFrom({ pollData, voterRegistry, voterBallots, results, summary }: PollSnapshot): LiveUpdate {
+  const { restaurants, people, status, opensAt, closesAt } = pollData
+  return { type: 'poll', restaurants, people, status, opensAt, closesAt, voterRegistry, voterBallots, results, summary }
+}
+
+export async function buildPollUpdate(ctx: PollContext): Promise<LiveUpdate> {
+  return pollUpdateFrom(await getPollSnapshot(ctx))
+}
+
+export async function buildGamesUpdate<T extends GameType>(eventId: string, gameType: T): Promise<LiveUpdate> {
+  const state = await getGameDefinition(gameType).getState(eventId)
+  return { type: 'games', gameType, ...state } as GamesUpdate
+}
+
+export async function buildPlaylistUpdate(eventId: string): Promise<LiveUpdate> {
+  return { type: 'playlist', ...(await getPlaylist(eventId)) }
+}
+
+// Everything a client shows, sent when a stream opens and after host changes
+export async function buildLiveSnapshot(ctx: PollContext): Promise<LiveUpdate[]> {
+  const [poll, comments, playlist, ...games] = await Promise.all([
+    buildPollUpdate(ctx),
+    getComments(ctx),
+    buildPlaylistUpdate(ctx.event.id),
+    ...GAME_TYPES.map(gameType => buildGamesUpdate(ctx.event.id, gameType)),
+  ])
+  return [poll, { type: 'comments', comments }, playlist, ...games]
+}
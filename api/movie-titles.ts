@@ -0,0 +1,117 @@
+// Movie Titles
+// Merges the GOAT game's free-text nominations into one list of films.
+// Titles are compared after normalizing case, punctuation, a leading article and a trailing year,
+// and near-identical spellings (typos, "Starwars" vs "Star Wars") are collapsed together. Sequels never
+// merge by spelling: titles numbered differently ("Toy Story 2" vs "3", "Part II" vs "Part III") or where
+// one just runs on past the other ("Alien" vs "Aliens", "Shrek" vs "Shrek 2") stay separate films.
+
+export interface Nomination {
+  title: string
+  playerName: string
+  submittedAt: number
+}
+
+export interface MergedMovie {
+  id: string // Normalized title of the first nomination (stable while that nomination exists)
+  title: string // Most common spelling, earliest first on ties
+  nominators: string[] // Player names in nomination order, each once
+}
+
+// Titles this short only merge when they normalize to exactly the same thing ("Up" vs "Us")
+const MIN_FUZZY_LENGTH = 5
+// Edits allowed per character of the shorter title
+const FUZZY_EDIT_RATIO = 0.15
+
+// Roman numerals as whole words, e.g. the "ii" in "godfather part ii" (a lone "i" is usually the word I)
+const ROMAN_NUMERAL = /^(x{0,3})(ix|iv|v?i{0,3})$/
+
+// "The Godfather (1972)" -> "godfather"
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Drop accents
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\(\s*\d{4}\s*\)\s*$/, '')
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '')
+}
+
+// Edits to turn a into b; swapping two neighbouring letters counts as one edit
+function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1)
+      }
+    }
+    beforePrevious = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// The numbers in a normalized title, digits and roman numerals alike ("toy story 3" -> "3")
+function sequelNumbers(title: string): string {
+  const numbers = title.match(/\d+/g) ?? []
+  const numerals = title.split(' ').filter(word => word && word !== 'i' && ROMAN_NUMERAL.test(word))
+  return [...numbers, ...numerals].join(' ')
+}
+
+// Compares normalized titles; spaces are ignored so "starwars" matches "star wars"
+export function titlesMatch(a: string, b: string): boolean {
+  const left = a.replace(/ /g, '')
+  const right = b.replace(/ /g, '')
+  if (left === right) {
+    return true
+  }
+  const shorter = Math.min(left.length, right.length)
+  if (shorter < MIN_FUZZY_LENGTH) {
+    return false
+  }
+  // A different number, or more on the end, makes another film rather than a typo
+  if (sequelNumbers(a) !== sequelNumbers(b) || left.startsWith(right) || right.startsWith(left)) {
+    return false
+  }
+  return editDistance(left, right) <= Math.max(1, Math.floor(shorter * FUZZY_EDIT_RATIO))
+}
+
+// Groups nominations into films, earliest nomination first
+export function mergeNominations(nominations: Nomination[]): MergedMovie[] {
+  const groups: Array<{ key: string; members: Nomination[] }> = []
+
+  for (const nomination of [...nominations].sort((a, b) => a.submittedAt - b.submittedAt)) {
+    const key = normalizeTitle(nomination.title)
+    if (!key) {
+      continue
+    }
+    const group = groups.find(candidate => titlesMatch(candidate.key, key))
+    if (group) {
+      group.members.push(nomination)
+    } else {
+      groups.push({ key, members: [nomination] })
+    }
+  }
+
+  return groups.map(({ key, members }) => {
+    const spellings = new Map<string, number>()
+    members.forEach(member => spellings.set(member.title.trim(), (spellings.get(member.title.trim()) || 0) + 1))
+    const [title] = [...spellings.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))
+
+    return {
+      id: key.replace(/ /g, '-'),
+      title,
+      nominators: [...new Set(members.map(member => member.playerName))],
+    }
+  })
+}
@@ -0,0 +1,298 @@
+// Place Classification
+// Sorts the places the coffee finder gets back from OpenStreetMap and Google into categories
+// (chains, bakeries, roasters, drink places...) using the declarative rules in ./place-rules.json.
+// Both sources are first normalized into a PlaceRecord, so one rule covers OSM tags and Google types.
+// Every match says which rule fired and why, e.g. "classified as coffee roaster because name contains "roast"".
+//
+// Conditions (keyword lists may name a shared list with "@name"):
+// - { nameIncludes: [...] } / { brandIncludes: [...] }  - the lowercased name or brand contains one of them
+// - { nameHasWord: [...] } / { brandHasWord: [...] }    - the same, as a whole word or phrase ("bp" but not "bpm")
+// - { tag, equals: [...] } / { tag, includes: [...] }    - an OSM tag equals / contains one of them
+// - { tag, present: true }                              - the OSM tag is set
+// - { type: [...] }                                     - one of the Google place types
+// - { category }                                        - the place is in another category
+// - { all: [...] } / { any: [...] } / { not: ... }
+
+import placeRules from './place-rules.json'
+
+export type PlaceSource = 'OSM' | 'Google'
+
+// One place as both sources describe it
+export interface PlaceRecord {
+  source: PlaceSource
+  id: string
+  name: string
+  brand?: string
+  lat: number
+  lon: number
+  address: {
+    formatted?: string
+    street?: string
+    housenumber?: string
+    city?: string
+    postcode?: string
+  }
+  phone?: string
+  website?: string
+  rating?: number // Google's average rating (1-5)
+  ratingCount?: number
+  openNow?: boolean // Google's opening hours, when known
+  tags: Record<string, string> // OSM tags (empty for Google)
+  types: string[] // Google place types (empty for OSM)
+}
+
+export type PlaceCondition =
+  | { nameIncludes: string[] }
+  | { brandIncludes: string[] }
+  | { nameHasWord: string[] }
+  | { brandHasWord: string[] }
+  | { tag: string; equals: string[] }
+  | { tag: string; includes: string[] }
+  | { tag: string; present: true }
+  | { type: string[] }
+  | { category: string }
+  | { all: PlaceCondition[] }
+  | { any: PlaceCondition[] }
+  | { not: PlaceCondition }
+
+export interface PlaceRule {
+  id: string
+  when: PlaceCondition
+}
+
+export interface PlaceCategoryRules {
+  label: string // Used in explanations ("coffee roaster")
+  excludedBy?: string[] // Categories that rule this one out, checked first
+  rules: PlaceRule[] // Any matching rule puts the place in the category
+}
+
+// What each search mode keeps: nothing in an excluded category, and only places meeting require
+export interface PlaceSearchRules {
+  exclude: string[]
+  require: PlaceCondition
+}
+
+export interface PlaceRuleSet {
+  lists: Record<string, string[]>
+  categories: Record<string, PlaceCategoryRules>
+  drinkTypes: Array<{ label: string; when: PlaceCondition }>
+  searches: Record<string, PlaceSearchRules>
+}
+
+// Why a place is (or isn't) in a category
+export interface PlaceMatch {
+  category: string
+  matched: boolean
+  ruleId?: string // The rule that matched, or the category that ruled it out
+  reasons: string[]
+}
+
+export type PlaceSearchMode = 'coffee' | 'drinks'
+
+export interface PlaceVerdict {
+  included: boolean
+  explanation: string
+}
+
+export const PLACE_RULES = placeRules as PlaceRuleSet
+
+// The rule set's keyword lists, with "@name" entries expanded
+function expandKeywords(rules: PlaceRuleSet, keywords: string[]): string[] {
+  return keywords.flatMap(keyword => {
+    if (!keyword.startsWith('@')) {
+      return [keyword]
+    }
+    const list = rules.lists[keyword.substring(1)]
+    if (!list) {
+      throw new Error(`Unknown place keyword list: ${keyword}`)
+    }
+    return list
+  })
+}
+
+// Whether text has a keyword with no letter or digit either side, so short ones like "ta" skip "Santa"
+function hasWord(text: string, word: string): boolean {
+  for (let index = text.indexOf(word); index !== -1; index = text.indexOf(word, index + 1)) {
+    const before = text.charAt(index - 1)
+    const after = text.charAt(index + word.length)
+    if (!/[\p{L}\p{N}]/u.test(before) && !/[\p{L}\p{N}]/u.test(after)) {
+      return true
+    }
+  }
+  return false
+}
+
+// Everything the rules say about one place
+export interface PlaceClassification {
+  classify(category: string): PlaceMatch // Whether the place is in a category, and why
+  is(category: string): boolean
+  drinkTypes(): string[] // Specific drinks it's known for (tea, boba, smoothies...)
+  verdict(mode: PlaceSearchMode, options?: PlaceVerdictOptions): PlaceVerdict // Whether a search mode keeps it, and why
+}
+
+export interface PlaceVerdictOptions {
+  allow?: string[] // Excluded categories to let through anyway (e.g. 'chain' when someone wants chains)
+}
+
+/**
+ * Explains a category result, e.g. 'classified as coffee roaster because name contains "roast"'
+ */
+export function describePlaceMatch(match: PlaceMatch, rules: PlaceRuleSet = PLACE_RULES): string {
+  const label = rules.categories[match.category]?.label ?? match.category
+  if (match.matched) {
+    return `classified as ${label} because ${match.reasons.join(' and ')}`
+  }
+  return match.reasons.length > 0
+    ? `not a ${label} because ${match.reasons.join(' and ')}`
+    : `not a ${label}`
+}
+
+// Classifies one place; each category is worked out once, so rules can refer to each other
+export function classifyPlace(place: PlaceRecord, rules: PlaceRuleSet = PLACE_RULES): PlaceClassification {
+  const matches = new Map<string, PlaceMatch>()
+  const name = place.name.toLowerCase()
+  const brand = place.brand?.toLowerCase() || ''
+  const tags = Object.fromEntries(Object.entries(place.tags).map(([key, value]) => [key, value.toLowerCase()]))
+  const keywords = (list: string[]) => expandKeywords(rules, list)
+  const label = (category: string) => rules.categories[category]?.label ?? category
+
+  // The reasons a condition holds, or null when it doesn't
+  const test = (condition: PlaceCondition): string[] | null => {
+    if ('all' in condition) {
+      const reasons: string[] = []
+      for (const part of condition.all) {
+        const partReasons = test(part)
+        if (!partReasons) {
+          return null
+        }
+        reasons.push(...partReasons)
+      }
+      return reasons
+    }
+    if ('any' in condition) {
+      for (const part of condition.any) {
+        const reasons = test(part)
+        if (reasons) {
+          return reasons
+        }
+      }
+      return null
+    }
+    if ('not' in condition) {
+      return test(condition.not) ? null : [negate(condition.not)]
+    }
+    if ('category' in condition) {
+      const match = classify(condition.category)
+      return match.matched ? [`it is a ${label(condition.category)} (${match.reasons.join(' and ')})`] : null
+    }
+    if ('nameIncludes' in condition) {
+      const keyword = keywords(condition.nameIncludes).find(word => name.includes(word))
+      return keyword ? [`name contains "${keyword}"`] : null
+    }
+    if ('brandIncludes' in condition) {
+      const keyword = brand ? keywords(condition.brandIncludes).find(word => brand.includes(word)) : undefined
+      return keyword ? [`brand contains "${keyword}"`] : null
+    }
+    if ('nameHasWord' in condition) {
+      const keyword = keywords(condition.nameHasWord).find(word => hasWord(name, word))
+      return keyword ? [`name contains "${keyword}"`] : null
+    }
+    if ('brandHasWord' in condition) {
+      const keyword = brand ? keywords(condition.brandHasWord).find(word => hasWord(brand, word)) : undefined
+      return keyword ? [`brand contains "${keyword}"`] : null
+    }
+    if ('type' in condition) {
+      const types = keywords(condition.type)
+      const type = place.types.find(placeType => types.includes(placeType.toLowerCase()))
+      return type ? [`Google type is ${type}`] : null
+    }
+
+    const value = tags[condition.tag]
+    if (!value) {
+      return null
+    }
+    if ('present' in condition) {
+      return [`OSM ${condition.tag} is ${value}`]
+    }
+    if ('equals' in condition) {
+      return keywords(condition.equals).includes(value) ? [`OSM ${condition.tag}=${value}`] : null
+    }
+    const keyword = keywords(condition.includes).find(word => value.includes(word))
+    return keyword ? [`OSM ${condition.tag} contains "${keyword}"`] : null
+  }
+
+  // Wording for a condition that didn't hold, e.g. 'name has none of "tea", "smoothie", "juice"...'
+  const negate = (condition: PlaceCondition): string => {
+    const preview = (list: string[]) => {
+      const words = keywords(list)
+      return words.slice(0, 3).map(word => `"${word}"`).join(', ') + (words.length > 3 ? '...' : '')
+    }
+    if ('nameIncludes' in condition) {
+      return `name has none of ${preview(condition.nameIncludes)}`
+    }
+    if ('nameHasWord' in condition) {
+      return `name has none of ${preview(condition.nameHasWord)}`
+    }
+    if ('category' in condition) {
+      return `it is not a ${label(condition.category)}`
+    }
+    if ('type' in condition) {
+      return `Google type is none of ${preview(condition.type)}`
+    }
+    if ('tag' in condition) {
+      const value = tags[condition.tag]
+      return value ? `OSM ${condition.tag} is ${value}` : `no OSM ${condition.tag}`
+    }
+    return 'other conditions do not hold'
+  }
+
+  const evaluate = (category: string, definition: PlaceCategoryRules): PlaceMatch => {
+    for (const excluding of definition.excludedBy ?? []) {
+      const match = classify(excluding)
+      if (match.matched) {
+        return { category, matched: false, ruleId: excluding, reasons: [`it is a ${label(excluding)}`, ...match.reasons] }
+      }
+    }
+
+    for (const rule of definition.rules) {
+      const reasons = test(rule.when)
+      if (reasons) {
+        return { category, matched: true, ruleId: rule.id, reasons }
+      }
+    }
+    return { category, matched: false, reasons: [] }
+  }
+
+  const classify = (category: string): PlaceMatch => {
+    const cached = matches.get(category)
+    if (cached) {
+      return cached
+    }
+    const definition = rules.categories[category]
+    if (!definition) {
+      throw new Error(`Unknown place category: ${category}`)
+    }
+    const match = evaluate(category, definition)
+    matches.set(category, match)
+    return match
+  }
+
+  return {
+    classify,
+    is: category => classify(category).matched,
+    drinkTypes: () => rules.drinkTypes.filter(({ when }) => test(when) !== null).map(({ label }) => label),
+    verdict: (mode, { allow = [] } = {}) => {
+      const search = rules.searches[mode]
+      for (const category of search.exclude.filter(excluded => !allow.includes(excluded))) {
+        const match = classify(category)
+        if (match.matched) {
+          return { included: false, explanation: describePlaceMatch(match, rules) }
+        }
+      }
+      const reasons = test(search.require)
+      return reasons
+        ? { included: true, explanation: `found for ${mode} because ${reasons.join(' and ')}` }
+        : { included: false, explanation: `not a match for ${mode}` }
+    },
+  }
+}
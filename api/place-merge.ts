@@ -0,0 +1,188 @@
+// Place Merging
+// OpenStreetMap and Google often list the same place, sometimes under slightly different names
+// ("Handlebar Coffee" / "Handlebar Coffee Roasters") and a few meters apart. Records are treated as
+// the same place when they're close together and their names match loosely; branches of a chain a
+// mile apart stay separate. Merged places take each field from the first source that has it and
+// remember which source that was, so the coffee finder can show where every detail came from.
+
+import type { PlaceRecord, PlaceSource } from './place-classification'
+
+export type PlaceField =
+  | 'name'
+  | 'brand'
+  | 'phone'
+  | 'website'
+  | 'rating'
+  | 'openNow'
+  | 'address.formatted'
+  | 'address.street'
+  | 'address.housenumber'
+  | 'address.city'
+  | 'address.postcode'
+
+// A place as one or more records describe it
+export interface MergedPlace {
+  record: PlaceRecord // Every known field, with OSM tags and Google types combined for classification
+  sources: PlaceSource[] // Sources that listed the place
+  fieldSources: Partial<Record<PlaceField, PlaceSource>> // Where each field came from
+}
+
+// Records this close together can be the same place (OSM nodes sit on the door, Google pins on the building)
+const MAX_MERGE_DISTANCE_KM = 0.15
+
+// How alike two names must be when neither contains the other (0-1, see nameSimilarity)
+const MIN_NAME_SIMILARITY = 0.8
+
+// Field values are taken from the first source in this order; Google's contact details tend to be more up to date
+const SOURCE_PRIORITY: PlaceSource[] = ['Google', 'OSM']
+
+// Words that say what a place is rather than which one it is; "Coffee" alone doesn't match "Handlebar Coffee"
+const GENERIC_NAME_WORDS = new Set([
+  'the', 'and', 'coffee', 'cafe', 'caffe', 'tea', 'roasters', 'roaster', 'roasting', 'roastery',
+  'co', 'company', 'shop', 'bar', 'house', 'juice', 'smoothie', 'smoothies', 'boba',
+])
+
+const ADDRESS_FIELDS = ['formatted', 'street', 'housenumber', 'city', 'postcode'] as const
+
+// Great-circle distance in kilometers (Haversine formula)
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371 // Earth's radius in kilometers
+  const dLat = (lat2 - lat1) * Math.PI / 180
+  const dLon = (lon2 - lon1) * Math.PI / 180
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2)
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+// "Café Nero's" -> ['cafe', 'neros']
+function nameWords(name: string): string[] {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+// Dice coefficient of the names' letter pairs: 1 for the same letters, 0 for nothing in common
+function nameSimilarity(a: string, b: string): number {
+  const pairs = (text: string) => {
+    const result = new Map<string, number>()
+    for (let i = 0; i < text.length - 1; i++) {
+      const pair = text.substring(i, i + 2)
+      result.set(pair, (result.get(pair) ?? 0) + 1)
+    }
+    return result
+  }
+  const pairsA = pairs(a)
+  const pairsB = pairs(b)
+  let shared = 0
+  let total = 0
+  for (const [pair, count] of pairsA) {
+    shared += Math.min(count, pairsB.get(pair) ?? 0)
+    total += count
+  }
+  for (const count of pairsB.values()) {
+    total += count
+  }
+  return total === 0 ? 0 : (2 * shared) / total
+}
+
+// Whether two names plausibly belong to the same place
+export function namesMatch(a: string, b: string): boolean {
+  const wordsA = nameWords(a)
+  const wordsB = nameWords(b)
+  const joinedA = wordsA.join(' ')
+  const joinedB = wordsB.join(' ')
+  if (!joinedA || !joinedB) {
+    return false
+  }
+  if (joinedA === joinedB) {
+    return true
+  }
+
+  // One name is the other plus a few words ("Handlebar Coffee" / "Handlebar Coffee Roasters"),
+  // as long as the shorter one has a distinctive word of its own
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA]
+  if (shorter.every(word => longer.includes(word)) && shorter.some(word => !GENERIC_NAME_WORDS.has(word))) {
+    return true
+  }
+
+  // Spelling differences ("KungFu Tea" / "Kung Fu Tea", "Jamba Juice" / "Jamba Juices")
+  return nameSimilarity(joinedA.replace(/ /g, ''), joinedB.replace(/ /g, '')) >= MIN_NAME_SIMILARITY
+}
+
+function isSamePlace(a: PlaceRecord, b: PlaceRecord): boolean {
+  return distanceKm(a.lat, a.lon, b.lat, b.lon) <= MAX_MERGE_DISTANCE_KM && namesMatch(a.name, b.name)
+}
+
+// Combines records of one place: each field comes from the highest-priority record that has it
+function mergeGroup(group: PlaceRecord[]): MergedPlace {
+  const ordered = [...group].sort((a, b) => SOURCE_PRIORITY.indexOf(a.source) - SOURCE_PRIORITY.indexOf(b.source))
+  const [primary] = ordered
+  const fieldSources: MergedPlace['fieldSources'] = {}
+
+  const pick = <T>(field: PlaceField, value: (record: PlaceRecord) => T | undefined): T | undefined => {
+    const record = ordered.find(candidate => value(candidate) !== undefined)
+    if (!record) {
+      return undefined
+    }
+    fieldSources[field] = record.source
+    return value(record)
+  }
+
+  const address: PlaceRecord['address'] = {}
+  for (const field of ADDRESS_FIELDS) {
+    const value = pick(`address.${field}`, record => record.address[field])
+    if (value) {
+      address[field] = value
+    }
+  }
+
+  const record: PlaceRecord = {
+    source: primary.source,
+    id: primary.id,
+    name: pick('name', record => record.name) ?? primary.name,
+    brand: pick('brand', record => record.brand),
+    lat: primary.lat,
+    lon: primary.lon,
+    address,
+    phone: pick('phone', record => record.phone),
+    website: pick('website', record => record.website),
+    rating: pick('rating', record => record.rating),
+    ratingCount: ordered.find(candidate => candidate.rating !== undefined)?.ratingCount,
+    openNow: pick('openNow', record => record.openNow),
+    // On conflicting tags the higher-priority record wins, same as the other fields
+    tags: Object.assign({}, ...[...ordered].reverse().map(candidate => candidate.tags)),
+    types: Array.from(new Set(ordered.flatMap(candidate => candidate.types))),
+  }
+
+  return {
+    record,
+    sources: Array.from(new Set(ordered.map(candidate => candidate.source))),
+    fieldSources,
+  }
+}
+
+/**
+ * Groups records that describe the same place and merges each group into one place
+ * A record joins the first group with a member close by and a matching name
+ */
+export function mergePlaces(records: PlaceRecord[]): MergedPlace[] {
+  const groups: PlaceRecord[][] = []
+
+  for (const record of records) {
+    const group = groups.find(members => members.some(member => isSamePlace(member, record)))
+    if (group) {
+      group.push(record)
+    } else {
+      groups.push([record])
+    }
+  }
+
+  return groups.map(mergeGroup)
+}
@@ -0,0 +1,305 @@
+// Place Search
+// Finds places for the coffee finder: queries OpenStreetMap (Overpass) and Google Places side by side,
+// normalizes both into PlaceRecords, merges duplicates (./place-merge), classifies them with
+// ./place-classification and ranks what's left by distance. The ./places endpoint serves (and caches) the result.
+
+import { classifyPlace, type PlaceRecord, type PlaceSearchMode, type PlaceSource } from './place-classification'
+import { searchGooglePlaces } from './google-places-search'
+import { distanceKm, mergePlaces, type PlaceField } from './place-merge'
+
+// One place in the search results
+export interface PlaceResult {
+  id: string
+  source: PlaceSource // Where most of the details came from
+  sources: PlaceSource[] // Every source that listed the place
+  fieldSources: Partial<Record<PlaceField, PlaceSource>> // Which source each detail came from
+  name: string
+  lat: number
+  lon: number
+  distance: number // Kilometers from the search location
+  address: PlaceRecord['address']
+  phone?: string
+  website?: string
+  rating?: number // Google's average rating (1-5)
+  ratingCount?: number
+  openNow?: boolean // Google's opening hours; unset when only OSM knows the place
+  drinkTypes: string[] // Drinks it's known for (drink searches only)
+  chain: boolean // A corporate chain, only listed when someone asks for chains
+  explanation: string // Why the place matched, e.g. 'found for coffee because it is a coffee roaster (...)'
+}
+
+// Whether each source answered ('disabled' when Google has no API key); a search still succeeds with one of them
+export type PlaceSourceStatus = 'ok' | 'disabled' | 'unavailable'
+
+export interface PlaceSearchResult {
+  mode: PlaceSearchMode
+  places: PlaceResult[]
+  sources: Record<PlaceSource, PlaceSourceStatus>
+}
+
+export interface PlaceSearchOptions {
+  mode: PlaceSearchMode
+  lat: number
+  lon: number
+  radius: number // Meters
+  openNow: boolean // Ask Google for open places only; OSM has no hours, so its places stay in with openNow unset
+  clientIP: string
+}
+
+export type PlaceSort = 'distance' | 'rating' | 'name'
+
+// How a search's places are narrowed down and ordered for display
+export interface PlaceListOptions {
+  drinkType?: string // Only places known for this drink (one of PlaceResult.drinkTypes)
+  sort: PlaceSort
+  limit: number
+}
+
+const OVERPASS_URL = 'https://overpass-api.de/api/interpreter'
+
+export const DEFAULT_RADIUS_METERS = 8047 // 5 miles
+export const MAX_RADIUS_METERS = 50000 // Google Nearby Search's limit
+export const DEFAULT_RESULT_LIMIT = 20
+export const MAX_RESULT_LIMIT = 50
+
+// What Overpass is asked for in each mode; the classification narrows it down
+// Coffee casts a wide net (shops and cafes) because plenty of roasters are only tagged as coffee shops
+const OSM_FILTERS: Record<PlaceSearchMode, string[]> = {
+  coffee: ['craft=coffee_roaster', 'roaster=yes', 'shop=coffee', 'amenity=cafe'],
+  drinks: [
+    'shop=tea', 'shop=beverages', 'amenity=cafe', 'amenity=fast_food',
+    'cuisine=bubble_tea', 'cuisine=tea', 'cuisine=juice', 'cuisine=smoothie',
+  ],
+}
+
+// Trims text from either API to something safe to show and store
+function cleanText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined
+  }
+  const text = value.replace(/[\u0000-\u001f\u007f<>]/g, '').trim().substring(0, maxLength)
+  return text || undefined
+}
+
+// Only http(s) links are kept
+function cleanUrl(value: unknown): string | undefined {
+  const text = cleanText(value, 200)
+  if (!text) {
+    return undefined
+  }
+  try {
+    const url = new URL(text)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Places with no name, or named "Unnamed ...", aren't worth listing
+function isUnnamed(name: string | undefined): boolean {
+  return !name || name.toLowerCase().includes('unnamed')
+}
+
+// An Overpass element as a PlaceRecord
+export function osmPlaceRecord(element: any): PlaceRecord | null {
+  const center = element?.center || { lat: element?.lat, lon: element?.lon }
+  if (typeof center.lat !== 'number' || typeof center.lon !== 'number') {
+    return null
+  }
+
+  const tags: Record<string, string> = {}
+  for (const [key, value] of Object.entries(element.tags || {})) {
+    const text = cleanText(value, 200)
+    if (text) {
+      tags[key] = text
+    }
+  }
+
+  const name = cleanText(tags.name || tags['addr:housenumber'], 100)
+  if (!name || isUnnamed(name)) {
+    return null
+  }
+
+  return {
+    source: 'OSM',
+    id: `osm-${element.type || 'node'}-${element.id}`,
+    name,
+    brand: cleanText(tags.brand, 100),
+    lat: center.lat,
+    lon: center.lon,
+    address: {
+      street: cleanText(tags['addr:street'], 100),
+      housenumber: cleanText(tags['addr:housenumber'], 20),
+      city: cleanText(tags['addr:city'], 100),
+      postcode: cleanText(tags['addr:postcode'], 20),
+    },
+    phone: cleanText(tags.phone, 50),
+    website: cleanUrl(tags.website),
+    tags,
+    types: [],
+  }
+}
+
+// A Google Nearby Search result as a PlaceRecord
+export function googlePlaceRecord(place: any): PlaceRecord | null {
+  const location = place?.geometry?.location
+  if (typeof location?.lat !== 'number' || typeof location?.lng !== 'number') {
+    return null
+  }
+
+  const name = cleanText(place.name, 100)
+  if (!name || isUnnamed(name)) {
+    return null
+  }
+
+  // formatted_address is the most reliable; the components fill in the rest when present
+  const addressComponents: any[] = Array.isArray(place.address_components) ? place.address_components : []
+  const component = (type: string) =>
+    addressComponents.find(comp => Array.isArray(comp?.types) && comp.types.includes(type))?.long_name
+
+  return {
+    source: 'Google',
+    id: `google-${cleanText(place.place_id, 200) || name}`,
+    name,
+    lat: location.lat,
+    lon: location.lng,
+    address: {
+      formatted: cleanText(place.formatted_address || place.vicinity, 200),
+      street: cleanText(component('route'), 100),
+      housenumber: cleanText(component('street_number'), 20),
+      city: cleanText(component('locality'), 100),
+      postcode: cleanText(component('postal_code'), 20),
+    },
+    phone: cleanText(place.formatted_phone_number || place.international_phone_number, 50),
+    website: cleanUrl(place.website),
+    rating: typeof place.rating === 'number' ? place.rating : undefined,
+    ratingCount: typeof place.user_ratings_total === 'number' ? place.user_ratings_total : undefined,
+    openNow: typeof place.opening_hours?.open_now === 'boolean' ? place.opening_hours.open_now : undefined,
+    tags: {},
+    types: Array.isArray(place.types) ? place.types.filter((type: unknown): type is string => typeof type === 'string') : [],
+  }
+}
+
+async function fetchOSMPlaces({ mode, lat, lon, radius }: PlaceSearchOptions): Promise<PlaceRecord[]> {
+  const around = `(around:${radius},${lat},${lon})`
+  const selectors = OSM_FILTERS[mode].flatMap(filter => {
+    const [key, value] = filter.split('=')
+    return [`node["${key}"="${value}"]${around};`, `way["${key}"="${value}"]${around};`]
+  })
+  const query = `[out:json][timeout:25];(${selectors.join('')});out center meta;`
+
+  const response = await fetch(OVERPASS_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: `data=${encodeURIComponent(query)}`,
+  })
+
+  if (!response.ok) {
+    throw new Error(`Overpass API error: ${response.status}`)
+  }
+
+  const data = await response.json()
+  if (!Array.isArray(data?.elements)) {
+    throw new Error('Invalid response from Overpass API')
+  }
+
+  return data.elements.map(osmPlaceRecord).filter((record: PlaceRecord | null): record is PlaceRecord => record !== null)
+}
+
+async function fetchGooglePlaces({ mode, lat, lon, radius, openNow, clientIP }: PlaceSearchOptions): Promise<PlaceRecord[]> {
+  const search = await searchGooglePlaces(lat, lon, radius, mode, clientIP, openNow)
+  if (!search.ok) {
+    throw new Error(search.error)
+  }
+  return search.results
+    .map(googlePlaceRecord)
+    .filter((record): record is PlaceRecord => record !== null)
+    // Google only returned open places, even where it left out their hours
+    .map(record => (openNow ? { ...record, openNow: record.openNow ?? true } : record))
+}
+
+// Measures each place's distance from a location and puts the nearest first
+export function rankByDistance(places: PlaceResult[], lat: number, lon: number): PlaceResult[] {
+  return places
+    .map(place => ({ ...place, distance: distanceKm(lat, lon, place.lat, place.lon) }))
+    .sort((a, b) => a.distance - b.distance)
+}
+
+// Filters and orders a search's places (already ranked by distance) for display
+// Sorting by rating puts places without one (OSM only) last; ties stay nearest first
+export function listPlaces(places: PlaceResult[], { drinkType, sort, limit }: PlaceListOptions): PlaceResult[] {
+  const matching = drinkType ? places.filter(place => place.drinkTypes.includes(drinkType)) : [...places]
+  if (sort === 'rating') {
+    matching.sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0))
+  } else if (sort === 'name') {
+    matching.sort((a, b) => a.name.localeCompare(b.name))
+  }
+  return matching.slice(0, limit)
+}
+
+/**
+ * Searches both sources around a location and returns every matching place, nearest first
+ * Fails only when neither source answers
+ */
+export async function searchPlaces(options: PlaceSearchOptions): Promise<PlaceSearchResult> {
+  const googleEnabled = Boolean(process.env.GOOGLE_PLACES_API_KEY)
+  const [osm, google] = await Promise.allSettled([
+    fetchOSMPlaces(options),
+    googleEnabled ? fetchGooglePlaces(options) : Promise.resolve([]),
+  ])
+
+  if (osm.status === 'rejected') {
+    console.warn('OSM place search failed:', osm.reason)
+  }
+  if (google.status === 'rejected') {
+    console.warn('Google place search failed:', google.reason)
+  }
+  if (osm.status === 'rejected' && google.status === 'rejected') {
+    throw new Error('Neither OpenStreetMap nor Google Places could be reached')
+  }
+
+  const records = [
+    ...(osm.status === 'fulfilled' ? osm.value : []),
+    ...(google.status === 'fulfilled' ? google.value : []),
+  ]
+
+  // Duplicates are merged before classifying, so OSM's tags and Google's types are judged together
+  // Chains are kept and marked, so one search serves requests with and without them
+  const places: PlaceResult[] = mergePlaces(records).flatMap(({ record, sources, fieldSources }) => {
+    const classification = classifyPlace(record)
+    const verdict = classification.verdict(options.mode, { allow: ['chain'] })
+    if (!verdict.included) {
+      return []
+    }
+
+    return [{
+      id: record.id,
+      source: record.source,
+      sources,
+      fieldSources,
+      name: record.name,
+      lat: record.lat,
+      lon: record.lon,
+      distance: 0, // Set by rankByDistance
+      address: record.address,
+      ...(record.phone && { phone: record.phone }),
+      ...(record.website && { website: record.website }),
+      ...(record.rating !== undefined && { rating: record.rating, ratingCount: record.ratingCount }),
+      ...(record.openNow !== undefined && { openNow: record.openNow }),
+      drinkTypes: options.mode === 'drinks' ? classification.drinkTypes() : [],
+      chain: classification.is('chain'),
+      explanation: verdict.explanation,
+    }]
+  })
+
+  return {
+    mode: options.mode,
+    places: rankByDistance(places, options.lat, options.lon),
+    sources: {
+      OSM: osm.status === 'fulfilled' ? 'ok' : 'unavailable',
+      Google: !googleEnabled ? 'disabled' : google.status === 'fulfilled' ? 'ok' : 'unavailable',
+    },
+  }
+}
@@ -0,0 +1,204 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getClientIP } from './client-ip'
+import { getQueryValue } from './query'
+import { checkRateLimit, type RateLimit } from './rate-limit'
+import { getStorage, namespacedKey } from './storage'
+import type { PlaceSearchMode } from './place-classification'
+import {
+  DEFAULT_RADIUS_METERS,
+  DEFAULT_RESULT_LIMIT,
+  MAX_RADIUS_METERS,
+  MAX_RESULT_LIMIT,
+  listPlaces,
+  rankByDistance,
+  searchPlaces,
+  type PlaceResult,
+  type PlaceSearchResult,
+  type PlaceSort,
+} from './place-search'
+
+// Places for the coffee finder
+// GET ?lat=&lon=&mode=coffee|drinks - independent coffee roasters, or places for tea, smoothies and
+// other drinks, merged from OpenStreetMap and Google Places (see ./place-search), nearest first
+// Optional:
+// - radius=<meters>           - how far to search (default 5 miles)
+// - chains=include            - keep corporate chains
+// - openNow=1                 - only places Google says are open, plus places whose hours it doesn't
+//                               know (OSM only), which come without openNow
+// - drinkType=<label>         - only places known for that drink (drinks mode)
+// - sort=distance|rating|name
+// - limit=<count>             - up to 50 (default 20)
+// The response also lists every drink type found (drinkTypes), for picking a filter.
+// Merged results, chains included, are cached in shared storage per rounded location (~1km), mode, radius
+// and openNow, and chains, drinkType, sort and limit are applied to the cached list. The radius is part of
+// the key because Google only returns the most prominent places in the area, so a wide search filtered
+// down would miss most of what a small one finds. Searches that miss the cache call both APIs, so each IP
+// can only run so many of them.
+
+interface CachedPlaces {
+  result: PlaceSearchResult
+  expiresAt: number // The memory driver keeps keys forever, so expiry is checked on read too
+}
+
+// Places don't open and close that often
+const CACHE_TTL_MS = 60 * 60 * 1000 // 1 hour
+
+// ...but they do open and close for the day
+const OPEN_NOW_CACHE_TTL_MS = 10 * 60 * 1000 // 10 minutes
+
+// Someone looking for coffee searches a handful of times at most
+const SEARCH_RATE_LIMIT: RateLimit = { limit: 10, windowMs: 60 * 60 * 1000 }
+
+const SEARCH_MODES: PlaceSearchMode[] = ['coffee', 'drinks']
+const SORTS: PlaceSort[] = ['distance', 'rating', 'name']
+
+// The parts of a request that change what the APIs are asked for
+interface PlaceQuery {
+  mode: PlaceSearchMode
+  lat: number
+  lon: number
+  radius: number
+  openNow: boolean
+}
+
+function isEnabled(value: string | undefined): boolean {
+  return value === '1' || value === 'true'
+}
+
+// Every drink type among the places, for the drink type filter
+function drinkTypesOf(places: PlaceResult[]): string[] {
+  return Array.from(new Set(places.flatMap(place => place.drinkTypes))).sort()
+}
+
+// Coordinates are rounded to ~1km so nearby searches share results
+function cacheKey({ mode, lat, lon, radius, openNow }: PlaceQuery): string {
+  return namespacedKey('places', mode, lat.toFixed(2), lon.toFixed(2), String(radius), openNow ? 'open' : 'any')
+}
+
+// The cache is best-effort: if storage is down, searches go straight to the APIs
+async function getCachedPlaces(key: string): Promise<PlaceSearchResult | null> {
+  try {
+    const storage = await getStorage()
+    const raw = await storage.get(key)
+    if (!raw) {
+      return null
+    }
+    const cached: CachedPlaces = JSON.parse(raw)
+    return cached.expiresAt > Date.now() ? cached.result : null
+  } catch (error) {
+    console.error('Error reading cached places:', error)
+    return null
+  }
+}
+
+async function cachePlaces(key: string, result: PlaceSearchResult, ttlMs: number): Promise<void> {
+  try {
+    const storage = await getStorage()
+    const cached: CachedPlaces = { result, expiresAt: Date.now() + ttlMs }
+    await storage.setWithExpiry(key, JSON.stringify(cached), ttlMs)
+  } catch (error) {
+    console.error('Error caching places:', error)
+  }
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end()
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const lat = parseFloat(getQueryValue(req, 'lat') ?? '')
+  const lon = parseFloat(getQueryValue(req, 'lon') ?? '')
+  if (isNaN(lat) || isNaN(lon) || lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+    return res.status(400).json({ error: 'Valid lat and lon are required' })
+  }
+
+  const mode = (getQueryValue(req, 'mode') ?? 'coffee') as PlaceSearchMode
+  if (!SEARCH_MODES.includes(mode)) {
+    return res.status(400).json({ error: 'mode must be coffee or drinks' })
+  }
+
+  const radiusParam = getQueryValue(req, 'radius')
+  const radius = radiusParam === undefined ? DEFAULT_RADIUS_METERS : Math.round(Number(radiusParam))
+  if (!Number.isFinite(radius) || radius < 100 || radius > MAX_RADIUS_METERS) {
+    return res.status(400).json({ error: `radius must be between 100 and ${MAX_RADIUS_METERS} meters` })
+  }
+
+  const sort = (getQueryValue(req, 'sort') ?? 'distance') as PlaceSort
+  if (!SORTS.includes(sort)) {
+    return res.status(400).json({ error: 'sort must be distance, rating or name' })
+  }
+
+  const limitParam = getQueryValue(req, 'limit')
+  const limit = limitParam === undefined ? DEFAULT_RESULT_LIMIT : Math.floor(Number(limitParam))
+  if (!Number.isFinite(limit) || limit < 1 || limit > MAX_RESULT_LIMIT) {
+    return res.status(400).json({ error: `limit must be between 1 and ${MAX_RESULT_LIMIT}` })
+  }
+
+  const query: PlaceQuery = {
+    mode,
+    lat,
+    lon,
+    radius,
+    openNow: isEnabled(getQueryValue(req, 'openNow')),
+  }
+  const includeChains = getQueryValue(req, 'chains') === 'include'
+  const drinkType = getQueryValue(req, 'drinkType')?.substring(0, 50) || undefined
+
+  // The same search filtered and ordered for this request; places are ranked by distance first, and
+  // Google can return some a little outside the radius, so those are dropped
+  const respond = (result: PlaceSearchResult) => {
+    const nearby = result.places.filter(place => place.distance <= radius / 1000 && (includeChains || !place.chain))
+    return res.status(200).json({
+      ...result,
+      places: listPlaces(nearby, { drinkType, sort, limit }),
+      drinkTypes: drinkTypesOf(nearby),
+    })
+  }
+
+  try {
+    const key = cacheKey(query)
+    const cached = await getCachedPlaces(key)
+    if (cached) {
+      // The cache entry may come from a search a few hundred meters away
+      return respond({ ...cached, places: rankByDistance(cached.places, lat, lon) })
+    }
+
+    const clientIP = getClientIP(req)
+    const rateLimit = await checkRateLimit('places', clientIP, SEARCH_RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      res.setHeader('Retry-After', String(rateLimit.retryAfter))
+      return res.status(429).json({
+        error: 'Rate limit exceeded',
+        message: 'Too many searches. Please try again later.',
+        retryAfter: rateLimit.retryAfter
+      })
+    }
+
+    const result = await searchPlaces({ ...query, clientIP })
+
+    // Only complete results are cached; a source that was down gets another chance next time
+    if (!Object.values(result.sources).includes('unavailable')) {
+      await cachePlaces(key, result, query.openNow ? OPEN_NOW_CACHE_TTL_MS : CACHE_TTL_MS)
+    }
+
+    return respond(result)
+  } catch (error) {
+    console.error('Error searching places:', error)
+    return res.status(502).json({
+      error: 'Failed to search for places',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
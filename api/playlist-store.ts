@@ -0,0 +1,209 @@
+// Playlist Store
+// An event's party playlist: guests find songs through ./youtube-search, add them to a shared queue
+// and upvote the ones they want to hear. Songs are keyed by YouTube videoId, so a video is only ever
+// queued once (adding it again just upvotes it). The host plays the most-upvoted song next, earliest
+// request first on a tie, from the host admin API (./event-admin).
+
+import { createJsonRepository } from './storage'
+import { eventKey } from './event-store'
+import type { VoterIdentity } from './voter-identity'
+import { cleanText } from './submission-validation'
+
+interface PlaylistSong {
+  videoId: string
+  title: string
+  channelTitle: string
+  addedBy: string // Display name of the guest who asked for it
+  addedById: string // Their voter id (counts against MAX_QUEUED_PER_GUEST)
+  addedAt: number
+  upvoters: string[] // Voter ids; the guest who added the song counts as its first upvote
+}
+
+interface PlaylistData {
+  queue: Record<string, PlaylistSong> // videoId -> song
+  nowPlaying: (PlaylistSong & { startedAt: number }) | null
+}
+
+// A song as guests see it (who upvoted stays private, only the count is shown)
+export interface PlaylistEntry {
+  videoId: string
+  title: string
+  channelTitle: string
+  thumbnail: string
+  addedBy: string
+  addedAt: number
+  votes: number
+}
+
+export interface Playlist {
+  nowPlaying: (PlaylistEntry & { startedAt: number }) | null
+  upNext: PlaylistEntry[] // Next song first
+}
+
+export interface SongRequest {
+  videoId: string
+  title: string
+  channelTitle: string
+}
+
+export type PlaylistResult = { ok: true } | { ok: false; status: number; error: string }
+
+// Songs one guest can have waiting in the queue at once, and the queue's overall size
+export const MAX_QUEUED_PER_GUEST = 5
+const MAX_QUEUE_LENGTH = 200
+
+// YouTube video ids are 11 characters of [A-Za-z0-9_-]
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/
+
+function playlistRepository(eventId: string) {
+  return createJsonRepository<PlaylistData>({
+    key: eventKey('playlist', eventId),
+    initial: () => ({ queue: {}, nowPlaying: null }),
+  })
+}
+
+export function isVideoId(value: unknown): value is string {
+  return typeof value === 'string' && VIDEO_ID_PATTERN.test(value)
+}
+
+// Thumbnails come straight from YouTube's image host, so clients never send us an image URL
+function toEntry({ videoId, title, channelTitle, addedBy, addedAt, upvoters }: PlaylistSong): PlaylistEntry {
+  return {
+    videoId,
+    title,
+    channelTitle,
+    thumbnail: `https://i.ytimg.com/vi/${videoId}/mqdefault.jpg`,
+    addedBy,
+    addedAt,
+    votes: upvoters.length,
+  }
+}
+
+// Looks a song up by its own keys only (an id like "constructor" is shaped like a videoId)
+function findQueued(queue: Record<string, PlaylistSong>, videoId: string): PlaylistSong | undefined {
+  return Object.keys(queue).includes(videoId) ? queue[videoId] : undefined
+}
+
+// Most upvotes first, then whoever asked first
+function rankQueue(queue: Record<string, PlaylistSong>): PlaylistSong[] {
+  return Object.values(queue).sort((a, b) => b.upvoters.length - a.upvoters.length || a.addedAt - b.addedAt)
+}
+
+// Helper function to get the playlist as guests see it
+export async function getPlaylist(eventId: string): Promise<Playlist> {
+  const { queue, nowPlaying } = await playlistRepository(eventId).get().catch((error) => {
+    console.error('Error getting playlist from storage:', error)
+    return { queue: {}, nowPlaying: null } as PlaylistData
+  })
+  return {
+    nowPlaying: nowPlaying && { ...toEntry(nowPlaying), startedAt: nowPlaying.startedAt },
+    upNext: rankQueue(queue).map(toEntry),
+  }
+}
+
+// The videoIds this guest has upvoted (songs they added included)
+export async function getPlayerUpvotes(eventId: string, voterId: string): Promise<string[]> {
+  const { queue } = await playlistRepository(eventId).get()
+  return Object.values(queue)
+    .filter(song => song.upvoters.includes(voterId))
+    .map(song => song.videoId)
+}
+
+// Queues a song; a song that's already queued gets this guest's upvote instead (duplicate: true)
+export async function addSong(
+  eventId: string,
+  voter: VoterIdentity,
+  request: SongRequest
+): Promise<{ ok: true; duplicate: boolean } | { ok: false; status: number; error: string }> {
+  const title = cleanText(request.title).substring(0, 200)
+  const channelTitle = cleanText(request.channelTitle).substring(0, 100)
+  if (!isVideoId(request.videoId) || !title) {
+    return { ok: false, status: 400, error: 'Pick a song from the search results' }
+  }
+
+  let result: { ok: true; duplicate: boolean } | { ok: false; status: number; error: string } = { ok: true, duplicate: false }
+  await playlistRepository(eventId).update(playlist => {
+    const existing = findQueued(playlist.queue, request.videoId)
+    if (existing) {
+      result = { ok: true, duplicate: true }
+      return existing.upvoters.includes(voter.id)
+        ? playlist
+        : { ...playlist, queue: { ...playlist.queue, [existing.videoId]: { ...existing, upvoters: [...existing.upvoters, voter.id] } } }
+    }
+
+    if (playlist.nowPlaying?.videoId === request.videoId) {
+      result = { ok: false, status: 409, error: 'That song is playing right now' }
+      return playlist
+    }
+    const queued = Object.values(playlist.queue)
+    if (queued.length >= MAX_QUEUE_LENGTH) {
+      result = { ok: false, status: 409, error: 'The queue is full. Try again after a few songs have played' }
+      return playlist
+    }
+    if (queued.filter(song => song.addedById === voter.id).length >= MAX_QUEUED_PER_GUEST) {
+      result = { ok: false, status: 409, error: `You can have up to ${MAX_QUEUED_PER_GUEST} songs waiting. Wait for one to play first` }
+      return playlist
+    }
+
+    result = { ok: true, duplicate: false }
+    const song: PlaylistSong = {
+      videoId: request.videoId,
+      title,
+      channelTitle,
+      addedBy: voter.name,
+      addedById: voter.id,
+      addedAt: Date.now(),
+      upvoters: [voter.id],
+    }
+    return { ...playlist, queue: { ...playlist.queue, [song.videoId]: song } }
+  })
+  return result
+}
+
+// Adds or takes back this guest's upvote on a queued song
+export async function setUpvote(eventId: string, voter: VoterIdentity, videoId: string, upvote: boolean): Promise<PlaylistResult> {
+  let result: PlaylistResult = { ok: true }
+  await playlistRepository(eventId).update(playlist => {
+    const song = findQueued(playlist.queue, videoId)
+    if (!song) {
+      result = { ok: false, status: 404, error: 'That song is no longer in the queue' }
+      return playlist
+    }
+
+    result = { ok: true }
+    const others = song.upvoters.filter(id => id !== voter.id)
+    const upvoters = upvote ? [...others, voter.id] : others
+    return { ...playlist, queue: { ...playlist.queue, [videoId]: { ...song, upvoters } } }
+  })
+  return result
+}
+
+// Moves the top song to now playing (an empty queue just stops the music)
+export async function playNextSong(eventId: string): Promise<void> {
+  await playlistRepository(eventId).update(playlist => {
+    const [next] = rankQueue(playlist.queue)
+    if (!next) {
+      return { ...playlist, nowPlaying: null }
+    }
+    const { [next.videoId]: _played, ...queue } = playlist.queue
+    return { queue, nowPlaying: { ...next, startedAt: Date.now() } }
+  })
+}
+
+// Returns false if the song wasn't queued
+export async function removeSong(eventId: string, videoId: string): Promise<boolean> {
+  let removed = false
+  await playlistRepository(eventId).update(playlist => {
+    removed = !!findQueued(playlist.queue, videoId)
+    if (!removed) {
+      return playlist
+    }
+    const { [videoId]: _removed, ...queue } = playlist.queue
+    return { ...playlist, queue }
+  })
+  return removed
+}
+
+export async function clearPlaylist(eventId: string): Promise<void> {
+  await playlistRepository(eventId).clear()
+}
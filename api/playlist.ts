@@ -0,0 +1,181 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getVoterFromRequest, resolveVoter, VOTER_TOKEN_HEADER, type VoterIdentity } from './voter-identity'
+import { getEvent, getEventIdFromRequest } from './event-store'
+import { checkInviteSession, INVITE_SESSION_HEADER } from './invite-session'
+import { addSong, getPlayerUpvotes, getPlaylist, isVideoId, setUpvote } from './playlist-store'
+import { buildPlaylistUpdate, publishLiveUpdate } from './live-updates'
+import { checkRateLimit, type RateLimit } from './rate-limit'
+import { getClientIP } from './client-ip'
+
+// Party playlist: guests search through ./youtube-search, then queue songs and upvote them here
+// (the host plays and removes songs through ./event-admin)
+// GET                      - now playing, up next, and the videoIds you've upvoted (myUpvotes)
+// POST                     - add a song ({ playerName, videoId, title, channelTitle }); a song that's
+//                            already queued gets your upvote instead (duplicate: true)
+// POST ?resource=upvotes   - upvote a queued song or take it back ({ playerName, videoId, upvote })
+
+// Shared party wifi again, so the limit is per IP but generous
+const SONG_RATE_LIMIT: RateLimit = { limit: 20, windowMs: 10 * 60 * 1000 }
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': `Content-Type, ${VOTER_TOKEN_HEADER}, ${INVITE_SESSION_HEADER}`,
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).json({})
+  }
+
+  // Set CORS headers
+  Object.entries(corsHeaders).forEach(([key, value]) => {
+    res.setHeader(key, value)
+  })
+
+  // Each event has its own playlist (?eventId=, defaults to the original birthday invite)
+  const eventId = getEventIdFromRequest(req)
+  try {
+    const event = await getEvent(eventId)
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+
+    // Password-protected events only answer guests who unlocked the invite
+    const session = checkInviteSession(req, event)
+    if (!session.ok) {
+      return res.status(session.status).json({ error: session.error })
+    }
+  } catch (error) {
+    console.error('Error loading event:', error)
+    return res.status(500).json({ error: 'Failed to load event' })
+  }
+
+  // Everything a guest sees after a change: the playlist, their own upvotes, and their identity
+  const respond = async (voter: VoterIdentity, issuedToken?: string, extra: object = {}) => {
+    const [playlist, myUpvotes] = await Promise.all([
+      getPlaylist(eventId),
+      getPlayerUpvotes(eventId, voter.id),
+    ])
+    return res.status(200).json({
+      success: true,
+      ...playlist,
+      myUpvotes,
+      voterName: voter.name,
+      ...(issuedToken && { voterToken: issuedToken }),
+      ...extra
+    })
+  }
+
+  // POST: Upvote a queued song (or take the upvote back)
+  const resource = req.query.resource
+  if (req.method === 'POST' && resource) {
+    if (resource !== 'upvotes') {
+      return res.status(404).json({ error: 'Unknown resource' })
+    }
+
+    try {
+      const { playerName, videoId, upvote } = req.body ?? {}
+      if (!isVideoId(videoId) || typeof upvote !== 'boolean') {
+        return res.status(400).json({ error: 'videoId and upvote are required' })
+      }
+
+      // Upvotes are saved under the name the voter token belongs to
+      const resolution = await resolveVoter(req, eventId, playerName)
+      if (!resolution.ok) {
+        const { status, ...body } = resolution
+        return res.status(status).json(body)
+      }
+      const { voter, issuedToken } = resolution
+
+      const result = await setUpvote(eventId, voter, videoId, upvote)
+      if (!result.ok) {
+        return res.status(result.status).json({
+          error: result.error,
+          ...(issuedToken && { voterName: voter.name, voterToken: issuedToken })
+        })
+      }
+
+      await publishLiveUpdate(eventId, await buildPlaylistUpdate(eventId))
+      return await respond(voter, issuedToken)
+    } catch (error) {
+      console.error('Error saving upvote:', error)
+      return res.status(500).json({
+        error: 'Failed to save upvote'
+      })
+    }
+  }
+
+  // POST: Add a song to the queue
+  if (req.method === 'POST') {
+    try {
+      const { playerName, videoId, title, channelTitle } = req.body ?? {}
+      if (typeof videoId !== 'string' || typeof title !== 'string') {
+        return res.status(400).json({ error: 'videoId and title are required' })
+      }
+
+      const rateLimit = await checkRateLimit(`playlist:${eventId}`, getClientIP(req), SONG_RATE_LIMIT)
+      if (!rateLimit.allowed) {
+        res.setHeader('Retry-After', String(rateLimit.retryAfter))
+        return res.status(429).json({
+          error: 'Too many songs',
+          message: 'Too many song requests from this network. Please try again in a few minutes.',
+          retryAfter: rateLimit.retryAfter
+        })
+      }
+
+      // Songs are credited to the name the voter token belongs to
+      const resolution = await resolveVoter(req, eventId, playerName)
+      if (!resolution.ok) {
+        const { status, ...body } = resolution
+        return res.status(status).json(body)
+      }
+      const { voter, issuedToken } = resolution
+
+      const result = await addSong(eventId, voter, {
+        videoId,
+        title,
+        channelTitle: typeof channelTitle === 'string' ? channelTitle : '',
+      })
+      if (!result.ok) {
+        return res.status(result.status).json({
+          error: result.error,
+          ...(issuedToken && { voterName: voter.name, voterToken: issuedToken })
+        })
+      }
+
+      await publishLiveUpdate(eventId, await buildPlaylistUpdate(eventId))
+      return await respond(voter, issuedToken, { duplicate: result.duplicate })
+    } catch (error) {
+      console.error('Error adding song:', error)
+      return res.status(500).json({
+        error: 'Failed to add song'
+      })
+    }
+  }
+
+  // GET: The playlist as guests see it
+  if (req.method === 'GET') {
+    try {
+      // The asking guest's own upvotes come back if they have a voter token
+      const voter = getVoterFromRequest(req, eventId)
+      const [playlist, myUpvotes] = await Promise.all([
+        getPlaylist(eventId),
+        voter ? getPlayerUpvotes(eventId, voter.id) : [],
+      ])
+      return res.status(200).json({ ...playlist, myUpvotes })
+    } catch (error) {
+      console.error('Error getting playlist:', error)
+      return res.status(500).json({
+        error: 'Failed to get playlist'
+      })
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' })
+}
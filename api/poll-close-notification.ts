@@ -0,0 +1,114 @@
+// Poll Close Notification
+// Emails the final standings to BIRTHDAY_POLL_NOTIFICATION_EMAIL once, when an event's poll
+// closes (events opt in with pollCloseEmail). There's no scheduler, and guests' requests only
+// read the poll, so it's sent from the admin API: when the host closes the poll early, or when
+// the host sends it after the scheduled close time.
+
+import { getStorage } from './storage'
+import { eventKey } from './event-store'
+import { escapeHtml, sendEmail } from './email'
+import type { PollContext, PollSummary } from './poll-store'
+
+function notifiedKey(eventId: string): string {
+  return eventKey('birthday-poll', eventId, 'close-notified')
+}
+
+function describeTie(summary: PollSummary): string {
+  if (!summary.tie) {
+    return ''
+  }
+  return summary.tie.decidedBy === 'voters'
+    ? 'Tied on people; won by having more separate voters.'
+    : 'Tied on people and voters; won by being listed first.'
+}
+
+function renderEmail(ctx: PollContext, summary: PollSummary) {
+  const winnerLine = summary.winner
+    ? `${summary.winner.name} wins with ${summary.winner.people} ${summary.winner.people === 1 ? 'person' : 'people'}`
+    : 'Nobody voted'
+  const tieLine = describeTie(summary)
+  const standings = summary.standings.map(
+    standing => `${standing.name}: ${standing.people} (${Math.round(standing.share * 100)}%)`
+  )
+  const turnout = `${summary.voters} ${summary.voters === 1 ? 'voter' : 'voters'}, ${summary.people} ${summary.people === 1 ? 'person' : 'people'} in total`
+
+  return {
+    subject: `🏁 Poll closed: ${summary.winner ? summary.winner.name : 'no votes'}`,
+    html: `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <meta charset="utf-8">
+            </head>
+            <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333;">
+              <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+                <h1 style="color: #2c3e50;">The ${escapeHtml(ctx.event.title)} poll has closed</h1>
+                <p style="font-size: 18px;"><strong>${escapeHtml(winnerLine)}</strong></p>
+                ${tieLine ? `<p style="color: #666;">${tieLine}</p>` : ''}
+                <ol>
+                  ${standings.map(line => `<li>${escapeHtml(line)}</li>`).join('')}
+                </ol>
+                <p style="color: #666; font-size: 14px;">${turnout}</p>
+                <p style="color: #999; font-size: 12px;">This is an automated notification from your birthday poll.</p>
+              </div>
+            </body>
+          </html>
+        `,
+    text: `
+The ${ctx.event.title} poll has closed
+
+${winnerLine}
+${tieLine ? `${tieLine}\n` : ''}
+${standings.map((line, index) => `${index + 1}. ${line}`).join('\n')}
+
+${turnout}
+
+This is an automated notification from your birthday poll.
+      `.trim(),
+  }
+}
+
+// Whether the event wants a results email and there's somewhere to send it
+export function isPollClosedEmailEnabled(ctx: PollContext): boolean {
+  return Boolean(ctx.event.pollCloseEmail && process.env.BIRTHDAY_POLL_NOTIFICATION_EMAIL)
+}
+
+// When the results email went out, or null if it hasn't
+export async function getPollClosedNoticeTime(ctx: PollContext): Promise<number | null> {
+  const storage = await getStorage()
+  return Number(await storage.get(notifiedKey(ctx.event.id))) || null
+}
+
+// Sends the results email if the poll is closed and it hasn't been sent yet
+// Returns whether it has gone out (now or earlier)
+// Claiming the flag first means concurrent requests can't send it twice; a failed send
+// releases it so the host can try again
+export async function notifyPollClosed(ctx: PollContext, summary: PollSummary): Promise<boolean> {
+  const recipientEmail = process.env.BIRTHDAY_POLL_NOTIFICATION_EMAIL
+  if (summary.status !== 'closed' || !ctx.event.pollCloseEmail || !recipientEmail) {
+    return false
+  }
+
+  try {
+    const storage = await getStorage()
+    const key = notifiedKey(ctx.event.id)
+    if (!(await storage.compareAndSet(key, null, String(Date.now())))) {
+      return true
+    }
+
+    const result = await sendEmail({ to: recipientEmail, ...renderEmail(ctx, summary) })
+    if (!result.ok) {
+      await storage.del([key])
+    }
+    return result.ok
+  } catch (error) {
+    console.error('Error sending poll closed email:', error)
+    return false
+  }
+}
+
+// Lets the email go out again after a host reopens the poll
+export async function resetPollClosedNotice(ctx: PollContext): Promise<void> {
+  const storage = await getStorage()
+  await storage.del([notifiedKey(ctx.event.id)])
+}
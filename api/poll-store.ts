@@ -0,0 +1,572 @@
+// Poll Store
+// Storage for an event's restaurant poll and comments, shared by the guest API
+// (./birthday-poll) and the host admin API (./event-admin).
+// - Options document: restaurants and the host's open/close overrides (JSON, edited by hosts)
+// - Vote counts: hash of restaurantId -> people, changed only by the scripts below
+//   (approval ballots count toward every approved option, ranked ballots toward the first choice)
+// - Voter registry: hash of normalized voter name -> VoterRecord
+// - Comments: JSON map of display name -> comments
+
+import { createJsonRepository, getStorage, type JsonRepository, type StorageScript } from './storage'
+import { cleanVoterName, normalizeVoterName, type VoterIdentity } from './voter-identity'
+import { eventKey, getPollMode, type EventDefinition, type PollMode } from './event-store'
+import { tallyPoll, type PollResults, type PollTie } from './poll-tally'
+
+export interface Restaurant {
+  id: string
+  name: string
+  description?: string
+  votes: number
+  voters: string[] // Array of voter names with guest counts
+  link?: string
+}
+
+export interface VoteData {
+  restaurants: Restaurant[]
+  people: number // Everyone who voted plus their guests (approval votes count toward several options)
+  lastUpdated: number
+  status: PollStatus
+  opensAt?: string
+  closesAt?: string
+}
+
+// Votes are only accepted while the poll is open (comments are always allowed)
+export type PollStatus = 'scheduled' | 'open' | 'closed'
+
+export interface PollSchedule {
+  status: PollStatus
+  opensAt?: string // ISO 8601
+  closesAt?: string // ISO 8601
+}
+
+// Restaurant as stored in the poll options document (votes are tallied separately)
+export type RestaurantOption = Omit<Restaurant, 'votes' | 'voters'>
+
+// Older deployments stored votes and voter display strings inside the options document
+interface StoredPollData {
+  restaurants: Array<RestaurantOption & Partial<Pick<Restaurant, 'votes' | 'voters'>>>
+  // Host overrides of the event's pollOpensAt / pollClosesAt (null clears the event's time)
+  opensAt?: string | null
+  closesAt?: string | null
+}
+
+// What a voter picked; restaurantId is their (first) pick in every mode
+export interface VoteBallot {
+  restaurantId: string
+  approvals?: string[] // Approval polls: every option the voter approved
+  ranking?: string[] // Ranked polls: options in order of preference
+}
+
+// Voter registry entry, stored as JSON in the voter hash
+export interface VoterRecord extends VoteBallot {
+  name?: string // Display name (records created before voter tokens only have the hash field)
+  guests: number
+  votedAt: number
+}
+
+// Storage keys (one set per event, see eventKey in ./event-store)
+const POLL_NAMESPACE = 'birthday-poll'
+
+interface PollKeys {
+  data: string
+  voteCounts: string // Hash: restaurantId -> people count (voter + guests)
+  voterRegistry: string // Hash: normalized voter name (see ./voter-identity) -> VoterRecord JSON
+  lastUpdated: string
+  comments: string
+}
+
+function getPollKeys(eventId: string): PollKeys {
+  return {
+    data: eventKey(POLL_NAMESPACE, eventId, 'data'),
+    voteCounts: eventKey(POLL_NAMESPACE, eventId, 'vote-counts'),
+    voterRegistry: eventKey(POLL_NAMESPACE, eventId, 'voter-registry'),
+    lastUpdated: eventKey(POLL_NAMESPACE, eventId, 'last-updated'),
+    comments: eventKey(POLL_NAMESPACE, eventId, 'comments'),
+  }
+}
+
+// Registers the voter and adds their party to the counted options in one atomic step
+// KEYS: voter registry, vote counts, last updated
+// ARGV: voter id, voter record JSON, timestamp
+// Returns the existing voter record (and changes nothing) if the voter has already voted
+const CAST_VOTE_SCRIPT: StorageScript = {
+  lua: `
+local existing = redis.call('HGET', KEYS[1], ARGV[1])
+if existing then return existing end
+local record = cjson.decode(ARGV[2])
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+for _, id in ipairs(record.approvals or { record.restaurantId }) do
+  redis.call('HINCRBY', KEYS[2], id, 1 + record.guests)
+end
+redis.call('SET', KEYS[3], ARGV[3])
+return false
+`,
+  memory: (store, [registryKey, countsKey, lastUpdatedKey], [voterId, recordJson, timestamp]) => {
+    const existing = store.hGet(registryKey, voterId)
+    if (existing) {
+      return existing
+    }
+    const record = JSON.parse(recordJson) as VoterRecord
+    store.hSet(registryKey, voterId, recordJson)
+    countedOptions(record).forEach(id => store.hIncrBy(countsKey, id, 1 + record.guests))
+    store.set(lastUpdatedKey, timestamp)
+    return null
+  },
+}
+
+// Replaces an existing vote (voter + guests move to the new ballot) in one atomic step
+// KEYS: voter registry, vote counts, last updated
+// ARGV: voter id, ballot JSON, new guest count ('' keeps the current count), timestamp
+// Returns the previous voter record, or nil (changing nothing) if the voter hasn't voted
+const CHANGE_VOTE_SCRIPT: StorageScript = {
+  lua: `
+local existing = redis.call('HGET', KEYS[1], ARGV[1])
+if not existing then return false end
+local previous = cjson.decode(existing)
+local ballot = cjson.decode(ARGV[2])
+local guests = previous.guests
+if ARGV[3] ~= '' then guests = tonumber(ARGV[3]) end
+for _, id in ipairs(previous.approvals or { previous.restaurantId }) do
+  redis.call('HINCRBY', KEYS[2], id, -(1 + previous.guests))
+end
+for _, id in ipairs(ballot.approvals or { ballot.restaurantId }) do
+  redis.call('HINCRBY', KEYS[2], id, 1 + guests)
+end
+local updated = cjson.decode(existing)
+updated.restaurantId = ballot.restaurantId
+updated.approvals = ballot.approvals
+updated.ranking = ballot.ranking
+updated.guests = guests
+redis.call('HSET', KEYS[1], ARGV[1], cjson.encode(updated))
+redis.call('SET', KEYS[3], ARGV[4])
+return existing
+`,
+  memory: (store, [registryKey, countsKey, lastUpdatedKey], [voterId, ballotJson, guestCount, timestamp]) => {
+    const existing = store.hGet(registryKey, voterId)
+    if (!existing) {
+      return null
+    }
+    const previous = JSON.parse(existing) as VoterRecord
+    const { restaurantId, approvals, ranking } = JSON.parse(ballotJson) as VoteBallot
+    const guests = guestCount === '' ? previous.guests : Number(guestCount)
+    const { approvals: _approvals, ranking: _ranking, ...rest } = previous
+    const updated: VoterRecord = { ...rest, restaurantId, guests, ...(approvals && { approvals }), ...(ranking && { ranking }) }
+    countedOptions(previous).forEach(id => store.hIncrBy(countsKey, id, -(1 + previous.guests)))
+    countedOptions(updated).forEach(id => store.hIncrBy(countsKey, id, 1 + guests))
+    store.hSet(registryKey, voterId, JSON.stringify(updated))
+    store.set(lastUpdatedKey, timestamp)
+    return existing
+  },
+}
+
+// Removes a vote and subtracts the voter's party from the counted options atomically
+// KEYS: voter registry, vote counts, last updated
+// ARGV: voter id, timestamp
+// Returns the removed voter record, or nil if the voter hasn't voted
+const RETRACT_VOTE_SCRIPT: StorageScript = {
+  lua: `
+local existing = redis.call('HGET', KEYS[1], ARGV[1])
+if not existing then return false end
+local previous = cjson.decode(existing)
+redis.call('HDEL', KEYS[1], ARGV[1])
+for _, id in ipairs(previous.approvals or { previous.restaurantId }) do
+  redis.call('HINCRBY', KEYS[2], id, -(1 + previous.guests))
+end
+redis.call('SET', KEYS[3], ARGV[2])
+return existing
+`,
+  memory: (store, [registryKey, countsKey, lastUpdatedKey], [voterId, timestamp]) => {
+    const existing = store.hGet(registryKey, voterId)
+    if (!existing) {
+      return null
+    }
+    const previous = JSON.parse(existing) as VoterRecord
+    store.hDel(registryKey, voterId)
+    countedOptions(previous).forEach(id => store.hIncrBy(countsKey, id, -(1 + previous.guests)))
+    store.set(lastUpdatedKey, timestamp)
+    return existing
+  },
+}
+
+// Everything the helpers below need for one event's poll
+export interface PollContext {
+  event: EventDefinition
+  keys: PollKeys
+  // Repositories (read-modify-write with optimistic concurrency, see ./storage)
+  pollRepository: JsonRepository<StoredPollData>
+  commentsRepository: JsonRepository<Record<string, string[]>>
+}
+
+export function createPollContext(event: EventDefinition): PollContext {
+  const keys = getPollKeys(event.id)
+  return {
+    event,
+    keys,
+    // The event's poll options seed the document the first time the poll is used
+    pollRepository: createJsonRepository<StoredPollData>({
+      key: keys.data,
+      initial: () => ({ restaurants: event.pollOptions }),
+    }),
+    commentsRepository: createJsonRepository<Record<string, string[]>>({
+      key: keys.comments,
+      initial: () => ({}),
+      parse: migrateComments,
+    }),
+  }
+}
+
+// Migrate old format (single string) to new format (array)
+function migrateComments(raw: unknown): Record<string, string[]> {
+  const migrated: Record<string, string[]> = {}
+  for (const [name, comment] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof comment === 'string') {
+      // Old format: single string, convert to array
+      migrated[name] = comment.trim() ? [comment] : []
+    } else if (Array.isArray(comment)) {
+      // New format: already an array
+      migrated[name] = comment.filter((c: string) => c && c.trim())
+    }
+  }
+  return migrated
+}
+
+// Display string shown under each restaurant, e.g. "Jerome (+2)"
+export function formatVoter(name: string, guests: number): string {
+  return guests > 0 ? `${name} (+${guests})` : name
+}
+
+// Options a vote adds the voter's party to in the vote counts hash
+function countedOptions(ballot: VoteBallot): string[] {
+  return ballot.approvals ?? [ballot.restaurantId]
+}
+
+// The voter's picks in order (votes cast before poll modes only have restaurantId)
+export function ballotChoices(ballot: VoteBallot): string[] {
+  return ballot.ranking ?? ballot.approvals ?? [ballot.restaurantId]
+}
+
+// Validates a voter's picks for the poll's mode
+// choices: option ids, in preference order for ranked polls
+export function createBallot(mode: PollMode, choices: unknown, optionIds: string[]): { ballot: VoteBallot } | { error: string } {
+  if (!Array.isArray(choices) || choices.length === 0 || choices.some(id => typeof id !== 'string')) {
+    return { error: 'Pick at least one restaurant' }
+  }
+  if (new Set(choices).size !== choices.length) {
+    return { error: 'Each restaurant can only be picked once' }
+  }
+  if (choices.some(id => !optionIds.includes(id))) {
+    return { error: 'Restaurant not found' }
+  }
+
+  const [restaurantId] = choices as string[]
+  if (mode === 'approval') {
+    return { ballot: { restaurantId, approvals: choices } }
+  }
+  if (mode === 'ranked') {
+    return { ballot: { restaurantId, ranking: choices } }
+  }
+  if (choices.length > 1) {
+    return { error: 'Pick one restaurant' }
+  }
+  return { ballot: { restaurantId } }
+}
+
+// The host's override wins over the event definition; a null override means "no time"
+function scheduleOf(event: EventDefinition, poll: StoredPollData, now = Date.now()): PollSchedule {
+  const opensAt = (poll.opensAt !== undefined ? poll.opensAt : event.pollOpensAt) || undefined
+  const closesAt = (poll.closesAt !== undefined ? poll.closesAt : event.pollClosesAt) || undefined
+  const status: PollStatus =
+    opensAt && Date.parse(opensAt) > now ? 'scheduled'
+      : closesAt && Date.parse(closesAt) <= now ? 'closed'
+        : 'open'
+  return { status, ...(opensAt && { opensAt }), ...(closesAt && { closesAt }) }
+}
+
+function parseVoter(displayName: string): { name: string; guests: number } {
+  const match = displayName.match(/^(.*) \(\+(\d+)\)$/)
+  return match ? { name: match[1], guests: Number(match[2]) } : { name: displayName, guests: 0 }
+}
+
+function parseVoterRegistry(raw: Record<string, string>): Record<string, VoterRecord> {
+  const registry: Record<string, VoterRecord> = {}
+  for (const [voterId, record] of Object.entries(raw)) {
+    try {
+      const parsed = JSON.parse(record) as VoterRecord
+      registry[voterId] = { ...parsed, name: parsed.name || voterId }
+    } catch (error) {
+      console.error(`Skipping unreadable voter record for ${voterId}:`, error)
+    }
+  }
+  return registry
+}
+
+// Helper function to cast a vote atomically
+// Returns the previous vote instead of voting again if this voter has already voted
+export async function castVote(ctx: PollContext, voter: VoterIdentity, ballot: VoteBallot, guests: number): Promise<VoterRecord | null> {
+  const storage = await getStorage()
+  const now = Date.now()
+  const record: VoterRecord = { name: voter.name, ...ballot, guests, votedAt: now }
+  const existing = await storage.runScript(
+    CAST_VOTE_SCRIPT,
+    [ctx.keys.voterRegistry, ctx.keys.voteCounts, ctx.keys.lastUpdated],
+    [voter.id, JSON.stringify(record), String(now)]
+  )
+  return existing === null ? null : JSON.parse(String(existing)) as VoterRecord
+}
+
+// Helper function to replace an existing vote with a new ballot
+// Pass guests as undefined to keep the voter's current guest count
+export async function changeVote(ctx: PollContext, voter: VoterIdentity, ballot: VoteBallot, guests?: number): Promise<VoterRecord | null> {
+  const storage = await getStorage()
+  const previous = await storage.runScript(
+    CHANGE_VOTE_SCRIPT,
+    [ctx.keys.voterRegistry, ctx.keys.voteCounts, ctx.keys.lastUpdated],
+    [voter.id, JSON.stringify(ballot), guests === undefined ? '' : String(guests), String(Date.now())]
+  )
+  return previous === null ? null : JSON.parse(String(previous)) as VoterRecord
+}
+
+// Helper function to retract a vote
+export async function retractVote(ctx: PollContext, voterId: string): Promise<VoterRecord | null> {
+  const storage = await getStorage()
+  const previous = await storage.runScript(
+    RETRACT_VOTE_SCRIPT,
+    [ctx.keys.voterRegistry, ctx.keys.voteCounts, ctx.keys.lastUpdated],
+    [voterId, String(Date.now())]
+  )
+  return previous === null ? null : JSON.parse(String(previous)) as VoterRecord
+}
+
+// One-time import of votes saved in the old options document format (runs while the
+// document still has voters). Casting is idempotent per name, so a repeated or
+// concurrent migration can't double count
+async function migrateLegacyVotes(ctx: PollContext, poll: StoredPollData): Promise<boolean> {
+  const legacyVotes = poll.restaurants.flatMap(r =>
+    (r.voters || []).map(displayName => ({ restaurantId: r.id, ...parseVoter(displayName) }))
+  )
+  if (legacyVotes.length === 0) {
+    return false
+  }
+
+  for (const vote of legacyVotes) {
+    await castVote(ctx, { id: normalizeVoterName(vote.name), name: cleanVoterName(vote.name) }, { restaurantId: vote.restaurantId }, vote.guests)
+  }
+  await ctx.pollRepository.update(current => ({
+    ...current,
+    restaurants: current.restaurants.map(({ votes: _votes, voters: _voters, ...option }) => option),
+  }))
+  return true
+}
+
+// Helper function to get when the poll opens and closes, and whether it's open right now
+export async function getPollSchedule(ctx: PollContext): Promise<PollSchedule> {
+  return scheduleOf(ctx.event, await ctx.pollRepository.get())
+}
+
+// Helper function to set the host's open/close times (null clears a time the event set)
+export async function savePollSchedule(
+  ctx: PollContext,
+  schedule: { opensAt: string | null; closesAt: string | null }
+): Promise<PollSchedule> {
+  const poll = await ctx.pollRepository.update(current => ({ ...current, ...schedule }))
+  return scheduleOf(ctx.event, poll)
+}
+
+// Helper function to get the voter registry
+export async function getVoterRegistry(ctx: PollContext): Promise<Record<string, VoterRecord>> {
+  const storage = await getStorage()
+  return parseVoterRegistry(await storage.hGetAll(ctx.keys.voterRegistry))
+}
+
+// Helper function to get the public map of voter name -> restaurantId
+export async function getVoterChoices(ctx: PollContext): Promise<Record<string, string>> {
+  try {
+    const registry = await getVoterRegistry(ctx)
+    return Object.fromEntries(
+      Object.entries(registry).map(([voterId, record]) => [record.name || voterId, record.restaurantId])
+    )
+  } catch (error) {
+    console.error('Error getting voter registry:', error)
+    return {}
+  }
+}
+
+// Helper function to get the public map of voter name -> their picks in order
+export async function getVoterBallots(ctx: PollContext): Promise<Record<string, string[]>> {
+  try {
+    const registry = await getVoterRegistry(ctx)
+    return Object.fromEntries(
+      Object.entries(registry).map(([voterId, record]) => [record.name || voterId, ballotChoices(record)])
+    )
+  } catch (error) {
+    console.error('Error getting voter ballots:', error)
+    return {}
+  }
+}
+
+// Helper function to tally the poll for the event's mode (round by round for ranked polls)
+export async function getPollResults(ctx: PollContext): Promise<PollResults> {
+  const [poll, registry] = await Promise.all([ctx.pollRepository.get(), getVoterRegistry(ctx)])
+  return tallyPoll(
+    getPollMode(ctx.event),
+    poll.restaurants.map(option => option.id),
+    Object.values(registry).map(record => ({ choices: ballotChoices(record), weight: 1 + record.guests }))
+  )
+}
+
+// Final standings, shown as the results card and sent in the poll closed email
+export interface PollSummary extends PollSchedule {
+  mode: PollMode
+  people: number // Everyone who voted plus their guests
+  voters: number
+  winner: { id: string; name: string; people: number } | null
+  tie?: PollTie
+  standings: Array<{ id: string; name: string; people: number; share: number }> // Most people first
+}
+
+// Standings come from the final round, so ranked polls show the runoff result
+export function summarizePoll(pollData: VoteData, results: PollResults): PollSummary {
+  const finalRound = results.rounds[results.rounds.length - 1]
+  const counts = finalRound?.counts ?? {}
+  const finalists = pollData.restaurants.filter(restaurant => restaurant.id in counts)
+  const total = finalists.reduce((sum, restaurant) => sum + counts[restaurant.id], 0)
+  const winner = pollData.restaurants.find(restaurant => restaurant.id === results.winnerId)
+  const voterNames = new Set(pollData.restaurants.flatMap(restaurant => restaurant.voters))
+
+  return {
+    status: pollData.status,
+    ...(pollData.opensAt && { opensAt: pollData.opensAt }),
+    ...(pollData.closesAt && { closesAt: pollData.closesAt }),
+    mode: results.mode,
+    people: pollData.people,
+    voters: voterNames.size,
+    winner: winner ? { id: winner.id, name: winner.name, people: counts[winner.id] ?? 0 } : null,
+    ...(results.tie && { tie: results.tie }),
+    standings: finalists
+      .map(restaurant => ({
+        id: restaurant.id,
+        name: restaurant.name,
+        people: counts[restaurant.id],
+        share: total > 0 ? counts[restaurant.id] / total : 0,
+      }))
+      .sort((a, b) => b.people - a.people),
+  }
+}
+
+// Everything the poll UI shows, read together after every change
+export interface PollSnapshot {
+  pollData: VoteData
+  voterRegistry: Record<string, string>
+  voterBallots: Record<string, string[]>
+  results: PollResults
+  summary: PollSummary
+}
+
+export async function getPollSnapshot(ctx: PollContext): Promise<PollSnapshot> {
+  const [pollData, voterRegistry, voterBallots, results] = await Promise.all([
+    getPollData(ctx),
+    getVoterChoices(ctx),
+    getVoterBallots(ctx),
+    getPollResults(ctx).catch((error) => {
+      console.error('Error tallying poll:', error)
+      return tallyPoll(getPollMode(ctx.event), [], [])
+    }),
+  ])
+  return { pollData, voterRegistry, voterBallots, results, summary: summarizePoll(pollData, results) }
+}
+
+// Helper function to get poll data (options merged with live counts)
+export async function getPollData(ctx: PollContext): Promise<VoteData> {
+  try {
+    const storage = await getStorage()
+    const poll = await ctx.pollRepository.get()
+    let [counts, registry] = await Promise.all([
+      storage.hGetAll(ctx.keys.voteCounts),
+      getVoterRegistry(ctx),
+    ])
+
+    if (await migrateLegacyVotes(ctx, poll)) {
+      [counts, registry] = await Promise.all([
+        storage.hGetAll(ctx.keys.voteCounts),
+        getVoterRegistry(ctx),
+      ])
+    }
+
+    const voterEntries = Object.entries(registry).sort(([, a], [, b]) => a.votedAt - b.votedAt)
+    const lastUpdated = Number(await storage.get(ctx.keys.lastUpdated)) || Date.now()
+
+    return {
+      restaurants: poll.restaurants.map(({ votes: _votes, voters: _voters, ...option }) => ({
+        ...option,
+        votes: Number(counts[option.id] || 0),
+        voters: voterEntries
+          .filter(([, record]) => countedOptions(record).includes(option.id))
+          .map(([voterId, record]) => formatVoter(record.name || voterId, record.guests)),
+      })),
+      people: voterEntries.reduce((sum, [, record]) => sum + 1 + record.guests, 0),
+      lastUpdated,
+      ...scheduleOf(ctx.event, poll),
+    }
+  } catch (error) {
+    console.error('Error getting poll data from storage:', error)
+    // Return the event's options with no votes if storage fails
+    return {
+      restaurants: ctx.event.pollOptions.map(option => ({ ...option, votes: 0, voters: [] })),
+      people: 0,
+      lastUpdated: Date.now(),
+      ...scheduleOf(ctx.event, { restaurants: [] }),
+    }
+  }
+}
+
+// Helper function to get comments
+export async function getComments(ctx: PollContext): Promise<Record<string, string[]>> {
+  try {
+    return await ctx.commentsRepository.get()
+  } catch (error) {
+    console.error('Error getting comments:', error)
+    return {}
+  }
+}
+
+// Helper function to add a comment (supports multiple comments per user)
+export async function addComment(ctx: PollContext, name: string, comment: string): Promise<Record<string, string[]>> {
+  const sanitizedComment = comment.trim().substring(0, 500)
+  return ctx.commentsRepository.update(comments => {
+    if (!sanitizedComment) {
+      return comments
+    }
+    return {
+      ...comments,
+      [name]: [...(comments[name] || []), sanitizedComment],
+    }
+  })
+}
+
+// Helper function to remove one comment (hosts moderating)
+// Returns null if there's no comment at that position
+export async function removeComment(ctx: PollContext, name: string, index: number): Promise<Record<string, string[]> | null> {
+  let removed = false
+  const comments = await ctx.commentsRepository.update(current => {
+    const userComments = current[name]
+    removed = Boolean(userComments && index >= 0 && index < userComments.length)
+    if (!removed) {
+      return current
+    }
+    const { [name]: _removed, ...others } = current
+    const remaining = userComments.filter((_, i) => i !== index)
+    return remaining.length > 0 ? { ...others, [name]: remaining } : others
+  })
+  return removed ? comments : null
+}
+
+// Helper function to replace the poll options (vote counts are keyed by id, so they follow their option)
+export async function savePollOptions(ctx: PollContext, options: RestaurantOption[]): Promise<void> {
+  await ctx.pollRepository.update(current => ({ ...current, restaurants: options }))
+}
+
+// Helper function to clear every vote (options and comments are kept)
+export async function resetVotes(ctx: PollContext): Promise<void> {
+  const storage = await getStorage()
+  await storage.del([ctx.keys.voterRegistry, ctx.keys.voteCounts, ctx.keys.lastUpdated])
+}
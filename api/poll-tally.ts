@@ -0,0 +1,135 @@
+// Poll Tally
+// Turns ballots into round-by-round results for each poll mode (see PollMode in ./event-store).
+// Every ballot is weighted by the voter's party (voter + guests), the same headcount the poll shows.
+// - plurality / approval: a single round counting every option on each ballot
+// - ranked: instant runoff, dropping the weakest option each round until one has a majority
+// Ties for the win go to the option more separate voters picked (a party counts once; first
+// choices for ranked polls), then to the option the host listed first.
+
+import type { PollMode } from './event-store'
+
+export interface TallyBallot {
+  choices: string[] // Option ids (in preference order for ranked polls)
+  weight: number // People the ballot speaks for
+}
+
+export interface PollRound {
+  round: number
+  counts: Record<string, number> // Option id -> people whose top remaining choice it is
+  eliminated: string[] // Options dropped after this round
+  exhausted: number // People whose ranked options have all been eliminated
+}
+
+export interface PollTie {
+  tiedIds: string[]
+  decidedBy: 'voters' | 'list-order'
+}
+
+export interface PollResults {
+  mode: PollMode
+  rounds: PollRound[]
+  winnerId: string | null // null until someone votes
+  tie?: PollTie // Set when the winner was picked by the tie-break rule
+}
+
+function countRound(remaining: string[], ballots: TallyBallot[], firstChoiceOnly: boolean) {
+  const counts: Record<string, number> = Object.fromEntries(remaining.map(id => [id, 0]))
+  let exhausted = 0
+
+  for (const ballot of ballots) {
+    const counted = firstChoiceOnly
+      ? ballot.choices.filter(id => id in counts).slice(0, 1)
+      : ballot.choices.filter(id => id in counts)
+    if (counted.length === 0) {
+      exhausted += ballot.weight
+    }
+    counted.forEach(id => {
+      counts[id] += ballot.weight
+    })
+  }
+
+  return { counts, exhausted }
+}
+
+// Options with the most people (none if nobody has voted)
+function leadersOf(counts: Record<string, number>): string[] {
+  const max = Math.max(0, ...Object.values(counts))
+  return max > 0 ? Object.keys(counts).filter(id => counts[id] === max) : []
+}
+
+// Picks a winner among tied options: most separate voters, then the host's listing order
+function breakTie(mode: PollMode, tiedIds: string[], optionIds: string[], ballots: TallyBallot[]): Pick<PollResults, 'winnerId' | 'tie'> {
+  const votersFor = (id: string) =>
+    ballots.filter(ballot => (mode === 'ranked' ? ballot.choices[0] === id : ballot.choices.includes(id))).length
+  const mostVoters = Math.max(...tiedIds.map(votersFor))
+  const stillTied = tiedIds.filter(id => votersFor(id) === mostVoters)
+  if (stillTied.length === 1) {
+    return { winnerId: stillTied[0], tie: { tiedIds, decidedBy: 'voters' } }
+  }
+  const [first] = optionIds.filter(id => stillTied.includes(id))
+  return { winnerId: first, tie: { tiedIds, decidedBy: 'list-order' } }
+}
+
+// Instant runoff: options nobody ranked go first, otherwise the option with the fewest people
+// Ties for last place are broken by first-round support, then by dropping the later-listed option
+function tallyRankedChoice(optionIds: string[], ballots: TallyBallot[]): PollResults {
+  const rounds: PollRound[] = []
+  let remaining = [...optionIds]
+  let firstRound: Record<string, number> = {}
+
+  while (remaining.length > 0) {
+    const { counts, exhausted } = countRound(remaining, ballots, true)
+    const round: PollRound = { round: rounds.length + 1, counts, eliminated: [], exhausted }
+    rounds.push(round)
+    if (rounds.length === 1) {
+      firstRound = counts
+    }
+
+    const active = Object.values(counts).reduce((sum, people) => sum + people, 0)
+    if (active === 0) {
+      return { mode: 'ranked', rounds, winnerId: null }
+    }
+
+    const leaders = leadersOf(counts)
+    if (leaders.length === 1 && (counts[leaders[0]] * 2 > active || remaining.length === 1)) {
+      return { mode: 'ranked', rounds, winnerId: leaders[0] }
+    }
+
+    const unsupported = remaining.filter(id => counts[id] === 0)
+    if (unsupported.length > 0) {
+      round.eliminated = unsupported
+    } else {
+      const fewest = Math.min(...remaining.map(id => counts[id]))
+      let lowest = remaining.filter(id => counts[id] === fewest)
+      const fewestFirst = Math.min(...lowest.map(id => firstRound[id] ?? 0))
+      lowest = lowest.filter(id => (firstRound[id] ?? 0) === fewestFirst)
+
+      // Everyone left is tied all the way down, so the tie-break rule decides
+      if (lowest.length === remaining.length) {
+        return { mode: 'ranked', rounds, ...breakTie('ranked', remaining, optionIds, ballots) }
+      }
+      round.eliminated = [lowest[lowest.length - 1]]
+    }
+
+    remaining = remaining.filter(id => !round.eliminated.includes(id))
+  }
+
+  return { mode: 'ranked', rounds, winnerId: null }
+}
+
+export function tallyPoll(mode: PollMode, optionIds: string[], ballots: TallyBallot[]): PollResults {
+  if (mode === 'ranked') {
+    return tallyRankedChoice(optionIds, ballots)
+  }
+
+  // Plurality ballots hold a single pick, approval ballots every approved option
+  const { counts, exhausted } = countRound(optionIds, ballots, false)
+  const leaders = leadersOf(counts)
+  return {
+    mode,
+    rounds: [{ round: 1, counts, eliminated: [], exhausted }],
+    ...(leaders.length > 1
+      ? breakTie(mode, leaders, optionIds, ballots)
+      : { winnerId: leaders[0] ?? null }),
+  }
+}
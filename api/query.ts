@@ -0,0 +1,7 @@
+import type { VercelRequest } from '@vercel/node'
+
+// The first value of a query parameter (?name=a&name=b gives 'a')
+export function getQueryValue(req: VercelRequest, name: string): string | undefined {
+  const value = req.query[name]
+  return Array.isArray(value) ? value[0] : value
+}
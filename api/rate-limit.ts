@@ -0,0 +1,64 @@
+// Rate Limits
+// Fixed-window request counters kept in shared storage, so every serverless instance sees the same count
+// (unlike the in-memory limiter in ./google-places-search, which resets on cold starts).
+// Each limit is counted per scope (e.g. 'game-submissions:<eventId>') and client (usually the IP).
+
+import { getStorage, namespacedKey, type StorageScript } from './storage'
+
+export interface RateLimit {
+  limit: number // Requests allowed per window
+  windowMs: number
+}
+
+export type RateLimitCheck = { allowed: true } | { allowed: false; retryAfter: number } // Seconds until the window resets
+
+interface WindowRecord {
+  count: number
+  resetAt: number
+}
+
+// Counts a request unless the window is already full
+// KEYS: window record; ARGV: now, window ms, limit
+// Returns when the window resets if the request is over the limit, otherwise 0
+const COUNT_REQUEST_SCRIPT: StorageScript = {
+  lua: `
+local now = tonumber(ARGV[1])
+local record = { count = 0, resetAt = now + tonumber(ARGV[2]) }
+local raw = redis.call('GET', KEYS[1])
+if raw then record = cjson.decode(raw) end
+if record.resetAt <= now then
+  record.count = 0
+  record.resetAt = now + tonumber(ARGV[2])
+end
+if record.count >= tonumber(ARGV[3]) then return record.resetAt end
+record.count = record.count + 1
+redis.call('SET', KEYS[1], cjson.encode(record), 'PX', record.resetAt - now)
+return 0
+`,
+  memory: (store, [recordKey], [nowArg, windowArg, limitArg]) => {
+    const now = Number(nowArg)
+    const raw = store.get(recordKey)
+    let record: WindowRecord = raw ? JSON.parse(raw) : { count: 0, resetAt: now + Number(windowArg) }
+    if (record.resetAt <= now) {
+      record = { count: 0, resetAt: now + Number(windowArg) }
+    }
+    if (record.count >= Number(limitArg)) {
+      return record.resetAt
+    }
+    record.count += 1
+    store.set(recordKey, JSON.stringify(record))
+    return 0
+  },
+}
+
+// Counts one request from the client and says whether it's within the limit
+export async function checkRateLimit(scope: string, client: string, { limit, windowMs }: RateLimit): Promise<RateLimitCheck> {
+  const storage = await getStorage()
+  const now = Date.now()
+  const resetAt = Number(await storage.runScript(
+    COUNT_REQUEST_SCRIPT,
+    [namespacedKey('rate-limit', scope, client)],
+    [String(now), String(windowMs), String(limit)]
+  ))
+  return resetAt > now ? { allowed: false, retryAfter: Math.max(1, Math.ceil((resetAt - now) / 1000)) } : { allowed: true }
+}
@@ -1,4 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { sendEmail } from './email'
 
 interface VoteNotificationRequest {
   restaurantName: string
@@ -34,36 +35,10 @@ export default async function handler(
       return res.status(500).json({ error: 'Email notification not configured' })
     }
 
-    // Get Twilio SendGrid API key
-    const sendGridApiKey = process.env.TWILIO_SENDGRID_API_KEY
-    if (!sendGridApiKey) {
-      console.error('TWILIO_SENDGRID_API_KEY environment variable not set')
-      return res.status(500).json({ error: 'Email service not configured' })
-    }
-
-    // Get from email address
-    const fromEmail = process.env.TWILIO_FROM_EMAIL || 'notifications@yourdomain.com'
-    const fromName = process.env.TWILIO_FROM_NAME || 'Birthday Poll'
-
-    // Send email via Twilio SendGrid
-    const emailResponse = await fetch('https://api.sendgrid.com/v3/mail/send', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${sendGridApiKey}`,
-      },
-      body: JSON.stringify({
-        personalizations: [{
-          to: [{ email: recipientEmail }],
-          subject: `🎉 New Vote: ${restaurantName}`,
-        }],
-        from: {
-          email: fromEmail,
-          name: fromName,
-        },
-        content: [{
-          type: 'text/html',
-          value: `
+    const emailResult = await sendEmail({
+      to: recipientEmail,
+      subject: `🎉 New Vote: ${restaurantName}`,
+      html: `
           <!DOCTYPE html>
           <html>
             <head>
@@ -95,9 +70,7 @@ export default async function handler(
             </body>
           </html>
         `,
-        }, {
-          type: 'text/plain',
-          value: `
+      text: `
 New Vote Received!
 
 Restaurant: ${restaurantName}
@@ -107,23 +80,16 @@ Votes for ${restaurantName}: ${totalVotes}
 ${guestCount !== undefined && guestCount > 0 ? `Total Guests: ${guestCount} ${guestCount === 1 ? 'person' : 'people'}\n` : ''}${allVotesTotal !== undefined ? `Total Votes (All Restaurants): ${allVotesTotal}\n` : ''}Time: ${new Date(timestamp).toLocaleString()}
 
 This is an automated notification from your birthday poll.
-          `.trim(),
-        }],
-      }),
+      `.trim(),
     })
 
-    if (!emailResponse.ok) {
-      const errorData = await emailResponse.text()
-      console.error('Twilio SendGrid API error:', emailResponse.status, errorData)
-      return res.status(500).json({ error: 'Failed to send email notification' })
+    if (!emailResult.ok) {
+      return res.status(500).json({ error: emailResult.error })
     }
-
-    // SendGrid returns 202 Accepted on success (no body)
-    const messageId = emailResponse.headers.get('x-message-id') || 'unknown'
     
     return res.status(200).json({ 
       success: true, 
-      messageId: messageId,
+      messageId: emailResult.messageId,
       message: 'Vote notification sent successfully' 
     })
 
@@ -0,0 +1,63 @@
+// Signed Tokens
+// Small HMAC-SHA256 token format shared by the API handlers: base64url(JSON payload).base64url(signature)
+// Tokens are stateless, so anyone holding the secret can verify them on any serverless instance
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+// Per-instance fallback secrets for local development (tokens stop working on restart)
+const developmentSecrets = new Map<string, string>()
+
+// Reads a signing secret from the environment
+// Outside production a random secret is generated so local dev works without configuration
+export function getSigningSecret(envName: string): string {
+  const secret = process.env[envName]
+  if (secret) {
+    return secret
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`${envName} environment variable is not set`)
+  }
+
+  let fallback = developmentSecrets.get(envName)
+  if (!fallback) {
+    console.warn(`${envName} environment variable not set. Using a temporary secret (tokens reset on restart).`)
+    fallback = randomBytes(32).toString('hex')
+    developmentSecrets.set(envName, fallback)
+  }
+  return fallback
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url')
+}
+
+export function signToken(payload: object, secret: string): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${data}.${sign(data, secret)}`
+}
+
+// Returns the payload if the signature is valid, otherwise null
+export function verifyToken<T>(token: unknown, secret: string): T | null {
+  if (typeof token !== 'string') {
+    return null
+  }
+
+  const [data, signature, ...rest] = token.split('.')
+  if (!data || !signature || rest.length > 0) {
+    return null
+  }
+
+  // Constant-time comparison to prevent timing attacks
+  const expected = Buffer.from(sign(data, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    return JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as T
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,354 @@
+// Shared Storage Layer
+// Every API handler that persists data goes through this module instead of
+// creating its own Redis client.
+// - Redis when a Redis URL is configured (production / Vercel)
+// - In-memory when no Redis URL is found or STORAGE_DRIVER=memory (local dev)
+// JSON documents are updated with optimistic concurrency (compare-and-set via Lua),
+// so concurrent writers retry instead of overwriting each other.
+// Multi-key updates that must happen together run as storage scripts (Lua on Redis,
+// a synchronous function in memory), so they are applied atomically on both drivers.
+// Pub/sub (used for live updates) goes through Redis channels, or an in-process emitter
+// in memory, which only reaches listeners on the same instance.
+
+import { EventEmitter } from 'events'
+import { createClient } from 'redis'
+
+type RedisClient = ReturnType<typeof createClient>
+
+export interface StorageDriver {
+  readonly kind: 'redis' | 'memory'
+  get(key: string): Promise<string | null>
+  set(key: string, value: string): Promise<void>
+  // Redis drops the key after ttlMs; the memory driver keeps it, so readers check their own expiry too
+  setWithExpiry(key: string, value: string, ttlMs: number): Promise<void>
+  del(keys: string[]): Promise<void>
+  // Writes `next` only if the current value still equals `expected` (null = key must not exist)
+  compareAndSet(key: string, expected: string | null, next: string): Promise<boolean>
+  hGet(key: string, field: string): Promise<string | null>
+  hGetAll(key: string): Promise<Record<string, string>>
+  runScript(script: StorageScript, keys: string[], args: string[]): Promise<ScriptReply>
+  publish(channel: string, message: string): Promise<void>
+  // Calls `listener` for every message on `channel` until the returned unsubscribe function is called
+  subscribe(channel: string, listener: (message: string) => void): Promise<() => Promise<void>>
+}
+
+export type ScriptReply = string | number | null
+
+// Synchronous view of the in-memory store, used by the memory side of a storage script
+export interface MemoryScriptContext {
+  get(key: string): string | null
+  set(key: string, value: string): void
+  del(key: string): void
+  hGet(key: string, field: string): string | null
+  hSet(key: string, field: string, value: string): void
+  hDel(key: string, field: string): void
+  hGetAll(key: string): Record<string, string>
+  hIncrBy(key: string, field: string, increment: number): number
+}
+
+// An atomic operation with equivalent Redis (Lua) and in-memory implementations
+// Lua nil/false replies map to null, so the memory side should return null for "nothing"
+export interface StorageScript {
+  lua: string
+  memory: (store: MemoryScriptContext, keys: string[], args: string[]) => ScriptReply
+}
+
+export class StorageConflictError extends Error {
+  constructor(key: string) {
+    super(`Too many concurrent updates to ${key}, please try again`)
+    this.name = 'StorageConflictError'
+  }
+}
+
+// Builds a namespaced key, e.g. namespacedKey('birthday-poll', 'data') -> 'birthday-poll:data'
+export function namespacedKey(namespace: string, ...parts: string[]): string {
+  return [namespace, ...parts].join(':')
+}
+
+// Redis configuration lookup
+// Different Redis providers (Vercel KV, Upstash, etc.) use different environment variable names
+export const REDIS_URL_VARIABLES = ['KV_REST_API_URL', 'REDIS_URL', 'UPSTASH_REDIS_REST_URL', 'REDIS_REST_URL']
+const REDIS_TOKEN_VARIABLES = ['KV_REST_API_TOKEN', 'REDIS_PASSWORD', 'UPSTASH_REDIS_REST_TOKEN', 'REDIS_REST_TOKEN']
+
+export interface RedisConfig {
+  url?: string
+  token?: string
+  urlSource?: string
+}
+
+export function getRedisConfig(): RedisConfig {
+  const urlSource = REDIS_URL_VARIABLES.find(name => process.env[name])
+  const tokenSource = REDIS_TOKEN_VARIABLES.find(name => process.env[name])
+  return {
+    url: urlSource ? process.env[urlSource] : undefined,
+    token: tokenSource ? process.env[tokenSource] : undefined,
+    urlSource,
+  }
+}
+
+// Compare-and-set: ARGV[1] = '1' if a current value is expected, ARGV[2] = expected, ARGV[3] = next
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '0' then
+  if current then return 0 end
+elseif current ~= ARGV[2] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[3])
+return 1
+`
+
+export function createRedisDriver(client: RedisClient): StorageDriver {
+  // A client in subscriber mode can't run other commands, so subscriptions share a second connection
+  let subscriberPromise: Promise<RedisClient> | null = null
+  const getSubscriber = () => {
+    if (!subscriberPromise) {
+      const subscriber = client.duplicate()
+      subscriber.on('error', (err) => console.error('Redis Subscriber Error', err))
+      subscriberPromise = subscriber.connect().then(() => subscriber).catch((error) => {
+        subscriberPromise = null
+        throw error
+      })
+    }
+    return subscriberPromise
+  }
+
+  return {
+    kind: 'redis',
+    async get(key) {
+      const value = await client.get(key)
+      return value === null ? null : String(value)
+    },
+    async set(key, value) {
+      await client.set(key, value)
+    },
+    async setWithExpiry(key, value, ttlMs) {
+      await client.set(key, value, { expiration: { type: 'PX', value: ttlMs } })
+    },
+    async del(keys) {
+      if (keys.length > 0) {
+        await client.del(keys)
+      }
+    },
+    async compareAndSet(key, expected, next) {
+      const result = await client.eval(COMPARE_AND_SET_SCRIPT, {
+        keys: [key],
+        arguments: [expected === null ? '0' : '1', expected ?? '', next],
+      })
+      return Number(result) === 1
+    },
+    async hGet(key, field) {
+      const value = await client.hGet(key, field)
+      return value === null || value === undefined ? null : String(value)
+    },
+    async hGetAll(key) {
+      const value = await client.hGetAll(key)
+      return { ...value } as Record<string, string>
+    },
+    async runScript(script, keys, args) {
+      const result = await client.eval(script.lua, { keys, arguments: args })
+      if (result === null || result === undefined) {
+        return null
+      }
+      return typeof result === 'number' ? result : String(result)
+    },
+    async publish(channel, message) {
+      await client.publish(channel, message)
+    },
+    async subscribe(channel, listener) {
+      const subscriber = await getSubscriber()
+      const onMessage = (message: string) => listener(message)
+      await subscriber.subscribe(channel, onMessage)
+      return async () => {
+        await subscriber.unsubscribe(channel, onMessage)
+      }
+    },
+  }
+}
+
+export function createMemoryDriver(): StorageDriver {
+  const strings = new Map<string, string>()
+  const hashes = new Map<string, Map<string, string>>()
+  const channels = new EventEmitter()
+  // Every open live-update stream adds a listener, so don't warn about "leaks"
+  channels.setMaxListeners(0)
+
+  const getHash = (key: string) => {
+    let hash = hashes.get(key)
+    if (!hash) {
+      hash = new Map()
+      hashes.set(key, hash)
+    }
+    return hash
+  }
+
+  // Every method is synchronous, so a script runs without interleaving other requests
+  const context: MemoryScriptContext = {
+    get: key => strings.get(key) ?? null,
+    set: (key, value) => {
+      strings.set(key, value)
+    },
+    del: key => {
+      strings.delete(key)
+      hashes.delete(key)
+    },
+    hGet: (key, field) => hashes.get(key)?.get(field) ?? null,
+    hSet: (key, field, value) => {
+      getHash(key).set(field, value)
+    },
+    hDel: (key, field) => {
+      hashes.get(key)?.delete(field)
+    },
+    hGetAll: key => Object.fromEntries(hashes.get(key) ?? []),
+    hIncrBy: (key, field, increment) => {
+      const hash = getHash(key)
+      const next = Number(hash.get(field) ?? 0) + increment
+      hash.set(field, String(next))
+      return next
+    },
+  }
+
+  return {
+    kind: 'memory',
+    async get(key) {
+      return context.get(key)
+    },
+    async set(key, value) {
+      context.set(key, value)
+    },
+    async setWithExpiry(key, value) {
+      context.set(key, value)
+    },
+    async del(keys) {
+      keys.forEach(context.del)
+    },
+    async compareAndSet(key, expected, next) {
+      // Single-threaded, so checking and writing without an await in between is atomic
+      if (context.get(key) !== expected) {
+        return false
+      }
+      context.set(key, next)
+      return true
+    },
+    async hGet(key, field) {
+      return context.hGet(key, field)
+    },
+    async hGetAll(key) {
+      return context.hGetAll(key)
+    },
+    async runScript(script, keys, args) {
+      return script.memory(context, keys, args)
+    },
+    async publish(channel, message) {
+      channels.emit(channel, message)
+    },
+    async subscribe(channel, listener) {
+      channels.on(channel, listener)
+      return async () => {
+        channels.off(channel, listener)
+      }
+    },
+  }
+}
+
+// Driver is created once and reused across requests (per serverless instance)
+let driverPromise: Promise<StorageDriver> | null = null
+
+async function createDriver(): Promise<StorageDriver> {
+  const { url, token } = getRedisConfig()
+
+  if (process.env.STORAGE_DRIVER === 'memory' || !url) {
+    if (!url) {
+      console.warn('No Redis URL found in environment variables. Using in-memory storage (data resets on restart).')
+    }
+    return createMemoryDriver()
+  }
+
+  const client = createClient({
+    url,
+    ...(token && { password: token }),
+  })
+  client.on('error', (err) => console.error('Redis Client Error', err))
+
+  if (!client.isOpen) {
+    await client.connect()
+  }
+  return createRedisDriver(client)
+}
+
+export async function getStorage(): Promise<StorageDriver> {
+  if (!driverPromise) {
+    driverPromise = createDriver().catch((error) => {
+      // Allow the next request to retry the connection
+      driverPromise = null
+      throw error
+    })
+  }
+  return driverPromise
+}
+
+// Typed JSON repository for a single key
+interface JsonRepositoryOptions<T> {
+  key: string
+  // Value returned when the key does not exist yet
+  initial: () => T
+  // Converts stored JSON into the current shape (use for migrating old formats)
+  parse?: (raw: unknown) => T
+  // Driver override, defaults to the shared driver from getStorage()
+  driver?: StorageDriver
+}
+
+export interface JsonRepository<T> {
+  readonly key: string
+  get(): Promise<T>
+  // Applies `mutate` to the latest value and retries if another writer got there first
+  update(mutate: (current: T) => T): Promise<T>
+  clear(): Promise<void>
+}
+
+const MAX_UPDATE_ATTEMPTS = 20
+const MAX_RETRY_DELAY_MS = 100
+
+// Random backoff so writers that collided don't retry in lockstep
+function retryDelay(attempt: number): Promise<void> {
+  const delay = Math.random() * Math.min(MAX_RETRY_DELAY_MS, 5 * 2 ** attempt)
+  return new Promise(resolve => setTimeout(resolve, delay))
+}
+
+export function createJsonRepository<T>({ key, initial, parse, driver }: JsonRepositoryOptions<T>): JsonRepository<T> {
+  const resolveDriver = () => (driver ? Promise.resolve(driver) : getStorage())
+
+  const decode = (raw: string | null): T => {
+    if (raw === null) {
+      return initial()
+    }
+    const parsed: unknown = JSON.parse(raw)
+    return parse ? parse(parsed) : (parsed as T)
+  }
+
+  return {
+    key,
+    async get() {
+      const storage = await resolveDriver()
+      return decode(await storage.get(key))
+    },
+    async update(mutate) {
+      const storage = await resolveDriver()
+
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const raw = await storage.get(key)
+        const next = mutate(decode(raw))
+        if (await storage.compareAndSet(key, raw, JSON.stringify(next))) {
+          return next
+        }
+        await retryDelay(attempt)
+      }
+
+      throw new StorageConflictError(key)
+    },
+    async clear() {
+      const storage = await resolveDriver()
+      await storage.del([key])
+    },
+  }
+}
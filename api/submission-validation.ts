@@ -0,0 +1,142 @@
+// Submission Validation
+// Shared checks for what players type into the games: their name and their entries (statements, movies).
+// Every game's entries go through the same schema (see SubmissionSchema), so the rules live in one place:
+// - length: entries are trimmed and whitespace-collapsed, then must be minLength..maxLength characters
+// - allowed characters: no markup or control characters; names are letters, numbers, spaces and . ' -
+// - duplicates: the same entry twice (ignoring case, spacing and punctuation) is rejected when unique is set
+// - word filter: entries and names can't contain blocked words (see getBlockedWords)
+// Problems come back as field-level errors so the games page can show each one next to its input.
+
+export interface SubmissionSchema {
+  field: string // Body field holding the player's entries (also names them in errors)
+  label: string // What one entry is called in messages ("Statement", "Movie")
+  count: number // Entries every player submits
+  minLength: number
+  maxLength: number // Characters kept per entry
+  unique: boolean // Reject the same entry twice
+}
+
+// One problem with one input; index points at the entry when the field holds several
+export interface FieldError {
+  field: string
+  index?: number
+  message: string
+}
+
+export type SubmissionCheck<T> = { ok: true; value: T } | { ok: false; fieldErrors: FieldError[] }
+
+export const MAX_PLAYER_NAME_LENGTH = 50
+
+// A short default list; GAME_BLOCKED_WORDS (comma-separated) adds more, GAME_WORD_FILTER=off turns it off
+const DEFAULT_BLOCKED_WORDS = [
+  'asshole',
+  'bastard',
+  'bitch',
+  'bullshit',
+  'cunt',
+  'dickhead',
+  'fuck',
+  'fucker',
+  'fucking',
+  'motherfucker',
+  'nigger',
+  'shit',
+  'slut',
+  'whore',
+]
+
+// Look-alike characters people use to slip past a word filter
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' }
+
+const FORBIDDEN_CHARACTERS = /[<>\p{Cc}\p{Cf}]/u
+const PLAYER_NAME_PATTERN = /^[\p{L}\p{M}\p{N} .'’-]+$/u
+
+// The blocked words in effect: the defaults plus GAME_BLOCKED_WORDS
+export function getBlockedWords(): string[] {
+  if (process.env.GAME_WORD_FILTER === 'off') {
+    return []
+  }
+  const extra = (process.env.GAME_BLOCKED_WORDS || '')
+    .split(',')
+    .map(word => word.trim().toLowerCase())
+    .filter(Boolean)
+  return [...DEFAULT_BLOCKED_WORDS, ...extra]
+}
+
+// Trims and collapses whitespace, and folds look-alike Unicode forms (e.g. full-width letters)
+export function cleanText(value: string): string {
+  return value.normalize('NFKC').trim().replace(/\s+/g, ' ')
+}
+
+// Key used to spot duplicate entries: case, spacing and punctuation don't count
+function comparisonKey(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')
+}
+
+// Returns the blocked word the text contains, if any (whole words only, so "Scunthorpe" is fine)
+export function findBlockedWord(text: string, blockedWords = getBlockedWords()): string | null {
+  if (blockedWords.length === 0) {
+    return null
+  }
+  const lower = text.toLowerCase()
+  // Check the words as written and with look-alikes swapped back ("sh!t", but also "shit!")
+  const words = [
+    ...lower.split(/[^\p{L}\p{N}]+/u),
+    ...lower.replace(/[013457@$!]/g, character => LOOKALIKES[character]).split(/[^\p{L}\p{N}]+/u),
+  ]
+  return blockedWords.find(blocked => words.includes(blocked)) ?? null
+}
+
+// Checks one piece of text against the length, character and word rules
+function checkText(value: string, label: string, minLength: number, maxLength: number): string | null {
+  if (!value) {
+    return `Please enter a ${label.toLowerCase()}`
+  }
+  if (value.length < minLength) {
+    return `${label} must be at least ${minLength} characters`
+  }
+  if (value.length > maxLength) {
+    return `${label} must be ${maxLength} characters or less`
+  }
+  if (FORBIDDEN_CHARACTERS.test(value)) {
+    return `${label} can't contain < or > or control characters`
+  }
+  if (findBlockedWord(value)) {
+    return 'Please keep it friendly'
+  }
+  return null
+}
+
+export function validatePlayerName(raw: unknown): SubmissionCheck<string> {
+  const name = typeof raw === 'string' ? cleanText(raw) : ''
+  const error = checkText(name, 'Name', 1, MAX_PLAYER_NAME_LENGTH)
+    ?? (PLAYER_NAME_PATTERN.test(name) ? null : "Names can only use letters, numbers, spaces and . ' -")
+  return error ? { ok: false, fieldErrors: [{ field: 'playerName', message: error }] } : { ok: true, value: name }
+}
+
+// Checks a player's entries against the schema, returning the cleaned entries
+export function validateEntries(schema: SubmissionSchema, raw: unknown): SubmissionCheck<string[]> {
+  const { field, label, count, minLength, maxLength, unique } = schema
+  if (!Array.isArray(raw) || raw.length !== count || raw.some(entry => typeof entry !== 'string')) {
+    return { ok: false, fieldErrors: [{ field, message: `${count} ${field} are required` }] }
+  }
+
+  const entries = (raw as string[]).map(cleanText)
+  const fieldErrors: FieldError[] = []
+  const seen = new Set<string>()
+
+  entries.forEach((entry, index) => {
+    const error = checkText(entry, label, minLength, maxLength)
+    if (error) {
+      fieldErrors.push({ field, index, message: error })
+      return
+    }
+    const key = comparisonKey(entry)
+    if (unique && seen.has(key)) {
+      fieldErrors.push({ field, index, message: `This ${label.toLowerCase()} is a duplicate of another one` })
+    }
+    seen.add(key)
+  })
+
+  return fieldErrors.length > 0 ? { ok: false, fieldErrors } : { ok: true, value: entries }
+}
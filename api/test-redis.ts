@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { createClient } from 'redis'
+import { getRedisConfig, REDIS_URL_VARIABLES } from './storage'
 
 // Simple test endpoint to verify Redis connection
 export default async function handler(
@@ -11,18 +12,8 @@ export default async function handler(
   }
 
   try {
-    // Check for various possible Redis environment variable names
-    const redisUrl = 
-      process.env.KV_REST_API_URL || 
-      process.env.REDIS_URL || 
-      process.env.UPSTASH_REDIS_REST_URL ||
-      process.env.REDIS_REST_URL
-    
-    const redisToken = 
-      process.env.KV_REST_API_TOKEN || 
-      process.env.REDIS_PASSWORD || 
-      process.env.UPSTASH_REDIS_REST_TOKEN ||
-      process.env.REDIS_REST_TOKEN
+    // Same lookup the shared storage layer uses
+    const { url: redisUrl, token: redisToken, urlSource } = getRedisConfig()
 
     // Get all Redis-related environment variables for debugging
     const redisEnvVars = Object.keys(process.env).filter(key => 
@@ -36,12 +27,7 @@ export default async function handler(
       return res.status(500).json({
         error: 'Redis URL not configured',
         message: 'No Redis URL environment variable found. Please check your Vercel project settings.',
-        checkedVariables: [
-          'KV_REST_API_URL',
-          'REDIS_URL',
-          'UPSTASH_REDIS_REST_URL',
-          'REDIS_REST_URL'
-        ],
+        checkedVariables: REDIS_URL_VARIABLES,
         foundEnvVars: redisEnvVars,
         instructions: [
           '1. Go to your Vercel project dashboard',
@@ -93,10 +79,7 @@ export default async function handler(
       connection: {
         url: redisUrl ? 'configured' : 'missing',
         token: redisToken ? 'configured' : 'missing',
-        urlSource: redisUrl === process.env.KV_REST_API_URL ? 'KV_REST_API_URL' :
-                   redisUrl === process.env.REDIS_URL ? 'REDIS_URL' :
-                   redisUrl === process.env.UPSTASH_REDIS_REST_URL ? 'UPSTASH_REDIS_REST_URL' :
-                   redisUrl === process.env.REDIS_REST_URL ? 'REDIS_REST_URL' : 'unknown',
+        urlSource: urlSource || 'unknown',
       },
       // Removed allRedisEnvVars to avoid exposing environment variable names
     })
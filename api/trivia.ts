@@ -0,0 +1,82 @@
+// Trivia
+// Question sets and scoring for the trivia game. The host loads a set of multiple-choice questions
+// (see parseTriviaQuestionSet) and opens them one at a time; every player answers within the countdown.
+// A correct answer scores between half and all of MAX_POINTS depending on how fast it came in,
+// timed by the server from when the question opened. Wrong and missing answers score nothing.
+
+export interface TriviaQuestion {
+  question: string
+  choices: string[]
+  correctIndex: number
+}
+
+export interface TriviaQuestionSet {
+  questions: TriviaQuestion[]
+  secondsPerQuestion: number
+}
+
+export const MAX_POINTS = 1000
+export const DEFAULT_SECONDS_PER_QUESTION = 20
+
+const MAX_QUESTIONS = 50
+const MIN_CHOICES = 2
+const MAX_CHOICES = 6
+const MIN_SECONDS = 5
+const MAX_SECONDS = 120
+// Answers sent just as the countdown ends still count (phones and networks lag a little)
+export const ANSWER_GRACE_MS = 1500
+
+// Validate a question set sent by a host; returns an error message when it can't be used
+export function parseTriviaQuestionSet(raw: unknown): TriviaQuestionSet | string {
+  const input = (raw ?? {}) as Record<string, unknown>
+  const { questions, secondsPerQuestion = DEFAULT_SECONDS_PER_QUESTION } = input
+
+  if (!Array.isArray(questions) || questions.length === 0) {
+    return 'questions must be a non-empty list'
+  }
+  if (questions.length > MAX_QUESTIONS) {
+    return `A question set can have up to ${MAX_QUESTIONS} questions`
+  }
+  if (!Number.isInteger(secondsPerQuestion) || (secondsPerQuestion as number) < MIN_SECONDS || (secondsPerQuestion as number) > MAX_SECONDS) {
+    return `secondsPerQuestion must be a whole number from ${MIN_SECONDS} to ${MAX_SECONDS}`
+  }
+
+  const parsed: TriviaQuestion[] = []
+  for (const [index, entry] of questions.entries()) {
+    const label = `Question ${index + 1}`
+    const question = typeof entry?.question === 'string' ? entry.question.trim() : ''
+    if (!question) {
+      return `${label} needs question text`
+    }
+
+    const choices = Array.isArray(entry.choices)
+      ? entry.choices.map((choice: unknown) => (typeof choice === 'string' ? choice.trim() : ''))
+      : []
+    if (choices.length < MIN_CHOICES || choices.length > MAX_CHOICES || choices.some((choice: string) => !choice)) {
+      return `${label} needs ${MIN_CHOICES} to ${MAX_CHOICES} non-empty choices`
+    }
+
+    const { correctIndex } = entry
+    if (!Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= choices.length) {
+      return `${label} needs a correctIndex pointing at one of its choices`
+    }
+
+    parsed.push({
+      question: question.substring(0, 300),
+      choices: choices.map((choice: string) => choice.substring(0, 150)),
+      correctIndex,
+    })
+  }
+
+  return { questions: parsed, secondsPerQuestion: secondsPerQuestion as number }
+}
+
+// Points for one answer: faster correct answers score more
+export function scoreTriviaAnswer(correct: boolean, elapsedMs: number, secondsPerQuestion: number): number {
+  if (!correct) {
+    return 0
+  }
+  const durationMs = secondsPerQuestion * 1000
+  const remaining = Math.min(1, Math.max(0, 1 - elapsedMs / durationMs))
+  return Math.round(MAX_POINTS * (0.5 + 0.5 * remaining))
+}
@@ -1,4 +1,13 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { getEvent, getEventIdFromRequest, getEventPassword, requiresPassword } from './event-store'
+import { getClientIP } from './client-ip'
+import {
+  clearFailedAttempts,
+  getLockedUntil,
+  issueInviteSession,
+  passwordsMatch,
+  recordFailedAttempt,
+} from './invite-session'
 
 // CORS headers
 const corsHeaders = {
@@ -7,6 +16,17 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type',
 }
 
+// Helper function to reject a locked-out IP
+function sendLockedOut(res: VercelResponse, lockedUntil: number) {
+  const retryAfter = Math.max(1, Math.ceil((lockedUntil - Date.now()) / 1000))
+  res.setHeader('Retry-After', String(retryAfter))
+  return res.status(429).json({
+    error: 'Too many attempts',
+    message: 'Too many incorrect passwords. Please try again later.',
+    retryAfter
+  })
+}
+
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -33,28 +53,48 @@ export default async function handler(
       return res.status(400).json({ error: 'Password is required' })
     }
 
-    // Get the correct password from environment variable
-    const correctPassword = process.env.BIRTHDAY_INVITE_PASSWORD
+    // Each event has its own password (?eventId=, defaults to the original birthday invite)
+    const event = await getEvent(getEventIdFromRequest(req))
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+
+    if (!requiresPassword(event)) {
+      return res.status(400).json({ error: 'This event does not have a password' })
+    }
+
+    const correctPassword = getEventPassword(event)
 
     if (!correctPassword) {
-      console.error('BIRTHDAY_INVITE_PASSWORD environment variable is not set')
+      console.error(`${event.passwordEnv} environment variable is not set`)
       return res.status(500).json({ error: 'Password verification is not configured' })
     }
 
-    // Compare passwords (constant-time comparison to prevent timing attacks)
-    const isValid = password === correctPassword
-
-    if (isValid) {
-      // Generate a simple session token (in production, you might want to use JWT)
-      const sessionToken = Buffer.from(`${Date.now()}-${Math.random()}`).toString('base64')
-      
-      return res.status(200).json({
-        success: true,
-        token: sessionToken
-      })
-    } else {
+    // Too many wrong passwords from this IP locks it out for a while
+    const ip = getClientIP(req)
+    const lockedUntil = await getLockedUntil(event.id, ip)
+    if (lockedUntil) {
+      return sendLockedOut(res, lockedUntil)
+    }
+
+    if (!passwordsMatch(password, correctPassword)) {
+      const nowLockedUntil = await recordFailedAttempt(event.id, ip)
+      if (nowLockedUntil) {
+        return sendLockedOut(res, nowLockedUntil)
+      }
       return res.status(401).json({ error: 'Incorrect password' })
     }
+
+    await clearFailedAttempts(event.id, ip)
+
+    // Signed session token the poll and games APIs accept until it expires
+    const session = issueInviteSession(event.id)
+
+    return res.status(200).json({
+      success: true,
+      token: session.token,
+      expiresAt: session.expiresAt
+    })
   } catch (error) {
     console.error('Error verifying password:', error)
     return res.status(500).json({ error: 'Internal server error' })
@@ -0,0 +1,154 @@
+// Voter Identity
+// Guests are identified by a signed voter token instead of a free-text name.
+// The first request that uses a name claims it and receives a token; after that,
+// acting as that name (changing a vote, commenting, submitting games) requires the token.
+// Names are matched case- and whitespace-insensitively ("Jerome " and "jerome" are the same voter).
+// Names and tokens belong to one event: a token from one party doesn't work at another.
+// Each claim gets its own random id, carried in the token, so once a host releases a name the old
+// token stays dead even after someone else claims the same name.
+
+import { randomBytes } from 'crypto'
+import type { VercelRequest } from '@vercel/node'
+import { getStorage, type StorageScript } from './storage'
+import { getSigningSecret, signToken, verifyToken } from './signed-token'
+import { DEFAULT_EVENT_ID, eventKey } from './event-store'
+
+export interface VoterIdentity {
+  id: string // Normalized name used as the storage key
+  name: string // Display name as first claimed
+}
+
+interface VoterTokenPayload {
+  sub: string
+  name: string
+  evt?: string // Tokens issued before events existed belong to the default event
+  claim?: string // The claim the token was issued for (older tokens match on name instead)
+  iat: number
+}
+
+export type VoterResolution =
+  | { ok: true; voter: VoterIdentity; issuedToken?: string }
+  | { ok: false; status: number; error: string; message?: string }
+
+// Header clients send the token in
+export const VOTER_TOKEN_HEADER = 'X-Voter-Token'
+
+const MAX_NAME_LENGTH = 100
+
+// Hash (per event): normalized name -> claim id (names claimed before claim ids hold the display name)
+function identitiesKey(eventId: string): string {
+  return eventKey('voters', eventId, 'identities')
+}
+
+// Claims a name if nobody has claimed it yet
+// KEYS: identities hash; ARGV: normalized name, claim id
+// Returns 1 if claimed, 0 if the name was already taken
+const CLAIM_NAME_SCRIPT: StorageScript = {
+  lua: `return redis.call('HSETNX', KEYS[1], ARGV[1], ARGV[2])`,
+  memory: (store, [identitiesKey], [id, claim]) => {
+    if (store.hGet(identitiesKey, id) !== null) {
+      return 0
+    }
+    store.hSet(identitiesKey, id, claim)
+    return 1
+  },
+}
+
+// Frees a claimed name (hosts removing a bogus voter)
+// KEYS: identities hash; ARGV: normalized name
+// Returns 1 if the name was claimed
+const RELEASE_NAME_SCRIPT: StorageScript = {
+  lua: `return redis.call('HDEL', KEYS[1], ARGV[1])`,
+  memory: (store, [identitiesKey], [id]) => {
+    if (store.hGet(identitiesKey, id) === null) {
+      return 0
+    }
+    store.hDel(identitiesKey, id)
+    return 1
+  },
+}
+
+// Display form: trimmed, single spaces, length-limited
+export function cleanVoterName(name: string): string {
+  return name.normalize('NFKC').trim().replace(/\s+/g, ' ').substring(0, MAX_NAME_LENGTH)
+}
+
+// Matching form: display form, lowercased
+export function normalizeVoterName(name: string): string {
+  return cleanVoterName(name).toLowerCase()
+}
+
+export function issueVoterToken(eventId: string, voter: VoterIdentity, claim: string): string {
+  const payload: VoterTokenPayload = { sub: voter.id, name: voter.name, evt: eventId, claim, iat: Date.now() }
+  return signToken(payload, getSigningSecret('VOTER_TOKEN_SECRET'))
+}
+
+function getTokenFromRequest(req: VercelRequest): string | undefined {
+  const header = req.headers[VOTER_TOKEN_HEADER.toLowerCase()]
+  return Array.isArray(header) ? header[0] : header
+}
+
+function readVoterToken(req: VercelRequest, eventId: string): VoterTokenPayload | null {
+  const payload = verifyToken<VoterTokenPayload>(getTokenFromRequest(req), getSigningSecret('VOTER_TOKEN_SECRET'))
+  return payload && (payload.evt ?? DEFAULT_EVENT_ID) === eventId ? payload : null
+}
+
+// Returns the voter the request's token belongs to, or null if the token is missing,
+// invalid or issued for another event (resolveVoter also checks the claim is still current)
+export function getVoterFromRequest(req: VercelRequest, eventId: string): VoterIdentity | null {
+  const payload = readVoterToken(req, eventId)
+  return payload && { id: payload.sub, name: payload.name }
+}
+
+// Identifies the voter behind a request
+// - A valid token wins (the name in the body is ignored), unless a host has since released the name,
+//   even if someone has claimed it again since
+// - Without a token, an unclaimed name is claimed and a new token is issued
+// - Without a token, a name that's already claimed is rejected
+export async function resolveVoter(
+  req: VercelRequest,
+  eventId: string,
+  name: unknown,
+  { allowClaim = true }: { allowClaim?: boolean } = {}
+): Promise<VoterResolution> {
+  const storage = await getStorage()
+  const token = readVoterToken(req, eventId)
+  if (token && (await storage.hGet(identitiesKey(eventId), token.sub)) === (token.claim ?? token.name)) {
+    return { ok: true, voter: { id: token.sub, name: token.name } }
+  }
+
+  if (getTokenFromRequest(req)) {
+    return { ok: false, status: 401, error: 'Invalid voter token', message: 'Please enter your name again' }
+  }
+
+  if (!allowClaim) {
+    return { ok: false, status: 401, error: 'Voter token required', message: 'Only the person who voted can change this vote' }
+  }
+
+  if (typeof name !== 'string' || !cleanVoterName(name)) {
+    return { ok: false, status: 400, error: 'Name is required' }
+  }
+
+  const voter: VoterIdentity = { id: normalizeVoterName(name), name: cleanVoterName(name) }
+  const claim = randomBytes(12).toString('base64url')
+  const claimed = await storage.runScript(CLAIM_NAME_SCRIPT, [identitiesKey(eventId)], [voter.id, claim])
+
+  if (Number(claimed) !== 1) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'Name already taken',
+      message: `Someone is already using the name "${voter.name}". Please add a last initial or nickname.`
+    }
+  }
+
+  return { ok: true, voter, issuedToken: issueVoterToken(eventId, voter, claim) }
+}
+
+// Releases a voter's name so it can be claimed again; their existing token stops working, and stays
+// dead after a new claim because that claim gets a new id
+export async function releaseVoterName(eventId: string, voterId: string): Promise<boolean> {
+  const storage = await getStorage()
+  const released = await storage.runScript(RELEASE_NAME_SCRIPT, [identitiesKey(eventId)], [voterId])
+  return Number(released) === 1
+}
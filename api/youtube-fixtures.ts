@@ -0,0 +1,39 @@
+// YouTube Search Fixtures
+// Canned search results for running ./youtube-search without a YouTube API key (local dev, demos).
+// Set YOUTUBE_SEARCH_DRIVER=mock to use them, or leave YOUTUBE_API_KEY unset outside production.
+
+export interface YouTubeSearchResult {
+  videoId: string
+  title: string
+  channelTitle: string
+  thumbnail: string
+}
+
+const FIXTURE_VIDEOS: Array<Omit<YouTubeSearchResult, 'thumbnail'>> = [
+  { videoId: 'dQw4w9WgXcQ', title: 'Rick Astley - Never Gonna Give You Up (Official Music Video)', channelTitle: 'Rick Astley' },
+  { videoId: 'fJ9rUzIMcZQ', title: 'Queen – Bohemian Rhapsody (Official Video Remastered)', channelTitle: 'Queen Official' },
+  { videoId: 'OPf0YbXqDm0', title: 'Mark Ronson - Uptown Funk (Official Video) ft. Bruno Mars', channelTitle: 'Mark Ronson' },
+  { videoId: 'ZbZSe6N_BXs', title: 'Pharrell Williams - Happy (Official Music Video)', channelTitle: 'Pharrell Williams' },
+  { videoId: 'kJQP7kiw5Fk', title: 'Luis Fonsi - Despacito ft. Daddy Yankee', channelTitle: 'Luis Fonsi' },
+  { videoId: '9bZkp7q19f0', title: 'PSY - GANGNAM STYLE(강남스타일) M/V', channelTitle: 'officialpsy' },
+  { videoId: 'JGwWNGJdvx8', title: 'Ed Sheeran - Shape of You (Official Music Video)', channelTitle: 'Ed Sheeran' },
+  { videoId: 'hTWKbfoikeg', title: 'Nirvana - Smells Like Teen Spirit (Official Music Video)', channelTitle: 'Nirvana' },
+  { videoId: 'CevxZvSJLk8', title: 'Katy Perry - Roar (Official)', channelTitle: 'Katy Perry' },
+  { videoId: '60ItHLz5WEA', title: 'Alan Walker - Faded', channelTitle: 'Alan Walker' },
+]
+
+const FIXTURE_RESULTS: YouTubeSearchResult[] = FIXTURE_VIDEOS.map(video => ({
+  ...video,
+  thumbnail: `https://i.ytimg.com/vi/${video.videoId}/default.jpg`,
+}))
+
+// Fixtures whose title or channel mentions any word of the query, or all of them if none match
+// (so any search shows something to add)
+export function searchFixtures(query: string, maxResults: number): YouTubeSearchResult[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  const matches = FIXTURE_RESULTS.filter(result => {
+    const text = `${result.title} ${result.channelTitle}`.toLowerCase()
+    return words.some(word => text.includes(word))
+  })
+  return (matches.length > 0 ? matches : FIXTURE_RESULTS).slice(0, maxResults)
+}
@@ -1,4 +1,17 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { addApiCall } from './api-usage-tracker'
+import { getClientIP } from './client-ip'
+import { checkRateLimit, type RateLimit } from './rate-limit'
+import { getStorage, namespacedKey } from './storage'
+import { searchFixtures, type YouTubeSearchResult } from './youtube-fixtures'
+
+// YouTube search for the party playlist
+// POST { query } - up to 10 videos ({ videoId, title, channelTitle, thumbnail })
+// Every search.list call spends 100 of the API key's daily quota units, so:
+// - results are cached in shared storage by normalized query (case and spacing don't matter)
+// - each IP can only reach the YouTube API so often (cached searches don't count)
+// - calls are recorded in ./api-usage-tracker with their quota cost
+// Without a key (or with YOUTUBE_SEARCH_DRIVER=mock) results come from ./youtube-fixtures instead
 
 interface YouTubeSearchRequest {
   query: string
@@ -21,6 +34,67 @@ interface YouTubeSearchResponse {
   }>
 }
 
+interface CachedSearch {
+  results: YouTubeSearchResult[]
+  expiresAt: number // The memory driver keeps keys forever, so expiry is checked on read too
+}
+
+const MAX_RESULTS = 10
+const MAX_QUERY_LENGTH = 100
+
+// Song search results barely change within a party
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000 // 6 hours
+
+// A guest searching for songs rarely needs more than this
+const SEARCH_RATE_LIMIT: RateLimit = { limit: 20, windowMs: 10 * 60 * 1000 }
+
+// "  Bohemian   RHAPSODY " and "bohemian rhapsody" are the same search
+function normalizeQuery(query: string): string {
+  return query.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase().substring(0, MAX_QUERY_LENGTH)
+}
+
+function cacheKey(query: string): string {
+  return namespacedKey('youtube-search', query)
+}
+
+// The cache is best-effort: if storage is down, searches go straight to YouTube
+async function getCachedSearch(query: string): Promise<YouTubeSearchResult[] | null> {
+  try {
+    const storage = await getStorage()
+    const raw = await storage.get(cacheKey(query))
+    if (!raw) {
+      return null
+    }
+    const cached: CachedSearch = JSON.parse(raw)
+    return cached.expiresAt > Date.now() ? cached.results : null
+  } catch (error) {
+    console.error('Error reading cached YouTube search:', error)
+    return null
+  }
+}
+
+async function cacheSearch(query: string, results: YouTubeSearchResult[]): Promise<void> {
+  try {
+    const storage = await getStorage()
+    const cached: CachedSearch = { results, expiresAt: Date.now() + CACHE_TTL_MS }
+    await storage.setWithExpiry(cacheKey(query), JSON.stringify(cached), CACHE_TTL_MS)
+  } catch (error) {
+    console.error('Error caching YouTube search:', error)
+  }
+}
+
+// Fixtures are used on request, or when no key is set outside production (like the in-memory storage fallback)
+function isMockSearch(apiKey: string | undefined): boolean {
+  if (process.env.YOUTUBE_SEARCH_DRIVER === 'mock') {
+    return true
+  }
+  if (!apiKey && process.env.NODE_ENV !== 'production') {
+    console.warn('YOUTUBE_API_KEY environment variable not set. Using mock YouTube search results.')
+    return true
+  }
+  return false
+}
+
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -39,35 +113,66 @@ export default async function handler(
   }
 
   try {
-    const { query }: YouTubeSearchRequest = req.body
+    const { query }: YouTubeSearchRequest = req.body ?? {}
 
     // Validate input
     if (!query || typeof query !== 'string' || query.trim() === '') {
-      return res.status(400).json({ 
-        error: 'Search query is required' 
+      return res.status(400).json({
+        error: 'Search query is required'
       })
     }
 
+    const normalizedQuery = normalizeQuery(query)
     const apiKey = process.env.YOUTUBE_API_KEY
+
+    if (isMockSearch(apiKey)) {
+      return res.status(200).json({
+        success: true,
+        results: searchFixtures(normalizedQuery, MAX_RESULTS),
+        mock: true
+      })
+    }
+
     if (!apiKey) {
       console.error('YOUTUBE_API_KEY environment variable not set')
-      return res.status(500).json({ 
-        error: 'YouTube API key not configured' 
+      return res.status(500).json({
+        error: 'YouTube API key not configured'
+      })
+    }
+
+    const clientIP = getClientIP(req)
+
+    // Check cache first (a cached search costs no quota, so it doesn't count against the rate limit)
+    const cachedResults = await getCachedSearch(normalizedQuery)
+    if (cachedResults) {
+      addApiCall('youtube', 'search', true, clientIP)
+      return res.status(200).json({
+        success: true,
+        results: cachedResults
+      })
+    }
+
+    const rateLimit = await checkRateLimit('youtube-search', clientIP, SEARCH_RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      res.setHeader('Retry-After', String(rateLimit.retryAfter))
+      return res.status(429).json({
+        error: 'Rate limit exceeded',
+        message: 'Too many searches. Please try again in a few minutes.',
+        retryAfter: rateLimit.retryAfter
       })
     }
 
-    // Sanitize query
-    const sanitizedQuery = query.trim().substring(0, 100)
-    
     // Search YouTube using Data API v3
-    const searchUrl = `https://www.googleapis.com/youtube/v3/search?part=snippet&type=video&maxResults=10&q=${encodeURIComponent(sanitizedQuery)}&key=${apiKey}`
-    
+    const searchUrl = `https://www.googleapis.com/youtube/v3/search?part=snippet&type=video&maxResults=${MAX_RESULTS}&q=${encodeURIComponent(normalizedQuery)}&key=${apiKey}`
+
     const response = await fetch(searchUrl)
-    
+    // A failed call still spends its quota
+    addApiCall('youtube', 'search', false, clientIP)
+
     if (!response.ok) {
       const errorData = await response.text()
       console.error('YouTube API error:', response.status, errorData)
-      return res.status(response.status).json({ 
+      return res.status(response.status).json({
         error: 'Failed to search YouTube',
         message: response.status === 403 ? 'YouTube API quota exceeded or invalid key' : 'YouTube API error'
       })
@@ -76,23 +181,24 @@ export default async function handler(
     const data: YouTubeSearchResponse = await response.json()
 
     // Format results
-    const results = data.items.map((item) => ({
+    const results: YouTubeSearchResult[] = data.items.map((item) => ({
       videoId: item.id.videoId,
       title: item.snippet.title,
       channelTitle: item.snippet.channelTitle,
       thumbnail: item.snippet.thumbnails.default.url
     }))
 
+    await cacheSearch(normalizedQuery, results)
+
     return res.status(200).json({
       success: true,
       results
     })
   } catch (error) {
     console.error('Error searching YouTube:', error)
-    return res.status(500).json({ 
+    return res.status(500).json({
       error: 'Failed to search YouTube',
       message: error instanceof Error ? error.message : 'Unknown error'
     })
   }
 }
-
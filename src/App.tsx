@@ -13,6 +13,9 @@ import BlogPost from './pages/blog/BlogPost'
 import Coffee from './pages/Coffee'
 import BirthdayInvite from './pages/BirthdayInvite'
 import BirthdayGames from './pages/BirthdayGames'
+import GamesPresenter from './pages/GamesPresenter'
+import EventAdmin from './pages/EventAdmin'
+import EventRecap from './pages/EventRecap'
 
 function App() {
   return (
@@ -31,6 +34,13 @@ function App() {
           <Route path="/coffee" element={<Coffee />} />
           <Route path="/jda11202025" element={<BirthdayInvite />} />
           <Route path="/bdaygame" element={<BirthdayGames />} />
+          <Route path="/bdaygame/screen" element={<GamesPresenter />} />
+          <Route path="/bdaygame/recap" element={<EventRecap />} />
+          <Route path="/events/:eventId" element={<BirthdayInvite />} />
+          <Route path="/events/:eventId/games" element={<BirthdayGames />} />
+          <Route path="/events/:eventId/games/screen" element={<GamesPresenter />} />
+          <Route path="/events/:eventId/admin" element={<EventAdmin />} />
+          <Route path="/events/:eventId/recap" element={<EventRecap />} />
         </Routes>
       </Router>
       <Analytics
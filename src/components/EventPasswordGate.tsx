@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { eventApiUrl } from '../utils/events'
+import type { InviteSession } from '../utils/inviteSession'
+
+interface EventPasswordGateProps {
+  eventId: string
+  title: string
+  onUnlock: (session: InviteSession) => void
+}
+
+/**
+ * Password form for protected events
+ * Styled by BirthdayInvite.css, which every event page already loads
+ */
+const EventPasswordGate = ({ eventId, title, onUnlock }: EventPasswordGateProps) => {
+  const [password, setPassword] = useState('')
+  const [passwordError, setPasswordError] = useState('')
+  const [isVerifying, setIsVerifying] = useState(false)
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setPasswordError('')
+
+    if (!password.trim()) {
+      setPasswordError('Please enter a password')
+      return
+    }
+
+    setIsVerifying(true)
+
+    try {
+      const response = await fetch(eventApiUrl('/api/verify-birthday-password', eventId), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ password: password.trim() }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok && data.success) {
+        setPassword('')
+        onUnlock({ token: data.token, expiresAt: data.expiresAt })
+      } else if (response.status === 429) {
+        // Locked out after too many wrong passwords
+        const minutes = Math.max(1, Math.ceil((data.retryAfter || 60) / 60))
+        setPasswordError(`Too many attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`)
+      } else {
+        setPasswordError(data.error || 'Incorrect password')
+      }
+    } catch (error) {
+      console.error('Error verifying password:', error)
+      setPasswordError('Failed to verify password. Please try again.')
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  return (
+    <div className="password-protection-container">
+      <div className="password-protection-form">
+        <h2 className="password-protection-title">{title}</h2>
+        <p className="password-protection-description">Please enter the password to access this page</p>
+        <form onSubmit={handlePasswordSubmit} className="password-form">
+          <div className="password-form-group">
+            <label htmlFor="password-input" className="password-label">
+              Password
+            </label>
+            <input
+              id="password-input"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={`password-input ${passwordError ? 'error' : ''}`}
+              placeholder="Enter password"
+              autoFocus
+              disabled={isVerifying}
+              aria-label="Password"
+              aria-invalid={passwordError ? 'true' : 'false'}
+              aria-describedby={passwordError ? 'password-error' : undefined}
+            />
+            {passwordError && (
+              <p id="password-error" className="password-error" role="alert">
+                {passwordError}
+              </p>
+            )}
+          </div>
+          <button
+            type="submit"
+            className="password-submit-button"
+            disabled={isVerifying || !password.trim()}
+          >
+            {isVerifying ? 'Verifying...' : 'Enter'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default EventPasswordGate
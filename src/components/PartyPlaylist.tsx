@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react'
+import { sanitizeInput } from '../utils/inputSanitizer'
+import { voterHeaders } from '../utils/voterToken'
+import { eventApiUrl } from '../utils/events'
+import { isInviteSessionRejected } from '../utils/inviteSession'
+import type { Playlist } from '../hooks/useLiveUpdates'
+
+interface SearchResult {
+  videoId: string
+  title: string
+  channelTitle: string
+  thumbnail: string
+}
+
+interface PartyPlaylistProps {
+  eventId: string
+  playerName: string
+  playlist: Playlist
+  onPlaylist: (playlist: Playlist) => void
+  onVoterIdentity: (result: { voterToken?: string; voterName?: string }) => void
+  onNameTaken: (message: string) => void
+  onSessionExpired: () => void
+}
+
+// Pulls the playlist out of an API response (which also carries myUpvotes and the voter identity)
+const toPlaylist = ({ nowPlaying, upNext }: Playlist): Playlist => ({ nowPlaying: nowPlaying ?? null, upNext: upNext ?? [] })
+
+/**
+ * Party playlist on the games page: guests search YouTube, queue songs and upvote what they want next
+ * The page passes the playlist in (it arrives over the live stream); the host plays songs from the admin page
+ */
+const PartyPlaylist = ({ eventId, playerName, playlist, onPlaylist, onVoterIdentity, onNameTaken, onSessionExpired }: PartyPlaylistProps) => {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const [myUpvotes, setMyUpvotes] = useState<Set<string>>(new Set())
+  const [isSaving, setIsSaving] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  // Load the queue and which songs this guest has already upvoted
+  useEffect(() => {
+    const loadPlaylist = async () => {
+      try {
+        const response = await fetch(eventApiUrl('/api/playlist', eventId), {
+          headers: voterHeaders(eventId),
+        })
+        const data = await response.json()
+        if (response.ok) {
+          onPlaylist(toPlaylist(data))
+          setMyUpvotes(new Set(data.myUpvotes || []))
+          return
+        }
+        if (isInviteSessionRejected(response.status, data)) {
+          onSessionExpired()
+        }
+      } catch (error) {
+        console.error('Error loading playlist:', error)
+      }
+    }
+
+    // Later changes arrive over the live stream
+    loadPlaylist()
+  }, [eventId, onPlaylist, onSessionExpired])
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = query.trim()
+    if (!trimmed) {
+      setSearchError('Type a song or artist to search for')
+      return
+    }
+
+    setIsSearching(true)
+    setSearchError(null)
+    setNotice(null)
+
+    try {
+      const response = await fetch('/api/youtube-search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: trimmed }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setSearchError(data.message || data.error || 'Search failed. Please try again.')
+        setResults([])
+        return
+      }
+      setResults(data.results || [])
+      if (!data.results?.length) {
+        setSearchError('No songs found. Try different words.')
+      }
+    } catch (error) {
+      console.error('Error searching YouTube:', error)
+      setSearchError('Search failed. Please try again.')
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  // Songs and upvotes are POSTed with the guest's name, like the games
+  const savePlaylist = async (body: Record<string, unknown>, resource?: string) => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(eventApiUrl('/api/playlist', eventId, resource ? { resource } : {}), {
+        method: 'POST',
+        headers: voterHeaders(eventId),
+        body: JSON.stringify({ playerName, ...body }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        if (isInviteSessionRejected(response.status, result)) {
+          onSessionExpired()
+          return null
+        }
+        if (response.status === 409 && result.error === 'Name already taken') {
+          onNameTaken(result.message || result.error)
+          return null
+        }
+        onVoterIdentity(result)
+        alert(result.message || result.error || 'Failed to save. Please try again.')
+        return null
+      }
+
+      onVoterIdentity(result)
+      onPlaylist(toPlaylist(result))
+      setMyUpvotes(new Set(result.myUpvotes || []))
+      return result
+    } catch (error) {
+      console.error('Error saving playlist:', error)
+      alert('Failed to save. Please try again.')
+      return null
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAdd = async (song: SearchResult) => {
+    const result = await savePlaylist({ videoId: song.videoId, title: song.title, channelTitle: song.channelTitle })
+    if (result) {
+      setNotice(result.duplicate ? `"${song.title}" was already queued, so you upvoted it` : `Added "${song.title}"`)
+      setResults([])
+      setQuery('')
+    }
+  }
+
+  const handleUpvote = (videoId: string) => {
+    savePlaylist({ videoId, upvote: !myUpvotes.has(videoId) }, 'upvotes')
+  }
+
+  const { nowPlaying, upNext } = playlist
+
+  return (
+    <div className="party-playlist-section">
+      <div className="youtube-search-section">
+        <h2 className="youtube-search-title">Party Playlist</h2>
+        <form onSubmit={handleSearch} className="youtube-search-form">
+          <div className="youtube-search-field">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => {
+                setQuery(sanitizeInput(e.target.value, 100))
+                setSearchError(null)
+              }}
+              placeholder="Search for a song"
+              className="youtube-search-input"
+              maxLength={100}
+              aria-label="Search for a song"
+            />
+            <button type="submit" className="youtube-search-button" disabled={isSearching}>
+              {isSearching ? 'Searching...' : 'Search YouTube'}
+            </button>
+          </div>
+          {searchError && (
+            <p className="youtube-search-error" role="alert">{searchError}</p>
+          )}
+          {notice && <p className="playlist-notice" role="status">{notice}</p>}
+        </form>
+
+        {results.length > 0 && (
+          <div className="youtube-results">
+            <h3 className="youtube-results-title">Tap a song to add it</h3>
+            <div className="youtube-results-list">
+              {results.map(song => (
+                <button
+                  key={song.videoId}
+                  type="button"
+                  className="youtube-result-item"
+                  onClick={() => handleAdd(song)}
+                  disabled={isSaving}
+                >
+                  <img src={song.thumbnail} alt="" className="youtube-result-thumbnail" loading="lazy" />
+                  <div className="youtube-result-info">
+                    <span className="youtube-result-title">{song.title}</span>
+                    <span className="youtube-result-channel">{song.channelTitle}</span>
+                  </div>
+                  <span className="youtube-result-add">+ Add</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {nowPlaying && (
+        <div className="playlist-now-playing">
+          <h3 className="songs-list-title">Now Playing</h3>
+          <div className="song-item">
+            <img src={nowPlaying.thumbnail} alt="" className="youtube-result-thumbnail" loading="lazy" />
+            <div className="song-info">
+              <span className="song-name">{nowPlaying.title}</span>
+              <span className="song-artist">{nowPlaying.channelTitle}</span>
+            </div>
+            <div className="song-meta">
+              <span className="song-added-by">Added by {nowPlaying.addedBy}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="songs-list-section">
+        <h3 className="songs-list-title">Up Next</h3>
+        {upNext.length === 0 ? (
+          <p className="no-songs-message">No songs queued yet. Search for one above!</p>
+        ) : (
+          <ol className="songs-list">
+            {upNext.map(song => {
+              const isUpvoted = myUpvotes.has(song.videoId)
+              return (
+                <li key={song.videoId} className="song-item">
+                  <div className="song-info">
+                    <span className="song-name">{song.title}</span>
+                    <span className="song-artist">{song.channelTitle}</span>
+                    <span className="song-added-by">Added by {song.addedBy}</span>
+                  </div>
+                  <div className="song-meta">
+                    <button
+                      type="button"
+                      className={`playlist-upvote-button ${isUpvoted ? 'upvoted' : ''}`}
+                      onClick={() => handleUpvote(song.videoId)}
+                      disabled={isSaving}
+                      aria-pressed={isUpvoted}
+                      aria-label={`${isUpvoted ? 'Remove your upvote for' : 'Upvote'} ${song.title}`}
+                    >
+                      ▲ {song.votes}
+                    </button>
+                    <a
+                      href={`https://www.youtube.com/watch?v=${song.videoId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="song-youtube-link"
+                    >
+                      <span className="youtube-icon">▶</span> YouTube
+                    </a>
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default PartyPlaylist
@@ -0,0 +1,89 @@
+import { useState } from 'react'
+import './RankedChoiceList.css'
+
+interface RankedChoiceListProps {
+  options: Array<{ id: string; name: string }>
+  ranking: string[] // Option ids, most preferred first
+  onChange: (ranking: string[]) => void
+  disabled?: boolean
+}
+
+// Returns a copy of the list with one item moved to a new position
+const moveItem = (list: string[], from: number, to: number): string[] => {
+  const next = [...list]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+/**
+ * Drag-to-rank list for ranked-choice polls
+ * Items can be dragged, or moved with the arrow buttons (keyboard and touch screens)
+ */
+const RankedChoiceList = ({ options, ranking, onChange, disabled = false }: RankedChoiceListProps) => {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const nameOf = (id: string) => options.find(option => option.id === id)?.name || id
+
+  const handleDrop = (index: number) => {
+    if (draggedIndex !== null && draggedIndex !== index) {
+      onChange(moveItem(ranking, draggedIndex, index))
+    }
+    setDraggedIndex(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <ol className="ranked-choice-list" aria-label="Your ranking">
+      {ranking.map((id, index) => (
+        <li
+          key={id}
+          className={`ranked-choice-item ${draggedIndex === index ? 'dragging' : ''} ${dropIndex === index && draggedIndex !== index ? 'drop-target' : ''}`}
+          draggable={!disabled}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move'
+            setDraggedIndex(index)
+          }}
+          onDragOver={(e) => {
+            e.preventDefault()
+            setDropIndex(index)
+          }}
+          onDrop={(e) => {
+            e.preventDefault()
+            handleDrop(index)
+          }}
+          onDragEnd={() => {
+            setDraggedIndex(null)
+            setDropIndex(null)
+          }}
+        >
+          <span className="ranked-choice-rank">{index + 1}</span>
+          <span className="ranked-choice-name">{nameOf(id)}</span>
+          <span className="ranked-choice-actions">
+            <button
+              type="button"
+              className="ranked-choice-move"
+              onClick={() => onChange(moveItem(ranking, index, index - 1))}
+              disabled={disabled || index === 0}
+              aria-label={`Move ${nameOf(id)} up`}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              className="ranked-choice-move"
+              onClick={() => onChange(moveItem(ranking, index, index + 1))}
+              disabled={disabled || index === ranking.length - 1}
+              aria-label={`Move ${nameOf(id)} down`}
+            >
+              ↓
+            </button>
+          </span>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export default RankedChoiceList
@@ -0,0 +1,116 @@
+import type { GOATGame } from '../../hooks/useLiveUpdates'
+import { ScreenBoard, ScreenChoices, ScreenMessage } from './ScreenParts'
+import type { GameScreen, GameView, SubmissionGameDefinition } from './types'
+
+// Votes each player can spread across the leaderboard (same limit as api/games-store)
+const MAX_GOAT_VOTES = 3
+
+// This player's votes: ids of the films they picked
+type Votes = string[]
+
+// Votes are saved as a whole list, so toggling one film sends every current pick
+const Leaderboard = ({ game, player, isBusy, runAction }: GameView<GOATGame, Votes>) => {
+  if (game.leaderboard.length === 0) {
+    return null
+  }
+
+  const handleVoteToggle = (movieId: string) => {
+    const movieIds = player.includes(movieId)
+      ? player.filter(id => id !== movieId)
+      : [...player, movieId]
+    if (movieIds.length > MAX_GOAT_VOTES) {
+      alert(`You can vote for up to ${MAX_GOAT_VOTES} movies. Remove a vote first.`)
+      return
+    }
+    runAction('votes', { movieIds })
+  }
+
+  return (
+    <div className="goat-leaderboard">
+      <h4 className="players-summary-title">All-Time Top Films</h4>
+      <p className="submissions-list-description">
+        Vote for your favorites ({MAX_GOAT_VOTES - player.length} of {MAX_GOAT_VOTES} votes left). Same titles are combined, even with typos.
+      </p>
+      <ol className="goat-leaderboard-list">
+        {game.leaderboard.map((movie) => {
+          const hasVoted = player.includes(movie.id)
+          // Only nominators whose authorship has been revealed are named
+          const others = movie.nominations - movie.nominators.length
+          return (
+            <li key={movie.id} className={`goat-leaderboard-item ${hasVoted ? 'voted' : ''}`}>
+              <div className="goat-leaderboard-info">
+                <span className="goat-leaderboard-title">{movie.title}</span>
+                <span className="goat-leaderboard-nominators">
+                  {movie.nominators.length > 0
+                    ? `Nominated by ${movie.nominators.join(', ')}${others > 0 ? ` and ${others} other${others !== 1 ? 's' : ''}` : ''}`
+                    : `Nominated by ${movie.nominations} player${movie.nominations !== 1 ? 's' : ''}`}
+                </span>
+              </div>
+              <button
+                type="button"
+                className="goat-vote-button"
+                onClick={() => handleVoteToggle(movie.id)}
+                disabled={isBusy || (!hasVoted && player.length >= MAX_GOAT_VOTES)}
+                aria-pressed={hasVoted}
+                aria-label={`${hasVoted ? 'Remove your vote for' : 'Vote for'} ${movie.title}`}
+              >
+                ★ {movie.votes}
+              </button>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
+
+// The big screen cycles through each player's top 3 (by number, and name once revealed) beside the voted leaderboard
+const Screen = ({ game, slide }: GameScreen<GOATGame>) => {
+  const submissions = Object.values(game.submissions).sort((a, b) => a.submittedAt - b.submittedAt)
+  if (submissions.length === 0) {
+    return <ScreenMessage title="GOAT">Scan the code and share your top 3 movies of all time.</ScreenMessage>
+  }
+
+  const position = slide % submissions.length
+
+  return (
+    <div className="screen-game">
+      <div className="screen-main">
+        <p className="screen-kicker">
+          Player {position + 1} of {submissions.length}
+          {submissions[position].playerName && ` · ${submissions[position].playerName}`}
+        </p>
+        <h2 className="screen-heading">Top 3 of all time</h2>
+        <ScreenChoices
+          choices={submissions[position].movies.map((movie, index) => ({ text: movie, label: `${index + 1}.` }))}
+        />
+      </div>
+      {game.leaderboard.length > 0 && (
+        <ScreenBoard
+          title="All-Time Top Films"
+          rows={game.leaderboard.map(movie => ({ key: movie.id, label: movie.title, value: `★ ${movie.votes}` }))}
+        />
+      )}
+    </div>
+  )
+}
+
+export const goat: SubmissionGameDefinition<GOATGame, Votes> = {
+  mode: 'submissions',
+  type: 'goat',
+  title: 'GOAT',
+  description: 'Share your top 3 movies of all time! IMDB is there to help!.',
+  intro: (
+    <>
+      Enter your top 3 movies of all time! Use <a href="https://www.imdb.com/" target="_blank" rel="noopener noreferrer" style={{ color: 'inherit', textDecoration: 'underline' }}>IMDB</a> to find your favorites.
+      Others will see your choices anonymously and guess who picked them.
+    </>
+  ),
+  entry: { field: 'movies', label: 'Movie', count: 3, maxLength: 200 },
+  submittedNote: 'have submitted their movies!',
+  emptyPrompt: 'Be the first to submit your top 3 movies!',
+  initial: { submissions: {}, leaderboard: [], guessWho: { players: [], guessCounts: {}, scoreboard: [] } },
+  player: { key: 'myVotes', empty: [] },
+  renderScreen: screen => <Screen {...screen} />,
+  renderBoard: view => <Leaderboard {...view} />,
+}
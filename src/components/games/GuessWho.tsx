@@ -0,0 +1,94 @@
+import type { GuessWhoState, PlayerAuthorship } from '../../hooks/useLiveUpdates'
+import type { GameSubmission } from './types'
+
+// Guess who wrote each anonymous submission in the submission games (see api/guess-who)
+// The host reveals authors one submission at a time (see pages/EventAdmin); guesses on a revealed submission are scored
+
+interface AuthorGuessProps {
+  guessWho: GuessWhoState
+  authorship: PlayerAuthorship
+  playerName: string
+  isBusy: boolean
+  runAction: (resource: string, body?: Record<string, unknown>) => void
+  submissionKey: string
+  submission: GameSubmission
+}
+
+// Under each opened submission: pick who you think wrote it, or see who did once it's revealed
+export const AuthorGuess = ({
+  guessWho,
+  authorship,
+  playerName,
+  isBusy,
+  runAction,
+  submissionKey,
+  submission,
+}: AuthorGuessProps) => {
+  const myGuess = authorship.guesses[submissionKey]
+  const isOwn = authorship.mySubmission === submissionKey
+
+  if (submission.playerName) {
+    const isCorrect = myGuess?.toLowerCase() === submission.playerName.toLowerCase()
+    return (
+      <div className="author-guess revealed">
+        <span className="author-guess-label">Written by {submission.playerName}</span>
+        {myGuess && (
+          <span className="submission-statement-badge">
+            {isCorrect ? 'You got it!' : `You guessed ${myGuess}`}
+          </span>
+        )}
+      </div>
+    )
+  }
+
+  // Everyone else who submitted is a candidate
+  const candidates = guessWho.players.filter(name => name.toLowerCase() !== playerName.toLowerCase())
+  const guessCount = guessWho.guessCounts[submissionKey] || 0
+
+  return (
+    <div className="author-guess">
+      {isOwn ? (
+        <span className="author-guess-label">This one's yours</span>
+      ) : (
+        <label className="author-guess-label">
+          Who wrote this?
+          <select
+            className="author-guess-select"
+            value={myGuess ?? ''}
+            onChange={(e) => runAction('author-guesses', { submissionId: submissionKey, authorName: e.target.value })}
+            disabled={isBusy || candidates.length === 0}
+          >
+            <option value="" disabled>Pick a player</option>
+            {candidates.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <span className="submission-statement-count">
+        {guessCount} {guessCount === 1 ? 'guess' : 'guesses'}
+      </span>
+    </div>
+  )
+}
+
+// Correct authorship guesses so far, counting revealed submissions only
+export const GuessWhoBoard = ({ guessWho, playerName }: { guessWho: GuessWhoState; playerName: string }) => {
+  if (guessWho.scoreboard.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="players-summary guess-scoreboard">
+      <h4 className="players-summary-title">Guess Who Scoreboard</h4>
+      <ol className="guess-scoreboard-list">
+        {guessWho.scoreboard.map((entry) => (
+          <li key={entry.playerName} className={entry.playerName === playerName ? 'current-player' : ''}>
+            <span>{entry.playerName}</span>
+            <span>{entry.correct}/{entry.guessed} correct</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import type { ReactNode } from 'react'
+
+// Shared pieces of the games' big-screen views (styled by pages/GamesPresenter.css)
+
+interface ScreenMessageProps {
+  title: string
+  children?: ReactNode
+}
+
+// Fills the screen while a game has nothing to show yet
+export const ScreenMessage = ({ title, children }: ScreenMessageProps) => (
+  <div className="screen-message">
+    <h2 className="screen-heading">{title}</h2>
+    {children && <p className="screen-message-text">{children}</p>}
+  </div>
+)
+
+export interface ScreenChoice {
+  text: string
+  label: string // "1.", "A."
+  isHighlighted?: boolean // The false statement, the right answer
+  note?: string // "3 picked"
+}
+
+// Numbered statements or lettered answers in large type
+export const ScreenChoices = ({ choices }: { choices: ScreenChoice[] }) => (
+  <ol className="screen-choices">
+    {choices.map((choice, index) => (
+      <li key={index} className={`screen-choice ${choice.isHighlighted ? 'highlighted' : ''}`}>
+        <span className="screen-choice-label">{choice.label}</span>
+        <span className="screen-choice-text">{choice.text}</span>
+        {choice.note && <span className="screen-choice-note">{choice.note}</span>}
+      </li>
+    ))}
+  </ol>
+)
+
+export interface ScreenBoardRow {
+  key: string
+  label: string
+  value: string
+}
+
+interface ScreenBoardProps {
+  title: string
+  rows: ScreenBoardRow[]
+  limit?: number
+}
+
+// A ranked scoreboard or leaderboard, top rows only
+export const ScreenBoard = ({ title, rows, limit = 10 }: ScreenBoardProps) => (
+  <div className="screen-board">
+    <h3 className="screen-board-title">{title}</h3>
+    <ol className="screen-board-list">
+      {rows.slice(0, limit).map((row, index) => (
+        <li key={row.key} className="screen-board-row">
+          <span className="screen-board-rank">{index + 1}</span>
+          <span className="screen-board-label">{row.label}</span>
+          <span className="screen-board-value">{row.value}</span>
+        </li>
+      ))}
+    </ol>
+  </div>
+)
@@ -0,0 +1,225 @@
+import { useEffect, useRef, useState } from 'react'
+import type { TriviaGame } from '../../hooks/useLiveUpdates'
+import { ScreenBoard, ScreenChoices, ScreenMessage } from './ScreenParts'
+import type { GameScreen, GameView, LiveGameDefinition } from './types'
+
+// This player's answers: question index -> their choice, plus points once the question is over
+type Answers = Record<string, { choice: number; points?: number }>
+
+// Wait a moment past the countdown before asking for the answer (the server still takes late answers briefly)
+const REVEAL_DELAY_MS = 2000
+
+/**
+ * Seconds left on the open question, counted from the server's remaining time (phone clocks don't agree)
+ * Calls refresh once the countdown is over so the answer and points come in
+ */
+const useCountdown = (question: TriviaGame['question'], refresh: () => void): number => {
+  // The deadline belongs to the question it was counted for, so a new question never shows the old one's time
+  const [countdown, setCountdown] = useState<{ question: TriviaGame['question']; deadline: number } | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  // Keep the latest refresh without restarting the countdown every render
+  const refreshRef = useRef(refresh)
+  refreshRef.current = refresh
+
+  useEffect(() => {
+    if (!question || question.correctIndex !== undefined) return
+
+    setCountdown({ question, deadline: Date.now() + question.remainingMs })
+    setNow(Date.now())
+    const ticker = setInterval(() => setNow(Date.now()), 250)
+    const reveal = setTimeout(() => refreshRef.current(), question.remainingMs + REVEAL_DELAY_MS)
+
+    return () => {
+      clearInterval(ticker)
+      clearTimeout(reveal)
+    }
+  }, [question])
+
+  if (!question || question.correctIndex !== undefined) {
+    return 0
+  }
+  if (countdown?.question !== question) {
+    return Math.ceil(question.remainingMs / 1000)
+  }
+  return Math.max(0, Math.ceil((countdown.deadline - now) / 1000))
+}
+
+const leaderboardRows = (game: TriviaGame) =>
+  game.leaderboard.map(entry => ({ key: entry.playerName, label: entry.playerName, value: `${entry.points}` }))
+
+// Phones follow the host: each new question arrives over the live stream with the time left to answer
+const TriviaPlay = ({ game, player, playerName, isBusy, runAction, refresh }: GameView<TriviaGame, Answers>) => {
+  const { question } = game
+  const secondsLeft = useCountdown(question, refresh)
+
+  const scoreboard = game.leaderboard.length > 0 && (
+    <div className="players-summary guess-scoreboard">
+      <h4 className="players-summary-title">{game.status === 'finished' ? 'Final Scores' : 'Scoreboard'}</h4>
+      <ol className="guess-scoreboard-list">
+        {game.leaderboard.map((entry) => (
+          <li key={entry.playerName} className={entry.playerName === playerName ? 'current-player' : ''}>
+            <span>{entry.playerName}</span>
+            <span>{entry.points} points ({entry.correct} correct)</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+
+  if (game.status === 'waiting' || !question) {
+    return (
+      <div className="submissions-list">
+        <div className="no-submissions-message">
+          <h3 className="no-submissions-title">
+            {game.status === 'finished' ? "That's a Wrap!" : 'Waiting for the Host'}
+          </h3>
+          <p className="no-submissions-description">
+            {game.status === 'finished'
+              ? 'Thanks for playing trivia!'
+              : game.questionCount > 0
+                ? `${game.questionCount} questions, ${game.secondsPerQuestion} seconds each. Questions appear here as soon as the host starts. Faster correct answers score more!`
+                : 'The host has not loaded any questions yet. Keep this page open.'}
+          </p>
+        </div>
+        {scoreboard}
+      </div>
+    )
+  }
+
+  const myAnswer = player[question.index]
+  const isRevealed = question.correctIndex !== undefined
+  const canAnswer = !myAnswer && secondsLeft > 0
+
+  return (
+    <div className="submissions-list">
+      <div className="submissions-list-header">
+        <div>
+          <h3 className="submissions-list-title">
+            Question {question.index + 1} of {game.questionCount}
+          </h3>
+          <p className="submissions-list-description">
+            {question.answered} {question.answered === 1 ? 'player has' : 'players have'} answered
+          </p>
+        </div>
+        <span className={`trivia-timer ${secondsLeft <= 5 ? 'ending' : ''}`} aria-live="polite">
+          {isRevealed ? "Time's up" : `${secondsLeft}s`}
+        </span>
+      </div>
+      <div
+        className="trivia-timer-bar"
+        style={{ width: `${Math.min(100, (secondsLeft / game.secondsPerQuestion) * 100)}%` }}
+        aria-hidden="true"
+      />
+      <p className="trivia-question">{question.text}</p>
+      <div className="submission-statements">
+        {question.choices.map((choice, choiceIndex) => {
+          const isMine = myAnswer?.choice === choiceIndex
+          const isCorrect = isRevealed && question.correctIndex === choiceIndex
+          const className = `submission-statement ${canAnswer ? 'guessable' : ''} ${isMine ? 'guessed' : ''} ${isCorrect ? 'correct-answer' : ''}`
+          const content = (
+            <>
+              <span className="submission-statement-number">{String.fromCharCode(65 + choiceIndex)}.</span>
+              <span className="submission-statement-text">{choice}</span>
+              {isMine && <span className="submission-statement-badge">Your answer</span>}
+              {isCorrect && <span className="submission-statement-badge">Correct</span>}
+              {isRevealed && question.choiceCounts && (
+                <span className="submission-statement-count">{question.choiceCounts[choiceIndex]} picked</span>
+              )}
+            </>
+          )
+          return canAnswer ? (
+            <button
+              key={choiceIndex}
+              type="button"
+              className={className}
+              onClick={() => runAction('answers', { questionIndex: question.index, choice: choiceIndex })}
+              disabled={isBusy}
+              aria-label={`Answer ${choice}`}
+            >
+              {content}
+            </button>
+          ) : (
+            <div key={choiceIndex} className={className}>
+              {content}
+            </div>
+          )
+        })}
+      </div>
+      <p className="submissions-list-description trivia-status">
+        {isRevealed
+          ? myAnswer?.points !== undefined
+            ? myAnswer.points > 0 ? `Nice! +${myAnswer.points} points` : 'Not this time.'
+            : 'You missed this one.'
+          : myAnswer
+            ? 'Answer locked in. Waiting for the clock...'
+            : secondsLeft > 0 ? 'Pick an answer before time runs out!' : 'Checking answers...'}
+      </p>
+      {scoreboard}
+    </div>
+  )
+}
+
+// The big screen shows the open question and countdown; the answer and the picks come up when time runs out
+const Screen = ({ game, refresh }: GameScreen<TriviaGame>) => {
+  const { question } = game
+  const secondsLeft = useCountdown(question, refresh)
+
+  if (game.status === 'finished') {
+    return (
+      <div className="screen-game">
+        <div className="screen-main">
+          <h2 className="screen-heading">Final Scores</h2>
+          <ScreenBoard title="Trivia Champions" rows={leaderboardRows(game)} />
+        </div>
+      </div>
+    )
+  }
+  if (!question) {
+    return (
+      <ScreenMessage title="Trivia">
+        {game.questionCount > 0
+          ? `${game.questionCount} questions, ${game.secondsPerQuestion} seconds each. Scan the code to play!`
+          : 'Scan the code and keep your phone handy. The host is getting the questions ready.'}
+      </ScreenMessage>
+    )
+  }
+
+  const isRevealed = question.correctIndex !== undefined
+
+  return (
+    <div className="screen-game">
+      <div className="screen-main">
+        <div className="screen-kicker-row">
+          <p className="screen-kicker">Question {question.index + 1} of {game.questionCount}</p>
+          <span className={`screen-timer ${!isRevealed && secondsLeft <= 5 ? 'ending' : ''}`}>
+            {isRevealed ? "Time's up" : secondsLeft}
+          </span>
+        </div>
+        <h2 className="screen-heading">{question.text}</h2>
+        <ScreenChoices
+          choices={question.choices.map((choice, index) => ({
+            text: choice,
+            label: `${String.fromCharCode(65 + index)}.`,
+            isHighlighted: question.correctIndex === index,
+            note: question.choiceCounts && `${question.choiceCounts[index]} picked`,
+          }))}
+        />
+        <p className="screen-footnote">
+          {question.answered} {question.answered === 1 ? 'player has' : 'players have'} answered
+        </p>
+      </div>
+      {game.leaderboard.length > 0 && <ScreenBoard title="Scoreboard" rows={leaderboardRows(game)} />}
+    </div>
+  )
+}
+
+export const trivia: LiveGameDefinition<TriviaGame, Answers> = {
+  mode: 'live',
+  type: 'trivia',
+  title: 'Trivia',
+  description: 'Answer multiple-choice questions against the clock. The host runs the show, and faster correct answers score more!',
+  initial: { status: 'waiting', questionCount: 0, secondsPerQuestion: 20, leaderboard: [] },
+  player: { key: 'myAnswers', empty: {} },
+  renderPlay: view => <TriviaPlay {...view} />,
+  renderScreen: screen => <Screen {...screen} />,
+}
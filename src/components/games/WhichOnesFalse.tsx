@@ -0,0 +1,167 @@
+import type { WhichOnesFalseGame } from '../../hooks/useLiveUpdates'
+import { ScreenBoard, ScreenChoices, ScreenMessage } from './ScreenParts'
+import type { GameScreen, GameView, SubmissionGameDefinition } from './types'
+
+// This player's guesses: submission id -> index of the statement they think is false
+type Guesses = Record<string, number>
+
+const Scoreboard = ({ game, playerName }: GameView<WhichOnesFalseGame, Guesses>) => {
+  if (!game.revealed || !game.scoreboard) {
+    return null
+  }
+
+  return (
+    <div className="players-summary guess-scoreboard">
+      <h4 className="players-summary-title">Scoreboard</h4>
+      {game.scoreboard.length > 0 ? (
+        <ol className="guess-scoreboard-list">
+          {game.scoreboard.map((entry) => (
+            <li key={entry.playerName} className={entry.playerName === playerName ? 'current-player' : ''}>
+              <span>{entry.playerName}</span>
+              <span>{entry.correct}/{entry.guessed} correct</span>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="submissions-list-description">Nobody guessed this time.</p>
+      )}
+    </div>
+  )
+}
+
+interface StatementsProps extends GameView<WhichOnesFalseGame, Guesses> {
+  submissionKey: string
+  statements: string[]
+}
+
+// Tapping a statement guesses it's the false one; after the reveal the answer and everyone's picks show
+const Statements = ({ game, player, authorship, isBusy, runAction, submissionKey, statements }: StatementsProps) => {
+  const submission = game.submissions[submissionKey]
+  // Players guess everyone's statements but their own, until the reveal
+  const isOwn = authorship.mySubmission === submissionKey
+  const canGuess = !game.revealed && !isOwn
+
+  return (
+    <div className="submission-statements">
+      {statements.map((statement, statementIndex) => {
+        const isMyGuess = player[submissionKey] === statementIndex
+        const isFalse = game.revealed && submission?.falseIndex === statementIndex
+        const className = `submission-statement ${canGuess ? 'guessable' : ''} ${isMyGuess ? 'guessed' : ''} ${isFalse ? 'false-statement' : ''}`
+        const content = (
+          <>
+            <span className="submission-statement-number">{statementIndex + 1}.</span>
+            <span className="submission-statement-text">{statement}</span>
+            {isMyGuess && (
+              <span className="submission-statement-badge">
+                {game.revealed && isFalse ? 'You got it!' : 'Your guess'}
+              </span>
+            )}
+            {isFalse && <span className="submission-statement-badge">False</span>}
+            {game.revealed && game.statementGuesses?.[submissionKey] && (
+              <span className="submission-statement-count">
+                {game.statementGuesses[submissionKey][statementIndex]} picked
+              </span>
+            )}
+          </>
+        )
+        return canGuess ? (
+          <button
+            key={statementIndex}
+            type="button"
+            className={className}
+            onClick={() => runAction('guesses', { submitterId: submissionKey, guessIndex: statementIndex })}
+            disabled={isBusy}
+            aria-pressed={isMyGuess}
+            aria-label={`Guess statement ${statementIndex + 1} is false`}
+          >
+            {content}
+          </button>
+        ) : (
+          <div key={statementIndex} className={className}>
+            {content}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// The big screen shows one player's statements at a time, by number (and name once revealed); after the reveal it walks
+// through the false ones with everyone's picks next to the scoreboard
+const Screen = ({ game, slide }: GameScreen<WhichOnesFalseGame>) => {
+  // Oldest first, so players keep their numbers as new ones join
+  const submissions = Object.entries(game.submissions).sort(([, a], [, b]) => a.submittedAt - b.submittedAt)
+  if (submissions.length === 0) {
+    return <ScreenMessage title="Which One's False">Scan the code and share three statements about yourself.</ScreenMessage>
+  }
+
+  const position = slide % submissions.length
+  const [key, submission] = submissions[position]
+  const guesses = game.statementGuesses?.[key]
+
+  return (
+    <div className="screen-game">
+      <div className="screen-main">
+        <p className="screen-kicker">
+          Player {position + 1} of {submissions.length}
+          {submission.playerName && ` · ${submission.playerName}`}
+        </p>
+        <h2 className="screen-heading">{game.revealed ? 'The false one was...' : 'Which one is false?'}</h2>
+        <ScreenChoices
+          choices={submission.statements.map((statement, index) => ({
+            text: statement,
+            label: `${index + 1}.`,
+            isHighlighted: game.revealed && submission.falseIndex === index,
+            note: guesses && `${guesses[index]} picked`,
+          }))}
+        />
+        {!game.revealed && (
+          <p className="screen-footnote">
+            {game.guessCounts[key] || 0} {game.guessCounts[key] === 1 ? 'guess' : 'guesses'} so far. Guess on your phone!
+          </p>
+        )}
+      </div>
+      {game.revealed && game.scoreboard && (
+        <ScreenBoard
+          title="Scoreboard"
+          rows={game.scoreboard.map(entry => ({
+            key: entry.playerName,
+            label: entry.playerName,
+            value: `${entry.correct}/${entry.guessed}`,
+          }))}
+        />
+      )}
+    </div>
+  )
+}
+
+export const whichOnesFalse: SubmissionGameDefinition<WhichOnesFalseGame, Guesses> = {
+  mode: 'submissions',
+  type: 'which-ones-false',
+  title: "Which One's False",
+  description: 'Share three statements about yourself and let others guess which one is false!',
+  intro: (
+    <>
+      Enter three statements about yourself. Two should be true, and one should be false.
+      Mark the false one (only you can see it until the answers are revealed), then others will try to guess it!
+    </>
+  ),
+  entry: { field: 'statements', label: 'Statement', count: 3, maxLength: 200 },
+  marker: { field: 'falseIndex', label: "This one's false", required: 'Mark which statement is false' },
+  submittedNote: 'have submitted their statements!',
+  emptyPrompt: 'Be the first to submit your statements!',
+  initial: { submissions: {}, revealed: false, guessCounts: {}, guessWho: { players: [], guessCounts: {}, scoreboard: [] } },
+  player: { key: 'myGuesses', empty: {} },
+  // New statements after the reveal would give their answer away
+  isLocked: game => game.revealed,
+  listNote: game => (game.revealed ? 'The answers are out.' : 'Open a player and tap the statement you think is false. The host reveals the answers.'),
+  submissionBadge: (game, submissionKey) => {
+    const count = game.guessCounts[submissionKey] || 0
+    return `${count} ${count === 1 ? 'guess' : 'guesses'}`
+  },
+  renderScreen: screen => <Screen {...screen} />,
+  renderBoard: view => <Scoreboard {...view} />,
+  renderEntries: (view, submissionKey, statements) => (
+    <Statements {...view} submissionKey={submissionKey} statements={statements} />
+  ),
+}
@@ -0,0 +1,17 @@
+/**
+ * Party game registry, in the order the games page lists them
+ * A new game needs a definition here and a matching one in api/game-definitions
+ */
+
+import { goat } from './GOAT'
+import { trivia } from './Trivia'
+import { whichOnesFalse } from './WhichOnesFalse'
+import type { GameDefinition, GameType } from './types'
+
+export const GAMES: Record<GameType, GameDefinition> = {
+  'which-ones-false': whichOnesFalse,
+  goat,
+  trivia,
+}
+
+export const GAME_TYPES = Object.keys(GAMES) as GameType[]
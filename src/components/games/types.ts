@@ -0,0 +1,115 @@
+/**
+ * Party game definitions for the games page
+ * Each game is described once (see ./index for the registry). For games played by submitting entries
+ * BirthdayGames renders the form and the submissions list from the definition;
+ * live games (trivia) render their own page. Every game also has a big-screen view for the presenter
+ * page (pages/GamesPresenter). The API keeps a matching registry (api/game-definitions)
+ * that validates entries, applies reveal rules and scores.
+ */
+
+import type { ReactNode } from 'react'
+import type { GuessWhoState, PlayerAuthorship } from '../../hooks/useLiveUpdates'
+
+// Game types as named in the API (?gameType=)
+export type GameType = 'which-ones-false' | 'goat' | 'trivia'
+
+// Submissions are anonymous until their author is revealed (see ./GuessWho)
+export interface GameSubmission {
+  playerName?: string
+  revealedAt?: number
+  submittedAt: number
+}
+
+// What every player sees; the API sends it on load, after every change and over the live stream
+export type GameState = object
+
+export interface SubmissionGameState {
+  submissions: Record<string, GameSubmission>
+  guessWho: GuessWhoState
+}
+
+// What each player types in (the API checks the same schema)
+export interface EntrySchema {
+  field: string // Request and submission field holding the entries
+  label: string // Shown as "Statement 1", "Enter statement 1..."
+  count: number
+  maxLength: number
+}
+
+// An optional pick among the player's own entries sent with them (e.g. which statement is false)
+export interface EntryMarker {
+  field: string
+  label: string
+  required: string // Error shown when nothing is picked
+}
+
+// A problem the API found with one input; index points at the entry (see api/submission-validation)
+export interface FieldError {
+  field: string // An entry field, the marker field or playerName
+  index?: number
+  message: string
+}
+
+// Everything a game's own pieces (board, entries) get to render and act with
+export interface GameView<TGame extends GameState = GameState, TPlayer = unknown> {
+  game: TGame
+  player: TPlayer // This player's guesses or votes
+  playerName: string
+  authorship: PlayerAuthorship // This player's guess-who guesses (empty in live games)
+  isBusy: boolean // An action is being saved
+  runAction: (resource: string, body?: Record<string, unknown>) => void
+  refresh: () => void // Fetch the game again (e.g. when a countdown ends)
+}
+
+// What a game's big-screen view gets; slide counts up every few seconds so views can cycle through entries
+export interface GameScreen<TGame extends GameState = GameState> {
+  game: TGame
+  slide: number
+  refresh: () => void
+}
+
+interface GameBasics<TGame extends GameState, TPlayer> {
+  type: GameType
+  title: string
+  description: string // Game card text
+  initial: TGame
+  // This player's own guesses, votes or answers come back under this key (see api/birthday-games)
+  player: { key: string; empty: TPlayer }
+  // Shown on the TV or projector, anonymously and in large type
+  renderScreen(screen: GameScreen<TGame>): ReactNode
+}
+
+// Played by submitting entries: the page renders the form and the submissions list
+export interface SubmissionGameDefinition<TGame extends SubmissionGameState = SubmissionGameState, TPlayer = unknown>
+  extends GameBasics<TGame, TPlayer> {
+  mode: 'submissions'
+  intro: ReactNode // Shown above the submission form
+  entry: EntrySchema
+  marker?: EntryMarker
+  submittedNote: string // "3 players have submitted their ..."
+  emptyPrompt: string
+  // Reveal rules: no new entries once this returns true
+  isLocked?(game: TGame): boolean
+  listNote?(game: TGame): string
+  submissionBadge?(game: TGame, submissionKey: string): string
+  // Scoring shown above the submissions (scoreboard, leaderboard)
+  renderBoard?(view: GameView<TGame, TPlayer>): ReactNode
+  // Replaces the plain numbered list of a submission's entries
+  renderEntries?(view: GameView<TGame, TPlayer>, submissionKey: string, entries: string[]): ReactNode
+}
+
+// Played live, following the host (e.g. trivia): the game renders its whole page
+export interface LiveGameDefinition<TGame extends GameState = GameState, TPlayer = unknown> extends GameBasics<TGame, TPlayer> {
+  mode: 'live'
+  renderPlay(view: GameView<TGame, TPlayer>): ReactNode
+}
+
+export type GameDefinition = SubmissionGameDefinition | LiveGameDefinition
+
+/**
+ * Reads a submission's entries using the game's schema, e.g. a Which One's False submission's statements
+ */
+export const getSubmissionEntries = (definition: SubmissionGameDefinition, submission: GameSubmission): string[] => {
+  const entries = (submission as unknown as Record<string, unknown>)[definition.entry.field]
+  return Array.isArray(entries) ? entries : []
+}
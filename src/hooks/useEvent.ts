@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import { eventApiUrl, type PublicEvent } from '../utils/events'
+
+type EventStatus = 'loading' | 'ready' | 'not-found' | 'error'
+
+/**
+ * Hook to load an event's public details (title, date, venue, menu, poll options)
+ */
+export const useEvent = (eventId: string) => {
+  const [event, setEvent] = useState<PublicEvent | null>(null)
+  const [status, setStatus] = useState<EventStatus>('loading')
+
+  useEffect(() => {
+    let isCancelled = false
+    setStatus('loading')
+
+    const loadEvent = async () => {
+      try {
+        const response = await fetch(eventApiUrl('/api/events', eventId))
+        if (isCancelled) return
+
+        if (response.status === 404) {
+          setEvent(null)
+          setStatus('not-found')
+          return
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to load event (${response.status})`)
+        }
+
+        const data = await response.json()
+        if (!isCancelled) {
+          setEvent(data.event)
+          setStatus('ready')
+        }
+      } catch (error) {
+        console.error('Error loading event:', error)
+        if (!isCancelled) {
+          setStatus('error')
+        }
+      }
+    }
+
+    loadEvent()
+
+    return () => {
+      isCancelled = true
+    }
+  }, [eventId])
+
+  return { event, status }
+}
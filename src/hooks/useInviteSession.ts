@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { PublicEvent } from '../utils/events'
+import { clearInviteSession, getInviteSession, saveInviteSession, type InviteSession } from '../utils/inviteSession'
+
+/**
+ * Hook to track whether this tab may use a password-protected event
+ * Open events are always unlocked; protected ones need an unexpired invite session
+ */
+export const useInviteSession = (eventId: string, event: PublicEvent | null) => {
+  const [isUnlocked, setIsUnlocked] = useState(false)
+
+  useEffect(() => {
+    setIsUnlocked(event?.requiresPassword === false || getInviteSession(eventId) !== null)
+  }, [eventId, event])
+
+  const unlock = useCallback((session: InviteSession) => {
+    saveInviteSession(eventId, session)
+    setIsUnlocked(true)
+  }, [eventId])
+
+  // Called when the API rejects the session (expired or signed with an old secret)
+  const expire = useCallback(() => {
+    clearInviteSession(eventId)
+    setIsUnlocked(false)
+  }, [eventId])
+
+  return { isUnlocked, unlock, expire }
+}
@@ -0,0 +1,167 @@
+import { useEffect, useRef } from 'react'
+import { eventApiUrl, type PollResults, type PollStatus, type PollSummary } from '../utils/events'
+import { getInviteSession } from '../utils/inviteSession'
+
+interface LiveRestaurant {
+  id: string
+  name: string
+  description?: string
+  votes: number
+  voters: string[]
+  link?: string
+}
+
+// Guess who wrote each submission (see api/guess-who); submissions are keyed by an anonymous id
+export interface GuessWhoState {
+  players: string[] // Everyone who submitted, alphabetically
+  guessCounts: Record<string, number>
+  scoreboard: Array<{ playerName: string; correct: number; guessed: number }>
+}
+
+// This player's authorship guesses (submission id -> name) and which submission is theirs
+export interface PlayerAuthorship {
+  guesses: Record<string, string>
+  mySubmission: string | null
+}
+
+export interface WhichOnesFalseSubmission {
+  playerName?: string // Only once the author is revealed
+  revealedAt?: number
+  statements: string[]
+  falseIndex?: number // Only sent once the answers are revealed
+  submittedAt: number
+}
+
+// Which One's False as every player sees it (see api/games-store)
+export interface WhichOnesFalseGame {
+  submissions: Record<string, WhichOnesFalseSubmission>
+  revealed: boolean
+  guessCounts: Record<string, number>
+  statementGuesses?: Record<string, number[]>
+  scoreboard?: Array<{ playerName: string; correct: number; guessed: number }>
+  guessWho: GuessWhoState
+}
+
+export interface GOATSubmission {
+  playerName?: string // Only once the author is revealed
+  revealedAt?: number
+  movies: string[]
+  submittedAt: number
+}
+
+// A film on the merged GOAT list (spellings of the same title are combined, see api/movie-titles)
+export interface GOATMovie {
+  id: string
+  title: string
+  nominators: string[] // Revealed authors only
+  nominations: number
+  votes: number
+}
+
+export interface GOATGame {
+  submissions: Record<string, GOATSubmission>
+  leaderboard: GOATMovie[]
+  guessWho: GuessWhoState
+}
+
+// Trivia as every player sees it; the answer arrives once a question's countdown is over (see api/games-store)
+export interface TriviaGame {
+  status: 'waiting' | 'question' | 'finished'
+  questionCount: number
+  secondsPerQuestion: number
+  question?: {
+    index: number
+    text: string
+    choices: string[]
+    remainingMs: number
+    answered: number
+    correctIndex?: number
+    choiceCounts?: number[]
+  }
+  leaderboard: Array<{ playerName: string; points: number; correct: number }>
+}
+
+// A song in the party playlist (see api/playlist-store)
+export interface PlaylistEntry {
+  videoId: string
+  title: string
+  channelTitle: string
+  thumbnail: string
+  addedBy: string
+  addedAt: number
+  votes: number
+}
+
+export interface Playlist {
+  nowPlaying: (PlaylistEntry & { startedAt: number }) | null
+  upNext: PlaylistEntry[] // Next song first
+}
+
+// Messages from /api/event-stream; each one carries the full current state of what changed
+export type LiveUpdate =
+  | {
+      type: 'poll'
+      restaurants: LiveRestaurant[]
+      people: number
+      voterRegistry: Record<string, string>
+      voterBallots: Record<string, string[]>
+      results: PollResults
+      summary: PollSummary
+      status: PollStatus
+      opensAt?: string
+      closesAt?: string
+    }
+  | { type: 'comments'; comments: Record<string, string[]> }
+  | ({ type: 'games'; gameType: 'which-ones-false' } & WhichOnesFalseGame)
+  | ({ type: 'games'; gameType: 'goat' } & GOATGame)
+  | ({ type: 'games'; gameType: 'trivia' } & TriviaGame)
+  | ({ type: 'playlist' } & Playlist)
+
+// How long to wait before reopening a stream the server refused (EventSource only retries dropped ones)
+const REOPEN_DELAY_MS = 10 * 1000
+
+/**
+ * Hook to receive an event's poll, comment, game and playlist changes as they happen
+ * Pass enabled=false until the page is allowed to read the event (e.g. before the password)
+ */
+export const useLiveUpdates = (eventId: string, enabled: boolean, onUpdate: (update: LiveUpdate) => void) => {
+  // Keep the latest handler without reopening the stream every render
+  const onUpdateRef = useRef(onUpdate)
+  onUpdateRef.current = onUpdate
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return
+
+    let source: EventSource | null = null
+    let reopenTimer: ReturnType<typeof setTimeout> | null = null
+
+    const open = () => {
+      const session = getInviteSession(eventId)
+      source = new EventSource(eventApiUrl('/api/event-stream', eventId, session ? { inviteSession: session.token } : {}))
+
+      source.onmessage = (message) => {
+        try {
+          onUpdateRef.current(JSON.parse(message.data) as LiveUpdate)
+        } catch (error) {
+          console.error('Error parsing live update:', error)
+        }
+      }
+
+      source.onerror = () => {
+        if (source?.readyState === EventSource.CLOSED) {
+          source.close()
+          reopenTimer = setTimeout(open, REOPEN_DELAY_MS)
+        }
+      }
+    }
+
+    open()
+
+    return () => {
+      source?.close()
+      if (reopenTimer) {
+        clearTimeout(reopenTimer)
+      }
+    }
+  }, [eventId, enabled])
+}
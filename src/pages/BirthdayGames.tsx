@@ -1,43 +1,76 @@
 import { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
 import { QRCodeSVG } from 'qrcode.react'
 import Layout from '../components/Layout'
 import Icon from '../components/Icon'
 import { sanitizeInput } from '../utils/inputSanitizer'
+import { clearVoterToken, saveVoterIdentity, voterHeaders } from '../utils/voterToken'
+import { DEFAULT_EVENT_ID, eventApiUrl } from '../utils/events'
+import { inviteSessionHeaders, isInviteSessionRejected } from '../utils/inviteSession'
+import { useEvent } from '../hooks/useEvent'
+import { useInviteSession } from '../hooks/useInviteSession'
+import { useLiveUpdates, type PlayerAuthorship, type Playlist } from '../hooks/useLiveUpdates'
+import EventPasswordGate from '../components/EventPasswordGate'
+import PartyPlaylist from '../components/PartyPlaylist'
+import { GAME_TYPES, GAMES } from '../components/games'
+import { AuthorGuess, GuessWhoBoard } from '../components/games/GuessWho'
+import {
+  getSubmissionEntries,
+  type FieldError,
+  type GameState,
+  type GameSubmission,
+  type GameType,
+  type SubmissionGameDefinition,
+  type SubmissionGameState,
+} from '../components/games/types'
 import { useTheme } from '../contexts/ThemeContext'
 import './PageStyles.css'
 import './BirthdayGames.css'
 import './BirthdayInvite.css'
 
+const emptyEntries = (definition: SubmissionGameDefinition): string[] => Array(definition.entry.count).fill('')
+
+const EMPTY_AUTHORSHIP: PlayerAuthorship = { guesses: {}, mySubmission: null }
+
 const BirthdayGames = () => {
   const { toggleTheme } = useTheme()
+  const { eventId: eventIdParam } = useParams()
+  const eventId = eventIdParam?.toLowerCase() || DEFAULT_EVENT_ID
+  const { event, status: eventStatus } = useEvent(eventId)
+  // Protected events need the invite password here too (the games share the invite's session)
+  const { isUnlocked, unlock, expire: expireInviteSession } = useInviteSession(eventId, event)
   const [isContentExploding] = useState(false)
   const [qrUrl, setQrUrl] = useState('')
   const [isQrCollapsed, setIsQrCollapsed] = useState(false)
   const [playerName, setPlayerName] = useState<string>('')
   const [playerNameInput, setPlayerNameInput] = useState('')
   const [nameError, setNameError] = useState<string | null>(null)
-  const [currentGame, setCurrentGame] = useState<string | null>(null)
-  const [statements, setStatements] = useState<string[]>(['', '', ''])
-  const [statementErrors, setStatementErrors] = useState<string[]>(['', '', ''])
-  const [submittedUsers, setSubmittedUsers] = useState<Record<string, { playerName: string; statements: string[]; submittedAt: number }>>({})
+  const [currentGame, setCurrentGame] = useState<GameType | null>(null)
+  // Every game's shared state, and this player's own guesses or votes in each
+  const [gameStates, setGameStates] = useState<Record<GameType, GameState>>(
+    () => Object.fromEntries(GAME_TYPES.map(type => [type, GAMES[type].initial])) as Record<GameType, GameState>
+  )
+  const [playerStates, setPlayerStates] = useState<Record<GameType, unknown>>(
+    () => Object.fromEntries(GAME_TYPES.map(type => [type, GAMES[type].player.empty])) as Record<GameType, unknown>
+  )
+  const [entries, setEntries] = useState<string[]>([])
+  const [entryErrors, setEntryErrors] = useState<string[]>([])
+  const [markedIndex, setMarkedIndex] = useState<number | null>(null)
+  const [markerError, setMarkerError] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSavingAction, setIsSavingAction] = useState(false)
   const [showSubmissionsList, setShowSubmissionsList] = useState(false)
   const [expandedSubmissions, setExpandedSubmissions] = useState<Set<string>>(new Set())
-  const [showPlayerNames, setShowPlayerNames] = useState(false)
-  const [showRevealConfirmation, setShowRevealConfirmation] = useState(false)
-  const [movies, setMovies] = useState<string[]>(['', '', ''])
-  const [movieErrors, setMovieErrors] = useState<string[]>(['', '', ''])
-  const [goatSubmissions, setGoatSubmissions] = useState<Record<string, { playerName: string; movies: string[]; submittedAt: number }>>({})
-  const [isSubmittingGOAT, setIsSubmittingGOAT] = useState(false)
-  const [showGOATSubmissionsList, setShowGOATSubmissionsList] = useState(false)
-  const [expandedGOATSubmissions, setExpandedGOATSubmissions] = useState<Set<string>>(new Set())
-  const [showGOATPlayerNames, setShowGOATPlayerNames] = useState(false)
-  const [showGOATRevealConfirmation, setShowGOATRevealConfirmation] = useState(false)
+  // This player's guesses at who wrote each submission, per game
+  const [authorshipStates, setAuthorshipStates] = useState<Record<GameType, PlayerAuthorship>>(
+    () => Object.fromEntries(GAME_TYPES.map(type => [type, EMPTY_AUTHORSHIP])) as Record<GameType, PlayerAuthorship>
+  )
   const [userComment, setUserComment] = useState<string>('')
   const [comments, setComments] = useState<Record<string, string[]>>({})
   const [isSavingComment, setIsSavingComment] = useState(false)
   const [commentSaveSuccess, setCommentSaveSuccess] = useState(false)
   const [isCommentsCollapsed, setIsCommentsCollapsed] = useState(true)
+  const [playlist, setPlaylist] = useState<Playlist>({ nowPlaying: null, upNext: [] })
 
   // Set page title and load player name when component mounts
   useEffect(() => {
@@ -57,7 +90,16 @@ const BirthdayGames = () => {
     // Load comments from API
     const loadComments = async () => {
       try {
-        const response = await fetch('/api/birthday-poll')
+        const response = await fetch(eventApiUrl('/api/birthday-poll', eventId), {
+          headers: inviteSessionHeaders(eventId),
+        })
+        if (response.status === 401) {
+          const result = await response.json()
+          if (isInviteSessionRejected(response.status, result)) {
+            expireInviteSession()
+          }
+          return
+        }
         if (response.ok) {
           const data = await response.json()
           if (data.comments) {
@@ -97,13 +139,29 @@ const BirthdayGames = () => {
       }
     }
 
-    loadComments()
+    if (isUnlocked) {
+      loadComments()
+    }
     
     // Restore original title when component unmounts
     return () => {
       document.title = originalTitle
     }
-  }, [])
+  }, [eventId, isUnlocked, expireInviteSession])
+
+  // Merge new comments, game submissions and songs from other players as they come in
+  useLiveUpdates(eventId, isUnlocked, (update) => {
+    if (update.type === 'comments') {
+      setComments(update.comments)
+      localStorage.setItem('birthday-poll-comments', JSON.stringify(update.comments))
+    } else if (update.type === 'games') {
+      const { type: _type, gameType, ...game } = update
+      applyGameState(gameType, game)
+    } else if (update.type === 'playlist') {
+      const { type: _type, ...latest } = update
+      setPlaylist(latest)
+    }
+  })
 
 
   // Clear comment input after successful save
@@ -115,137 +173,68 @@ const BirthdayGames = () => {
     }
   }, [commentSaveSuccess])
 
-  const handleGameSelect = async (gameName: string) => {
-    if (gameName === "Which One's False") {
-      // Fetch submissions first before opening game
-      const submissions = await fetchSubmissions()
-      // Show list if there are submissions, otherwise show form
-      const hasSubmissions = Object.keys(submissions).length > 0
-      setShowSubmissionsList(hasSubmissions)
-      setCurrentGame(gameName)
-    } else if (gameName === "GOAT") {
-      // Fetch GOAT submissions first before opening game
-      const submissions = await fetchGOATSubmissions()
-      // Show list if there are submissions, otherwise show form
-      const hasSubmissions = Object.keys(submissions).length > 0
-      setShowGOATSubmissionsList(hasSubmissions)
-      setCurrentGame(gameName)
-    } else {
-      console.log(`Selected game: ${gameName} by ${playerName}`)
-      // TODO: Implement other game logic
-    }
+  const handleGameSelect = async (gameType: GameType) => {
+    // Fetch submissions first before opening game
+    const submissions = await fetchGame(gameType)
+    // Show list if there are submissions, otherwise show form (live games have neither)
+    const hasSubmissions = Object.keys(submissions).length > 0
+    setShowSubmissionsList(hasSubmissions)
+    resetEntryForm(gameType)
+    setCurrentGame(gameType)
   }
 
   const handleBackToGames = () => {
     setCurrentGame(null)
     setShowSubmissionsList(false)
-    setShowGOATSubmissionsList(false)
-    setStatements(['', '', ''])
-    setMovies(['', '', ''])
+    setEntries([])
+    setMarkedIndex(null)
     setExpandedSubmissions(new Set())
-    setExpandedGOATSubmissions(new Set())
   }
 
-  const fetchSubmissions = async () => {
-    try {
-      const response = await fetch('/api/birthday-games')
-      if (response.ok) {
-        const data = await response.json()
-        const submissions = data.submissions || {}
-        setSubmittedUsers(submissions)
-        return submissions
-      }
-    } catch (error) {
-      console.error('Error fetching submissions:', error)
-    }
-    return {}
+  const resetEntryForm = (gameType: GameType) => {
+    const definition = GAMES[gameType]
+    if (definition.mode !== 'submissions') return
+    setEntries(emptyEntries(definition))
+    setEntryErrors(emptyEntries(definition))
+    setMarkedIndex(null)
+    setMarkerError(null)
   }
 
-  const fetchGOATSubmissions = async () => {
-    try {
-      const response = await fetch('/api/birthday-games?gameType=goat')
-      if (response.ok) {
-        const data = await response.json()
-        const submissions = data.submissions || {}
-        setGoatSubmissions(submissions)
-        return submissions
-      }
-    } catch (error) {
-      console.error('Error fetching GOAT submissions:', error)
-    }
-    return {}
+  const applyGameState = (gameType: GameType, game: GameState) => {
+    setGameStates(previous => ({ ...previous, [gameType]: { ...GAMES[gameType].initial, ...game } }))
   }
 
-
-  const handleMovieChange = (index: number, value: string) => {
-    const sanitized = sanitizeInputForTyping(value, 200) // Max 200 characters per movie
-    const newMovies = [...movies]
-    newMovies[index] = sanitized
-    setMovies(newMovies)
-    
-    // Clear error for this movie when user starts typing
-    if (movieErrors[index]) {
-      const newErrors = [...movieErrors]
-      newErrors[index] = ''
-      setMovieErrors(newErrors)
+  // Responses only carry this player's guesses or votes when the server knows who they are
+  const applyPlayerState = (gameType: GameType, result: Record<string, unknown>) => {
+    const { key, empty } = GAMES[gameType].player
+    if (key in result) {
+      setPlayerStates(previous => ({ ...previous, [gameType]: result[key] ?? empty }))
+    }
+    if ('myAuthorship' in result) {
+      const authorship = (result.myAuthorship as PlayerAuthorship | undefined) ?? EMPTY_AUTHORSHIP
+      setAuthorshipStates(previous => ({ ...previous, [gameType]: authorship }))
     }
   }
 
-  const handleMoviesSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    
-    const newErrors: string[] = ['', '', '']
-    let hasErrors = false
-    
-    // Validate all movies are filled
-    movies.forEach((movie, index) => {
-      if (!movie.trim()) {
-        newErrors[index] = 'Please enter a movie'
-        hasErrors = true
-      }
-    })
-    
-    if (hasErrors) {
-      setMovieErrors(newErrors)
-      return
-    }
-    
-    if (!playerName) {
-      alert('Please enter your name first')
-      return
-    }
-    
-    setIsSubmittingGOAT(true)
-    
+  const fetchGame = async (gameType: GameType): Promise<Record<string, GameSubmission>> => {
     try {
-      const response = await fetch('/api/birthday-games', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          playerName,
-          movies: movies.map(m => m.trim()),
-          gameType: 'goat'
-        }),
+      // The voter token lets the server send back this player's own guesses or votes
+      const response = await fetch(eventApiUrl('/api/birthday-games', eventId, { gameType }), {
+        headers: voterHeaders(eventId),
       })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to submit movies')
+      const data = await response.json()
+      if (response.ok) {
+        applyGameState(gameType, data)
+        applyPlayerState(gameType, data)
+        return data.submissions || {}
+      }
+      if (isInviteSessionRejected(response.status, data)) {
+        expireInviteSession()
       }
-
-      const result = await response.json()
-      setGoatSubmissions(result.submissions || {})
-      setShowGOATSubmissionsList(true)
-      setMovies(['', '', ''])
-      setMovieErrors(['', '', ''])
     } catch (error) {
-      console.error('Error submitting movies:', error)
-      alert('Failed to submit movies. Please try again.')
-    } finally {
-      setIsSubmittingGOAT(false)
+      console.error(`Error fetching ${gameType} submissions:`, error)
     }
+    return {}
   }
 
   // Sanitize input without trimming (preserves spaces during typing)
@@ -269,36 +258,38 @@ const BirthdayGames = () => {
       .slice(0, maxLength)
   }
 
-  const handleStatementChange = (index: number, value: string) => {
-    const sanitized = sanitizeInputForTyping(value, 200) // Max 200 characters per statement
-    const newStatements = [...statements]
-    newStatements[index] = sanitized
-    setStatements(newStatements)
+  const handleEntryChange = (index: number, value: string) => {
+    const definition = currentGame && GAMES[currentGame]
+    if (definition?.mode !== 'submissions') return
+    const sanitized = sanitizeInputForTyping(value, definition.entry.maxLength)
+    const newEntries = [...entries]
+    newEntries[index] = sanitized
+    setEntries(newEntries)
     
-    // Clear error for this statement when user starts typing
-    if (statementErrors[index]) {
-      const newErrors = [...statementErrors]
+    // Clear error for this entry when user starts typing
+    if (entryErrors[index]) {
+      const newErrors = [...entryErrors]
       newErrors[index] = ''
-      setStatementErrors(newErrors)
+      setEntryErrors(newErrors)
     }
   }
 
-  const handleStatementsSubmit = async (e: React.FormEvent) => {
+  const handleEntriesSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    const definition = currentGame && GAMES[currentGame]
+    if (!currentGame || definition?.mode !== 'submissions') return
+    const gameType = currentGame
+    const { entry, marker } = definition
     
-    const newErrors: string[] = ['', '', '']
-    let hasErrors = false
-    
-    // Validate all statements are filled
-    statements.forEach((statement, index) => {
-      if (!statement.trim()) {
-        newErrors[index] = 'Please enter a statement'
-        hasErrors = true
-      }
-    })
-    
-    if (hasErrors) {
-      setStatementErrors(newErrors)
+    // Validate all entries are filled
+    const newErrors = entries.map(value => (value.trim() ? '' : `Please enter a ${entry.label.toLowerCase()}`))
+    if (newErrors.some(Boolean)) {
+      setEntryErrors(newErrors)
+      return
+    }
+
+    if (marker && markedIndex === null) {
+      setMarkerError(marker.required)
       return
     }
     
@@ -310,36 +301,114 @@ const BirthdayGames = () => {
     setIsSubmitting(true)
     
     try {
-      const response = await fetch('/api/birthday-games', {
+      const response = await fetch(eventApiUrl('/api/birthday-games', eventId, { gameType }), {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: voterHeaders(eventId),
         body: JSON.stringify({
           playerName,
-          statements,
+          [entry.field]: entries.map(value => value.trim()),
+          ...(marker && { [marker.field]: markedIndex }),
         }),
       })
 
       if (!response.ok) {
         const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to submit statements')
+        if (isInviteSessionRejected(response.status, errorData)) {
+          expireInviteSession()
+          return
+        }
+        if (response.status === 409 && errorData.error === 'Name already taken') {
+          handleNameTaken(errorData.message || errorData.error)
+          return
+        }
+        if (errorData.fieldErrors?.length) {
+          applyFieldErrors(definition, errorData.fieldErrors)
+          return
+        }
+        if (response.status === 429) {
+          alert(errorData.message || errorData.error)
+          return
+        }
+        throw new Error(errorData.error || `Failed to submit ${entry.field}`)
       }
 
       const result = await response.json()
-      const submissions = result.submissions || {}
-      setSubmittedUsers(submissions)
+      applyVoterIdentity(result)
+      applyGameState(gameType, result)
+      applyPlayerState(gameType, result)
       setShowSubmissionsList(true)
-      setStatements(['', '', ''])
-      setStatementErrors(['', '', ''])
+      resetEntryForm(gameType)
     } catch (error) {
-      console.error('Error submitting statements:', error)
-      alert('Failed to submit statements. Please try again.')
+      console.error(`Error submitting ${entry.field}:`, error)
+      alert(`Failed to submit ${entry.field}. Please try again.`)
     } finally {
       setIsSubmitting(false)
     }
   }
 
+  // Show the problems the server found next to each input (length, duplicates, the word filter)
+  const applyFieldErrors = (definition: SubmissionGameDefinition, fieldErrors: FieldError[]) => {
+    const newErrors = emptyEntries(definition)
+    for (const { field, index, message } of fieldErrors) {
+      if (field === definition.entry.field && index !== undefined) {
+        newErrors[index] = message
+      } else if (field === definition.marker?.field) {
+        setMarkerError(message)
+      } else if (field === 'playerName') {
+        // The name form asks for a different one
+        handleChangeName()
+        setNameError(message)
+      } else {
+        alert(message)
+      }
+    }
+    setEntryErrors(newErrors)
+  }
+
+  // Game actions (guesses, votes, reveals) are POSTed to ?resource= for the open game
+  const runGameAction = async (resource: string, body: Record<string, unknown> = {}) => {
+    if (!currentGame) return
+    const gameType = currentGame
+
+    if (!playerName) {
+      alert('Please enter your name first')
+      return
+    }
+
+    setIsSavingAction(true)
+
+    try {
+      const response = await fetch(eventApiUrl('/api/birthday-games', eventId, { gameType, resource }), {
+        method: 'POST',
+        headers: voterHeaders(eventId),
+        body: JSON.stringify({ playerName, ...body }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        if (isInviteSessionRejected(response.status, result)) {
+          expireInviteSession()
+          return
+        }
+        if (response.status === 409 && result.error === 'Name already taken') {
+          handleNameTaken(result.message || result.error)
+          return
+        }
+        alert(result.message || result.error || 'Failed to save. Please try again.')
+        return
+      }
+
+      applyVoterIdentity(result)
+      applyGameState(gameType, result)
+      applyPlayerState(gameType, result)
+    } catch (error) {
+      console.error(`Error running ${gameType} ${resource}:`, error)
+      alert('Failed to save. Please try again.')
+    } finally {
+      setIsSavingAction(false)
+    }
+  }
+
   const handleNameSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -370,6 +439,22 @@ const BirthdayGames = () => {
     setPlayerName('')
     setPlayerNameInput('')
     localStorage.removeItem('birthday-games-player-name')
+    clearVoterToken(eventId)
+  }
+
+  // Adopt the name and token the server issued (the server's spelling of the name wins)
+  const applyVoterIdentity = (result: { voterToken?: string; voterName?: string }) => {
+    const voterName = saveVoterIdentity(eventId, result)
+    if (voterName) {
+      setPlayerName(voterName)
+      localStorage.setItem('birthday-games-player-name', voterName)
+    }
+  }
+
+  // Someone else already owns this name, so ask for a different one
+  const handleNameTaken = (message: string) => {
+    handleChangeName()
+    setNameError(message)
   }
 
   const handleCommentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -397,11 +482,9 @@ const BirthdayGames = () => {
     setIsSavingComment(true)
     
     try {
-      const response = await fetch('/api/birthday-poll', {
+      const response = await fetch(eventApiUrl('/api/birthday-poll', eventId), {
         method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: voterHeaders(eventId),
         body: JSON.stringify({
           name: playerName.trim(),
           comment: userComment,
@@ -410,10 +493,19 @@ const BirthdayGames = () => {
 
       if (!response.ok) {
         const errorData = await response.json()
+        if (isInviteSessionRejected(response.status, errorData)) {
+          expireInviteSession()
+          return
+        }
+        if (response.status === 409) {
+          handleNameTaken(errorData.message || errorData.error)
+          return
+        }
         throw new Error(errorData.error || 'Failed to save comment')
       }
 
       const result = await response.json()
+      applyVoterIdentity(result)
       
       // Update comments state
       if (result.comments) {
@@ -444,6 +536,277 @@ const BirthdayGames = () => {
     }
   }
 
+  // The open game's page; the form, submissions and scoring all come from its definition
+  const renderGame = (gameType: GameType) => {
+    const definition = GAMES[gameType]
+    const view = {
+      game: gameStates[gameType],
+      player: playerStates[gameType],
+      playerName,
+      authorship: authorshipStates[gameType],
+      isBusy: isSavingAction,
+      runAction: runGameAction,
+      refresh: () => {
+        fetchGame(gameType)
+      },
+    }
+    const header = (
+      <div className="game-full-page-header">
+        <button
+          className="game-back-button"
+          onClick={handleBackToGames}
+          aria-label="Back to games"
+        >
+          ← Back to Games
+        </button>
+        <h2 className="game-full-page-title">{definition.title}</h2>
+      </div>
+    )
+
+    // Live games follow the host and render their own page
+    if (definition.mode === 'live') {
+      return (
+        <div className="game-full-page">
+          {header}
+          <div className="game-full-page-content">{definition.renderPlay(view)}</div>
+        </div>
+      )
+    }
+
+    const game = view.game as SubmissionGameState
+    const submissionView = { ...view, game }
+    const submissions = Object.entries(game.submissions).sort(([, a], [, b]) => b.submittedAt - a.submittedAt)
+    const isLocked = definition.isLocked?.(game) ?? false
+    const { entry, marker } = definition
+    const label = entry.label.toLowerCase()
+
+    return (
+      <div className="game-full-page">
+        {header}
+        <div className="game-full-page-content">
+            {!showSubmissionsList ? (
+              <>
+                <p className="game-modal-description">
+                  {definition.intro}
+                </p>
+                <form onSubmit={handleEntriesSubmit} className="statements-form">
+              {entries.map((value, index) => (
+                <div key={index} className="statement-field">
+                  <label htmlFor={`${entry.field}-${index}`} className="statement-label">
+                    {entry.label} {index + 1}
+                  </label>
+                  <textarea
+                    id={`${entry.field}-${index}`}
+                    value={value}
+                    onChange={(e) => handleEntryChange(index, e.target.value)}
+                    placeholder={`Enter ${label} ${index + 1}...`}
+                    className={`statement-input ${entryErrors[index] ? 'error' : ''}`}
+                    rows={3}
+                    maxLength={entry.maxLength}
+                    aria-label={`${entry.label} ${index + 1}`}
+                    aria-invalid={entryErrors[index] ? 'true' : 'false'}
+                    aria-describedby={entryErrors[index] ? `${entry.field}-error-${index}` : undefined}
+                  />
+                  {entryErrors[index] && (
+                    <p id={`${entry.field}-error-${index}`} className="statement-error" role="alert">
+                      {entryErrors[index]}
+                    </p>
+                  )}
+                  <div className="statement-field-footer">
+                    {marker && (
+                      <label className="statement-false-option">
+                        <input
+                          type="radio"
+                          name={marker.field}
+                          checked={markedIndex === index}
+                          onChange={() => {
+                            setMarkedIndex(index)
+                            setMarkerError(null)
+                          }}
+                        />
+                        {marker.label}
+                      </label>
+                    )}
+                    <span className="statement-character-count">
+                      {value.length}/{entry.maxLength} characters
+                    </span>
+                  </div>
+                </div>
+              ))}
+              {markerError && (
+                <p className="statement-error" role="alert">
+                  {markerError}
+                </p>
+              )}
+              <div className="game-modal-actions">
+                <button
+                  type="button"
+                  className="game-modal-cancel"
+                  onClick={handleBackToGames}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="game-modal-submit"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? 'Submitting...' : `Submit ${entry.label}s`}
+                </button>
+              </div>
+            </form>
+              </>
+            ) : (
+              <div className="submissions-list">
+                {submissions.length === 0 ? (
+                  <div className="no-submissions-message">
+                    <h3 className="no-submissions-title">Add First Answer!</h3>
+                    <p className="no-submissions-description">
+                      {definition.emptyPrompt}
+                    </p>
+                    <button
+                      type="button"
+                      className="game-modal-submit"
+                      onClick={() => setShowSubmissionsList(false)}
+                    >
+                      Add Your Answer
+                    </button>
+                    <button
+                      type="button"
+                      className="game-modal-cancel"
+                      onClick={handleBackToGames}
+                    >
+                      Close
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                <div className="submissions-list-header">
+                  <div>
+                    <h3 className="submissions-list-title">Submitted Players</h3>
+                    <p className="submissions-list-description">
+                      {submissions.length} player{submissions.length !== 1 ? 's' : ''} {definition.submittedNote}
+                      {definition.listNote && ` ${definition.listNote(game)}`}
+                    </p>
+                  </div>
+                </div>
+                {definition.renderBoard?.(submissionView)}
+                <GuessWhoBoard guessWho={game.guessWho} playerName={playerName} />
+                <div className="submissions-list-items">
+                  {submissions.map(([key, submission], index) => {
+                      const isExpanded = expandedSubmissions.has(key)
+                      const submissionEntries = getSubmissionEntries(definition, submission)
+                      const isOwn = view.authorship.mySubmission === key
+                      return (
+                        <div key={key} className={`submission-item ${isExpanded ? 'expanded' : ''}`}>
+                          <div 
+                            className="submission-header"
+                            onClick={() => {
+                              const newExpanded = new Set(expandedSubmissions)
+                              if (isExpanded) {
+                                newExpanded.delete(key)
+                              } else {
+                                newExpanded.add(key)
+                              }
+                              setExpandedSubmissions(newExpanded)
+                            }}
+                            style={{ cursor: 'pointer' }}
+                          >
+                            <h4 className="submission-player-name">
+                              {submission.playerName ?? `Player ${index + 1}`}
+                              {isOwn && <span className="submission-own-marker"> (you)</span>}
+                            </h4>
+                            {definition.submissionBadge && (
+                              <span className="submission-guess-count">
+                                {definition.submissionBadge(game, key)}
+                              </span>
+                            )}
+                            <span className="submission-toggle-icon">
+                              <Icon name={isExpanded ? 'chevron-down' : 'chevron-right'} size={16} />
+                            </span>
+                          </div>
+                          {isExpanded && (definition.renderEntries ? definition.renderEntries(submissionView, key, submissionEntries) : (
+                            <div className="submission-statements">
+                              {submissionEntries.map((value, entryIndex) => (
+                                <div key={entryIndex} className="submission-statement">
+                                  <span className="submission-statement-number">{entryIndex + 1}.</span>
+                                  <span className="submission-statement-text">{value}</span>
+                                </div>
+                              ))}
+                            </div>
+                          ))}
+                          {isExpanded && (
+                            <AuthorGuess
+                              guessWho={game.guessWho}
+                              authorship={view.authorship}
+                              playerName={playerName}
+                              isBusy={isSavingAction}
+                              runAction={runGameAction}
+                              submissionKey={key}
+                              submission={submission}
+                            />
+                          )}
+                        </div>
+                      )
+                    })}
+                </div>
+                <div className="submissions-list-actions">
+                  {!isLocked && (
+                    <button
+                      type="button"
+                      className="game-modal-submit"
+                      onClick={() => {
+                        setShowSubmissionsList(false)
+                        resetEntryForm(gameType)
+                      }}
+                    >
+                      Add Another Entry
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="game-modal-cancel"
+                      onClick={handleBackToGames}
+                  >
+                    Close
+                  </button>
+                </div>
+                  </>
+                )}
+              </div>
+            )}
+        </div>
+      </div>
+    )
+  }
+
+  // Wait for the event before deciding whether to ask for the password
+  if (!event) {
+    return (
+      <Layout>
+        <div className="page-container">
+          <div className="password-protection-container">
+            <div className="password-protection-form">
+              <h2 className="password-protection-title">
+                {eventStatus === 'loading' ? 'Loading...' : eventStatus === 'not-found' ? 'Event Not Found' : 'Something Went Wrong'}
+              </h2>
+            </div>
+          </div>
+        </div>
+      </Layout>
+    )
+  }
+
+  if (!isUnlocked) {
+    return (
+      <Layout>
+        <div className="page-container">
+          <EventPasswordGate eventId={eventId} title="Birthday Games" onUnlock={unlock} />
+        </div>
+      </Layout>
+    )
+  }
+
   return (
     <Layout>
       <div className="page-container">
@@ -511,34 +874,34 @@ const BirthdayGames = () => {
               
               <div className={`games-container ${isContentExploding ? 'exploding' : ''}`}>
                 <div className="games-grid">
-                  <button
-                    className="game-card"
-                    onClick={() => handleGameSelect('Which One\'s False')}
-                    aria-label="Play Which One's False game"
-                  >
-                    <div className="game-card-content">
-                      <h2 className="game-card-title">Which One's False</h2>
-                      <p className="game-card-description">
-                        Share three statements about yourself and let others guess which one is false!
-                      </p>
-                    </div>
-                  </button>
-
-                  <button
-                    className="game-card"
-                    onClick={() => handleGameSelect('GOAT')}
-                    aria-label="Play GOAT game"
-                  >
-                    <div className="game-card-content">
-                      <h2 className="game-card-title">GOAT</h2>
-                      <p className="game-card-description">
-                        Share your top 3 movies of all time! IMDB is there to help!.
-                      </p>
-                    </div>
-                  </button>
+                  {GAME_TYPES.map((gameType) => (
+                    <button
+                      key={gameType}
+                      className="game-card"
+                      onClick={() => handleGameSelect(gameType)}
+                      aria-label={`Play ${GAMES[gameType].title} game`}
+                    >
+                      <div className="game-card-content">
+                        <h2 className="game-card-title">{GAMES[gameType].title}</h2>
+                        <p className="game-card-description">
+                          {GAMES[gameType].description}
+                        </p>
+                      </div>
+                    </button>
+                  ))}
                 </div>
               </div>
 
+              <PartyPlaylist
+                eventId={eventId}
+                playerName={playerName}
+                playlist={playlist}
+                onPlaylist={setPlaylist}
+                onVoterIdentity={applyVoterIdentity}
+                onNameTaken={handleNameTaken}
+                onSessionExpired={expireInviteSession}
+              />
+
               {/* All Comments Section - Show all comments from all users */}
               <div className={`all-comments-section ${isContentExploding ? 'exploding' : ''}`}>
                 <div 
@@ -657,6 +1020,14 @@ const BirthdayGames = () => {
                         />
                       </div>
                       <p className="scan-to-share-url">{qrUrl}</p>
+                      <a
+                        className="scan-to-share-screen-link"
+                        href={`${qrUrl.replace(/\/$/, '')}/screen`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        Show on a big screen
+                      </a>
                     </div>
           )}
                 </div>
@@ -666,471 +1037,8 @@ const BirthdayGames = () => {
         </div>
       </div>
 
-      {/* Which One's False Game View */}
-      {currentGame === "Which One's False" && (
-        <div className="game-full-page">
-          <div className="game-full-page-header">
-              <button
-              className="game-back-button"
-              onClick={handleBackToGames}
-              aria-label="Back to games"
-              >
-              ← Back to Games
-              </button>
-            <h2 className="game-full-page-title">Which One's False</h2>
-            </div>
-          <div className="game-full-page-content">
-              {!showSubmissionsList ? (
-                <>
-                  <p className="game-modal-description">
-                    Enter three statements about yourself. Two should be true, and one should be false. 
-                    Others will try to guess which one is false!
-                  </p>
-                  <form onSubmit={handleStatementsSubmit} className="statements-form">
-                {statements.map((statement, index) => (
-                  <div key={index} className="statement-field">
-                    <label htmlFor={`statement-${index}`} className="statement-label">
-                      Statement {index + 1}
-                    </label>
-                    <textarea
-                      id={`statement-${index}`}
-                      value={statement}
-                      onChange={(e) => handleStatementChange(index, e.target.value)}
-                      placeholder={`Enter statement ${index + 1}...`}
-                      className={`statement-input ${statementErrors[index] ? 'error' : ''}`}
-                      rows={3}
-                      maxLength={200}
-                      aria-label={`Statement ${index + 1}`}
-                      aria-invalid={statementErrors[index] ? 'true' : 'false'}
-                      aria-describedby={statementErrors[index] ? `statement-error-${index}` : undefined}
-                    />
-                    {statementErrors[index] && (
-                      <p id={`statement-error-${index}`} className="statement-error" role="alert">
-                        {statementErrors[index]}
-                      </p>
-                    )}
-                    <span className="statement-character-count">
-                      {statement.length}/200 characters
-                    </span>
-                  </div>
-                ))}
-                <div className="game-modal-actions">
-                  <button
-                    type="button"
-                    className="game-modal-cancel"
-                    onClick={handleBackToGames}
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    type="submit"
-                    className="game-modal-submit"
-                    disabled={isSubmitting}
-                  >
-                    {isSubmitting ? 'Submitting...' : 'Submit Statements'}
-                  </button>
-                </div>
-              </form>
-                </>
-              ) : (
-                <div className="submissions-list">
-                  {Object.keys(submittedUsers).length === 0 ? (
-                    <div className="no-submissions-message">
-                      <h3 className="no-submissions-title">Add First Answer!</h3>
-                      <p className="no-submissions-description">
-                        Be the first to submit your statements!
-                      </p>
-                      <button
-                        type="button"
-                        className="game-modal-submit"
-                        onClick={() => setShowSubmissionsList(false)}
-                      >
-                        Add Your Answer
-                      </button>
-                      <button
-                        type="button"
-                        className="game-modal-cancel"
-                        onClick={handleBackToGames}
-                      >
-                        Close
-                      </button>
-                    </div>
-                  ) : (
-                    <>
-                  <div className="submissions-list-header">
-                    <div>
-                      <h3 className="submissions-list-title">Submitted Players</h3>
-                      <p className="submissions-list-description">
-                        {Object.keys(submittedUsers).length} player{Object.keys(submittedUsers).length !== 1 ? 's' : ''} have submitted their statements!
-                      </p>
-                    </div>
-                    {!showPlayerNames && (
-                      <button
-                        type="button"
-                        className="reveal-names-button"
-                        onClick={() => setShowRevealConfirmation(true)}
-                      >
-                        Reveal Names
-                      </button>
-                    )}
-                  </div>
-                  <div className="submissions-list-items">
-                    {Object.entries(submittedUsers)
-                      .sort(([, a], [, b]) => b.submittedAt - a.submittedAt)
-                      .map(([key, submission], index) => {
-                        const isExpanded = expandedSubmissions.has(key)
-                        return (
-                          <div key={key} className={`submission-item ${isExpanded ? 'expanded' : ''}`}>
-                            <div 
-                              className="submission-header"
-                              onClick={() => {
-                                const newExpanded = new Set(expandedSubmissions)
-                                if (isExpanded) {
-                                  newExpanded.delete(key)
-                                } else {
-                                  newExpanded.add(key)
-                                }
-                                setExpandedSubmissions(newExpanded)
-                              }}
-                              style={{ cursor: 'pointer' }}
-                            >
-                              <h4 className="submission-player-name">
-                                {showPlayerNames ? submission.playerName : `Player ${index + 1}`}
-                              </h4>
-                              <span className="submission-toggle-icon">
-                                <Icon name={isExpanded ? 'chevron-down' : 'chevron-right'} size={16} />
-                              </span>
-                            </div>
-                            {isExpanded && (
-                              <div className="submission-statements">
-                                {submission.statements.map((statement, statementIndex) => (
-                                  <div key={statementIndex} className="submission-statement">
-                                    <span className="submission-statement-number">{statementIndex + 1}.</span>
-                                    <span className="submission-statement-text">{statement}</span>
-                                  </div>
-                                ))}
-                              </div>
-                            )}
-                          </div>
-                        )
-                      })}
-                  </div>
-                  {showPlayerNames && (
-                    <div className="players-summary">
-                      <h4 className="players-summary-title">Players:</h4>
-                      <div className="players-summary-list">
-                        {Object.entries(submittedUsers)
-                          .sort(([, a], [, b]) => b.submittedAt - a.submittedAt)
-                          .map(([key, submission], index) => (
-                            <span key={key} className="player-summary-item">
-                              {submission.playerName}
-                              {index < Object.keys(submittedUsers).length - 1 && ','}
-                            </span>
-                          ))}
-                      </div>
-                    </div>
-                  )}
-                  <div className="submissions-list-actions">
-                    <button
-                      type="button"
-                      className="game-modal-submit"
-                      onClick={() => {
-                        setShowSubmissionsList(false)
-                        setStatements(['', '', ''])
-                      }}
-                    >
-                      Add Another Entry
-                    </button>
-                    <button
-                      type="button"
-                      className="game-modal-cancel"
-                        onClick={handleBackToGames}
-                    >
-                      Close
-                    </button>
-                  </div>
-                    </>
-                  )}
-                </div>
-              )}
-          </div>
-        </div>
-      )}
-
-      {/* GOAT Game View */}
-      {currentGame === "GOAT" && (
-        <div className="game-full-page">
-          <div className="game-full-page-header">
-              <button
-              className="game-back-button"
-              onClick={handleBackToGames}
-              aria-label="Back to games"
-              >
-              ← Back to Games
-              </button>
-            <h2 className="game-full-page-title">GOAT</h2>
-            </div>
-          <div className="game-full-page-content">
-              {!showGOATSubmissionsList ? (
-                <>
-                  <p className="game-modal-description">
-                    Enter your top 3 movies of all time! Use <a href="https://www.imdb.com/" target="_blank" rel="noopener noreferrer" style={{ color: 'inherit', textDecoration: 'underline' }}>IMDB</a> to find your favorites.
-                    Others will see your choices anonymously.
-                  </p>
-                  <form onSubmit={handleMoviesSubmit} className="statements-form">
-                    {movies.map((movie, index) => (
-                      <div key={index} className="statement-field">
-                        <label htmlFor={`movie-${index}`} className="statement-label">
-                          Movie {index + 1}
-                        </label>
-                        <textarea
-                          id={`movie-${index}`}
-                          value={movie}
-                          onChange={(e) => handleMovieChange(index, e.target.value)}
-                          placeholder={`Enter movie ${index + 1}...`}
-                          className={`statement-input ${movieErrors[index] ? 'error' : ''}`}
-                          rows={3}
-                          maxLength={200}
-                          aria-label={`Movie ${index + 1}`}
-                          aria-invalid={movieErrors[index] ? 'true' : 'false'}
-                          aria-describedby={movieErrors[index] ? `movie-error-${index}` : undefined}
-                        />
-                        {movieErrors[index] && (
-                          <p id={`movie-error-${index}`} className="statement-error" role="alert">
-                            {movieErrors[index]}
-                          </p>
-                        )}
-                        <span className="statement-character-count">
-                          {movie.length}/200 characters
-                        </span>
-                      </div>
-                    ))}
-                    <div className="game-modal-actions">
-                      <button
-                        type="button"
-                        className="game-modal-cancel"
-                        onClick={handleBackToGames}
-                      >
-                        Cancel
-                      </button>
-                      <button
-                        type="submit"
-                        className="game-modal-submit"
-                        disabled={isSubmittingGOAT}
-                      >
-                        {isSubmittingGOAT ? 'Submitting...' : 'Submit Movies'}
-                      </button>
-                    </div>
-                  </form>
-                </>
-              ) : (
-                <div className="submissions-list">
-                  {Object.keys(goatSubmissions).length === 0 ? (
-                    <div className="no-submissions-message">
-                      <h3 className="no-submissions-title">Add First Answer!</h3>
-                      <p className="no-submissions-description">
-                        Be the first to submit your top 3 movies!
-                      </p>
-                      <button
-                        type="button"
-                        className="game-modal-submit"
-                        onClick={() => setShowGOATSubmissionsList(false)}
-                      >
-                        Add Your Answer
-                      </button>
-                      <button
-                        type="button"
-                        className="game-modal-cancel"
-                        onClick={handleBackToGames}
-                      >
-                        Close
-                      </button>
-                    </div>
-                  ) : (
-                    <>
-                  <div className="submissions-list-header">
-                    <div>
-                      <h3 className="submissions-list-title">Submitted Players</h3>
-                      <p className="submissions-list-description">
-                        {Object.keys(goatSubmissions).length} player{Object.keys(goatSubmissions).length !== 1 ? 's' : ''} have submitted their movies!
-                      </p>
-                    </div>
-                    {!showGOATPlayerNames && (
-                      <button
-                        type="button"
-                        className="reveal-names-button"
-                        onClick={() => setShowGOATRevealConfirmation(true)}
-                      >
-                        Reveal Names
-                      </button>
-                    )}
-                  </div>
-                  <div className="submissions-list-items">
-                    {Object.entries(goatSubmissions)
-                      .sort(([, a], [, b]) => b.submittedAt - a.submittedAt)
-                      .map(([key, submission], index) => {
-                        const isExpanded = expandedGOATSubmissions.has(key)
-                        return (
-                          <div key={key} className={`submission-item ${isExpanded ? 'expanded' : ''}`}>
-                            <div 
-                              className="submission-header"
-                              onClick={() => {
-                                const newExpanded = new Set(expandedGOATSubmissions)
-                                if (isExpanded) {
-                                  newExpanded.delete(key)
-                                } else {
-                                  newExpanded.add(key)
-                                }
-                                setExpandedGOATSubmissions(newExpanded)
-                              }}
-                              style={{ cursor: 'pointer' }}
-                            >
-                              <h4 className="submission-player-name">
-                                {showGOATPlayerNames ? submission.playerName : `Player ${index + 1}`}
-                              </h4>
-                              <span className="submission-toggle-icon">
-                                <Icon name={isExpanded ? 'chevron-down' : 'chevron-right'} size={16} />
-                              </span>
-                            </div>
-                            {isExpanded && (
-                              <div className="submission-statements">
-                                {submission.movies.map((movie, movieIndex) => (
-                                  <div key={movieIndex} className="submission-statement">
-                                    <span className="submission-statement-number">{movieIndex + 1}.</span>
-                                    <span className="submission-statement-text">{movie}</span>
-                                  </div>
-                                ))}
-                              </div>
-                            )}
-                          </div>
-                        )
-                      })}
-                  </div>
-                  {showGOATPlayerNames && (
-                    <div className="players-summary">
-                      <h4 className="players-summary-title">Players:</h4>
-                      <div className="players-summary-list">
-                        {Object.entries(goatSubmissions)
-                          .sort(([, a], [, b]) => b.submittedAt - a.submittedAt)
-                          .map(([key, submission], index) => (
-                            <span key={key} className="player-summary-item">
-                              {submission.playerName}
-                              {index < Object.keys(goatSubmissions).length - 1 && ','}
-                            </span>
-                          ))}
-                      </div>
-                    </div>
-                  )}
-                  <div className="submissions-list-actions">
-                    <button
-                      type="button"
-                      className="game-modal-submit"
-                      onClick={() => {
-                        setShowGOATSubmissionsList(false)
-                        setMovies(['', '', ''])
-                      }}
-                    >
-                      Add Another Entry
-                    </button>
-                    <button
-                      type="button"
-                      className="game-modal-cancel"
-                          onClick={handleBackToGames}
-                    >
-                      Close
-                    </button>
-                  </div>
-                    </>
-                  )}
-                </div>
-              )}
-          </div>
-        </div>
-      )}
-
-      {/* GOAT Reveal Names Confirmation Modal */}
-      {showGOATRevealConfirmation && (
-        <div className="game-modal-overlay" onClick={() => setShowGOATRevealConfirmation(false)}>
-          <div className="game-modal confirmation-modal" onClick={(e) => e.stopPropagation()}>
-            <div className="game-modal-header">
-              <h2 className="game-modal-title">Are You Sure?</h2>
-              <button
-                className="game-modal-close"
-                onClick={() => setShowGOATRevealConfirmation(false)}
-                aria-label="Close modal"
-              >
-                <Icon name="x" size={24} ariaHidden={true} />
-              </button>
-            </div>
-            <div className="game-modal-content">
-              <p className="game-modal-description">
-                Once you reveal the names, they cannot be hidden again. Are you sure you want to proceed?
-              </p>
-              <div className="game-modal-actions">
-                <button
-                  type="button"
-                  className="game-modal-cancel"
-                  onClick={() => setShowGOATRevealConfirmation(false)}
-                >
-                  Cancel
-                </button>
-                <button
-                  type="button"
-                  className="game-modal-submit"
-                  onClick={() => {
-                    setShowGOATPlayerNames(true)
-                    setShowGOATRevealConfirmation(false)
-                  }}
-                >
-                  Yes, Reveal Names
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {/* Reveal Names Confirmation Modal */}
-      {showRevealConfirmation && (
-        <div className="game-modal-overlay" onClick={() => setShowRevealConfirmation(false)}>
-          <div className="game-modal confirmation-modal" onClick={(e) => e.stopPropagation()}>
-            <div className="game-modal-header">
-              <h2 className="game-modal-title">Are You Sure?</h2>
-              <button
-                className="game-modal-close"
-                onClick={() => setShowRevealConfirmation(false)}
-                aria-label="Close modal"
-              >
-                <Icon name="x" size={24} ariaHidden={true} />
-              </button>
-            </div>
-            <div className="game-modal-content">
-              <p className="game-modal-description">
-                Revealing player names will show who submitted each set of statements. This cannot be undone.
-              </p>
-              <div className="confirmation-modal-actions">
-                <button
-                  type="button"
-                  className="game-modal-cancel"
-                  onClick={() => setShowRevealConfirmation(false)}
-                >
-                  Cancel
-                </button>
-                <button
-                  type="button"
-                  className="game-modal-submit"
-                  onClick={() => {
-                    setShowPlayerNames(true)
-                    setShowRevealConfirmation(false)
-                  }}
-                >
-                  Yes, Reveal Names
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
+      {/* Game View */}
+      {currentGame && renderGame(currentGame)}
 
     </Layout>
   )
@@ -1,154 +1,46 @@
 import { useState, useEffect, useRef } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useParams } from 'react-router-dom'
 import { QRCodeSVG } from 'qrcode.react'
 import Layout from '../components/Layout'
 import Icon from '../components/Icon'
 import { sanitizeInput } from '../utils/inputSanitizer'
+import { clearVoterToken, saveVoterIdentity, voterHeaders } from '../utils/voterToken'
+import {
+  DEFAULT_EVENT_ID,
+  eventApiUrl,
+  formatEventDate,
+  formatPollTime,
+  getGamesPath,
+  type PollResults,
+  type PollSummary,
+} from '../utils/events'
+import { useEvent } from '../hooks/useEvent'
+import { useInviteSession } from '../hooks/useInviteSession'
+import { useLiveUpdates } from '../hooks/useLiveUpdates'
+import EventPasswordGate from '../components/EventPasswordGate'
+import RankedChoiceList from '../components/RankedChoiceList'
+import { inviteSessionHeaders, isInviteSessionRejected } from '../utils/inviteSession'
 import { useTheme } from '../contexts/ThemeContext'
 import './PageStyles.css'
 import './BirthdayInvite.css'
 
-interface MenuItem {
+interface Restaurant {
+  id: string
   name: string
   description?: string
-  price: string
-}
-
-interface MenuCategory {
-  name: string
-  items: MenuItem[]
+  votes: number
+  voters: string[]
+  link?: string
 }
 
 const BirthdayInvite = () => {
   const navigate = useNavigate()
   const { toggleTheme } = useTheme()
-  
-  // Password protection state
-  const [isAuthenticated, setIsAuthenticated] = useState(false)
-  const [password, setPassword] = useState('')
-  const [passwordError, setPasswordError] = useState('')
-  const [isVerifying, setIsVerifying] = useState(false)
-  
-  // Check if user is already authenticated on mount
-  useEffect(() => {
-    const authToken = sessionStorage.getItem('birthday-invite-auth')
-    if (authToken) {
-      setIsAuthenticated(true)
-    }
-  }, [])
-  
-  const handlePasswordSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    setPasswordError('')
-    
-    if (!password.trim()) {
-      setPasswordError('Please enter a password')
-      return
-    }
-    
-    setIsVerifying(true)
-    
-    try {
-      const response = await fetch('/api/verify-birthday-password', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ password: password.trim() }),
-      })
-      
-      const data = await response.json()
-      
-      if (response.ok && data.success) {
-        // Store authentication token in sessionStorage
-        sessionStorage.setItem('birthday-invite-auth', data.token)
-        setIsAuthenticated(true)
-        setPassword('')
-      } else {
-        setPasswordError(data.error || 'Incorrect password')
-      }
-    } catch (error) {
-      console.error('Error verifying password:', error)
-      setPasswordError('Failed to verify password. Please try again.')
-    } finally {
-      setIsVerifying(false)
-    }
-  }
-  
-  const menuCategories: MenuCategory[] = [
-    {
-      name: 'Appetizers',
-      items: [
-        { name: 'Shrimp Gamberi', description: 'Sautéed grilled shrimp served in a spicy white wine tomato sauce', price: '$26.00' },
-        { name: 'Calamari Fritti', description: 'Fried wild calamari served with a spicy tomato sauce', price: '$25.00' },
-        { name: 'Pane Aglio', description: 'Garlic bread served with our arrabiata dipping sauce', price: '$16.00' },
-        { name: 'Arancini', description: 'Fried Italian balls stuffed with mozz cheese served with dipping sauce', price: '$18.00' },
-        { name: 'Pizzeta Olive Oil', price: '$18.00' },
-        { name: 'Pizzetta Rosemary', description: 'Oval pinsa with rosemary and EVOO', price: '$18.00' },
-        { name: 'Flor di Zucca', description: 'Fried zucchini blossoms filled with mascarpone and ricotta cheese served with spicy tomato arrabiatta sauce', price: '$18.00' },
-        { name: 'Pizzeta', price: '$18.00' },
-        { name: 'Burrata in Carrozza', description: 'Fried breaded burrata cheese in a sun dried tomato and spicy tomato sauce in a small cast iron pan, served with garlic bread', price: '$22.00' },
-      ]
-    },
-    {
-      name: 'Secondi Piatti - Meat Entrees',
-      items: [
-        { name: 'Salmone alla Griglia', description: 'Fresh salmon fillet marinated in herbs drizzled with extra virgin olive oil served with our midnight pasta and spinach', price: '$45.00' },
-        { name: 'Tuscan Chicken', description: 'Grilled chicken breast topped with sundried tomato alfredo sauce served with spaghetti in your choice of pomodoro sauce or alfredo sauce', price: '$35.00' },
-        { name: 'Milanese de Norte', description: 'Thinly pounded meat, breaded, sautéed, then finished with a drizzle of fresh squeezed lemon juice served with spaghetti pomodoro', price: '$39.00+' },
-        { name: 'Chicken Parmesan', description: 'Breaded chicken breast topped with tomato sauce and mozzarella cheese served with spaghetti pomodoro', price: '$36.00' },
-        { name: 'Chicken Picatta', description: 'Chicken picatta with linguine alfredo', price: '$33.00+' },
-        { name: 'Chicken Marsala', description: 'Sauteed chicken with marsala mushroom sauce, served with linguine alfredo', price: '$36.00' },
-      ]
-    },
-    {
-      name: 'Pastas',
-      items: [
-        { name: 'Spaghetti Carbonara', description: 'Spaghetti with an egg, cream, Pancetta and cheese sauce', price: '$19.00+' },
-        { name: 'Penne All\'Arrabbiata', description: 'Quill shaped pasta in a spicy tomato and garlic sauce', price: '$28.00+' },
-        { name: 'Lasagne alla Bolognese', description: 'Homemade meat lasagna in a pomodoro sauce', price: '$35.00' },
-        { name: 'Spaghetti alle Vongole', description: 'Spaghetti with fresh clams in a choice of white wine or our tomato sauce', price: '$30.00+' },
-        { name: 'Spaghetti ai Frutti di Mare', description: 'Spaghetti with fresh assorted seafood in a light spicy tomato sauce', price: '$24.00+' },
-        { name: 'Pasta al Pomodoro', description: 'Your choice of pasta in our traditional fresh tomato and basil sauce', price: '$26.00+' },
-        { name: 'Linguine Primavera', description: 'Fresh seasoned vegetables, garlic extra virgin olive oil and fresh herbs', price: '$31.00+' },
-        { name: 'Rotolo di Ricotta e Spinaci', description: 'Housemade pasta filled with ricotta and spinach in a spinach sauce', price: '$30.00' },
-        { name: 'Spaghetti alla Bolognese', description: 'Spaghetti with housemade meatballs in a ragù sauce', price: '$32.00+' },
-        { name: 'Penne Filanti al Quattro Formaggi', description: 'Quill shaped pasta in a cream sauce with Parmesan, Mozzarella and Pecorino cheese, prosciutto cotto and walnuts', price: '$32.00+' },
-        { name: 'Linguine al Pesto', description: 'Pasta in a traditional Genovese basil and pine nut pesto sauce', price: '$18.00+' },
-        { name: 'Gnocchi Tricolore', description: 'Traditional housemade potato dumplings in a Pomodoro, Gorgonzola and Pesto sauce', price: '$35.00+' },
-        { name: 'Ravioli Di Carne', description: 'Short rib ravioli in a gorgonzola cream sauce', price: '$35.00' },
-        { name: 'Pasta al Pomodoro (1)', description: 'Your choice of pasta in our traditional fresh tomato and basil sauce', price: '$28.00' },
-        { name: 'Pinsa EVOO/Rosemary Garlic Sauce', price: '$18.00' },
-        { name: 'Pinsa Pesto Sauce', price: '$18.00' },
-        { name: 'Pinsa White Sauce and Onions', price: '$18.00' },
-      ]
-    },
-    {
-      name: 'Desserts',
-      items: [
-        { name: 'Coffee Tiramisu', description: 'Traditional Coffee Tiramisu', price: '$14.00' },
-        { name: 'Chocolate Mousse', price: '$12.00' },
-        { name: 'Passion Fruit Sorbet', price: '$12.00' },
-        { name: 'Gelato', description: 'Vanilla bean gelato with a choice of chocolate or strawberry sauce', price: '$12.00' },
-        { name: 'Vanilla Gelato with Strawberry', price: '$12.00' },
-        { name: 'Cannoli', description: 'Fresh stuffed mini cannoli shells', price: '$14.00' },
-        { name: 'Cheesecake Monterosa', description: 'Creamy mix of mascarpone and ricotta cheese, divided by a delicate layer of sponge cake, topped with wild strawberries', price: '$14.00' },
-        { name: 'Gluten Free Rosso Velvet', description: 'Alternating layers of gluten free red heid mini chocolate sponge cake, and cream cheese icing topped with gluten free crumbs', price: '$12.00' },
-        { name: 'Limoncello Truffle', description: 'Lemon gelato ball with limoncello in the center', price: '$12.00' },
-        { name: 'Cappucino Gelato Ball', description: 'Italian coffee gelato with espresso core', price: '$8.00' },
-        { name: 'Lemon Blueberry Crumb Cheesecake', price: '$14.00' },
-      ]
-    },
-    {
-      name: 'Beverages',
-      items: [
-        { name: 'Shirley Temple', price: '$4.00' },
-        { name: 'Roy Roger', price: '$4.00' },
-        { name: 'Soda', price: '$4.00' },
-        { name: 'Coffee Regular', price: '$4.00' },
-      ]
-    },
-  ]
+  const { eventId: eventIdParam } = useParams()
+  const eventId = eventIdParam?.toLowerCase() || DEFAULT_EVENT_ID
+  const { event, status: eventStatus } = useEvent(eventId)
+  // Protected events need an invite session before the poll loads
+  const { isUnlocked: isAuthenticated, unlock, expire: expireInviteSession } = useInviteSession(eventId, event)
   
   const [userName, setUserName] = useState<string | null>(null)
   const [userComment, setUserComment] = useState<string>('')
@@ -162,6 +54,19 @@ const BirthdayInvite = () => {
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set())
   const [fireworkParticles, setFireworkParticles] = useState<Array<{ id: number; size: number; x: number; y: number; randomX: number; randomY: number }>>([])
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false)
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([])
+  const [voterRegistry, setVoterRegistry] = useState<Record<string, string>>({})
+  const [voterBallots, setVoterBallots] = useState<Record<string, string[]>>({})
+  const [pollPeople, setPollPeople] = useState<number | null>(null)
+  const [pollResults, setPollResults] = useState<PollResults | null>(null)
+  const [pollSummary, setPollSummary] = useState<PollSummary | null>(null)
+  const [voteTarget, setVoteTarget] = useState<Restaurant | null>(null)
+  // Approval and ranked polls: picks being edited before they're submitted
+  const [draftChoices, setDraftChoices] = useState<string[]>([])
+  const [isBallotModalOpen, setIsBallotModalOpen] = useState(false)
+  const [guestCountInput, setGuestCountInput] = useState('0')
+  const [isVoting, setIsVoting] = useState(false)
+  const [voteError, setVoteError] = useState<string | null>(null)
   const titlePressTimerRef = useRef<NodeJS.Timeout | null>(null)
   const fireworkIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const contentExplodeTimerRef = useRef<NodeJS.Timeout | null>(null)
@@ -170,24 +75,42 @@ const BirthdayInvite = () => {
   const pressStartTimeRef = useRef<number | null>(null)
   const fireworkIdCounterRef = useRef<number>(0)
 
-  // Set page title when component mounts
+  // Set page title once the event has loaded
   useEffect(() => {
+    if (!event) return
     const originalTitle = document.title
-    document.title = "Jerome's 39th Birthday Celebration - The Ingredients"
+    document.title = `${event.title} - The Ingredients`
     
     // Restore original title when component unmounts
     return () => {
       document.title = originalTitle
     }
-  }, [])
+  }, [event])
 
-  // Load comments from API and localStorage on mount
+  // Load poll and comments from API and localStorage when the event changes
   useEffect(() => {
-    const loadComments = async () => {
+    if (!isAuthenticated) return
+
+    const loadPoll = async () => {
       try {
-        const response = await fetch('/api/birthday-poll')
+        const response = await fetch(eventApiUrl('/api/birthday-poll', eventId), {
+          headers: inviteSessionHeaders(eventId),
+        })
+        if (response.status === 401) {
+          const result = await response.json()
+          if (isInviteSessionRejected(response.status, result)) {
+            expireInviteSession()
+          }
+          return
+        }
         if (response.ok) {
           const data = await response.json()
+          setRestaurants(data.restaurants || [])
+          setVoterRegistry(data.voterRegistry || {})
+          setVoterBallots(data.voterBallots || {})
+          setPollPeople(data.people ?? null)
+          setPollResults(data.results || null)
+          setPollSummary(data.summary || null)
           if (data.comments) {
             // Migrate old format to new format if needed
             const migratedComments: Record<string, string[]> = {}
@@ -207,7 +130,7 @@ const BirthdayInvite = () => {
       }
     }
 
-    loadComments()
+    loadPoll()
 
     // Check if user has already provided a name
     const savedName = localStorage.getItem('birthday-poll-user-name')
@@ -234,7 +157,22 @@ const BirthdayInvite = () => {
         console.error('Error loading comments from localStorage:', error)
       }
     }
-  }, [])
+  }, [eventId, isAuthenticated, expireInviteSession])
+
+  // Merge votes and comments from other guests as they come in
+  useLiveUpdates(eventId, isAuthenticated, (update) => {
+    if (update.type === 'poll') {
+      setRestaurants(update.restaurants)
+      setVoterRegistry(update.voterRegistry)
+      setVoterBallots(update.voterBallots)
+      setPollPeople(update.people)
+      setPollResults(update.results)
+      setPollSummary(update.summary)
+    } else if (update.type === 'comments') {
+      setComments(update.comments)
+      localStorage.setItem('birthday-poll-comments', JSON.stringify(update.comments))
+    }
+  })
 
   // Clear comment input after successful save
   useEffect(() => {
@@ -292,11 +230,9 @@ const BirthdayInvite = () => {
     setIsSavingComment(true)
     
     try {
-      const response = await fetch('/api/birthday-poll', {
+      const response = await fetch(eventApiUrl('/api/birthday-poll', eventId), {
         method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: voterHeaders(eventId),
         body: JSON.stringify({
           name: userName!.trim(),
           comment: userComment,
@@ -305,10 +241,21 @@ const BirthdayInvite = () => {
 
       if (!response.ok) {
         const errorData = await response.json()
+        if (isInviteSessionRejected(response.status, errorData)) {
+          expireInviteSession()
+          return
+        }
+        if (response.status === 409) {
+          // Someone else already owns this name
+          forgetUserName()
+          setNameError(errorData.message || errorData.error)
+          return
+        }
         throw new Error(errorData.error || 'Failed to save comment')
       }
 
       const result = await response.json()
+      applyVoterIdentity(result)
       
       // Update comments state
       if (result.comments) {
@@ -339,6 +286,218 @@ const BirthdayInvite = () => {
     }
   }
 
+  // Poll voting
+  const pollMode = event?.pollMode ?? 'plurality'
+  const myVote = userName ? voterRegistry[userName] : undefined
+  const myBallot = userName ? voterBallots[userName] : undefined
+  // Approval votes count toward several restaurants, so headcount comes from the server when it's available
+  const totalVotes = pollPeople ?? restaurants.reduce((sum, r) => sum + r.votes, 0)
+  const maxVotes = Math.max(0, ...restaurants.map(r => r.votes))
+  const myBallotKey = myBallot?.join(',') ?? ''
+  const restaurantIdsKey = restaurants.map(r => r.id).join(',')
+  const hasDraftChanges = draftChoices.length > 0 && draftChoices.join(',') !== myBallotKey
+  // Votes are locked outside the poll's open/close times (the server enforces this too)
+  const pollStatus = pollSummary?.status ?? 'open'
+  const isPollOpen = pollStatus === 'open'
+  const tieNote = pollSummary?.tie
+    ? pollSummary.tie.decidedBy === 'voters'
+      ? 'Tied on people, so the restaurant more separate voters picked wins.'
+      : 'Tied on people and voters, so the restaurant listed first wins.'
+    : null
+
+  // Start editing from the current ballot (ranked polls list every restaurant, current ranking first)
+  useEffect(() => {
+    const ballot = myBallotKey ? myBallotKey.split(',') : []
+    const ids = restaurantIdsKey ? restaurantIdsKey.split(',') : []
+    if (pollMode === 'ranked') {
+      const ranked = ballot.filter(id => ids.includes(id))
+      setDraftChoices([...ranked, ...ids.filter(id => !ranked.includes(id))])
+    } else {
+      setDraftChoices(ballot)
+    }
+  }, [pollMode, myBallotKey, restaurantIdsKey])
+
+  // Guest count of the current vote, read from the "Name (+2)" display string
+  const getMyGuestCount = (): number => {
+    const votedRestaurant = restaurants.find(r => r.id === myVote)
+    const entry = votedRestaurant?.voters.find(v => v === userName || v.startsWith(`${userName} (+`))
+    const match = entry?.match(/\(\+(\d+)\)$/)
+    return match ? Number(match[1]) : 0
+  }
+
+  const openVoteModal = (restaurant: Restaurant) => {
+    if (restaurant.id === myVote) {
+      return
+    }
+    setVoteTarget(restaurant)
+    setGuestCountInput(String(myVote ? getMyGuestCount() : 0))
+    setVoteError(null)
+  }
+
+  // Approval and ranked polls collect every pick first, then ask for the name and guests
+  const openBallotModal = () => {
+    setIsBallotModalOpen(true)
+    setGuestCountInput(String(myVote ? getMyGuestCount() : 0))
+    setVoteError(null)
+  }
+
+  const toggleApproval = (restaurantId: string) => {
+    setDraftChoices(current =>
+      current.includes(restaurantId) ? current.filter(id => id !== restaurantId) : [...current, restaurantId]
+    )
+  }
+
+  const handleRestaurantClick = (restaurant: Restaurant) => {
+    if (!isPollOpen) {
+      return
+    } else if (pollMode === 'plurality') {
+      openVoteModal(restaurant)
+    } else if (pollMode === 'approval') {
+      toggleApproval(restaurant.id)
+    }
+  }
+
+  const closeVoteModal = () => {
+    setVoteTarget(null)
+    setIsBallotModalOpen(false)
+    setVoteError(null)
+  }
+
+  const applyPollResult = (result: {
+    pollData?: { restaurants: Restaurant[]; people?: number }
+    voterRegistry?: Record<string, string>
+    voterBallots?: Record<string, string[]>
+    results?: PollResults
+    summary?: PollSummary
+  }) => {
+    if (result.pollData) {
+      setRestaurants(result.pollData.restaurants)
+      setPollPeople(result.pollData.people ?? null)
+    }
+    if (result.voterRegistry) {
+      setVoterRegistry(result.voterRegistry)
+    }
+    if (result.voterBallots) {
+      setVoterBallots(result.voterBallots)
+    }
+    if (result.results) {
+      setPollResults(result.results)
+    }
+    if (result.summary) {
+      setPollSummary(result.summary)
+    }
+  }
+
+  // Adopt the name and token the server issued (the server's spelling of the name wins)
+  const applyVoterIdentity = (result: { voterToken?: string; voterName?: string }) => {
+    const voterName = saveVoterIdentity(eventId, result)
+    if (voterName) {
+      setUserName(voterName)
+      localStorage.setItem('birthday-poll-user-name', voterName)
+    }
+  }
+
+  // Drop the saved name and the token that proves ownership of it
+  const forgetUserName = () => {
+    setUserName(null)
+    localStorage.removeItem('birthday-poll-user-name')
+    clearVoterToken(eventId)
+  }
+
+  const handleVoteSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!voteTarget && !isBallotModalOpen) return
+
+    // Voting needs a name, same as commenting
+    let voterName = userName
+    if (!voterName) {
+      const sanitizedName = sanitizeInput(name, 100).trim()
+      if (!sanitizedName) {
+        setNameError('Please enter your name to vote')
+        return
+      }
+      voterName = sanitizedName
+      setUserName(sanitizedName)
+      localStorage.setItem('birthday-poll-user-name', sanitizedName)
+      setName('')
+      setNameError(null)
+    }
+
+    const guestCount = Math.max(0, Math.min(50, Math.floor(Number(guestCountInput) || 0)))
+    const isSwitching = Boolean(voterRegistry[voterName])
+
+    setIsVoting(true)
+    setVoteError(null)
+
+    try {
+      const response = await fetch(eventApiUrl('/api/birthday-poll', eventId), {
+        method: isSwitching ? 'PUT' : 'POST',
+        headers: voterHeaders(eventId),
+        body: JSON.stringify({
+          ...(voteTarget ? { restaurantId: voteTarget.id } : { choices: draftChoices }),
+          name: voterName,
+          guestCount,
+        }),
+      })
+
+      const result = await response.json()
+      applyVoterIdentity(result)
+
+      if (!response.ok) {
+        if (isInviteSessionRejected(response.status, result)) {
+          closeVoteModal()
+          expireInviteSession()
+          return
+        }
+        if (response.status === 409 && result.error === 'Name already taken') {
+          forgetUserName()
+        }
+        setVoteError(result.message || result.error || 'Failed to save vote')
+        return
+      }
+
+      applyPollResult(result)
+      closeVoteModal()
+    } catch (error) {
+      console.error('Error saving vote:', error)
+      setVoteError('Failed to save vote. Please try again.')
+    } finally {
+      setIsVoting(false)
+    }
+  }
+
+  const handleRetractVote = async () => {
+    if (!userName || !myVote) return
+    if (!window.confirm('Remove your vote? You can vote again afterwards.')) return
+
+    setIsVoting(true)
+
+    try {
+      const response = await fetch(eventApiUrl('/api/birthday-poll', eventId), {
+        method: 'DELETE',
+        headers: voterHeaders(eventId),
+        body: JSON.stringify({ name: userName }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        if (isInviteSessionRejected(response.status, result)) {
+          expireInviteSession()
+          return
+        }
+        throw new Error(result.error || 'Failed to remove vote')
+      }
+
+      applyPollResult(result)
+    } catch (error) {
+      console.error('Error removing vote:', error)
+      alert('Failed to remove vote. Please try again.')
+    } finally {
+      setIsVoting(false)
+    }
+  }
+
   // Fireworks easter egg handlers
   const createFirework = (size: number = 1) => {
     // Detect mobile for reduced particle count
@@ -537,47 +696,23 @@ const BirthdayInvite = () => {
     }
   }, [])
 
-  // Show password form if not authenticated
-  if (!isAuthenticated) {
+  // Event still loading, or the link points at an event that doesn't exist
+  if (!event) {
     return (
       <Layout>
         <div className="page-container">
           <div className="password-protection-container">
             <div className="password-protection-form">
-              <h2 className="password-protection-title">Birthday Invite</h2>
-              <p className="password-protection-description">Please enter the password to access this page</p>
-              <form onSubmit={handlePasswordSubmit} className="password-form">
-                <div className="password-form-group">
-                  <label htmlFor="password-input" className="password-label">
-                    Password
-                  </label>
-                  <input
-                    id="password-input"
-                    type="password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    className={`password-input ${passwordError ? 'error' : ''}`}
-                    placeholder="Enter password"
-                    autoFocus
-                    disabled={isVerifying}
-                    aria-label="Password"
-                    aria-invalid={passwordError ? 'true' : 'false'}
-                    aria-describedby={passwordError ? 'password-error' : undefined}
-                  />
-                  {passwordError && (
-                    <p id="password-error" className="password-error" role="alert">
-                      {passwordError}
-                    </p>
-                  )}
-                </div>
-                <button
-                  type="submit"
-                  className="password-submit-button"
-                  disabled={isVerifying || !password.trim()}
-                >
-                  {isVerifying ? 'Verifying...' : 'Enter'}
-                </button>
-              </form>
+              <h2 className="password-protection-title">
+                {eventStatus === 'loading' ? 'Loading...' : eventStatus === 'not-found' ? 'Event Not Found' : 'Something Went Wrong'}
+              </h2>
+              {eventStatus !== 'loading' && (
+                <p className="password-protection-description">
+                  {eventStatus === 'not-found'
+                    ? 'Double-check the link from your invite.'
+                    : 'We couldn\'t load this event. Please refresh to try again.'}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -585,6 +720,17 @@ const BirthdayInvite = () => {
     )
   }
 
+  // Show password form if not authenticated
+  if (!isAuthenticated) {
+    return (
+      <Layout>
+        <div className="page-container">
+          <EventPasswordGate eventId={eventId} title={event.title} onUnlock={unlock} />
+        </div>
+      </Layout>
+    )
+  }
+
   return (
     <Layout>
       <div className="page-container">
@@ -607,14 +753,26 @@ const BirthdayInvite = () => {
               WebkitTapHighlightColor: 'transparent'
             }}
           >
-            Jerome's 39th Birthday Celebration!
+            {event.title}
           </h1>
-          <p className={`birthday-subtitle ${isContentExploding ? 'exploding' : ''}`}>November 21st 2025 - 7:30pm reservation time set</p>
-          <p className={`birthday-subtitle ${isContentExploding ? 'exploding' : ''}`}>Join us at Arnoldi's for dinner!</p>
-          <p className={`birthday-subtitle ${isContentExploding ? 'exploding' : ''}`}>Downtown/Pickle Room post dinner</p>
+          <p className={`birthday-subtitle ${isContentExploding ? 'exploding' : ''}`}>{formatEventDate(event)}</p>
+          <p className={`birthday-subtitle ${isContentExploding ? 'exploding' : ''}`}>
+            Join us at{' '}
+            {event.venue.link ? (
+              <a href={event.venue.link} target="_blank" rel="noopener noreferrer" className="menu-link">{event.venue.name}</a>
+            ) : event.venue.name}
+            !
+          </p>
+          {event.venue.address && (
+            <p className={`birthday-subtitle ${isContentExploding ? 'exploding' : ''}`}>{event.venue.address}</p>
+          )}
+          {event.details?.map((line) => (
+            <p key={line} className={`birthday-subtitle ${isContentExploding ? 'exploding' : ''}`}>{line}</p>
+          ))}
 
           
           {/* Menu Section */}
+          {event.menu.length > 0 && (
           <div className={`menu-container ${isContentExploding ? 'exploding' : ''}`}>
             <h2 
               className={`menu-title menu-title-toggle ${isContentExploding ? 'exploding' : ''}`}
@@ -630,13 +788,13 @@ const BirthdayInvite = () => {
               aria-label="Toggle light/dark mode"
               title="Click to toggle light/dark mode"
             >
-              Arnoldi's Menu
+              {event.venue.name} Menu
             </h2>
             <p className={`menu-description ${isContentExploding ? 'exploding' : ''}`}>
               Find what you'd enjoy eating!
             </p>
             
-            {menuCategories.map((category) => {
+            {event.menu.map((category) => {
               const isExpanded = expandedCategories.has(category.name)
               return (
               <div key={category.name} className={`menu-category ${isContentExploding ? 'exploding' : ''}`}>
@@ -692,10 +850,11 @@ const BirthdayInvite = () => {
               )
             })}
             
+            {event.venue.menuUrl && (
             <div className={`menu-footer ${isContentExploding ? 'exploding' : ''}`}>
               <p>
                 <a 
-                  href="https://www.arnoldis.com/popmenu-order/arnoldis-cafe/menus/menu-online-ordering" 
+                  href={event.venue.menuUrl} 
                   target="_blank" 
                   rel="noopener noreferrer"
                   className="menu-link"
@@ -704,9 +863,207 @@ const BirthdayInvite = () => {
                 </a>
               </p>
             </div>
+            )}
+                      </div>
+          )}
+
+          {/* Restaurant Poll */}
+          {restaurants.length > 0 && (
+            <div className={`poll-container ${isContentExploding ? 'exploding' : ''}`}>
+              <h2 className="poll-title">Where Should We Eat?</h2>
+              <p className="poll-description">
+                {pollStatus === 'closed'
+                  ? 'Voting has closed. Thanks for voting!'
+                  : pollStatus === 'scheduled' && pollSummary?.opensAt
+                    ? `Voting opens ${formatPollTime(pollSummary.opensAt, event?.timeZone)}.`
+                    : pollMode === 'approval'
+                  ? 'Tap every restaurant you\'d be happy with, then submit your picks.'
+                  : pollMode === 'ranked'
+                    ? 'Drag the restaurants into your order of preference, then submit your ranking.'
+                    : myVote ? 'Changed your mind? Tap another restaurant to switch your vote.' : 'Tap a restaurant to vote!'}
+              </p>
+              <p className="poll-note">
+                {pollMode === 'ranked'
+                  ? 'Counts show first choices. If nobody has a majority, the last place restaurant is dropped and its votes move to their next choice.'
+                  : 'Votes count you plus any guests you\'re bringing.'}
+                {isPollOpen && pollSummary?.closesAt && ` Voting closes ${formatPollTime(pollSummary.closesAt, event?.timeZone)}.`}
+              </p>
+              {pollStatus === 'closed' && pollSummary && (
+                <div className="poll-results-card" role="status">
+                  <h3 className="poll-ballot-title">
+                    {pollSummary.winner ? `🏆 ${pollSummary.winner.name} wins!` : 'Nobody voted'}
+                  </h3>
+                  {tieNote && <p className="poll-round-note">{tieNote}</p>}
+                  {pollSummary.standings.length > 0 && (
+                    <ol className="poll-results-standings">
+                      {pollSummary.standings.map((standing) => (
+                        <li key={standing.id}>
+                          {standing.name}: {standing.people} {standing.people === 1 ? 'person' : 'people'} ({Math.round(standing.share * 100)}%)
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                  <p className="poll-round-note">
+                    {pollSummary.voters} {pollSummary.voters === 1 ? 'voter' : 'voters'}
+                    {pollMode === 'ranked' && ' · standings after the final runoff round'}
+                  </p>
+                </div>
+              )}
+              <div className="restaurants-list">
+                {restaurants.map((restaurant) => {
+                  const isSelected = pollMode === 'approval' ? draftChoices.includes(restaurant.id) : restaurant.id === myVote
+                  // Ranked polls are won in the runoff, not by first choices alone
+                  // Once the poll closes only the locked-in winner is highlighted
+                  const isWinning = pollMode === 'ranked' || pollStatus === 'closed'
+                    ? pollResults?.winnerId === restaurant.id
+                    : restaurant.votes > 0 && restaurant.votes === maxVotes
+                  const percentage = totalVotes > 0 ? Math.round((restaurant.votes / totalVotes) * 100) : 0
+                  const isClickable = pollMode !== 'ranked' && isPollOpen
+                  return (
+                    <div
+                      key={restaurant.id}
+                      className={`restaurant-item ${isSelected ? 'selected' : ''} ${isWinning ? 'winning' : ''} ${isVoting ? 'disabled' : ''} ${isPollOpen ? '' : 'locked'}`}
+                      onClick={() => handleRestaurantClick(restaurant)}
+                      role={isClickable ? 'button' : undefined}
+                      tabIndex={isClickable ? 0 : undefined}
+                      onKeyDown={(e) => {
+                        if (isClickable && (e.key === 'Enter' || e.key === ' ')) {
+                          e.preventDefault()
+                          handleRestaurantClick(restaurant)
+                        }
+                      }}
+                      aria-pressed={isClickable ? isSelected : undefined}
+                      aria-label={
+                        !isClickable
+                          ? undefined
+                          : pollMode === 'approval'
+                          ? `${isSelected ? 'Remove' : 'Pick'} ${restaurant.name}`
+                            : isSelected ? `Your vote: ${restaurant.name}` : `${myVote ? 'Switch vote to' : 'Vote for'} ${restaurant.name}`
+                      }
+                    >
+                      {isSelected && (
+                        <span className="vote-indicator">
+                          {pollMode === 'approval' ? 'Your Pick' : pollMode === 'ranked' ? 'Your #1' : 'Your Vote'}
+                        </span>
+                      )}
+                      {isWinning && <span className="winning-indicator">{pollStatus === 'closed' ? 'Winner' : 'Leading'}</span>}
+                      <div className="restaurant-info">
+                        <div className="restaurant-name-container">
+                          <h3 className="restaurant-name">{restaurant.name}</h3>
+                        </div>
+                        {restaurant.description && (
+                          <p className="restaurant-description">{restaurant.description}</p>
+                        )}
+                      </div>
+                      <div className="restaurant-votes">
+                        <div className="vote-bar-container">
+                          <div className="vote-bar" style={{ width: `${percentage}%` }} />
+                        </div>
+                        <div className="vote-count">
+                          <span className="vote-number">{restaurant.votes}</span>
+                          <span className="vote-label">{restaurant.votes === 1 ? 'person' : 'people'}</span>
+                          <span className="vote-percentage">({percentage}%)</span>
+                        </div>
+                        {restaurant.voters.length > 0 && (
+                          <div className="voter-names">
+                            {restaurant.voters.map((voter, index) => (
+                              <span key={voter} className="voter-name">
+                                {voter}
+                                {index < restaurant.voters.length - 1 && ', '}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
+                      {restaurant.link && (
+                        <a
+                          href={restaurant.link}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="restaurant-link restaurant-link-bottom"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          Visit Website ↗
+                        </a>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+              {pollMode === 'ranked' && isPollOpen && (
+                <div className="poll-ballot">
+                  <h3 className="poll-ballot-title">Your Ranking</h3>
+                  <RankedChoiceList
+                    options={restaurants}
+                    ranking={draftChoices}
+                    onChange={setDraftChoices}
+                    disabled={isVoting}
+                  />
+                </div>
+              )}
+              {pollMode !== 'plurality' && isPollOpen && (
+                <div className="poll-ballot-actions">
+                  <button
+                    type="button"
+                    className="comment-submit-button"
+                    onClick={openBallotModal}
+                    disabled={isVoting || !hasDraftChanges}
+                  >
+                    {pollMode === 'ranked'
+                      ? myBallot ? 'Update My Ranking' : 'Submit My Ranking'
+                      : myBallot ? 'Update My Picks' : 'Submit My Picks'}
+                  </button>
+                </div>
+              )}
+              {pollMode === 'ranked' && pollResults && pollResults.rounds.length > 0 && totalVotes > 0 && (
+                <div className="poll-rounds">
+                  <h3 className="poll-ballot-title">Results by Round</h3>
+                  <ol className="poll-rounds-list">
+                    {pollResults.rounds.map((round) => (
+                      <li key={round.round} className="poll-round">
+                        <span className="poll-round-label">Round {round.round}</span>
+                        <span className="poll-round-counts">
+                          {Object.entries(round.counts)
+                            .sort(([, a], [, b]) => b - a)
+                            .map(([id, people]) => `${restaurants.find(r => r.id === id)?.name || id} ${people}`)
+                            .join(' · ')}
+                        </span>
+                        {round.eliminated.length > 0 && (
+                          <span className="poll-round-note">
+                            Dropped: {round.eliminated.map(id => restaurants.find(r => r.id === id)?.name || id).join(', ')}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                  <p className="poll-round-note">
+                    {pollResults.winnerId
+                      ? `${pollStatus === 'closed' ? 'Winner' : 'Leading'}: ${restaurants.find(r => r.id === pollResults.winnerId)?.name || pollResults.winnerId}`
+                      : 'No winner yet'}
+                    {pollStatus !== 'closed' && tieNote && ` (${tieNote})`}
+                  </p>
+                </div>
+              )}
+              <div className="poll-summary">
+                <p className="total-votes">
+                  {totalVotes} {totalVotes === 1 ? 'person' : 'people'} {pollStatus === 'closed' ? 'coming' : 'coming so far'}
+                </p>
+                {myVote && isPollOpen && (
+                  <button
+                    type="button"
+                    className="comment-change-name-button"
+                    onClick={handleRetractVote}
+                    disabled={isVoting}
+                  >
+                    Remove My Vote
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
 
           {/* Help Pay Bill Button */}
+          {event.payment && (
           <div className={`help-pay-bill-section ${isContentExploding ? 'exploding' : ''}`}>
             <button
               className="help-pay-bill-button"
@@ -716,6 +1073,7 @@ const BirthdayInvite = () => {
               Help Pay Bill
             </button>
           </div>
+          )}
 
           {/* All Comments Section - Show all comments from all users */}
           <div className={`all-comments-section ${isContentExploding ? 'exploding' : ''}`}>
@@ -824,8 +1182,7 @@ const BirthdayInvite = () => {
                   type="button"
                   className="comment-change-name-button"
                   onClick={() => {
-                    setUserName(null)
-                    localStorage.removeItem('birthday-poll-user-name')
+                    forgetUserName()
                     setName('')
                   }}
                 >
@@ -866,7 +1223,7 @@ const BirthdayInvite = () => {
               type="button"
               className="game-button"
               onClick={() => {
-                navigate('/bdaygame')
+                navigate(getGamesPath(eventId))
               }}
             >
               Let's Play A Game
@@ -898,8 +1255,96 @@ const BirthdayInvite = () => {
         </div>
       )}
 
+      {/* Vote Modal */}
+      {(voteTarget || isBallotModalOpen) && (
+        <div className="email-modal-overlay" onClick={closeVoteModal}>
+          <div className="email-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="email-modal-header">
+              <h2 className="email-modal-title">{myVote ? 'Switch Your Vote' : 'Cast Your Vote'}</h2>
+              <button
+                className="email-modal-close"
+                onClick={closeVoteModal}
+                aria-label="Close vote modal"
+              >
+                <Icon name="x" size={24} ariaHidden={true} />
+              </button>
+            </div>
+            <form onSubmit={handleVoteSubmit} className="email-modal-form">
+              <p className="email-modal-description">
+                {voteTarget
+                  ? myVote
+                    ? `Move your vote from ${restaurants.find(r => r.id === myVote)?.name || 'your current pick'} to ${voteTarget.name}?`
+                    : `Vote for ${voteTarget.name}`
+                  : draftChoices
+                    .map(id => restaurants.find(r => r.id === id)?.name || id)
+                    .join(pollMode === 'ranked' ? ' › ' : ', ')}
+              </p>
+              {!userName && (
+                <div className="email-modal-field">
+                  <label htmlFor="vote-name-input" className="email-modal-label">
+                    Your Name
+                  </label>
+                  <input
+                    id="vote-name-input"
+                    type="text"
+                    value={name}
+                    onChange={handleNameChange}
+                    placeholder="Your Name"
+                    className={`email-input ${nameError ? 'error' : ''}`}
+                    maxLength={100}
+                    aria-invalid={nameError ? 'true' : 'false'}
+                    aria-describedby={nameError ? 'vote-name-error' : undefined}
+                  />
+                  {nameError && (
+                    <p id="vote-name-error" className="email-error-message" role="alert">
+                      {nameError}
+                    </p>
+                  )}
+                </div>
+              )}
+              <div className="email-modal-field">
+                <label htmlFor="guest-count-input" className="email-modal-label">
+                  Guests you're bringing
+                </label>
+                <input
+                  id="guest-count-input"
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={guestCountInput}
+                  onChange={(e) => setGuestCountInput(e.target.value)}
+                  className="guest-count-input"
+                />
+                <p className="email-modal-hint">Not counting yourself</p>
+              </div>
+              {voteError && (
+                <p className="email-error-message" role="alert">
+                  {voteError}
+                </p>
+              )}
+              <div className="email-modal-actions">
+                <button
+                  type="button"
+                  className="email-modal-cancel"
+                  onClick={closeVoteModal}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="email-modal-submit"
+                  disabled={isVoting}
+                >
+                  {isVoting ? 'Saving...' : myVote ? 'Switch Vote' : 'Vote'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Payment Modal */}
-      {isPaymentModalOpen && (
+      {isPaymentModalOpen && event.payment && (
         <div className="payment-modal-overlay" onClick={() => setIsPaymentModalOpen(false)}>
           <div className="payment-modal" onClick={(e) => e.stopPropagation()}>
             <div className="payment-modal-header">
@@ -914,16 +1359,17 @@ const BirthdayInvite = () => {
             </div>
             <div className="payment-modal-content">
               <p className="payment-modal-description">
-                I very much appreciate you coming and celebrating my 39th birthday! There's nothing better than having family and friends to celebrate. I made this to help pay the bill for the night. I hope this works!
+                {event.payment.message}
               </p>
               
               {/* Venmo Section */}
+              {event.payment.venmoUsername && (
               <div className="payment-option">
                 <h3 className="payment-option-title">Venmo</h3>
                 <p className="payment-option-description">Send payment via Venmo</p>
                 <div className="payment-qr-container">
                   <QRCodeSVG
-                    value="https://venmo.com/u/Agustinjd"
+                    value={`https://venmo.com/u/${event.payment.venmoUsername}`}
                     size={200}
                     level="H"
                     includeMargin={true}
@@ -932,23 +1378,25 @@ const BirthdayInvite = () => {
                   />
                 </div>
                 <a
-                  href="https://venmo.com/u/Agustinjd"
+                  href={`https://venmo.com/u/${event.payment.venmoUsername}`}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="payment-link-button venmo-button"
                 >
                   Open Venmo ↗
                 </a>
-                <p className="payment-username">@Agustinjd</p>
+                <p className="payment-username">@{event.payment.venmoUsername}</p>
               </div>
+              )}
 
               {/* Zelle Section */}
+              {event.payment.zelleRecipient && (
               <div className="payment-option">
                 <h3 className="payment-option-title">Zelle®</h3>
                 <p className="payment-option-description">Scan QR code in your banking app to pay</p>
                 <div className="payment-qr-container">
                   <QRCodeSVG
-                    value="zelle://send?recipient=jerome.agustin@example.com&amount="
+                    value={`zelle://send?recipient=${event.payment.zelleRecipient}&amount=`}
                     size={200}
                     level="H"
                     includeMargin={true}
@@ -964,9 +1412,10 @@ const BirthdayInvite = () => {
                 >
                   Open Zelle ↗
                 </a>
-                <p className="payment-username">Jerome Agustin</p>
+                <p className="payment-username">{event.payment.zelleName || event.payment.zelleRecipient}</p>
                 <p className="payment-note">Scan with your banking app that supports Zelle</p>
               </div>
+              )}
             </div>
           </div>
         </div>
@@ -3,45 +3,96 @@ import { useSearchParams } from 'react-router-dom'
 import Layout from '../components/Layout'
 import Icon from '../components/Icon'
 import BuyMeACoffee from '../components/BuyMeACoffee'
-import { isValidCoordinates, sanitizeApiResponse } from '../utils/inputSanitizer'
+import { isValidCoordinates } from '../utils/inputSanitizer'
 import './PageStyles.css'
 import './Coffee.css'
 
-interface CoffeeRoaster {
-  id: number
+type SearchMode = 'coffee' | 'drinks'
+type PlaceSource = 'OSM' | 'Google'
+type PlaceSort = 'distance' | 'rating' | 'name'
+
+// A place from GET /api/places, merged from OpenStreetMap and Google Places and classified on the server
+interface Place {
+  id: string
+  source: PlaceSource
+  sources: PlaceSource[] // Every source that listed it (both, when their records were merged)
+  fieldSources: Partial<Record<'name' | 'phone' | 'website' | 'rating' | 'openNow' | `address.${string}`, PlaceSource>> // Where each detail came from
   name: string
   lat: number
   lon: number
-  distance?: number
-  source?: 'OSM' | 'Google' // Data source
-      tags?: {
-        'formatted_address'?: string
-        'addr:street'?: string
-        'addr:city'?: string
-        'addr:housenumber'?: string
-        'addr:postcode'?: string
-        phone?: string
-        website?: string
-      }
+  distance: number // Kilometers
+  address: {
+    formatted?: string
+    street?: string
+    housenumber?: string
+    city?: string
+    postcode?: string
+  }
+  phone?: string
+  website?: string
+  rating?: number // Google's average rating (1-5)
+  ratingCount?: number
+  openNow?: boolean // Unset when Google doesn't know the place's hours
+  drinkTypes: string[] // Drinks it's known for (tea, matcha, smoothies, etc.)
+  explanation: string // Why it matched
 }
 
-interface DrinkPlace extends CoffeeRoaster {
-  drinkTypes?: string[] // Array of drink types offered (tea, matcha, smoothies, etc.)
+// How the results are narrowed down and ordered (kept in the URL with the location)
+interface PlaceFilters {
+  radiusMiles: number
+  includeChains: boolean
+  openNow: boolean
+  drinkType: string | null // Drinks mode only
+  sort: PlaceSort
 }
 
+const RADIUS_OPTIONS_MILES = [1, 3, 5, 10, 25]
+const DEFAULT_RADIUS_MILES = 5
+const METERS_PER_MILE = 1609.34
+
+const SORT_OPTIONS: Array<{ value: PlaceSort; label: string }> = [
+  { value: 'distance', label: 'Distance' },
+  { value: 'rating', label: 'Rating' },
+  { value: 'name', label: 'Name' },
+]
+
+// Everything a search puts in the URL, cleared when the results are closed
+const SEARCH_PARAMS = ['lat', 'lon', 'mode', 'near', 'radius', 'chains', 'openNow', 'drinkType', 'sort']
+
+// Coordinates in shareable links are rounded to ~100m, so a shared link doesn't pinpoint anyone's home
+const roundCoordinate = (value: number): string => value.toFixed(3)
+
+const describeMode = (mode: SearchMode): string => (mode === 'coffee' ? 'coffee roasters' : 'drink places')
+
 const Coffee = () => {
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [isBuyCoffeeModalOpen, setIsBuyCoffeeModalOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [coffeeRoasters, setCoffeeRoasters] = useState<CoffeeRoaster[]>([])
-  const [drinkPlaces, setDrinkPlaces] = useState<DrinkPlace[]>([])
-  const [searchMode, setSearchMode] = useState<'coffee' | 'drinks'>('coffee')
-  const [searchParams] = useSearchParams()
+  const [places, setPlaces] = useState<Place[]>([])
+  const [searchMode, setSearchMode] = useState<SearchMode>('coffee')
+  const [locationQuery, setLocationQuery] = useState('')
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [drinkTypes, setDrinkTypes] = useState<string[]>([]) // Drink types found by the search, for the filter
+  const [searchParams, setSearchParams] = useSearchParams()
   
-  // Prevent duplicate API calls
-  const isFetchingRef = useRef(false)
-  const lastSearchRef = useRef<{ lat: number; lon: number; mode: 'coffee' | 'drinks' } | null>(null)
+  // Only the latest search may update the results
+  const searchIdRef = useRef(0)
+
+  // The search being shown lives in the URL (?lat=&lon=&mode=&near= plus the filters), so results can be shared
+  const latParam = searchParams.get('lat')
+  const lonParam = searchParams.get('lon')
+  const modeParam: SearchMode = searchParams.get('mode') === 'drinks' ? 'drinks' : 'coffee'
+  const nearParam = searchParams.get('near')
+  const radiusParam = Number(searchParams.get('radius'))
+  const sortParam = SORT_OPTIONS.find(option => option.value === searchParams.get('sort'))?.value ?? 'distance'
+  const filters: PlaceFilters = {
+    radiusMiles: RADIUS_OPTIONS_MILES.includes(radiusParam) ? radiusParam : DEFAULT_RADIUS_MILES,
+    includeChains: searchParams.get('chains') === 'include',
+    openNow: searchParams.get('openNow') === '1',
+    drinkType: modeParam === 'drinks' ? searchParams.get('drinkType') : null,
+    sort: sortParam,
+  }
 
   // Auto-open buy coffee modal if success parameter is present (from Stripe redirect)
   useEffect(() => {
@@ -51,19 +102,6 @@ const Coffee = () => {
     }
   }, [searchParams])
 
-  // Calculate distance between two coordinates using Haversine formula
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371 // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180
-    const dLon = (lon2 - lon1) * Math.PI / 180
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-    return R * c
-  }
-
   // Convert distance to miles
   const kmToMiles = (km: number): number => {
     return km * 0.621371
@@ -81,812 +119,120 @@ const Coffee = () => {
     }
   }
 
-  // Check if a place is a corporate chain
-  const isCorporateChain = (name: string, brand?: string): boolean => {
-    const nameLower = name.toLowerCase()
-    const brandLower = brand?.toLowerCase() || ''
-    
-    // List of known corporate coffee chains
-    const corporateChains = [
-      'starbucks',
-      'dunkin',
-      'dunkin\' donuts',
-      'dunkin donuts',
-      'mcdonald\'s',
-      'mcdonalds',
-      'tim hortons',
-      'tim horton\'s',
-      'peet\'s',
-      'peets',
-      'caribou coffee',
-      'costa coffee',
-      'caffè nero',
-      'caffe nero',
-      'second cup',
-      'tullys',
-      'tully\'s',
-      'seattle\'s best',
-      'seattles best',
-      'panera',
-      'panera bread',
-      'krispy kreme',
-      'krispy kreme donuts',
-      'biggby',
-      'biggby coffee',
-      'the coffee bean',
-      'coffee bean & tea leaf',
-      'coffee bean and tea leaf',
-      'blue bottle',
-      'blue bottle coffee',
-      'intelligentsia',
-      'counter culture',
-      'philz',
-      'philz coffee',
-      'lavazza',
-      'nespresso',
-      'illy',
-      'café bustelo',
-      'cafe bustelo',
-      'folgers',
-      'maxwell house',
-      'green mountain',
-      'keurig',
-      'dunkin\'',
-      'dd',
-      'sbux',
-      'mccafé',
-      'mccafe',
-      // Convenience stores and gas stations
-      '7-eleven',
-      '7 eleven',
-      '7eleven',
-      'circle k',
-      'circle-k',
-      'speedway',
-      'shell',
-      'chevron',
-      'exxon',
-      'mobil',
-      'bp',
-      'arco',
-      'valero',
-      'phillips 66',
-      'phillips66',
-      'conoco',
-      'texaco',
-      'citgo',
-      'sunoco',
-      'wawa',
-      'sheetz',
-      'quikstop',
-      'quick stop',
-      'am/pm',
-      'ampm',
-      'casey\'s',
-      'caseys',
-      'kum & go',
-      'kum and go',
-      'kumgo',
-      'pilot',
-      'flying j',
-      'flyingj',
-      'love\'s',
-      'loves',
-      'ta',
-      'travel centers',
-      'truck stop',
-    ]
-
-    // Check if name or brand matches any corporate chain
-    return corporateChains.some(chain => 
-      nameLower.includes(chain) || brandLower.includes(chain)
-    )
-  }
-
-  // Check if a place is a convenience store, gas station, or retail chain
-  const isConvenienceStoreOrGasStation = (name: string, tags: any): boolean => {
-    const nameLower = name.toLowerCase()
-    
-    // Check OSM tags
-    if (tags?.amenity === 'fuel' || tags?.amenity === 'gas_station' || 
-        tags?.shop === 'convenience' || tags?.shop === 'gas' ||
-        tags?.shop === 'fuel') {
-      return true
-    }
-    
-    // Check for convenience store/gas station keywords
-    const convenienceKeywords = [
-      'convenience store', 'gas station', 'gas station', 'fuel',
-      'service station', 'truck stop', 'travel center', 'travel plaza',
-      'mini mart', 'minimart', 'quick mart', 'quickmart'
-    ]
-    
-    if (convenienceKeywords.some(keyword => nameLower.includes(keyword))) {
-      return true
-    }
-    
-    return false
-  }
+  // Fetch coffee roasters or drink places near a location (the server searches OSM and Google Places)
+  const fetchPlaces = async (lat: number, lon: number, mode: SearchMode, filters: PlaceFilters) => {
+    const searchId = ++searchIdRef.current
 
-  // Check if a place is a bakery, patisserie, or pastry shop (not primarily drinks)
-  const isBakeryOrPastryShop = (name: string, tags: any): boolean => {
-    const nameLower = name.toLowerCase()
-    
-    // Check OSM tags
-    if (tags?.shop === 'bakery' || tags?.shop === 'pastry' || 
-        tags?.craft === 'bakery' || tags?.craft === 'pastry') {
-      return true
-    }
-    
-    // Check for bakery/pastry keywords
-    const bakeryKeywords = [
-      'bakery', 'baker', 'patisserie', 'pâtisserie', 'pastry',
-      'pastries', 'bake shop', 'bakeshop', 'confectionery',
-      'confection', 'dessert', 'sweets', 'cake', 'cakes'
-    ]
-    
-    // But exclude if it's a drink-focused place that happens to have bakery keywords
-    // (e.g., "Tea & Pastry" should be included)
-    if (bakeryKeywords.some(keyword => nameLower.includes(keyword))) {
-      const drinkIndicators = ['tea', 'smoothie', 'juice', 'boba', 'matcha', 'chai', 'coffee']
-      const hasDrinkIndicator = drinkIndicators.some(indicator => nameLower.includes(indicator))
-      
-      // If it has both bakery and drink keywords, it might be a tea house with pastries
-      // Only exclude if it's clearly a bakery without drink focus
-      if (!hasDrinkIndicator) {
-        return true
+    try {
+      setIsLoading(true)
+      setError(null)
+      setPlaces([])
+
+      const params = new URLSearchParams({
+        lat: String(lat),
+        lon: String(lon),
+        mode,
+        radius: String(Math.round(filters.radiusMiles * METERS_PER_MILE)),
+        sort: filters.sort,
+      })
+      if (filters.includeChains) {
+        params.set('chains', 'include')
       }
-    }
-    
-    return false
-  }
-
-  // Check if a place is a restaurant
-  const isRestaurant = (name: string, tags: any): boolean => {
-    const nameLower = name.toLowerCase()
-    
-    // Check for explicit restaurant tags
-    if (tags?.amenity === 'restaurant' || tags?.amenity === 'food_court') {
-      return true
-    }
-    
-    // Check for restaurant-related keywords in name
-    const restaurantKeywords = [
-      'restaurant', 'diner', 'bistro', 'eatery', 'grill', 'steakhouse',
-      'pizzeria', 'pizza', 'italian', 'mexican', 'chinese', 'japanese',
-      'thai', 'indian', 'french', 'mediterranean', 'seafood', 'bbq',
-      'barbecue', 'buffet', 'cafeteria', 'deli', 'sandwich',
-      'burger', 'burgers', 'wings', 'sushi', 'ramen', 'noodles'
-    ]
-    
-    // Don't exclude if it's a tea/smoothie place that happens to have a restaurant keyword
-    // (e.g., "Smoothie Restaurant" would be excluded, but that's probably correct)
-    if (restaurantKeywords.some(keyword => nameLower.includes(keyword))) {
-      // But check if it's primarily a drink place first
-      const drinkIndicators = ['tea', 'smoothie', 'juice', 'boba', 'matcha', 'chai']
-      const hasDrinkIndicator = drinkIndicators.some(indicator => nameLower.includes(indicator))
-      
-      // If it has both restaurant and drink keywords, prioritize drink keywords
-      // (e.g., "Tea House Restaurant" should be included)
-      if (!hasDrinkIndicator) {
-        return true
+      if (filters.openNow) {
+        params.set('openNow', '1')
       }
-    }
-    
-    // Check cuisine tags - if it has a cuisine tag that's not drink-related, it's likely a restaurant
-    if (tags?.cuisine) {
-      const cuisine = tags.cuisine.toLowerCase()
-      // Exclude tea-related cuisines, but include others (likely restaurants)
-      if (cuisine !== 'tea' && cuisine !== 'bubble_tea' && cuisine !== 'bubble tea') {
-        return true
+      if (filters.drinkType) {
+        params.set('drinkType', filters.drinkType)
       }
-    }
-    
-    return false
-  }
 
-  // Check if a place serves alcohol
-  const isAlcoholic = (name: string, tags: any): boolean => {
-    const nameLower = name.toLowerCase()
-    
-    // Check for explicit alcohol tags
-    if (tags?.amenity === 'bar' || tags?.amenity === 'pub' || tags?.amenity === 'nightclub') {
-      return true
-    }
-    
-    if (tags?.shop === 'alcohol' || tags?.shop === 'wine' || tags?.shop === 'beverages') {
-      // Check if it's specifically a beverage shop that might be non-alcoholic
-      // But if it's tagged as wine/alcohol shop, exclude it
-      if (tags?.shop === 'wine' || tags?.shop === 'alcohol') {
-        return true
-      }
-    }
-    
-    // Check for alcohol-related keywords in name
-    const alcoholKeywords = [
-      'bar', 'pub', 'tavern', 'brewery', 'brew', 'wine', 'spirits', 
-      'liquor', 'cocktail', 'beer', 'distillery', 'winery', 'bottleshop',
-      'bottle shop', 'alcohol', 'ale house', 'taproom', 'saloon'
-    ]
-    
-    if (alcoholKeywords.some(keyword => nameLower.includes(keyword))) {
-      return true
-    }
-    
-    // Check for craft brewery (usually beer-focused)
-    if (tags?.craft === 'brewery' || tags?.microbrewery === 'yes') {
-      return true
-    }
-    
-    return false
-  }
+      const response = await fetch(`/api/places?${params}`)
+      const data = await response.json().catch(() => ({}))
 
-  // Detect what specific drinks a place offers
-  const detectDrinkTypes = (name: string, tags: any): string[] => {
-    const nameLower = name.toLowerCase()
-    const drinkTypes: string[] = []
-    
-    // Define drink keywords and their display names
-    const drinkKeywords: { [key: string]: string } = {
-      'tea': 'Tea',
-      'matcha': 'Matcha',
-      'chai': 'Chai',
-      'bubble tea': 'Bubble Tea',
-      'boba': 'Boba',
-      'smoothie': 'Smoothies',
-      'smoothies': 'Smoothies',
-      'juice': 'Juice',
-      'juices': 'Juice',
-      'fresh juice': 'Fresh Juice',
-      'fruit juice': 'Fruit Juice',
-      'fresh pressed': 'Fresh Pressed',
-      'cold press': 'Cold Press',
-      'acai': 'Acai',
-      'tapioca': 'Tapioca',
-      'herbal tea': 'Herbal Tea',
-      'iced tea': 'Iced Tea',
-      'green tea': 'Green Tea',
-      'black tea': 'Black Tea',
-      'oolong': 'Oolong',
-      'white tea': 'White Tea',
-      'rooibos': 'Rooibos',
-      'yerba mate': 'Yerba Mate',
-      'mate': 'Yerba Mate',
-      'kombucha': 'Kombucha',
-      'lemonade': 'Lemonade',
-      'iced coffee': 'Iced Coffee',
-      'cold brew': 'Cold Brew',
-      'frappe': 'Frappe',
-      'milkshake': 'Milkshake',
-      'shake': 'Shake',
-    }
-    
-    // Check name for drink keywords
-    for (const [keyword, displayName] of Object.entries(drinkKeywords)) {
-      if (nameLower.includes(keyword) && !drinkTypes.includes(displayName)) {
-        drinkTypes.push(displayName)
-      }
-    }
-    
-    // Check Google Places API types (if available)
-    // Note: We don't add generic "Beverages" - only specific drink types are shown
-    // Google Places types like 'cafe' and 'meal_takeaway' don't guarantee specific drinks,
-    // so we only show drink types detected from the name or OSM tags
-    
-    // Check OSM tags
-    if (tags?.shop === 'tea') {
-      if (!drinkTypes.includes('Tea')) {
-        drinkTypes.push('Tea')
-      }
-    }
-    
-    if (tags?.cuisine) {
-      const cuisine = tags.cuisine.toLowerCase()
-      if (cuisine.includes('tea') && !drinkTypes.includes('Tea')) {
-        drinkTypes.push('Tea')
-      }
-      if (cuisine.includes('bubble_tea') || cuisine.includes('bubble tea')) {
-        if (!drinkTypes.includes('Bubble Tea')) {
-          drinkTypes.push('Bubble Tea')
-        }
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `Unable to fetch ${describeMode(mode)}`)
       }
-    }
-    
-    // Return only specific drink types - no generic "Beverages" fallback
-    return drinkTypes
-  }
-
-  // Check if a place is a coffee shop
-  const isCoffeeShop = (name: string, tags: any): boolean => {
-    const nameLower = name.toLowerCase()
-    
-    // Check for explicit coffee shop tags
-    if (tags?.shop === 'coffee' || tags?.craft === 'coffee_roaster' || 
-        tags?.roaster === 'yes' || tags?.amenity === 'cafe' && tags?.cuisine === 'coffee_shop') {
-      return true
-    }
-    
-    // Check for coffee-related keywords in name
-    const coffeeKeywords = [
-      'coffee', 'coffee shop', 'coffeehouse', 'coffee house', 'café', 'cafe',
-      'espresso', 'latte', 'cappuccino', 'roaster', 'roasting', 'roasted',
-      'coffee roaster', 'coffee bar', 'coffee company'
-    ]
-    
-    if (coffeeKeywords.some(keyword => nameLower.includes(keyword))) {
-      return true
-    }
-    
-    return false
-  }
 
-  // Check if a place serves tea, smoothies, or other non-alcoholic drinks
-  // Must strictly sell drinks, not restaurants, coffee shops, or general cafes
-  const isDrinkPlace = (name: string, tags: any): boolean => {
-    const nameLower = name.toLowerCase()
-    
-    // Exclude restaurants first
-    if (isRestaurant(name, tags)) {
-      return false
-    }
-    
-    // Exclude coffee shops
-    if (isCoffeeShop(name, tags)) {
-      return false
-    }
-    
-    // Exclude alcohol-serving places
-    if (isAlcoholic(name, tags)) {
-      return false
-    }
-    
-    // Exclude convenience stores and gas stations
-    if (isConvenienceStoreOrGasStation(name, tags)) {
-      return false
-    }
-    
-    // Exclude bakeries and patisseries (unless they're clearly drink-focused)
-    if (isBakeryOrPastryShop(name, tags)) {
-      return false
-    }
-    
-    // Check for explicit tea/smoothie/juice shop tags - always include these
-    if (tags?.shop === 'tea' || tags?.shop === 'beverages') {
-      return true
-    }
-    
-    // Check for drink-specific keywords in name (indicating drinks are primary focus)
-    // Expanded list to catch more variations and business names
-    const drinkKeywords = [
-      'tea', 'smoothie', 'smoothies', 'juice', 'juices', 'bubble tea',
-      'boba', 'matcha', 'chai', 'iced tea', 'herbal tea', 'tapioca',
-      'acai', 'fresh juice', 'fruit juice', 'fresh pressed', 'cold press',
-      'juice bar', 'smoothie bar', 'tea house', 'tea shop', 'tea room',
-      'tea lounge', 'tea cafe', 'bubble tea', 'boba tea', 'matcha bar',
-      'smoothie shop', 'juice shop', 'juice bar', 'kombucha', 'lemonade',
-      'frappe', 'milkshake', 'shake', 'smoothie bowl', 'acai bowl',
-      'tropical', 'fresh', 'blend', 'blenders', 'squeeze', 'press', 'pressed',
-      'cold brew', 'juicery', 'tropical smoothie', 'jamba', 'planet smoothie', 
-      'smoothie king', 'naked juice', 'odwalla', 'bolthouse', 'innocent',
-      'grass', 'in the grass', 'blenders in', 'pressed juice', 'juice press',
-      'smoothie cafe', 'juice cafe', 'tea bar', 'boba bar', 'matcha cafe',
-      'chai bar', 'kombucha bar', 'lemonade stand', 'fresh bar', 'blend bar',
-      'smoothie co', 'juice co', 'tea co', 'smoothie company', 'juice company',
-      'tea company', 'smoothie lab', 'juice lab', 'tea lab', 'smoothie house',
-      'juice house', 'tea house', 'smoothie lounge', 'juice lounge', 'tea lounge',
-      'smoothie spot', 'juice spot', 'tea spot', 'smoothie place', 'juice place',
-      'tea place', 'smoothie stop', 'juice stop', 'tea stop'
-    ]
-    
-    // If name contains drink keywords, include it (even if it's a cafe)
-    if (drinkKeywords.some(keyword => nameLower.includes(keyword))) {
-      return true
-    }
-    
-    // Check cuisine tags for tea-specific cuisines
-    if (tags?.cuisine) {
-      const cuisine = tags.cuisine.toLowerCase()
-      if (cuisine === 'tea' || cuisine === 'bubble_tea' || cuisine === 'bubble tea') {
-        return true
+      if (searchId === searchIdRef.current) {
+        setPlaces(data.places || [])
+        setDrinkTypes(data.drinkTypes || [])
       }
-    }
-    
-    // For cafes and fast_food places, be MORE STRICT - only include if clearly drink-focused
-    // Many cafes are general food places, not drink-focused
-    if (tags?.amenity === 'cafe' || tags?.amenity === 'fast_food') {
-      // Check if cafe has explicit drink-related tags
-      if (tags?.drink_tea === 'yes' || tags?.drink_smoothie === 'yes' || 
-          tags?.drink_juice === 'yes' || tags?.drink_bubble_tea === 'yes') {
-        return true
+    } catch (err) {
+      if (searchId === searchIdRef.current) {
+        setError(err instanceof Error ? err.message : `Unable to fetch ${describeMode(mode)}`)
       }
-      
-      // If cafe/fast_food name suggests it's drink-focused, include it
-      const cafeDrinkIndicators = [
-        'tea', 'smoothie', 'juice', 'boba', 'matcha', 'chai', 'bubble',
-        'tropical', 'fresh', 'blend', 'blenders', 'squeeze', 'press', 'pressed',
-        'juicery', 'smoothie bowl', 'acai', 'tropical smoothie', 'grass',
-        'in the grass', 'blenders in', 'pressed juice', 'juice press',
-        'smoothie cafe', 'juice cafe', 'tea bar', 'boba bar', 'matcha cafe',
-        'chai bar', 'kombucha', 'lemonade', 'smoothie co', 'juice co', 'tea co',
-        'smoothie lab', 'juice lab', 'tea lab', 'smoothie house', 'juice house',
-        'tea house', 'smoothie lounge', 'juice lounge', 'tea lounge'
-      ]
-      if (cafeDrinkIndicators.some(indicator => nameLower.includes(indicator))) {
-        return true
+    } finally {
+      if (searchId === searchIdRef.current) {
+        setIsLoading(false)
       }
-      
-      // Don't include generic cafes without clear drink indicators
-      // This prevents places like "Cat Therapy" or generic cafes from showing up
-      return false
     }
-    
-    return false
   }
 
-  // Fetch tea, smoothies, and other drinks from OSM Overpass API and Google Places API
-  const fetchDrinkPlaces = async (lat: number, lon: number) => {
-    // Prevent duplicate requests
-    if (isFetchingRef.current) {
+  // Run the search in the URL, whether it came from a shared link or one of the buttons below
+  useEffect(() => {
+    const lat = parseFloat(latParam ?? '')
+    const lon = parseFloat(lonParam ?? '')
+    if (!isValidCoordinates(lat, lon)) {
       return
     }
-    
-    // Check if this is the same search as last time (within ~100m)
-    const lastSearch = lastSearchRef.current
-    if (lastSearch && lastSearch.mode === 'drinks') {
-      const distance = calculateDistance(lat, lon, lastSearch.lat, lastSearch.lon)
-      if (distance < 0.1) { // Same location within 100m
-        return // Skip duplicate search
-      }
-    }
-    
-    isFetchingRef.current = true
-    lastSearchRef.current = { lat, lon, mode: 'drinks' }
-    
-    try {
-      setIsLoading(true)
-      setError(null)
-
-      if (!isValidCoordinates(lat, lon)) {
-        throw new Error('Invalid coordinates')
-      }
-
-      // Search radius in meters (5 miles = approximately 8047 meters)
-      const radius = 8047
-
-      // Fetch from both OSM and Google Places in parallel
-      const [osmResults, googleResults] = await Promise.allSettled([
-        fetchOSMPlaces(lat, lon, radius),
-        fetchGooglePlaces(lat, lon, radius)
-      ])
 
-      // Process OSM results
-      let osmPlaces: DrinkPlace[] = []
-      if (osmResults.status === 'fulfilled') {
-        osmPlaces = osmResults.value
+    setIsModalOpen(true)
+    setSearchMode(modeParam)
+    fetchPlaces(lat, lon, modeParam, filters)
+    // fetchPlaces only uses state setters and refs, and filters is rebuilt from the params below on every render
+  }, [latParam, lonParam, modeParam, filters.radiusMiles, filters.includeChains, filters.openNow, filters.drinkType, filters.sort])
+
+  // Change one filter in the URL (which searches again); null removes it
+  const setFilterParam = (name: string, value: string | null) => {
+    setSearchParams(previous => {
+      const next = new URLSearchParams(previous)
+      if (value === null) {
+        next.delete(name)
       } else {
-        console.warn('OSM search failed:', osmResults.reason)
+        next.set(name, value)
       }
+      return next
+    }, { replace: true })
+  }
 
-      // Process Google Places results
-      let googlePlaces: DrinkPlace[] = []
-      if (googleResults.status === 'fulfilled') {
-        googlePlaces = googleResults.value
-      } else {
-        console.warn('Google Places search failed:', googleResults.reason)
+  // Put a search in the URL (which runs it)
+  const showSearch = (lat: number, lon: number, mode: SearchMode, near?: string) => {
+    setSearchParams(previous => {
+      const next = new URLSearchParams(previous)
+      next.set('lat', roundCoordinate(lat))
+      next.set('lon', roundCoordinate(lon))
+      next.set('mode', mode)
+      if (mode === 'coffee') {
+        next.delete('drinkType')
       }
-
-      // Combine and deduplicate results
-      const allPlaces = [...osmPlaces, ...googlePlaces]
-      const uniquePlaces = deduplicatePlaces(allPlaces)
-
-      // Sort by distance and limit to top 20
-      const sortedPlaces = uniquePlaces
-        .sort((a: DrinkPlace, b: DrinkPlace) => (a.distance || 0) - (b.distance || 0))
-        .slice(0, 20)
-
-      setDrinkPlaces(sortedPlaces)
-    } catch (err) {
-      if (err instanceof Error) {
-        setError(err.message)
+      if (near) {
+        next.set('near', near)
       } else {
-        setError('Unable to fetch drink places')
+        next.delete('near')
       }
-    } finally {
-      setIsLoading(false)
-      isFetchingRef.current = false
-    }
-  }
-
-  // Fetch places from OSM
-  const fetchOSMPlaces = async (lat: number, lon: number, radius: number): Promise<DrinkPlace[]> => {
-    // Overpass API query to find tea shops, beverage shops, cafes, juice bars, smoothie shops
-    // Expanded search to catch more drink-focused places
-    const query = `
-      [out:json][timeout:25];
-      (
-        node["shop"="tea"](around:${radius},${lat},${lon});
-        node["shop"="beverages"](around:${radius},${lat},${lon});
-        node["amenity"="cafe"](around:${radius},${lat},${lon});
-        node["amenity"="fast_food"](around:${radius},${lat},${lon});
-        node["cuisine"="bubble_tea"](around:${radius},${lat},${lon});
-        node["cuisine"="tea"](around:${radius},${lat},${lon});
-        node["cuisine"="juice"](around:${radius},${lat},${lon});
-        node["cuisine"="smoothie"](around:${radius},${lat},${lon});
-        way["shop"="tea"](around:${radius},${lat},${lon});
-        way["shop"="beverages"](around:${radius},${lat},${lon});
-        way["amenity"="cafe"](around:${radius},${lat},${lon});
-        way["amenity"="fast_food"](around:${radius},${lat},${lon});
-        way["cuisine"="bubble_tea"](around:${radius},${lat},${lon});
-        way["cuisine"="tea"](around:${radius},${lat},${lon});
-        way["cuisine"="juice"](around:${radius},${lat},${lon});
-        way["cuisine"="smoothie"](around:${radius},${lat},${lon});
-      );
-      out center meta;
-    `.replace(/\s+/g, ' ').trim()
-
-    const response = await fetch('https://overpass-api.de/api/interpreter', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: `data=${encodeURIComponent(query)}`,
+      return next
     })
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch from OSM')
-    }
-
-    const data = await response.json()
-
-    if (!data.elements || !Array.isArray(data.elements)) {
-      throw new Error('Invalid response from OSM API')
-    }
-
-    // Process results - filter for tea, smoothies, and drinks (exclude alcohol)
-    const places: DrinkPlace[] = data.elements
-        .map((element: any, index: number) => {
-          const center = element.center || { lat: element.lat, lon: element.lon }
-          
-          if (!center.lat || !center.lon) {
-            return null
-          }
-
-          const name = sanitizeApiResponse(
-            element.tags?.name || 
-            element.tags?.['addr:housenumber'] || 
-            '',
-            100
-          )
-
-          // Skip places with no name or "Unnamed" in the name
-          if (!name || name.toLowerCase().includes('unnamed')) {
-            return null
-          }
-
-          const brand = sanitizeApiResponse(element.tags?.brand, 100)
-
-          // Filter out corporate chains (same as coffee)
-          if (isCorporateChain(name, brand)) {
-            return null
-          }
-
-          // Filter out convenience stores and gas stations
-          if (isConvenienceStoreOrGasStation(name, element.tags)) {
-            return null
-          }
-
-          // Filter out restaurants (must strictly sell drinks, not food)
-          if (isRestaurant(name, element.tags)) {
-            return null
-          }
-
-          // Filter out coffee shops (we're looking for non-coffee drinks)
-          if (isCoffeeShop(name, element.tags)) {
-            return null
-          }
-
-          // Filter out alcohol
-          if (isAlcoholic(name, element.tags)) {
-            return null
-          }
-
-          // Filter out bakeries and patisseries
-          if (isBakeryOrPastryShop(name, element.tags)) {
-            return null
-          }
-
-          // Filter for tea, smoothies, and other drinks (strict check)
-          if (!isDrinkPlace(name, element.tags)) {
-            return null
-          }
-
-          const distance = calculateDistance(lat, lon, center.lat, center.lon)
-          
-          // Detect what drinks this place offers
-          const drinkTypes = detectDrinkTypes(name, element.tags)
-
-          return {
-            id: element.id || index,
-            name,
-            lat: center.lat,
-            lon: center.lon,
-            distance,
-            source: 'OSM',
-            drinkTypes,
-            tags: {
-              'addr:street': sanitizeApiResponse(element.tags?.['addr:street'], 100),
-              'addr:city': sanitizeApiResponse(element.tags?.['addr:city'], 100),
-              'addr:housenumber': sanitizeApiResponse(element.tags?.['addr:housenumber'], 20),
-              'addr:postcode': sanitizeApiResponse(element.tags?.['addr:postcode'], 20),
-              phone: sanitizeApiResponse(element.tags?.phone, 50),
-              website: sanitizeApiResponse(element.tags?.website, 200),
-            },
-          }
-        })
-        .filter((place: DrinkPlace | null): place is DrinkPlace => place !== null)
-
-    return places
   }
 
-  // Fetch places from Google Places API
-  const fetchGooglePlaces = async (lat: number, lon: number, radius: number): Promise<DrinkPlace[]> => {
-    try {
-      const response = await fetch(
-        `/api/google-places-search?latitude=${lat}&longitude=${lon}&radius=${radius}&searchType=drinks`
-      )
-
-      if (!response.ok) {
-        // If Google Places API is not configured, return empty array (don't fail the whole search)
-        if (response.status === 500) {
-          return []
-        }
-        // Handle rate limiting gracefully - still return OSM results
-        if (response.status === 429) {
-          const errorData = await response.json().catch(() => ({}))
-          console.warn('Google Places API rate limit reached:', errorData.message || 'Too many requests')
-          // Return empty array so OSM results still show
-          return []
-        }
-        throw new Error('Failed to fetch from Google Places')
-      }
-
-      const data = await response.json()
-      const places = data.results || []
-
-      // Convert Google Places results to DrinkPlace format
-      const drinkPlaces: DrinkPlace[] = places
-        .map((place: any) => {
-          const name = sanitizeApiResponse(place.name || '', 100)
-          
-          // Skip places with no name or "Unnamed" in the name
-          if (!name || name.toLowerCase().includes('unnamed')) {
-            return null
-          }
-
-          // Filter out corporate chains
-          const brand = sanitizeApiResponse(place.name, 100)
-          if (isCorporateChain(name, brand)) {
-            return null
-          }
-
-          // Filter out convenience stores and gas stations
-          if (isConvenienceStoreOrGasStation(name, { types: place.types })) {
-            return null
-          }
-
-          // Filter out coffee shops
-          if (isCoffeeShop(name, { types: place.types })) {
-            return null
-          }
-
-          // Filter out restaurants
-          if (isRestaurant(name, { types: place.types })) {
-            return null
-          }
-
-          // Filter out alcohol-serving places
-          if (isAlcoholic(name, { types: place.types })) {
-            return null
-          }
-
-          // Filter out bakeries and patisseries
-          if (isBakeryOrPastryShop(name, { types: place.types })) {
-            return null
-          }
-
-          // Check Google Places types - filter for drink-related types
-          const types = (place.types || []).map((type: string) => type.toLowerCase())
-          const hasDrinkType = types.includes('cafe') || types.includes('food') || 
-                              types.includes('meal_takeaway') || types.includes('restaurant')
-          
-          // Check if it's a drink place by name or type
-          if (!hasDrinkType && !isDrinkPlace(name, { types: place.types })) {
-            return null
-          }
-
-          const location = place.geometry?.location || {}
-          const placeLat = location.lat || 0
-          const placeLon = location.lng || 0
-          
-          const distance = calculateDistance(lat, lon, placeLat, placeLon)
-
-          // Format address from Google Places data
-          // Use formatted_address if available (most reliable), otherwise piece together from components
-          const formattedAddress = place.formatted_address || place.vicinity || ''
-          const addressComponents = place.address_components || []
-          const streetNumber = addressComponents.find((comp: any) => comp.types.includes('street_number'))?.long_name || ''
-          const route = addressComponents.find((comp: any) => comp.types.includes('route'))?.long_name || ''
-          const city = addressComponents.find((comp: any) => comp.types.includes('locality'))?.long_name || ''
-          const postalCode = addressComponents.find((comp: any) => comp.types.includes('postal_code'))?.long_name || ''
-
-          return {
-            id: place.place_id || `google-${place.name}`,
-            name,
-            lat: placeLat,
-            lon: placeLon,
-            distance,
-            source: 'Google',
-            drinkTypes: detectDrinkTypes(name, { types: place.types }),
-            tags: {
-              'formatted_address': sanitizeApiResponse(formattedAddress, 200),
-              'addr:street': sanitizeApiResponse(route, 100),
-              'addr:city': sanitizeApiResponse(city, 100),
-              'addr:housenumber': sanitizeApiResponse(streetNumber, 20),
-              'addr:postcode': sanitizeApiResponse(postalCode, 20),
-              phone: sanitizeApiResponse(place.formatted_phone_number || place.international_phone_number, 50),
-              website: sanitizeApiResponse(place.website, 200),
-            },
-          }
-        })
-        .filter((place: DrinkPlace | null): place is DrinkPlace => place !== null)
-
-      return drinkPlaces
-    } catch (err) {
-      console.error('Google Places API error:', err)
-      // Return empty array if Google Places fails (don't break the whole search)
-      return []
-    }
+  // Start a search in the modal before the location is known
+  const openSearch = (mode: SearchMode) => {
+    searchIdRef.current++
+    setIsModalOpen(true)
+    setSearchMode(mode)
+    setPlaces([])
+    setError(null)
+    setIsLoading(true)
   }
 
-  // Deduplicate places by name and location (within 100m)
-  const deduplicatePlaces = (places: DrinkPlace[]): DrinkPlace[] => {
-    const seen = new Map<string, DrinkPlace>()
-    
-    for (const place of places) {
-      const key = place.name.toLowerCase().trim()
-      const existing = seen.get(key)
-      
-      if (!existing) {
-        seen.set(key, place)
-      } else {
-      // If we have a duplicate, prefer the one with more complete data
-      // (Google Places usually has better data than OSM)
-      if (place.tags?.phone && !existing.tags?.phone) {
-        seen.set(key, place)
-      } else if (place.tags?.website && !existing.tags?.website) {
-        seen.set(key, place)
-      }
-      }
-    }
-    
-    return Array.from(seen.values())
-  }
+  // Request geolocation and search around it
+  const searchNearby = (mode: SearchMode) => {
+    openSearch(mode)
 
-  // Handle "Don't like coffee" button click - request geolocation and search for drinks
-  const handleDontLikeCoffee = () => {
     if (!navigator.geolocation) {
-      setError('Geolocation is not supported by your browser')
-      setIsModalOpen(true)
-      setSearchMode('drinks')
+      setError('Geolocation is not supported by your browser. Search for a city or address instead.')
+      setIsLoading(false)
       return
     }
 
-    setIsModalOpen(true)
-    setIsLoading(true)
-    setError(null)
-    setDrinkPlaces([])
-    setSearchMode('drinks')
-
     navigator.geolocation.getCurrentPosition(
       (position) => {
         const { latitude, longitude } = position.coords
@@ -897,12 +243,12 @@ const Coffee = () => {
           return
         }
 
-        fetchDrinkPlaces(latitude, longitude)
+        showSearch(latitude, longitude, mode)
       },
       (err) => {
         setIsLoading(false)
         if (err.code === err.PERMISSION_DENIED) {
-          setError('Location access denied. Please enable location permissions to find nearby drink places.')
+          setError(`Location access denied. Enable location permissions to find nearby ${describeMode(mode)}, or search for a city or address instead.`)
         } else if (err.code === err.POSITION_UNAVAILABLE) {
           setError('Location unavailable. Please try again.')
         } else {
@@ -913,6 +259,50 @@ const Coffee = () => {
     )
   }
 
+  // Look up a typed address or city and search around it
+  const searchLocation = async (mode: SearchMode) => {
+    const query = locationQuery.trim()
+    if (!query) {
+      return
+    }
+
+    openSearch(mode)
+    const searchId = searchIdRef.current
+
+    try {
+      const response = await fetch(`/api/geocode?${new URLSearchParams({ q: query })}`)
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Unable to search for that location')
+      }
+      if (searchId !== searchIdRef.current) {
+        return
+      }
+
+      const [match] = data.results || []
+      if (!match) {
+        setError(`Couldn't find "${query}". Try a city name or a full address.`)
+        setIsLoading(false)
+        return
+      }
+      showSearch(match.lat, match.lon, mode, match.name)
+    } catch (err) {
+      if (searchId === searchIdRef.current) {
+        setError(err instanceof Error ? err.message : 'Unable to search for that location')
+        setIsLoading(false)
+      }
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch (error) {
+      console.error('Error copying search link:', error)
+    }
+  }
 
   // Open location in device's maps app
   const openInMaps = (lat: number, lon: number, name: string, address?: string) => {
@@ -953,417 +343,22 @@ const Coffee = () => {
     }
   }
 
-  // Check if a place is a coffee roaster
-  const isCoffeeRoaster = (name: string, tags: any): boolean => {
-    const nameLower = name.toLowerCase()
-    
-    // Check for explicit roaster tags (OSM)
-    if (tags?.craft === 'coffee_roaster' || tags?.roaster === 'yes') {
-      return true
-    }
-    
-    // Check for other roaster indicators (OSM)
-    if (tags?.roaster === 'coffee' || tags?.['roaster:type'] === 'coffee') {
-      return true
-    }
-    
-    // Check if name contains roaster-related keywords
-    const roasterKeywords = [
-      'roaster', 'roasting', 'roast', 'roasted',
-      'roastery', 'roasteries', 'roast house', 'roast co',
-      'coffee roaster', 'coffee roasting', 'coffee roast'
-    ]
-    if (roasterKeywords.some(keyword => nameLower.includes(keyword))) {
-      return true
-    }
-    
-    // For Google Places results, also check business types
-    // If it's a cafe and has coffee-related keywords, it might be a roaster
-    const types = tags?.types || []
-    const hasCafeType = types.some((type: string) => 
-      type === 'cafe' || type === 'food' || type === 'store'
-    )
-    
-    // Include local coffee shops that might roast (but exclude chains)
-    // Look for indicators of specialty/local coffee
-    const specialtyKeywords = [
-      'specialty coffee', 'third wave', 'artisan', 'craft coffee',
-      'micro roaster', 'local roaster', 'small batch', 'single origin'
-    ]
-    if (hasCafeType && specialtyKeywords.some(keyword => nameLower.includes(keyword))) {
-      return true
-    }
-    
-    // If it's a cafe and doesn't have chain indicators, include it
-    // (many local roasters don't have "roaster" in their name)
-    // But exclude obvious non-roasters
-    const excludeKeywords = [
-      'starbucks', 'dunkin', 'dunkin\'', 'peets', 'peet\'s', 'caribou', 'tim hortons',
-      'restaurant', 'diner', 'bakery', 'bistro', 'brunch', 'breakfast',
-      'lunch', 'dinner', 'food', 'eatery', 'cafe &', '& cafe', '& restaurant',
-      'espresso bar', 'drive thru', 'drive-through', 'drive through'
-    ]
-    
-    // Only include if it's a cafe and doesn't have exclusion keywords
-    // Be more selective - prefer places with "coffee" in the name
-    if (hasCafeType && !excludeKeywords.some(keyword => nameLower.includes(keyword))) {
-      // Prioritize places with "coffee" in the name (more likely to be roasters)
-      if (nameLower.includes('coffee')) {
-        return true
-      }
-      // Also include cafes/café if they seem like specialty coffee places
-      // (but be more selective - exclude generic cafes)
-      if ((nameLower.includes('cafe') || nameLower.includes('café')) && 
-          (nameLower.includes('roast') || nameLower.includes('bean') || 
-           nameLower.includes('brew') || nameLower.includes('espresso'))) {
-        return true
-      }
-    }
-    
-    return false
-  }
-
-  // Fetch coffee roasters from OSM Overpass API and Google Places API
-  const fetchCoffeeRoasters = async (lat: number, lon: number) => {
-    // Prevent duplicate requests
-    if (isFetchingRef.current) {
-      return
-    }
-    
-    // Check if this is the same search as last time (within ~100m)
-    const lastSearch = lastSearchRef.current
-    if (lastSearch && lastSearch.mode === 'coffee') {
-      const distance = calculateDistance(lat, lon, lastSearch.lat, lastSearch.lon)
-      if (distance < 0.1) { // Same location within 100m
-        return // Skip duplicate search
-      }
-    }
-    
-    isFetchingRef.current = true
-    lastSearchRef.current = { lat, lon, mode: 'coffee' }
-    
-    try {
-      setIsLoading(true)
-      setError(null)
-
-      // Validate coordinates
-      if (!isValidCoordinates(lat, lon)) {
-        throw new Error('Invalid coordinates')
-      }
-
-      // Search radius in meters (5 miles = approximately 8047 meters)
-      const radius = 8047
-
-      // Fetch from both OSM and Google Places in parallel
-      const [osmResults, googleResults] = await Promise.allSettled([
-        fetchOSMCoffeeRoasters(lat, lon, radius),
-        fetchGoogleCoffeeRoasters(lat, lon, radius)
-      ])
-
-      // Process OSM results
-      let osmRoasters: CoffeeRoaster[] = []
-      if (osmResults.status === 'fulfilled') {
-        osmRoasters = osmResults.value
-      } else {
-        console.warn('OSM search failed:', osmResults.reason)
-      }
-
-      // Process Google Places results
-      let googleRoasters: CoffeeRoaster[] = []
-      if (googleResults.status === 'fulfilled') {
-        googleRoasters = googleResults.value
-      } else {
-        console.warn('Google Places search failed:', googleResults.reason)
-      }
-
-      // Combine and deduplicate results
-      const allRoasters = [...osmRoasters, ...googleRoasters]
-      const uniqueRoasters = deduplicateCoffeeRoasters(allRoasters)
-
-      // Sort by distance and limit to top 20
-      const sortedRoasters = uniqueRoasters
-        .sort((a: CoffeeRoaster, b: CoffeeRoaster) => (a.distance || 0) - (b.distance || 0))
-        .slice(0, 20)
-
-      setCoffeeRoasters(sortedRoasters)
-    } catch (err) {
-      if (err instanceof Error) {
-        setError(err.message)
-      } else {
-        setError('Unable to fetch coffee roasters')
-      }
-    } finally {
-      setIsLoading(false)
-      isFetchingRef.current = false
-    }
-  }
-
-  // Fetch coffee roasters from OSM
-  const fetchOSMCoffeeRoasters = async (lat: number, lon: number, radius: number): Promise<CoffeeRoaster[]> => {
-    // Overpass API query to find coffee shops and cafes first
-    // Then we'll filter for roasters in the processing step
-    // This catches roasters that might be tagged as coffee shops
-    const query = `
-      [out:json][timeout:25];
-      (
-        node["craft"="coffee_roaster"](around:${radius},${lat},${lon});
-        node["roaster"="yes"](around:${radius},${lat},${lon});
-        node["shop"="coffee"](around:${radius},${lat},${lon});
-        node["amenity"="cafe"](around:${radius},${lat},${lon});
-        way["craft"="coffee_roaster"](around:${radius},${lat},${lon});
-        way["roaster"="yes"](around:${radius},${lat},${lon});
-        way["shop"="coffee"](around:${radius},${lat},${lon});
-        way["amenity"="cafe"](around:${radius},${lat},${lon});
-      );
-      out center meta;
-    `.replace(/\s+/g, ' ').trim()
-
-    const response = await fetch('https://overpass-api.de/api/interpreter', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: `data=${encodeURIComponent(query)}`,
-    })
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch from OSM')
-    }
-
-    const data = await response.json()
-
-    if (!data.elements || !Array.isArray(data.elements)) {
-      throw new Error('Invalid response from OSM API')
-    }
-
-    // Process results - filter for roasters
-    const roasters: CoffeeRoaster[] = data.elements
-        .map((element: any, index: number) => {
-          const center = element.center || { lat: element.lat, lon: element.lon }
-          
-          if (!center.lat || !center.lon) {
-            return null
-          }
-
-              const name = sanitizeApiResponse(
-                element.tags?.name || 
-                element.tags?.['addr:housenumber'] || 
-                '',
-                100
-              )
-
-              // Skip places with no name or "Unnamed" in the name
-              if (!name || name.toLowerCase().includes('unnamed')) {
-                return null
-              }
-
-              const brand = sanitizeApiResponse(element.tags?.brand, 100)
-
-              // Filter out corporate chains
-              if (isCorporateChain(name, brand)) {
-                return null
-              }
-
-              // Filter out convenience stores and gas stations
-              if (isConvenienceStoreOrGasStation(name, element.tags)) {
-                return null
-              }
-
-              // Filter for coffee roasters only
-              if (!isCoffeeRoaster(name, element.tags)) {
-                return null
-              }
-
-          const distance = calculateDistance(lat, lon, center.lat, center.lon)
-
-          return {
-            id: element.id || index,
-            name,
-            lat: center.lat,
-            lon: center.lon,
-            distance,
-            source: 'OSM',
-            tags: {
-              'addr:street': sanitizeApiResponse(element.tags?.['addr:street'], 100),
-              'addr:city': sanitizeApiResponse(element.tags?.['addr:city'], 100),
-              'addr:housenumber': sanitizeApiResponse(element.tags?.['addr:housenumber'], 20),
-              'addr:postcode': sanitizeApiResponse(element.tags?.['addr:postcode'], 20),
-              phone: sanitizeApiResponse(element.tags?.phone, 50),
-              website: sanitizeApiResponse(element.tags?.website, 200),
-            },
-          }
-        })
-        .filter((roaster: CoffeeRoaster | null): roaster is CoffeeRoaster => roaster !== null)
-
-    return roasters
-  }
-
-  // Fetch coffee roasters from Google Places API
-  const fetchGoogleCoffeeRoasters = async (lat: number, lon: number, radius: number): Promise<CoffeeRoaster[]> => {
-    try {
-      const response = await fetch(
-        `/api/google-places-search?latitude=${lat}&longitude=${lon}&radius=${radius}&searchType=coffee`
-      )
-
-      if (!response.ok) {
-        // If Google Places API is not configured, return empty array (don't fail the whole search)
-        if (response.status === 500) {
-          return []
-        }
-        // Handle rate limiting gracefully - still return OSM results
-        if (response.status === 429) {
-          const errorData = await response.json().catch(() => ({}))
-          console.warn('Google Places API rate limit reached:', errorData.message || 'Too many requests')
-          // Return empty array so OSM results still show
-          return []
-        }
-        throw new Error('Failed to fetch from Google Places')
-      }
-
-      const data = await response.json()
-      const places = data.results || []
-
-          // Convert Google Places results to CoffeeRoaster format
-          const roasters: CoffeeRoaster[] = places
-            .map((place: any) => {
-              const name = sanitizeApiResponse(place.name || '', 100)
-              
-              // Skip places with no name or "Unnamed" in the name
-              if (!name || name.toLowerCase().includes('unnamed')) {
-                return null
-              }
-
-              // Filter out corporate chains
-              const brand = sanitizeApiResponse(place.name, 100)
-              if (isCorporateChain(name, brand)) {
-                return null
-              }
-
-              // Filter out convenience stores and gas stations
-              if (isConvenienceStoreOrGasStation(name, { types: place.types })) {
-                return null
-              }
-
-              // Filter for coffee roasters only
-              if (!isCoffeeRoaster(name, { types: place.types })) {
-                return null
-              }
-
-          const location = place.geometry?.location || {}
-          const placeLat = location.lat || 0
-          const placeLon = location.lng || 0
-          
-          const distance = calculateDistance(lat, lon, placeLat, placeLon)
-
-          // Format address from Google Places data
-          // Use formatted_address if available (most reliable), otherwise piece together from components
-          const formattedAddress = place.formatted_address || place.vicinity || ''
-          const addressComponents = place.address_components || []
-          const streetNumber = addressComponents.find((comp: any) => comp.types.includes('street_number'))?.long_name || ''
-          const route = addressComponents.find((comp: any) => comp.types.includes('route'))?.long_name || ''
-          const city = addressComponents.find((comp: any) => comp.types.includes('locality'))?.long_name || ''
-          const postalCode = addressComponents.find((comp: any) => comp.types.includes('postal_code'))?.long_name || ''
-
-          return {
-            id: place.place_id || `google-${place.name}`,
-            name,
-            lat: placeLat,
-            lon: placeLon,
-            distance,
-            source: 'Google',
-            tags: {
-              'formatted_address': sanitizeApiResponse(formattedAddress, 200),
-              'addr:street': sanitizeApiResponse(route, 100),
-              'addr:city': sanitizeApiResponse(city, 100),
-              'addr:housenumber': sanitizeApiResponse(streetNumber, 20),
-              'addr:postcode': sanitizeApiResponse(postalCode, 20),
-              phone: sanitizeApiResponse(place.formatted_phone_number || place.international_phone_number, 50),
-              website: sanitizeApiResponse(place.website, 200),
-            },
-          }
-        })
-        .filter((roaster: CoffeeRoaster | null): roaster is CoffeeRoaster => roaster !== null)
-
-      return roasters
-    } catch (err) {
-      console.error('Google Places API error:', err)
-      // Return empty array if Google Places fails (don't break the whole search)
-      return []
-    }
-  }
-
-  // Deduplicate coffee roasters by name
-  const deduplicateCoffeeRoasters = (roasters: CoffeeRoaster[]): CoffeeRoaster[] => {
-    const seen = new Map<string, CoffeeRoaster>()
-    
-    for (const roaster of roasters) {
-      const key = roaster.name.toLowerCase().trim()
-      const existing = seen.get(key)
-      
-      if (!existing) {
-        seen.set(key, roaster)
-      } else {
-        // If we have a duplicate, prefer the one with more complete data
-        // (Google Places usually has better data than OSM)
-        if (roaster.tags?.phone && !existing.tags?.phone) {
-          seen.set(key, roaster)
-        } else if (roaster.tags?.website && !existing.tags?.website) {
-          seen.set(key, roaster)
-        }
-      }
-    }
-    
-    return Array.from(seen.values())
-  }
-
-  // Handle button click - request geolocation
-  const handleFindCoffeeRoasters = () => {
-    if (!navigator.geolocation) {
-      setError('Geolocation is not supported by your browser')
-      setIsModalOpen(true)
-      setSearchMode('coffee')
-      return
-    }
-
-    setIsModalOpen(true)
-    setIsLoading(true)
-    setError(null)
-    setCoffeeRoasters([])
-    setSearchMode('coffee')
-
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
-        const { latitude, longitude } = position.coords
-        
-        if (!isValidCoordinates(latitude, longitude)) {
-          setError('Invalid geolocation coordinates received')
-          setIsLoading(false)
-          return
-        }
-
-        fetchCoffeeRoasters(latitude, longitude)
-      },
-      (err) => {
-        setIsLoading(false)
-        if (err.code === err.PERMISSION_DENIED) {
-          setError('Location access denied. Please enable location permissions to find nearby coffee roasters.')
-        } else if (err.code === err.POSITION_UNAVAILABLE) {
-          setError('Location unavailable. Please try again.')
-        } else {
-          setError('Location timeout. Please try again.')
-        }
-      },
-      { timeout: 10000 }
-    )
-  }
-
   // Close modal and clean up
   const handleCloseModal = () => {
+    searchIdRef.current++
     setIsModalOpen(false)
+    setIsLoading(false)
     setError(null)
-    setCoffeeRoasters([])
-    setDrinkPlaces([])
+    setPlaces([])
     setSearchMode('coffee')
+    setDrinkTypes([])
+    setSearchParams(previous => {
+      const next = new URLSearchParams(previous)
+      for (const param of SEARCH_PARAMS) {
+        next.delete(param)
+      }
+      return next
+    }, { replace: true })
   }
 
   // Handle buy coffee modal
@@ -1375,27 +370,16 @@ const Coffee = () => {
     setIsBuyCoffeeModalOpen(false)
   }
 
-  // Format address from tags
-  const formatAddress = (place: CoffeeRoaster | DrinkPlace): string => {
-    // First try formatted_address (from Google Places API) - most reliable
-    if (place.tags?.['formatted_address']) {
-      return place.tags['formatted_address']
+  // Format a place's address for display and map searches
+  const formatAddress = (place: Place): string => {
+    // First try the formatted address (from Google Places API) - most reliable
+    if (place.address.formatted) {
+      return place.address.formatted
     }
     
     // Otherwise, piece together from address components
-    const parts: string[] = []
-    if (place.tags?.['addr:housenumber']) {
-      parts.push(place.tags['addr:housenumber'])
-    }
-    if (place.tags?.['addr:street']) {
-      parts.push(place.tags['addr:street'])
-    }
-    if (place.tags?.['addr:city']) {
-      parts.push(place.tags['addr:city'])
-    }
-    if (place.tags?.['addr:postcode']) {
-      parts.push(place.tags['addr:postcode'])
-    }
+    const { housenumber, street, city, postcode } = place.address
+    const parts = [housenumber, street, city, postcode].filter((part): part is string => Boolean(part))
     return parts.length > 0 ? parts.join(' ') : 'Address not available'
   }
 
@@ -1419,18 +403,52 @@ const Coffee = () => {
           <h1 className="page-title">Find Local Coffee Roasters</h1>
           <button 
             className="email-button coffee-section-button"
-            onClick={handleFindCoffeeRoasters}
+            onClick={() => searchNearby('coffee')}
           >
             Find Nearby!
           </button>
 
           <button 
             className="email-button coffee-section-button"
-            onClick={handleDontLikeCoffee}
+            onClick={() => searchNearby('drinks')}
           >
             Not Coffee!
           </button>
 
+          <form
+            className="coffee-location-search"
+            onSubmit={(e) => {
+              e.preventDefault()
+              searchLocation('coffee')
+            }}
+          >
+            <label htmlFor="coffee-location-input" className="coffee-location-label">
+              Or search somewhere else
+            </label>
+            <input
+              id="coffee-location-input"
+              type="text"
+              className="coffee-location-input"
+              value={locationQuery}
+              onChange={(e) => setLocationQuery(e.target.value)}
+              placeholder="City, address or neighborhood"
+              maxLength={200}
+            />
+            <div className="coffee-location-actions">
+              <button type="submit" className="email-button" disabled={!locationQuery.trim()}>
+                Coffee There
+              </button>
+              <button
+                type="button"
+                className="email-button"
+                onClick={() => searchLocation('drinks')}
+                disabled={!locationQuery.trim()}
+              >
+                Drinks There
+              </button>
+            </div>
+          </form>
+
           <button 
             className="email-button coffee-section-button"
             onClick={handleOpenBuyCoffeeModal}
@@ -1456,7 +474,14 @@ const Coffee = () => {
                 <h2 className="coffee-modal-title">
                   {searchMode === 'coffee' ? 'Local Coffee Roasters' : 'Tea, Smoothies & Drinks'}
                 </h2>
-                <p className="coffee-modal-subtitle">Searching within 5 miles</p>
+                <p className="coffee-modal-subtitle">
+                  Searching within {filters.radiusMiles} {filters.radiusMiles === 1 ? 'mile' : 'miles'}{nearParam ? ` of ${nearParam}` : ''}
+                </p>
+                {latParam && lonParam && (
+                  <button type="button" className="coffee-modal-share" onClick={handleCopyLink}>
+                    {linkCopied ? 'Link Copied!' : 'Copy Link'}
+                  </button>
+                )}
               </div>
               <button 
                 className="coffee-modal-close"
@@ -1466,6 +491,65 @@ const Coffee = () => {
                 <Icon name="x" size={24} ariaHidden={true} />
               </button>
             </div>
+            {latParam && lonParam && (
+              <div className="coffee-filters">
+                <label className="coffee-filter">
+                  Within
+                  <select
+                    value={filters.radiusMiles}
+                    onChange={(e) => setFilterParam('radius', e.target.value === String(DEFAULT_RADIUS_MILES) ? null : e.target.value)}
+                  >
+                    {RADIUS_OPTIONS_MILES.map(miles => (
+                      <option key={miles} value={miles}>{miles} {miles === 1 ? 'mile' : 'miles'}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="coffee-filter">
+                  Sort by
+                  <select
+                    value={filters.sort}
+                    onChange={(e) => setFilterParam('sort', e.target.value === 'distance' ? null : e.target.value)}
+                  >
+                    {SORT_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                {searchMode === 'drinks' && (drinkTypes.length > 0 || filters.drinkType) && (
+                  <label className="coffee-filter">
+                    Drink
+                    <select
+                      value={filters.drinkType ?? ''}
+                      onChange={(e) => setFilterParam('drinkType', e.target.value || null)}
+                    >
+                      <option value="">Any</option>
+                      {drinkTypes.map(drinkType => (
+                        <option key={drinkType} value={drinkType}>{drinkType}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <label
+                  className="coffee-filter coffee-filter-toggle"
+                  title="Opening hours come from Google. Places it doesn't know stay in, marked hours unknown."
+                >
+                  <input
+                    type="checkbox"
+                    checked={filters.openNow}
+                    onChange={(e) => setFilterParam('openNow', e.target.checked ? '1' : null)}
+                  />
+                  Open now
+                </label>
+                <label className="coffee-filter coffee-filter-toggle">
+                  <input
+                    type="checkbox"
+                    checked={filters.includeChains}
+                    onChange={(e) => setFilterParam('chains', e.target.checked ? 'include' : null)}
+                  />
+                  Include chains
+                </label>
+              </div>
+            )}
             <div className="coffee-modal-content">
               {isLoading && (
                 <div className="coffee-modal-loading">
@@ -1481,61 +565,21 @@ const Coffee = () => {
                   <p>{error}</p>
                 </div>
               )}
-              {!isLoading && !error && searchMode === 'coffee' && coffeeRoasters.length === 0 && (
-                <div className="coffee-modal-empty">
-                  <p>No coffee roasters found nearby. Try expanding your search area.</p>
-                </div>
-              )}
-              {!isLoading && !error && searchMode === 'drinks' && drinkPlaces.length === 0 && (
+              {!isLoading && !error && places.length === 0 && (
                 <div className="coffee-modal-empty">
-                  <p>No drink places found nearby. Try expanding your search area.</p>
+                  <p>
+                    {searchMode === 'coffee'
+                      ? 'No coffee roasters found nearby. Try expanding your search area.'
+                      : 'No drink places found nearby. Try expanding your search area.'}
+                  </p>
+                  {filters.openNow && (
+                    <p>Open now leaves out places Google doesn't list as open right now.</p>
+                  )}
                 </div>
               )}
-              {!isLoading && !error && searchMode === 'coffee' && coffeeRoasters.length > 0 && (
+              {!isLoading && !error && places.length > 0 && (
                 <ul className="coffee-shops-list">
-                  {coffeeRoasters.map((roaster) => (
-                    <li 
-                      key={roaster.id} 
-                      className="coffee-shop-item"
-                      onClick={() => openInMaps(roaster.lat, roaster.lon, roaster.name, formatAddress(roaster))}
-                      role="button"
-                      tabIndex={0}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter' || e.key === ' ') {
-                          e.preventDefault()
-                          openInMaps(roaster.lat, roaster.lon, roaster.name, formatAddress(roaster))
-                        }
-                      }}
-                      aria-label={`Open ${roaster.name} in maps`}
-                    >
-                      <div className="coffee-shop-name">{roaster.name}</div>
-                      <div className="coffee-shop-address">{formatAddress(roaster)}</div>
-                      {roaster.tags?.phone && (
-                        <div className="coffee-shop-phone">
-                          {roaster.tags.phone.split(';').map((phone, idx) => (
-                            <div key={idx} className="coffee-shop-phone-number">
-                              📞 {phone.trim()}
-                            </div>
-                          ))}
-                        </div>
-                      )}
-                      {roaster.distance !== undefined && (
-                        <div className="coffee-shop-distance">
-                          📍 {formatDistance(roaster.distance)} away
-                        </div>
-                      )}
-                      {roaster.source && (
-                        <div className="coffee-shop-source">
-                          {roaster.source === 'OSM' ? '🗺️ OSM' : '🔍 Google'}
-                        </div>
-                      )}
-                    </li>
-                  ))}
-                </ul>
-              )}
-              {!isLoading && !error && searchMode === 'drinks' && drinkPlaces.length > 0 && (
-                <ul className="coffee-shops-list">
-                  {drinkPlaces.map((place) => (
+                  {places.map((place) => (
                     <li 
                       key={place.id} 
                       className="coffee-shop-item"
@@ -1549,33 +593,41 @@ const Coffee = () => {
                         }
                       }}
                       aria-label={`Open ${place.name} in maps`}
+                      title={place.explanation}
                     >
                       <div className="coffee-shop-name">{place.name}</div>
                       <div className="coffee-shop-address">{formatAddress(place)}</div>
-                      {place.drinkTypes && place.drinkTypes.length > 0 && (
+                      {(place.rating !== undefined || place.openNow || filters.openNow) && (
+                        <div className="coffee-shop-details">
+                          {place.rating !== undefined && (
+                            <span>★ {place.rating.toFixed(1)}{place.ratingCount ? ` (${place.ratingCount})` : ''}</span>
+                          )}
+                          {place.openNow && <span className="coffee-shop-open">Open now</span>}
+                          {filters.openNow && place.openNow === undefined && (
+                            <span className="coffee-shop-hours-unknown">Hours unknown</span>
+                          )}
+                        </div>
+                      )}
+                      {place.drinkTypes.length > 0 && (
                         <div className="coffee-shop-drinks">
                           🥤 {place.drinkTypes.join(', ')}
                         </div>
                       )}
-                      {place.tags?.phone && (
-                        <div className="coffee-shop-phone">
-                          {place.tags.phone.split(';').map((phone, idx) => (
+                      {place.phone && (
+                        <div className="coffee-shop-phone" title={`Phone number from ${place.fieldSources.phone}`}>
+                          {place.phone.split(';').map((phone, idx) => (
                             <div key={idx} className="coffee-shop-phone-number">
                               📞 {phone.trim()}
                             </div>
                           ))}
                         </div>
                       )}
-                      {place.distance !== undefined && (
-                        <div className="coffee-shop-distance">
-                          📍 {formatDistance(place.distance)} away
-                        </div>
-                      )}
-                      {place.source && (
-                        <div className="coffee-shop-source">
-                          {place.source === 'OSM' ? '🗺️ OSM' : '🔍 Google'}
-                        </div>
-                      )}
+                      <div className="coffee-shop-distance">
+                        📍 {formatDistance(place.distance)} away
+                      </div>
+                      <div className="coffee-shop-source">
+                        {place.sources.map(source => (source === 'OSM' ? '🗺️ OSM' : '🔍 Google')).join(' · ')}
+                      </div>
                     </li>
                   ))}
                 </ul>
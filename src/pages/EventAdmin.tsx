@@ -0,0 +1,716 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import Layout from '../components/Layout'
+import { useNoIndex } from '../hooks/useNoIndex'
+import { DEFAULT_EVENT_ID, eventApiUrl, formatPollTime, getRecapPath, type PollOption, type PollStatus, type PublicEvent } from '../utils/events'
+import type { Playlist } from '../hooks/useLiveUpdates'
+import './PageStyles.css'
+import './BirthdayInvite.css'
+import './EventAdmin.css'
+
+interface AdminVoter {
+  id: string
+  name: string
+  restaurantId: string
+  choices: string[]
+  guests: number
+  votedAt: number
+}
+
+// Keyed by the author's voter id; revealedAt is when the host showed players who wrote it
+interface GameSubmission {
+  playerName: string
+  submittedAt: number
+  revealedAt: number | null
+}
+
+interface TriviaQuestion {
+  question: string
+  choices: string[]
+  correctIndex: number
+}
+
+// The loaded trivia questions and how far the host has got (answers keyed by voter, then question index)
+interface TriviaRound {
+  questions: TriviaQuestion[]
+  secondsPerQuestion: number
+  current: number // -1 before the start, questions.length once finished
+  players: Record<string, { playerName: string; answers: Record<string, { choice: number; points: number }> }>
+}
+
+// Response of GET /api/event-admin (also returned after every change)
+interface AdminData {
+  exportedAt: string
+  event: Omit<PublicEvent, 'requiresPassword'>
+  poll: {
+    restaurants: Array<PollOption & { votes: number }>
+    status: PollStatus
+    opensAt?: string
+    closesAt?: string
+  }
+  closeEmail: { enabled: boolean; sentAt: number | null } // Results email (events with pollCloseEmail)
+  voters: AdminVoter[]
+  comments: Record<string, string[]>
+  games: {
+    whichOnesFalse: Record<string, GameSubmission>
+    whichOnesFalseRevealed: boolean
+    goat: Record<string, GameSubmission>
+    trivia: TriviaRound
+  }
+  playlist: Playlist
+}
+
+// The host token is kept for this browser tab only
+const ADMIN_TOKEN_KEY = 'event-admin-token'
+
+const GAMES = [
+  { type: 'which-ones-false', label: "Which One's False", key: 'whichOnesFalse' },
+  { type: 'goat', label: 'GOAT Movies', key: 'goat' },
+] as const
+
+const POLL_STATUS_LABELS: Record<PollStatus, string> = {
+  scheduled: 'Not open yet',
+  open: 'Open',
+  closed: 'Closed',
+}
+
+// <input type="datetime-local"> works in the browser's local time without a zone
+const toLocalInput = (time?: string): string => {
+  if (!time) return ''
+  const date = new Date(time)
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+  return local.toISOString().substring(0, 16)
+}
+
+const fromLocalInput = (value: string): string | null => (value ? new Date(value).toISOString() : null)
+
+// Where the host is in the trivia game, e.g. "Question 2 of 10 · 5 answered"
+const triviaProgress = (round: TriviaRound): string => {
+  const total = round.questions.length
+  if (total === 0) return 'No questions loaded'
+  if (round.current < 0) return `${total} questions loaded, not started`
+  if (round.current >= total) return 'Finished'
+  const answered = Object.values(round.players).filter(player => player.answers[round.current]).length
+  return `Question ${round.current + 1} of ${total} · ${answered} answered`
+}
+
+const EventAdmin = () => {
+  useNoIndex()
+  const { eventId: eventIdParam } = useParams()
+  const eventId = eventIdParam?.toLowerCase() || DEFAULT_EVENT_ID
+
+  const [adminToken, setAdminToken] = useState<string | null>(() => sessionStorage.getItem(ADMIN_TOKEN_KEY))
+  const [tokenInput, setTokenInput] = useState('')
+  const [data, setData] = useState<AdminData | null>(null)
+  const [options, setOptions] = useState<PollOption[]>([])
+  const [opensAtInput, setOpensAtInput] = useState('')
+  const [closesAtInput, setClosesAtInput] = useState('')
+  const [triviaInput, setTriviaInput] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const signOut = useCallback(() => {
+    sessionStorage.removeItem(ADMIN_TOKEN_KEY)
+    setAdminToken(null)
+    setData(null)
+  }, [])
+
+  // Sends an admin request and refreshes the page data from the response
+  const adminRequest = useCallback(async (method: string, params: Record<string, string> = {}, body?: unknown) => {
+    if (!adminToken) return
+
+    setIsBusy(true)
+    setError(null)
+
+    try {
+      const response = await fetch(eventApiUrl('/api/event-admin', eventId, params), {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${adminToken}`,
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      })
+      const result = await response.json()
+
+      if (response.status === 401) {
+        signOut()
+        setError('That host token was not accepted')
+        return
+      }
+      if (!response.ok) {
+        setError(result.message || result.error || 'Request failed')
+        return
+      }
+
+      const nextData: AdminData = method === 'GET' ? result : result.data
+      setData(nextData)
+      setOptions(nextData.poll.restaurants.map(({ id, name, description, link }) => ({ id, name, description, link })))
+      setOpensAtInput(toLocalInput(nextData.poll.opensAt))
+      setClosesAtInput(toLocalInput(nextData.poll.closesAt))
+    } catch (requestError) {
+      console.error('Error calling admin API:', requestError)
+      setError('Request failed. Please try again.')
+    } finally {
+      setIsBusy(false)
+    }
+  }, [adminToken, eventId, signOut])
+
+  useEffect(() => {
+    if (adminToken) {
+      adminRequest('GET')
+    }
+  }, [adminToken, adminRequest])
+
+  const handleTokenSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const token = tokenInput.trim()
+    if (!token) return
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, token)
+    setAdminToken(token)
+    setTokenInput('')
+  }
+
+  const handleExport = () => {
+    if (!data) return
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${eventId}-export-${data.exportedAt.substring(0, 10)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const confirmAndDelete = (message: string, params: Record<string, string>) => {
+    if (window.confirm(message)) {
+      adminRequest('DELETE', params)
+    }
+  }
+
+  // Accepts a list of questions or { questions, secondsPerQuestion }; the API checks the rest
+  const handleTriviaLoad = () => {
+    let questionSet: unknown
+    try {
+      questionSet = JSON.parse(triviaInput)
+    } catch {
+      setError('The trivia questions are not valid JSON')
+      return
+    }
+    adminRequest('PUT', { resource: 'trivia' }, Array.isArray(questionSet) ? { questions: questionSet } : questionSet)
+  }
+
+  const updateOption = (index: number, field: keyof PollOption, value: string) => {
+    setOptions(current => current.map((option, i) => (i === index ? { ...option, [field]: value } : option)))
+  }
+
+  const restaurantName = (restaurantId: string) =>
+    data?.poll.restaurants.find(r => r.id === restaurantId)?.name || restaurantId
+
+  // Host token form
+  if (!adminToken) {
+    return (
+      <Layout>
+        <div className="page-container">
+          <div className="password-protection-container">
+            <div className="password-protection-form">
+              <h2 className="password-protection-title">Host Admin</h2>
+              <p className="password-protection-description">Enter the host token to manage this event</p>
+              <form onSubmit={handleTokenSubmit} className="password-form">
+                <div className="password-form-group">
+                  <label htmlFor="admin-token-input" className="password-label">
+                    Host token
+                  </label>
+                  <input
+                    id="admin-token-input"
+                    type="password"
+                    value={tokenInput}
+                    onChange={(e) => setTokenInput(e.target.value)}
+                    className={`password-input ${error ? 'error' : ''}`}
+                    autoFocus
+                    aria-invalid={error ? 'true' : 'false'}
+                    aria-describedby={error ? 'admin-token-error' : undefined}
+                  />
+                  {error && (
+                    <p id="admin-token-error" className="password-error" role="alert">
+                      {error}
+                    </p>
+                  )}
+                </div>
+                <button type="submit" className="password-submit-button" disabled={!tokenInput.trim()}>
+                  Enter
+                </button>
+              </form>
+            </div>
+          </div>
+        </div>
+      </Layout>
+    )
+  }
+
+  const trivia = data?.games.trivia
+  const playlist = data?.playlist
+  const currentQuestion = trivia?.questions[trivia.current]
+  const commentEntries = data
+    ? Object.entries(data.comments).flatMap(([name, comments]) => comments.map((comment, index) => ({ name, comment, index })))
+    : []
+
+  return (
+    <Layout>
+      <div className="page-container">
+        <div className="event-admin">
+          <div className="event-admin-header">
+            <h1 className="page-title">{data ? data.event.title : 'Loading...'}</h1>
+            <div className="event-admin-header-actions">
+              <button type="button" className="comment-change-name-button" onClick={handleExport} disabled={!data}>
+                Export JSON
+              </button>
+              <Link to={getRecapPath(eventId)} className="comment-change-name-button">
+                Recap
+              </Link>
+              <button type="button" className="comment-change-name-button" onClick={signOut}>
+                Sign Out
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="event-admin-error" role="alert">{error}</p>}
+
+          {data && (
+            <>
+              {/* Restaurant options */}
+              <div className="event-admin-section">
+                <div className="event-admin-section-header">
+                  <h2 className="event-admin-section-title">Restaurants</h2>
+                  <button
+                    type="button"
+                    className="comment-change-name-button"
+                    onClick={() => setOptions(current => [...current, { id: `option-${Date.now()}`, name: '' }])}
+                  >
+                    Add Restaurant
+                  </button>
+                </div>
+                <div className="event-admin-list">
+                  {options.map((option, index) => (
+                    <div key={option.id} className="event-admin-row">
+                      <div className="event-admin-option-fields">
+                        <input
+                          className="password-input"
+                          value={option.name}
+                          onChange={(e) => updateOption(index, 'name', e.target.value)}
+                          placeholder="Name"
+                          aria-label="Restaurant name"
+                        />
+                        <input
+                          className="password-input"
+                          value={option.description || ''}
+                          onChange={(e) => updateOption(index, 'description', e.target.value)}
+                          placeholder="Description"
+                          aria-label="Restaurant description"
+                        />
+                        <input
+                          className="password-input"
+                          value={option.link || ''}
+                          onChange={(e) => updateOption(index, 'link', e.target.value)}
+                          placeholder="Website"
+                          aria-label="Restaurant website"
+                        />
+                        <span className="event-admin-row-meta">
+                          {data.poll.restaurants.find(r => r.id === option.id)?.votes || 0} people
+                        </span>
+                      </div>
+                      <button
+                        type="button"
+                        className="event-admin-danger-button"
+                        onClick={() => setOptions(current => current.filter((_, i) => i !== index))}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="comment-footer">
+                  <span className="comment-character-count">Changes are saved when you press Save</span>
+                  <button
+                    type="button"
+                    className="comment-submit-button"
+                    onClick={() => adminRequest('PUT', { resource: 'restaurants' }, { restaurants: options })}
+                    disabled={isBusy || options.some(option => !option.name.trim())}
+                  >
+                    Save Restaurants
+                  </button>
+                </div>
+              </div>
+
+              {/* Voting schedule */}
+              <div className="event-admin-section">
+                <div className="event-admin-section-header">
+                  <h2 className="event-admin-section-title">Voting: {POLL_STATUS_LABELS[data.poll.status]}</h2>
+                  {data.poll.status === 'open' ? (
+                    <button
+                      type="button"
+                      className="event-admin-danger-button"
+                      onClick={() => {
+                        if (window.confirm('Close the poll now? The current leader becomes the winner.')) {
+                          adminRequest('PUT', { resource: 'poll-schedule' }, { opensAt: null, closesAt: new Date().toISOString() })
+                        }
+                      }}
+                      disabled={isBusy}
+                    >
+                      Close Now
+                    </button>
+                  ) : (
+                    <div className="event-admin-header-actions">
+                      {data.poll.status === 'closed' && data.closeEmail.enabled && !data.closeEmail.sentAt && (
+                        <button
+                          type="button"
+                          className="comment-submit-button"
+                          onClick={() => adminRequest('POST', { resource: 'poll-close-email' })}
+                          disabled={isBusy}
+                        >
+                          Email Results
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        className="comment-change-name-button"
+                        onClick={() => adminRequest('PUT', { resource: 'poll-schedule' }, { opensAt: null, closesAt: null })}
+                        disabled={isBusy}
+                      >
+                        Open Now
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="event-admin-schedule">
+                  <label className="event-admin-row-meta">
+                    Opens
+                    <input
+                      type="datetime-local"
+                      className="password-input"
+                      value={opensAtInput}
+                      onChange={(e) => setOpensAtInput(e.target.value)}
+                    />
+                  </label>
+                  <label className="event-admin-row-meta">
+                    Closes
+                    <input
+                      type="datetime-local"
+                      className="password-input"
+                      value={closesAtInput}
+                      onChange={(e) => setClosesAtInput(e.target.value)}
+                    />
+                  </label>
+                </div>
+                <div className="comment-footer">
+                  <span className="comment-character-count">
+                    {data.poll.closesAt
+                      ? `Closes ${formatPollTime(data.poll.closesAt, data.event.timeZone)}`
+                      : 'Leave a time empty for no limit'}
+                    {data.closeEmail.sentAt && ` · Results emailed ${new Date(data.closeEmail.sentAt).toLocaleString()}`}
+                  </span>
+                  <button
+                    type="button"
+                    className="comment-submit-button"
+                    onClick={() => adminRequest('PUT', { resource: 'poll-schedule' }, {
+                      opensAt: fromLocalInput(opensAtInput),
+                      closesAt: fromLocalInput(closesAtInput),
+                    })}
+                    disabled={isBusy}
+                  >
+                    Save Schedule
+                  </button>
+                </div>
+              </div>
+
+              {/* Voters */}
+              <div className="event-admin-section">
+                <div className="event-admin-section-header">
+                  <h2 className="event-admin-section-title">Voters ({data.voters.length})</h2>
+                  <button
+                    type="button"
+                    className="event-admin-danger-button"
+                    onClick={() => confirmAndDelete('Clear every vote? Restaurants and comments are kept.', { resource: 'votes' })}
+                    disabled={isBusy || data.voters.length === 0}
+                  >
+                    Reset Poll
+                  </button>
+                </div>
+                {data.voters.length > 0 ? (
+                  <div className="event-admin-list">
+                    {data.voters.map((voter) => (
+                      <div key={voter.id} className="event-admin-row">
+                        <div className="event-admin-row-main">
+                          <strong>{voter.name}</strong>
+                          {voter.guests > 0 && ` (+${voter.guests})`}
+                          <span className="event-admin-row-meta">
+                            {voter.choices.map(restaurantName).join(data.event.pollMode === 'ranked' ? ' › ' : ', ')} · {new Date(voter.votedAt).toLocaleString()}
+                          </span>
+                        </div>
+                        <button
+                          type="button"
+                          className="event-admin-danger-button"
+                          onClick={() => confirmAndDelete(`Remove ${voter.name}'s vote and free up their name?`, { resource: 'voter', voterId: voter.id })}
+                          disabled={isBusy}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="event-admin-empty">No votes yet</p>
+                )}
+              </div>
+
+              {/* Comments */}
+              <div className="event-admin-section">
+                <div className="event-admin-section-header">
+                  <h2 className="event-admin-section-title">Comments ({commentEntries.length})</h2>
+                </div>
+                {commentEntries.length > 0 ? (
+                  <div className="event-admin-list">
+                    {commentEntries.map(({ name, comment, index }) => (
+                      <div key={`${name}-${index}`} className="event-admin-row">
+                        <div className="event-admin-row-main">
+                          <strong>{name}</strong>
+                          <span className="event-admin-row-meta">{comment}</span>
+                        </div>
+                        <button
+                          type="button"
+                          className="event-admin-danger-button"
+                          onClick={() => confirmAndDelete(`Delete this comment from ${name}?`, { resource: 'comment', name, index: String(index) })}
+                          disabled={isBusy}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="event-admin-empty">No comments yet</p>
+                )}
+              </div>
+
+              {/* Games */}
+              <div className="event-admin-section">
+                <div className="event-admin-section-header">
+                  <h2 className="event-admin-section-title">Games</h2>
+                  <button
+                    type="button"
+                    className="event-admin-danger-button"
+                    onClick={() => confirmAndDelete('Clear all game submissions?', { resource: 'games' })}
+                    disabled={isBusy}
+                  >
+                    Clear All Games
+                  </button>
+                </div>
+                <div className="event-admin-list">
+                  {GAMES.map((game) => {
+                    const submissions = Object.values(data.games[game.key])
+                    const hiddenAuthors = Object.entries(data.games[game.key]).filter(([, submission]) => submission.revealedAt === null)
+                    return (
+                      <div key={game.type} className="event-admin-row">
+                        <div className="event-admin-row-main">
+                          <strong>{game.label}</strong>
+                          <span className="event-admin-row-meta">
+                            {submissions.length > 0
+                              ? submissions.map(submission => submission.playerName).join(', ')
+                              : 'No submissions'}
+                          </span>
+                          {hiddenAuthors.length > 0 && (
+                            <div className="event-admin-authors">
+                              {hiddenAuthors.map(([voterId, submission]) => (
+                                <button
+                                  key={voterId}
+                                  type="button"
+                                  className="comment-change-name-button"
+                                  onClick={() => {
+                                    if (window.confirm(`Show everyone that ${submission.playerName} wrote their entry? Guesses on it are scored and lock.`)) {
+                                      adminRequest('POST', { resource: 'reveal-author', gameType: game.type, voterId })
+                                    }
+                                  }}
+                                  disabled={isBusy}
+                                >
+                                  Reveal {submission.playerName}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <div className="event-admin-header-actions">
+                          {game.type === 'which-ones-false' && !data.games.whichOnesFalseRevealed && (
+                            <button
+                              type="button"
+                              className="comment-submit-button"
+                              onClick={() => {
+                                if (window.confirm('Reveal the answers? Every player sees which statements were false and the scoreboard, and guessing ends.')) {
+                                  adminRequest('POST', { resource: 'games-reveal' })
+                                }
+                              }}
+                              disabled={isBusy || submissions.length === 0}
+                            >
+                              Reveal Answers
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            className="event-admin-danger-button"
+                            onClick={() => confirmAndDelete(`Clear all ${game.label} submissions?`, { resource: 'games', gameType: game.type })}
+                            disabled={isBusy || submissions.length === 0}
+                          >
+                            Clear
+                          </button>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+
+              {/* Trivia */}
+              {trivia && (
+                <div className="event-admin-section">
+                  <div className="event-admin-section-header">
+                    <h2 className="event-admin-section-title">Trivia: {triviaProgress(trivia)}</h2>
+                    <div className="event-admin-header-actions">
+                      {trivia.questions.length > 0 && trivia.current < trivia.questions.length && (
+                        <button
+                          type="button"
+                          className="comment-submit-button"
+                          onClick={() => adminRequest('POST', { resource: 'trivia-next' })}
+                          disabled={isBusy}
+                        >
+                          {trivia.current < 0
+                            ? 'Start Trivia'
+                            : trivia.current === trivia.questions.length - 1 ? 'Finish Trivia' : 'Next Question'}
+                        </button>
+                      )}
+                      {trivia.current >= 0 && (
+                        <button
+                          type="button"
+                          className="comment-change-name-button"
+                          onClick={() => {
+                            if (window.confirm('Start the trivia over? Every answer and score is cleared.')) {
+                              adminRequest('PUT', { resource: 'trivia' }, {
+                                questions: trivia.questions,
+                                secondsPerQuestion: trivia.secondsPerQuestion,
+                              })
+                            }
+                          }}
+                          disabled={isBusy}
+                        >
+                          Restart
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {currentQuestion && (
+                    <p className="event-admin-empty">
+                      {currentQuestion.question} (answer: {currentQuestion.choices[currentQuestion.correctIndex]})
+                    </p>
+                  )}
+                  <textarea
+                    className="comment-textarea"
+                    value={triviaInput}
+                    onChange={(e) => setTriviaInput(e.target.value)}
+                    placeholder={'{ "secondsPerQuestion": 20, "questions": [{ "question": "...", "choices": ["A", "B", "C"], "correctIndex": 0 }] }'}
+                    rows={6}
+                    aria-label="Trivia questions as JSON"
+                  />
+                  <div className="comment-footer">
+                    <span className="comment-character-count">Loading questions starts the game over</span>
+                    <button
+                      type="button"
+                      className="comment-submit-button"
+                      onClick={handleTriviaLoad}
+                      disabled={isBusy || !triviaInput.trim()}
+                    >
+                      Load Questions
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Playlist */}
+              {playlist && (
+                <div className="event-admin-section">
+                  <div className="event-admin-section-header">
+                    <h2 className="event-admin-section-title">Playlist ({playlist.upNext.length} up next)</h2>
+                    <div className="event-admin-header-actions">
+                      <button
+                        type="button"
+                        className="comment-submit-button"
+                        onClick={() => adminRequest('POST', { resource: 'playlist-next' })}
+                        disabled={isBusy || (!playlist.nowPlaying && playlist.upNext.length === 0)}
+                      >
+                        {playlist.upNext.length > 0 ? 'Play Next' : 'Stop'}
+                      </button>
+                      <button
+                        type="button"
+                        className="comment-change-name-button"
+                        onClick={() => adminRequest('GET')}
+                        disabled={isBusy}
+                      >
+                        Refresh
+                      </button>
+                      <button
+                        type="button"
+                        className="event-admin-danger-button"
+                        onClick={() => confirmAndDelete('Clear the whole playlist and stop the music?', { resource: 'playlist' })}
+                        disabled={isBusy || (!playlist.nowPlaying && playlist.upNext.length === 0)}
+                      >
+                        Clear
+                      </button>
+                    </div>
+                  </div>
+                  {playlist.nowPlaying ? (
+                    <div className="event-admin-now-playing">
+                      <iframe
+                        key={playlist.nowPlaying.videoId}
+                        className="event-admin-player"
+                        src={`https://www.youtube-nocookie.com/embed/${playlist.nowPlaying.videoId}?autoplay=1`}
+                        title={playlist.nowPlaying.title}
+                        allow="autoplay; encrypted-media; picture-in-picture"
+                        allowFullScreen
+                      />
+                      <p className="event-admin-empty">
+                        Now playing: <strong>{playlist.nowPlaying.title}</strong> (added by {playlist.nowPlaying.addedBy})
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="event-admin-empty">Nothing playing</p>
+                  )}
+                  {playlist.upNext.length > 0 && (
+                    <div className="event-admin-list">
+                      {playlist.upNext.map(song => (
+                        <div key={song.videoId} className="event-admin-row">
+                          <div className="event-admin-row-main">
+                            <strong>{song.title}</strong>
+                            <span className="event-admin-row-meta">
+                              {song.votes} {song.votes === 1 ? 'vote' : 'votes'} · added by {song.addedBy}
+                            </span>
+                          </div>
+                          <button
+                            type="button"
+                            className="event-admin-danger-button"
+                            onClick={() => confirmAndDelete(`Remove "${song.title}" from the queue?`, { resource: 'playlist-song', videoId: song.videoId })}
+                            disabled={isBusy}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  )
+}
+
+export default EventAdmin
@@ -0,0 +1,336 @@
+import { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
+import Layout from '../components/Layout'
+import EventPasswordGate from '../components/EventPasswordGate'
+import { DEFAULT_EVENT_ID, eventApiUrl, formatEventDate, type EventVenue, type PollSummary } from '../utils/events'
+import { inviteSessionHeaders, isInviteSessionRejected } from '../utils/inviteSession'
+import { useEvent } from '../hooks/useEvent'
+import { useInviteSession } from '../hooks/useInviteSession'
+import { useNoIndex } from '../hooks/useNoIndex'
+import type { GOATGame, GuessWhoState, TriviaGame, WhichOnesFalseGame } from '../hooks/useLiveUpdates'
+import './PageStyles.css'
+import './BirthdayInvite.css'
+import './EventRecap.css'
+
+// Response of GET /api/event-recap (game authors only appear once they were revealed)
+interface EventRecapData {
+  generatedAt: string
+  event: { id: string; title: string; startsAt: string; timeZone?: string; venue: EventVenue }
+  poll: PollSummary
+  comments: Record<string, string[]>
+  games: {
+    whichOnesFalse: WhichOnesFalseGame
+    goat: GOATGame
+    trivia: Pick<TriviaGame, 'questionCount' | 'leaderboard'>
+  }
+}
+
+type RecapFormat = 'json' | 'csv'
+
+// Oldest first, with unrevealed authors numbered the way the big screen showed them
+const byPlayerNumber = <T extends { playerName?: string; submittedAt: number }>(submissions: Record<string, T>) =>
+  Object.entries(submissions)
+    .sort(([, a], [, b]) => a.submittedAt - b.submittedAt)
+    .map(([key, submission], index) => ({ key, submission, player: submission.playerName ?? `Player ${index + 1}` }))
+
+const GuessWhoScores = ({ guessWho }: { guessWho: GuessWhoState }) =>
+  guessWho.scoreboard.length > 0 ? (
+    <div className="recap-subsection">
+      <h3 className="recap-subtitle">Guess Who</h3>
+      <ol className="recap-ranking">
+        {guessWho.scoreboard.map(entry => (
+          <li key={entry.playerName}>
+            <span>{entry.playerName}</span>
+            <span className="recap-ranking-value">{entry.correct}/{entry.guessed} correct</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  ) : null
+
+/**
+ * Read-only recap of an event's results to share after the party
+ * Shows the poll results, comments and games as guests saw them, with JSON and CSV downloads
+ */
+const EventRecap = () => {
+  useNoIndex()
+  const { eventId: eventIdParam } = useParams()
+  const eventId = eventIdParam?.toLowerCase() || DEFAULT_EVENT_ID
+  const { event, status: eventStatus } = useEvent(eventId)
+  const { isUnlocked, unlock, expire: expireInviteSession } = useInviteSession(eventId, event)
+  const [recap, setRecap] = useState<EventRecapData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [linkCopied, setLinkCopied] = useState(false)
+
+  useEffect(() => {
+    const originalTitle = document.title
+    document.title = event ? `${event.title} - Recap` : 'Party Recap'
+    return () => {
+      document.title = originalTitle
+    }
+  }, [event])
+
+  useEffect(() => {
+    if (!isUnlocked) return
+
+    const loadRecap = async () => {
+      try {
+        const response = await fetch(eventApiUrl('/api/event-recap', eventId), {
+          headers: inviteSessionHeaders(eventId),
+        })
+        const data = await response.json()
+        if (response.ok) {
+          setRecap(data)
+          setError(null)
+          return
+        }
+        if (isInviteSessionRejected(response.status, data)) {
+          expireInviteSession()
+          return
+        }
+        setError(data.error || 'Failed to load the recap')
+      } catch (error) {
+        console.error('Error loading recap:', error)
+        setError('Failed to load the recap')
+      }
+    }
+
+    loadRecap()
+  }, [eventId, isUnlocked, expireInviteSession])
+
+  // Downloads go through fetch so protected events can send the invite session
+  const handleDownload = async (format: RecapFormat) => {
+    try {
+      const response = await fetch(eventApiUrl('/api/event-recap', eventId, { format }), {
+        headers: inviteSessionHeaders(eventId),
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to download recap (${response.status})`)
+      }
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${eventId}-recap-${new Date().toISOString().substring(0, 10)}.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Error downloading recap:', error)
+      alert('Failed to download the recap. Please try again.')
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch (error) {
+      console.error('Error copying recap link:', error)
+    }
+  }
+
+  // Wait for the event before deciding whether to ask for the password
+  if (!event) {
+    return (
+      <Layout>
+        <div className="page-container">
+          <div className="password-protection-container">
+            <div className="password-protection-form">
+              <h2 className="password-protection-title">
+                {eventStatus === 'loading' ? 'Loading...' : eventStatus === 'not-found' ? 'Event Not Found' : 'Something Went Wrong'}
+              </h2>
+            </div>
+          </div>
+        </div>
+      </Layout>
+    )
+  }
+
+  if (!isUnlocked) {
+    return (
+      <Layout>
+        <div className="page-container">
+          <EventPasswordGate eventId={eventId} title="Party Recap" onUnlock={unlock} />
+        </div>
+      </Layout>
+    )
+  }
+
+  if (!recap) {
+    return (
+      <Layout>
+        <div className="page-container">
+          <p className={error ? 'event-recap-error' : 'event-recap-empty'} role={error ? 'alert' : undefined}>
+            {error || 'Loading...'}
+          </p>
+        </div>
+      </Layout>
+    )
+  }
+
+  const { poll, comments, games } = recap
+  const commentEntries = Object.entries(comments).flatMap(([name, list]) => list.map((comment, index) => ({ name, comment, index })))
+  const statements = byPlayerNumber(games.whichOnesFalse.submissions)
+  const topThrees = byPlayerNumber(games.goat.submissions)
+  const hasGames = statements.length > 0 || topThrees.length > 0 || games.trivia.leaderboard.length > 0
+
+  return (
+    <Layout>
+      <div className="page-container">
+        <div className="event-recap">
+          <div className="event-recap-header">
+            <h1 className="page-title">{recap.event.title}</h1>
+            <p className="event-recap-meta">
+              {formatEventDate(recap.event)} · {recap.event.venue.name}
+            </p>
+            <div className="event-recap-actions">
+              <button type="button" className="comment-change-name-button" onClick={handleCopyLink}>
+                {linkCopied ? 'Link Copied!' : 'Copy Link'}
+              </button>
+              <button type="button" className="comment-change-name-button" onClick={() => handleDownload('json')}>
+                Download JSON
+              </button>
+              <button type="button" className="comment-change-name-button" onClick={() => handleDownload('csv')}>
+                Download CSV
+              </button>
+            </div>
+          </div>
+
+          <section className="event-recap-section">
+            <h2 className="event-recap-section-title">Restaurant Poll</h2>
+            {poll.voters === 0 ? (
+              <p className="event-recap-empty">Nobody voted.</p>
+            ) : (
+              <>
+                {poll.winner && (
+                  <p className="event-recap-highlight">
+                    {poll.winner.name} won with {poll.winner.people} {poll.winner.people === 1 ? 'person' : 'people'}
+                  </p>
+                )}
+                <ol className="recap-ranking">
+                  {poll.standings.map(standing => (
+                    <li key={standing.id}>
+                      <span>{standing.name}</span>
+                      <span className="recap-ranking-value">
+                        {standing.people} ({Math.round(standing.share * 100)}%)
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </section>
+
+          <section className="event-recap-section">
+            <h2 className="event-recap-section-title">Comments</h2>
+            {commentEntries.length === 0 ? (
+              <p className="event-recap-empty">No comments were left.</p>
+            ) : (
+              <ul className="event-recap-comments">
+                {commentEntries.map(({ name, comment, index }) => (
+                  <li key={`${name}-${index}`} className="event-recap-comment">
+                    <span className="event-recap-comment-name">{name}</span>
+                    <span>{comment}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {!hasGames && (
+            <section className="event-recap-section">
+              <h2 className="event-recap-section-title">Games</h2>
+              <p className="event-recap-empty">Nobody played the party games.</p>
+            </section>
+          )}
+
+          {statements.length > 0 && (
+            <section className="event-recap-section">
+              <h2 className="event-recap-section-title">Which One's False</h2>
+              <div className="event-recap-cards">
+                {statements.map(({ key, submission, player }) => (
+                  <div key={key} className="event-recap-card">
+                    <h3 className="recap-subtitle">{player}</h3>
+                    <ol className="event-recap-statements">
+                      {submission.statements.map((statement, index) => (
+                        <li key={index} className={submission.falseIndex === index ? 'false-statement' : ''}>
+                          {statement}
+                          {submission.falseIndex === index && <span className="event-recap-badge">False</span>}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
+              </div>
+              {games.whichOnesFalse.scoreboard && games.whichOnesFalse.scoreboard.length > 0 && (
+                <div className="recap-subsection">
+                  <h3 className="recap-subtitle">Scoreboard</h3>
+                  <ol className="recap-ranking">
+                    {games.whichOnesFalse.scoreboard.map(entry => (
+                      <li key={entry.playerName}>
+                        <span>{entry.playerName}</span>
+                        <span className="recap-ranking-value">{entry.correct}/{entry.guessed} correct</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+              <GuessWhoScores guessWho={games.whichOnesFalse.guessWho} />
+            </section>
+          )}
+
+          {topThrees.length > 0 && (
+            <section className="event-recap-section">
+              <h2 className="event-recap-section-title">GOAT</h2>
+              {games.goat.leaderboard.length > 0 && (
+                <div className="recap-subsection">
+                  <h3 className="recap-subtitle">All-Time Top Films</h3>
+                  <ol className="recap-ranking">
+                    {games.goat.leaderboard.map(movie => (
+                      <li key={movie.id}>
+                        <span>{movie.title}</span>
+                        <span className="recap-ranking-value">★ {movie.votes}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+              <div className="event-recap-cards">
+                {topThrees.map(({ key, submission, player }) => (
+                  <div key={key} className="event-recap-card">
+                    <h3 className="recap-subtitle">{player}</h3>
+                    <ol className="event-recap-statements">
+                      {submission.movies.map((movie, index) => (
+                        <li key={index}>{movie}</li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
+              </div>
+              <GuessWhoScores guessWho={games.goat.guessWho} />
+            </section>
+          )}
+
+          {games.trivia.leaderboard.length > 0 && (
+            <section className="event-recap-section">
+              <h2 className="event-recap-section-title">Trivia</h2>
+              <ol className="recap-ranking">
+                {games.trivia.leaderboard.map(entry => (
+                  <li key={entry.playerName}>
+                    <span>{entry.playerName}</span>
+                    <span className="recap-ranking-value">
+                      {entry.points} pts ({entry.correct}/{games.trivia.questionCount} correct)
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+        </div>
+      </div>
+    </Layout>
+  )
+}
+
+export default EventRecap
@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useSearchParams } from 'react-router-dom'
+import { QRCodeSVG } from 'qrcode.react'
+import Layout from '../components/Layout'
+import EventPasswordGate from '../components/EventPasswordGate'
+import { DEFAULT_EVENT_ID, eventApiUrl } from '../utils/events'
+import { inviteSessionHeaders, isInviteSessionRejected } from '../utils/inviteSession'
+import { useEvent } from '../hooks/useEvent'
+import { useInviteSession } from '../hooks/useInviteSession'
+import { useLiveUpdates } from '../hooks/useLiveUpdates'
+import { useNoIndex } from '../hooks/useNoIndex'
+import { GAME_TYPES, GAMES } from '../components/games'
+import type { GameState, GameType, SubmissionGameState } from '../components/games/types'
+import './PageStyles.css'
+import './BirthdayInvite.css'
+import './GamesPresenter.css'
+
+// How long each player's entries stay on screen before the next
+const SLIDE_MS = 8 * 1000
+
+const isGameType = (value: string | null): value is GameType => GAME_TYPES.includes(value as GameType)
+
+/**
+ * TV/projector view of the party games (open on the big screen, players join from their phones)
+ * Shows one game at a time (?game=), cycling through entries anonymously and updating live
+ */
+const GamesPresenter = () => {
+  useNoIndex()
+  const { eventId: eventIdParam } = useParams()
+  const eventId = eventIdParam?.toLowerCase() || DEFAULT_EVENT_ID
+  const [searchParams, setSearchParams] = useSearchParams()
+  const gameParam = searchParams.get('game')
+  const gameType: GameType = isGameType(gameParam) ? gameParam : GAME_TYPES[0]
+  const { event, status: eventStatus } = useEvent(eventId)
+  const { isUnlocked, unlock, expire: expireInviteSession } = useInviteSession(eventId, event)
+  const [gameStates, setGameStates] = useState<Record<GameType, GameState>>(
+    () => Object.fromEntries(GAME_TYPES.map(type => [type, GAMES[type].initial])) as Record<GameType, GameState>
+  )
+  const [slide, setSlide] = useState(0)
+  // Players join on the games page this screen was opened from
+  const joinUrl = window.location.origin + window.location.pathname.replace(/\/screen\/?$/, '')
+
+  useEffect(() => {
+    const originalTitle = document.title
+    document.title = 'Birthday Games - Big Screen'
+    return () => {
+      document.title = originalTitle
+    }
+  }, [])
+
+  const applyGameState = useCallback((type: GameType, game: GameState) => {
+    setGameStates(previous => ({ ...previous, [type]: { ...GAMES[type].initial, ...game } }))
+  }, [])
+
+  useLiveUpdates(eventId, isUnlocked, (update) => {
+    if (update.type === 'games') {
+      const { type: _type, gameType: updatedType, ...game } = update
+      applyGameState(updatedType, game)
+    }
+  })
+
+  const fetchGame = useCallback(async (type: GameType) => {
+    try {
+      const response = await fetch(eventApiUrl('/api/birthday-games', eventId, { gameType: type }), {
+        headers: inviteSessionHeaders(eventId),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        applyGameState(type, data)
+        return
+      }
+      if (isInviteSessionRejected(response.status, data)) {
+        expireInviteSession()
+      }
+    } catch (error) {
+      console.error(`Error fetching ${type}:`, error)
+    }
+  }, [eventId, expireInviteSession, applyGameState])
+
+  useEffect(() => {
+    if (isUnlocked) {
+      fetchGame(gameType)
+    }
+  }, [isUnlocked, gameType, fetchGame])
+
+  // Start each game from its first entry
+  useEffect(() => {
+    setSlide(0)
+    const timer = setInterval(() => setSlide(current => current + 1), SLIDE_MS)
+    return () => clearInterval(timer)
+  }, [gameType])
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen()
+    } else {
+      document.documentElement.requestFullscreen?.()
+    }
+  }
+
+  // Wait for the event before deciding whether to ask for the password
+  if (!event) {
+    return (
+      <Layout>
+        <div className="page-container">
+          <div className="password-protection-container">
+            <div className="password-protection-form">
+              <h2 className="password-protection-title">
+                {eventStatus === 'loading' ? 'Loading...' : eventStatus === 'not-found' ? 'Event Not Found' : 'Something Went Wrong'}
+              </h2>
+            </div>
+          </div>
+        </div>
+      </Layout>
+    )
+  }
+
+  if (!isUnlocked) {
+    return (
+      <Layout>
+        <div className="page-container">
+          <EventPasswordGate eventId={eventId} title="Birthday Games" onUnlock={unlock} />
+        </div>
+      </Layout>
+    )
+  }
+
+  const definition = GAMES[gameType]
+  const game = gameStates[gameType]
+  const screen = { game, slide, refresh: () => fetchGame(gameType) }
+
+  return (
+    <div className="games-presenter">
+      <div className="games-presenter-toolbar">
+        <div className="games-presenter-tabs" role="tablist" aria-label="Games">
+          {GAME_TYPES.map(type => (
+            <button
+              key={type}
+              type="button"
+              role="tab"
+              aria-selected={type === gameType}
+              className={`games-presenter-tab ${type === gameType ? 'active' : ''}`}
+              onClick={() => setSearchParams({ game: type })}
+            >
+              {GAMES[type].title}
+            </button>
+          ))}
+        </div>
+        <div className="games-presenter-actions">
+          <button type="button" className="games-presenter-tab" onClick={toggleFullscreen}>
+            Full Screen
+          </button>
+        </div>
+      </div>
+
+      <div className="games-presenter-body">
+        <main className="games-presenter-stage">
+          <h1 className="games-presenter-title">{definition.title}</h1>
+          {definition.mode === 'submissions'
+            ? definition.renderScreen({ ...screen, game: game as SubmissionGameState })
+            : definition.renderScreen(screen)}
+        </main>
+        <aside className="games-presenter-join">
+          <div className="games-presenter-qr">
+            <QRCodeSVG value={joinUrl} size={220} level="H" includeMargin={true} fgColor="#000000" bgColor="#ffffff" />
+          </div>
+          <p className="games-presenter-join-title">Scan to play</p>
+          <p className="games-presenter-join-url">{joinUrl}</p>
+        </aside>
+      </div>
+    </div>
+  )
+}
+
+export default GamesPresenter
@@ -0,0 +1,145 @@
+/**
+ * Event helpers shared by the invite and games pages
+ * Event details come from /api/events (see api/event-store.ts for the full model)
+ */
+
+// The original birthday invite, used by the /jda11202025 and /bdaygame routes
+export const DEFAULT_EVENT_ID = 'jda11202025'
+
+export interface MenuItem {
+  name: string
+  description?: string
+  price: string
+}
+
+export interface MenuCategory {
+  name: string
+  items: MenuItem[]
+}
+
+export interface EventVenue {
+  name: string
+  address?: string
+  link?: string
+  menuUrl?: string
+}
+
+export interface PollOption {
+  id: string
+  name: string
+  description?: string
+  link?: string
+}
+
+// How the restaurant poll is counted (see api/event-store)
+export type PollMode = 'plurality' | 'approval' | 'ranked'
+
+// Poll tally from the API (see api/poll-tally); ranked polls have one round per runoff
+export interface PollRound {
+  round: number
+  counts: Record<string, number>
+  eliminated: string[]
+  exhausted: number
+}
+
+// Set when the winner was picked by the tie-break (more separate voters, then listing order)
+export interface PollTie {
+  tiedIds: string[]
+  decidedBy: 'voters' | 'list-order'
+}
+
+export interface PollResults {
+  mode: PollMode
+  rounds: PollRound[]
+  winnerId: string | null
+  tie?: PollTie
+}
+
+// Votes are only accepted while the poll is open
+export type PollStatus = 'scheduled' | 'open' | 'closed'
+
+// Winner and final standings from the API (see api/poll-store)
+export interface PollSummary {
+  status: PollStatus
+  opensAt?: string
+  closesAt?: string
+  mode: PollMode
+  people: number
+  voters: number
+  winner: { id: string; name: string; people: number } | null
+  tie?: PollTie
+  standings: Array<{ id: string; name: string; people: number; share: number }>
+}
+
+export interface EventPayment {
+  message: string
+  venmoUsername?: string
+  zelleRecipient?: string
+  zelleName?: string
+}
+
+export interface PublicEvent {
+  id: string
+  title: string
+  startsAt: string
+  timeZone?: string
+  details?: string[]
+  venue: EventVenue
+  menu: MenuCategory[]
+  pollOptions: PollOption[]
+  pollMode?: PollMode
+  pollOpensAt?: string
+  pollClosesAt?: string
+  pollCloseEmail?: boolean
+  payment?: EventPayment
+  requiresPassword: boolean
+}
+
+/**
+ * Formats a poll open/close time in the event's time zone, e.g. "Nov 20, 2025, 6:00 PM"
+ */
+export const formatPollTime = (time: string, timeZone?: string): string => {
+  const date = new Date(time)
+  if (Number.isNaN(date.getTime())) {
+    return time
+  }
+  return new Intl.DateTimeFormat('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    ...(timeZone && { timeZone }),
+  }).format(date)
+}
+
+/**
+ * Adds the event id to an API path, e.g. eventApiUrl('/api/birthday-poll', 'bbq') -> '/api/birthday-poll?eventId=bbq'
+ */
+export const eventApiUrl = (path: string, eventId: string, params: Record<string, string> = {}): string => {
+  const query = new URLSearchParams({ ...params, eventId })
+  return `${path}?${query.toString()}`
+}
+
+// Page routes for an event (the default event keeps its original short links)
+export const getInvitePath = (eventId: string): string =>
+  eventId === DEFAULT_EVENT_ID ? '/jda11202025' : `/events/${eventId}`
+
+export const getGamesPath = (eventId: string): string =>
+  eventId === DEFAULT_EVENT_ID ? '/bdaygame' : `/events/${eventId}/games`
+
+export const getRecapPath = (eventId: string): string =>
+  eventId === DEFAULT_EVENT_ID ? '/bdaygame/recap' : `/events/${eventId}/recap`
+
+/**
+ * Formats the event start for the invite, e.g. "Friday, November 21, 2025 at 7:30 PM"
+ * Shown in the event's own time zone so every guest sees the same local time
+ */
+export const formatEventDate = (event: Pick<PublicEvent, 'startsAt' | 'timeZone'>): string => {
+  const date = new Date(event.startsAt)
+  if (Number.isNaN(date.getTime())) {
+    return event.startsAt
+  }
+  return new Intl.DateTimeFormat('en-US', {
+    dateStyle: 'full',
+    timeStyle: 'short',
+    ...(event.timeZone && { timeZone: event.timeZone }),
+  }).format(date)
+}
@@ -0,0 +1,54 @@
+/**
+ * Invite session storage
+ * Unlocking a password-protected event returns a signed session token that expires after the party.
+ * The poll and games APIs need it on every request, so it's kept per event for this browser tab.
+ */
+
+const INVITE_SESSION_KEY = 'birthday-invite-auth'
+
+export const INVITE_SESSION_HEADER = 'X-Invite-Session'
+
+export interface InviteSession {
+  token: string
+  expiresAt: number
+}
+
+const sessionKey = (eventId: string) => `${INVITE_SESSION_KEY}:${eventId}`
+
+/**
+ * Returns the stored session if it hasn't expired yet
+ * Sessions saved before tokens expired (a bare string) are treated as missing
+ */
+export const getInviteSession = (eventId: string): InviteSession | null => {
+  const saved = sessionStorage.getItem(sessionKey(eventId))
+  if (!saved) return null
+
+  try {
+    const session = JSON.parse(saved) as InviteSession
+    if (typeof session?.token === 'string' && typeof session.expiresAt === 'number' && session.expiresAt > Date.now()) {
+      return session
+    }
+  } catch {
+    // Fall through and drop the unusable value
+  }
+  sessionStorage.removeItem(sessionKey(eventId))
+  return null
+}
+
+export const saveInviteSession = (eventId: string, session: InviteSession): void => {
+  sessionStorage.setItem(sessionKey(eventId), JSON.stringify(session))
+}
+
+export const clearInviteSession = (eventId: string): void => {
+  sessionStorage.removeItem(sessionKey(eventId))
+}
+
+// The session header for the event, or nothing when this tab hasn't unlocked it
+export const inviteSessionHeaders = (eventId: string): Record<string, string> => {
+  const session = getInviteSession(eventId)
+  return session ? { [INVITE_SESSION_HEADER]: session.token } : {}
+}
+
+// True when the API turned a request away because the invite session is missing or expired
+export const isInviteSessionRejected = (status: number, result: { error?: string }): boolean =>
+  status === 401 && typeof result.error === 'string' && result.error.startsWith('Invite session')
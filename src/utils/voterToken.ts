@@ -0,0 +1,41 @@
+/**
+ * Voter token storage
+ * The API issues a signed token the first time a name is used (vote, comment or game submission).
+ * Sending it back proves this browser owns that name, so nobody else can vote or post as them.
+ * Tokens belong to one event, so each event's token is stored separately.
+ */
+
+import { inviteSessionHeaders } from './inviteSession'
+
+const VOTER_TOKEN_KEY = 'birthday-voter-token'
+
+export const VOTER_TOKEN_HEADER = 'X-Voter-Token'
+
+const tokenKey = (eventId: string) => `${VOTER_TOKEN_KEY}:${eventId}`
+
+export const getVoterToken = (eventId: string): string | null => localStorage.getItem(tokenKey(eventId))
+
+export const clearVoterToken = (eventId: string): void => {
+  localStorage.removeItem(tokenKey(eventId))
+}
+
+// JSON request headers, plus the voter token and invite session when this browser has them for the event
+export const voterHeaders = (eventId: string): Record<string, string> => {
+  const token = getVoterToken(eventId)
+  return {
+    'Content-Type': 'application/json',
+    ...inviteSessionHeaders(eventId),
+    ...(token && { [VOTER_TOKEN_HEADER]: token }),
+  }
+}
+
+/**
+ * Stores the token from an API response (if a new one was issued)
+ * Returns the canonical voter name the server knows this browser by, if the response included one
+ */
+export const saveVoterIdentity = (eventId: string, result: { voterToken?: string; voterName?: string }): string | null => {
+  if (result.voterToken) {
+    localStorage.setItem(tokenKey(eventId), result.voterToken)
+  }
+  return result.voterName || null
+}
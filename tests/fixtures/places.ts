@@ -0,0 +1,166 @@
+// Places as OpenStreetMap (Overpass elements) and Google (Nearby Search results) send them, with what the
+// coffee finder should make of each (see tests/place-classification.test.ts)
+
+import type { PlaceSearchMode } from '../../api/place-classification'
+
+export interface PlaceFixture {
+  label: string
+  mode: PlaceSearchMode
+  osm?: object
+  google?: object
+  included: boolean
+  explanation: string
+  drinkTypes?: string[]
+}
+
+const osm = (id: number, tags: Record<string, string>) => ({ type: 'node', id, lat: 37.77, lon: -122.42, tags })
+const google = (placeId: string, name: string, types: string[]) => ({
+  place_id: placeId,
+  name,
+  types,
+  geometry: { location: { lat: 37.77, lng: -122.42 } },
+  vicinity: '1 Main St, San Francisco',
+})
+
+export const PLACE_FIXTURES: PlaceFixture[] = [
+  // Chains
+  {
+    label: 'a chain by its OSM brand',
+    mode: 'coffee',
+    osm: osm(1, { name: 'Coffee on Market', brand: 'Starbucks', amenity: 'cafe' }),
+    included: false,
+    explanation: 'classified as corporate chain because brand contains "starbucks"',
+  },
+  {
+    label: 'a chain by its Google name',
+    mode: 'drinks',
+    google: google('g-dunkin', "Dunkin'", ['cafe', 'food']),
+    included: false,
+    explanation: 'classified as corporate chain because name contains "dunkin"',
+  },
+  {
+    label: 'a truck stop chain named by its initials',
+    mode: 'coffee',
+    osm: osm(2, { name: 'TA Travel Center', amenity: 'fuel' }),
+    included: false,
+    explanation: 'classified as corporate chain because name contains "ta"',
+  },
+  {
+    label: 'an independent roaster with "ta" inside its name',
+    mode: 'coffee',
+    osm: osm(3, { name: 'Santa Cruz Coffee Roasting', craft: 'coffee_roaster' }),
+    included: true,
+    explanation: 'found for coffee because it is a coffee roaster (OSM craft=coffee_roaster)',
+  },
+  {
+    label: 'an independent roaster with "dd" inside its name',
+    mode: 'coffee',
+    google: google('g-oddfellows', 'Oddfellows Coffee Roasters', ['cafe', 'food']),
+    included: true,
+    explanation: 'found for coffee because it is a coffee roaster (name contains "roaster")',
+  },
+  {
+    label: 'an independent cafe with "bp" inside its name',
+    mode: 'coffee',
+    google: google('g-bpm', 'BPM Coffee', ['cafe']),
+    included: true,
+    explanation: 'found for coffee because it is a coffee roaster (Google type is cafe and name has none of "starbucks", "dunkin", "dunkin\'"... and name contains "coffee")',
+  },
+
+  // Bakeries
+  {
+    label: 'a bakery by its OSM shop tag',
+    mode: 'drinks',
+    osm: osm(4, { name: 'Tartine', shop: 'bakery' }),
+    included: false,
+    explanation: 'classified as bakery because OSM shop=bakery',
+  },
+  {
+    label: 'a bakery by its Google name',
+    mode: 'drinks',
+    google: google('g-bakery', 'Arsicault Bakery', ['bakery', 'food']),
+    included: false,
+    explanation: 'classified as bakery because name contains "bakery" and name has none of "tea", "smoothie", "juice"...',
+  },
+
+  // Gas stations
+  {
+    label: 'a gas station by its OSM amenity',
+    mode: 'coffee',
+    osm: osm(5, { name: 'Corner Fuel & Coffee', amenity: 'fuel' }),
+    included: false,
+    explanation: 'classified as convenience store or gas station because OSM amenity=fuel',
+  },
+  {
+    label: 'a gas station by its Google name',
+    mode: 'drinks',
+    google: google('g-gas', 'Valencia Gas Station', ['gas_station', 'convenience_store']),
+    included: false,
+    explanation: 'classified as convenience store or gas station because name contains "gas station"',
+  },
+
+  // Roasters
+  {
+    label: 'a roaster by its OSM craft tag',
+    mode: 'coffee',
+    osm: osm(6, { name: 'Linea', craft: 'coffee_roaster' }),
+    included: true,
+    explanation: 'found for coffee because it is a coffee roaster (OSM craft=coffee_roaster)',
+  },
+  {
+    label: 'a local coffee place from Google',
+    mode: 'coffee',
+    google: google('g-ritual', 'Ritual Coffee', ['cafe', 'food']),
+    included: true,
+    explanation: 'found for coffee because it is a coffee roaster (Google type is cafe and name has none of "starbucks", "dunkin", "dunkin\'"... and name contains "coffee")',
+  },
+  {
+    label: 'a cafe restaurant left out of roasters',
+    mode: 'coffee',
+    google: google('g-diner', 'Coffee Shop Diner', ['restaurant', 'food']),
+    included: false,
+    explanation: 'not a match for coffee',
+  },
+
+  // Alcohol
+  {
+    label: 'a pub by its OSM amenity',
+    mode: 'drinks',
+    osm: osm(7, { name: 'The Page', amenity: 'pub' }),
+    included: false,
+    explanation: 'classified as bar or alcohol shop because OSM amenity=pub',
+  },
+  {
+    label: 'a brewery by its Google name',
+    mode: 'drinks',
+    google: google('g-brewery', 'Anchor Brewing', ['food']),
+    included: false,
+    explanation: 'classified as bar or alcohol shop because name contains "brew"',
+  },
+
+  // Drink types
+  {
+    label: 'a tea shop by its OSM shop tag',
+    mode: 'drinks',
+    osm: osm(8, { name: 'Samovar', shop: 'tea' }),
+    included: true,
+    explanation: 'found for drinks because it is a drink place (OSM shop=tea)',
+    drinkTypes: ['Tea'],
+  },
+  {
+    label: 'a boba shop from Google',
+    mode: 'drinks',
+    google: google('g-boba', 'Boba Guys', ['cafe', 'food']),
+    included: true,
+    explanation: 'found for drinks because it is a drink place (name contains "boba")',
+    drinkTypes: ['Boba'],
+  },
+  {
+    label: 'a juice bar by its name',
+    mode: 'drinks',
+    osm: osm(9, { name: 'Project Juice', amenity: 'cafe', drink_smoothie: 'yes' }),
+    included: true,
+    explanation: 'found for drinks because it is a drink place (name contains "juice")',
+    drinkTypes: ['Juice'],
+  },
+]
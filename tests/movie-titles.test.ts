@@ -0,0 +1,51 @@
+// Movie Titles
+// Which GOAT nominations count as the same film: typos merge, sequels don't.
+
+import { describe, expect, it } from 'vitest'
+import { mergeNominations, normalizeTitle, titlesMatch } from '../api/movie-titles'
+
+const matches = (a: string, b: string) => titlesMatch(normalizeTitle(a), normalizeTitle(b))
+
+// Merged titles, nominating each film in turn
+const mergedTitles = (...titles: string[]) =>
+  mergeNominations(titles.map((title, index) => ({ title, playerName: `Player ${index}`, submittedAt: index })))
+    .map(movie => movie.title)
+
+describe('movie titles', () => {
+  it.each([
+    ['Starwars', 'Star Wars'],
+    ['Godfahter', 'The Godfather'],
+    ['The Godfather (1972)', 'godfather'],
+    ['Jurasic Park', 'Jurassic Park'],
+    ['Toy Story 2', 'Toy  Story 2!'],
+  ])('merges %s with %s', (a, b) => {
+    expect(matches(a, b)).toBe(true)
+  })
+
+  it.each([
+    ['Toy Story 2', 'Toy Story 3'],
+    ['Alien', 'Aliens'],
+    ['Shrek', 'Shrek 2'],
+    ['The Godfather Part II', 'The Godfather Part III'],
+    ['Rocky IV', 'Rocky V'],
+    ['Up', 'Us'],
+  ])('keeps %s apart from %s', (a, b) => {
+    expect(matches(a, b)).toBe(false)
+  })
+
+  it('keeps sequels as separate films on the leaderboard', () => {
+    expect(mergedTitles('Toy Story 2', 'Toy Story 3', 'Alien', 'Aliens', 'Shrek', 'Shrek 2'))
+      .toEqual(['Toy Story 2', 'Toy Story 3', 'Alien', 'Aliens', 'Shrek', 'Shrek 2'])
+  })
+
+  it('counts a misspelled nomination toward the same film', () => {
+    const [movie, ...others] = mergeNominations([
+      { title: 'The Godfather', playerName: 'Ann', submittedAt: 1 },
+      { title: 'Godfahter', playerName: 'Bo', submittedAt: 2 },
+      { title: 'the godfather', playerName: 'Cy', submittedAt: 3 },
+    ])
+
+    expect(others).toEqual([])
+    expect(movie).toEqual({ id: 'godfather', title: 'The Godfather', nominators: ['Ann', 'Bo', 'Cy'] })
+  })
+})
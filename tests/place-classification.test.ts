@@ -0,0 +1,47 @@
+// Place Classification
+// Runs the OSM and Google fixtures through the same normalizing and rules the coffee finder uses,
+// pinning each verdict and its explanation.
+
+import { describe, expect, it } from 'vitest'
+import { classifyPlace, type PlaceRecord } from '../api/place-classification'
+import { googlePlaceRecord, osmPlaceRecord } from '../api/place-search'
+import { PLACE_FIXTURES, type PlaceFixture } from './fixtures/places'
+
+function recordOf(fixture: PlaceFixture): PlaceRecord {
+  const record = fixture.osm ? osmPlaceRecord(fixture.osm) : googlePlaceRecord(fixture.google)
+  if (!record) {
+    throw new Error(`Fixture "${fixture.label}" is not a usable place`)
+  }
+  return record
+}
+
+describe('place classification', () => {
+  it.each(PLACE_FIXTURES.map(fixture => [`${fixture.label} (${fixture.osm ? 'OSM' : 'Google'})`, fixture] as const))(
+    '%s',
+    (_, fixture) => {
+      const classification = classifyPlace(recordOf(fixture))
+
+      expect(classification.verdict(fixture.mode)).toEqual({ included: fixture.included, explanation: fixture.explanation })
+      if (fixture.drinkTypes) {
+        expect(classification.drinkTypes()).toEqual(fixture.drinkTypes)
+      }
+    }
+  )
+
+  it('lets chains through when they are asked for', () => {
+    const chain = PLACE_FIXTURES.find(fixture => fixture.label === 'a chain by its Google name')!
+    const verdict = classifyPlace(recordOf(chain)).verdict(chain.mode, { allow: ['chain'] })
+
+    expect(verdict).toEqual({ included: true, explanation: 'found for drinks because Google type is cafe' })
+  })
+
+  it('only matches short chain names as whole words', () => {
+    const named = (name: string) => classifyPlace(osmPlaceRecord({ type: 'node', id: 1, lat: 0, lon: 0, tags: { name } })!)
+
+    expect(named('BP Connect').is('chain')).toBe(true)
+    expect(named('DD Express').is('chain')).toBe(true)
+    expect(named('Santa Rosa Coffee').is('chain')).toBe(false)
+    expect(named('Oddfellows Coffee').is('chain')).toBe(false)
+    expect(named('BPM Coffee').is('chain')).toBe(false)
+  })
+})
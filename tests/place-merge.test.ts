@@ -0,0 +1,134 @@
+// Place Merging
+// Which OSM and Google records count as one place, and which source each merged field comes from.
+
+import { describe, expect, it } from 'vitest'
+import type { PlaceRecord } from '../api/place-classification'
+import { mergePlaces, namesMatch } from '../api/place-merge'
+
+const osm = (id: number, name: string, lat: number, lon: number, details: Partial<PlaceRecord> = {}): PlaceRecord => ({
+  source: 'OSM',
+  id: `osm-node-${id}`,
+  name,
+  lat,
+  lon,
+  address: {},
+  tags: { name, amenity: 'cafe' },
+  types: [],
+  ...details,
+})
+
+const google = (id: string, name: string, lat: number, lon: number, details: Partial<PlaceRecord> = {}): PlaceRecord => ({
+  source: 'Google',
+  id: `google-${id}`,
+  name,
+  lat,
+  lon,
+  address: {},
+  tags: {},
+  types: ['cafe', 'food'],
+  ...details,
+})
+
+describe('place merging', () => {
+  it.each([
+    ['Handlebar Coffee', 'Handlebar Coffee Roasters'],
+    ['KungFu Tea', 'Kung Fu Tea'],
+    ['Café Nero', 'Cafe Nero'],
+  ])('matches %s with %s', (a, b) => {
+    expect(namesMatch(a, b)).toBe(true)
+  })
+
+  it.each([
+    ['Coffee', 'Handlebar Coffee'],
+    ['The Coffee Shop', 'Handlebar Coffee Shop'],
+    ['Handlebar Coffee', 'Dune Coffee'],
+  ])('keeps %s apart from %s', (a, b) => {
+    expect(namesMatch(a, b)).toBe(false)
+  })
+
+  it('merges the same place listed under slightly different names at one corner', () => {
+    const places = mergePlaces([
+      osm(1, 'Handlebar Coffee', 34.4197, -119.6982),
+      google('handlebar', 'Handlebar Coffee Roasters', 34.4198, -119.6981),
+    ])
+
+    expect(places).toHaveLength(1)
+    expect(places[0].sources).toEqual(['Google', 'OSM'])
+    expect(places[0].record.name).toBe('Handlebar Coffee Roasters')
+  })
+
+  it('keeps branches a mile apart separate', () => {
+    const places = mergePlaces([
+      google('handlebar-downtown', 'Handlebar Coffee', 34.4197, -119.6982),
+      google('handlebar-mesa', 'Handlebar Coffee', 34.4342, -119.6982),
+    ])
+
+    expect(places.map(place => place.record.id)).toEqual(['google-handlebar-downtown', 'google-handlebar-mesa'])
+  })
+
+  it('does not merge a place with a generic name nearby', () => {
+    const places = mergePlaces([
+      osm(1, 'Coffee', 34.4197, -119.6982),
+      google('handlebar', 'Handlebar Coffee', 34.4197, -119.6982),
+    ])
+
+    expect(places).toHaveLength(2)
+  })
+
+  it('takes each field from Google first and fills the gaps from OSM', () => {
+    const [place] = mergePlaces([
+      osm(1, 'Handlebar Coffee', 34.4197, -119.6982, {
+        brand: 'Handlebar',
+        address: { street: 'East Canon Perdido Street', housenumber: '128', city: 'Santa Barbara' },
+        phone: '+1 805 555 0100',
+        website: 'https://osm.example/handlebar',
+      }),
+      google('handlebar', 'Handlebar Coffee Roasters', 34.4198, -119.6981, {
+        address: { formatted: '128 E Canon Perdido St, Santa Barbara', city: 'Santa Barbara', postcode: '93101' },
+        website: 'https://google.example/handlebar',
+        rating: 4.7,
+        ratingCount: 1200,
+        openNow: true,
+      }),
+    ])
+
+    expect(place.fieldSources).toEqual({
+      'name': 'Google',
+      'brand': 'OSM',
+      'phone': 'OSM',
+      'website': 'Google',
+      'rating': 'Google',
+      'openNow': 'Google',
+      'address.formatted': 'Google',
+      'address.street': 'OSM',
+      'address.housenumber': 'OSM',
+      'address.city': 'Google',
+      'address.postcode': 'Google',
+    })
+    expect(place.record).toMatchObject({
+      source: 'Google',
+      id: 'google-handlebar',
+      brand: 'Handlebar',
+      phone: '+1 805 555 0100',
+      website: 'https://google.example/handlebar',
+      rating: 4.7,
+      ratingCount: 1200,
+      address: {
+        formatted: '128 E Canon Perdido St, Santa Barbara',
+        street: 'East Canon Perdido Street',
+        housenumber: '128',
+        city: 'Santa Barbara',
+        postcode: '93101',
+      },
+      tags: { name: 'Handlebar Coffee', amenity: 'cafe' },
+      types: ['cafe', 'food'],
+    })
+  })
+
+  it('leaves out fields no source has', () => {
+    const [place] = mergePlaces([osm(1, 'Handlebar Coffee', 34.4197, -119.6982)])
+
+    expect(place.sources).toEqual(['OSM'])
+    expect(place.fieldSources).toEqual({ name: 'OSM' })
+  })
+})
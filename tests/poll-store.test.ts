@@ -0,0 +1,150 @@
+// Poll Store concurrency
+// Fires many simultaneous votes and checks the counters come out exact.
+// With REDIS_URL set the votes go to that Redis, where the cast, change and retract Lua scripts really
+// race (use a scratch database: test events are left behind). Without it they go to the in-memory
+// driver, whose scripts run one at a time, so only the vote bookkeeping is checked.
+// Every test uses its own event, so they don't share vote counts.
+
+import { describe, expect, it } from 'vitest'
+import { castVote, changeVote, createPollContext, getPollData, retractVote, type PollContext } from '../api/poll-store'
+import type { EventDefinition, PollMode } from '../api/event-store'
+import type { VoterIdentity } from '../api/voter-identity'
+
+if (!process.env.REDIS_URL) {
+  process.env.STORAGE_DRIVER = 'memory'
+}
+
+const VOTERS = 200
+const OPTION_IDS = ['arnoldis', 'lucky-penny', 'via-maestra']
+
+// Keeps events from earlier runs against the same Redis out of the counts
+const RUN_ID = Date.now().toString(36)
+
+let eventCount = 0
+
+function createTestPoll(pollMode: PollMode = 'plurality'): PollContext {
+  const event: EventDefinition = {
+    id: `poll-store-test-${RUN_ID}-${++eventCount}`,
+    title: 'Poll Store Test',
+    startsAt: '2025-11-21T19:30:00-08:00',
+    venue: { name: 'Test Venue' },
+    menu: [],
+    pollOptions: OPTION_IDS.map(id => ({ id, name: id })),
+    pollMode,
+  }
+  return createPollContext(event)
+}
+
+function voter(index: number): VoterIdentity {
+  return { id: `voter ${index}`, name: `Voter ${index}` }
+}
+
+// Voter i picks option i % 3 and brings i % 4 guests
+const pickOf = (index: number) => OPTION_IDS[index % OPTION_IDS.length]
+const guestsOf = (index: number) => index % 4
+
+// What the counters should say for a set of votes
+function expectedTotals(votes: Array<{ options: string[]; guests: number }>) {
+  const counts = Object.fromEntries(OPTION_IDS.map(id => [id, 0]))
+  for (const { options, guests } of votes) {
+    options.forEach(id => { counts[id] += 1 + guests })
+  }
+  return { counts, people: votes.reduce((sum, { guests }) => sum + 1 + guests, 0) }
+}
+
+async function totalsOf(ctx: PollContext) {
+  const pollData = await getPollData(ctx)
+  return {
+    counts: Object.fromEntries(pollData.restaurants.map(restaurant => [restaurant.id, restaurant.votes])),
+    people: pollData.people,
+    voters: new Set(pollData.restaurants.flatMap(restaurant => restaurant.voters)).size,
+  }
+}
+
+const indexes = Array.from({ length: VOTERS }, (_, index) => index)
+
+describe('poll store under concurrent votes', () => {
+  it('counts every simultaneous castVote exactly once', async () => {
+    const ctx = createTestPoll()
+
+    const previous = await Promise.all(
+      indexes.map(i => castVote(ctx, voter(i), { restaurantId: pickOf(i) }, guestsOf(i)))
+    )
+
+    expect(previous.every(record => record === null)).toBe(true)
+    const expected = expectedTotals(indexes.map(i => ({ options: [pickOf(i)], guests: guestsOf(i) })))
+    expect(await totalsOf(ctx)).toEqual({ ...expected, voters: VOTERS })
+  })
+
+  it('ignores repeated simultaneous votes from the same voter', async () => {
+    const ctx = createTestPoll()
+
+    const results = await Promise.all(
+      indexes.map(i => castVote(ctx, voter(i % 10), { restaurantId: pickOf(i) }, 1))
+    )
+
+    // The first vote from each of the 10 voters counts; the rest get it back
+    expect(results.filter(record => record === null)).toHaveLength(10)
+    const expected = expectedTotals(indexes.slice(0, 10).map(i => ({ options: [pickOf(i)], guests: 1 })))
+    expect(await totalsOf(ctx)).toEqual({ ...expected, voters: 10 })
+  })
+
+  it('moves every party on simultaneous changeVote', async () => {
+    const ctx = createTestPoll()
+    await Promise.all(indexes.map(i => castVote(ctx, voter(i), { restaurantId: pickOf(i) }, guestsOf(i))))
+
+    // Everyone moves to the next option; odd voters also change their guest count
+    const newPick = (i: number) => pickOf(i + 1)
+    const newGuests = (i: number) => (i % 2 === 1 ? 2 : undefined)
+    const previous = await Promise.all(
+      indexes.map(i => changeVote(ctx, voter(i), { restaurantId: newPick(i) }, newGuests(i)))
+    )
+
+    expect(previous.every(record => record !== null)).toBe(true)
+    const expected = expectedTotals(indexes.map(i => ({ options: [newPick(i)], guests: newGuests(i) ?? guestsOf(i) })))
+    expect(await totalsOf(ctx)).toEqual({ ...expected, voters: VOTERS })
+  })
+
+  it('subtracts every party on simultaneous retractVote', async () => {
+    const ctx = createTestPoll()
+    await Promise.all(indexes.map(i => castVote(ctx, voter(i), { restaurantId: pickOf(i) }, guestsOf(i))))
+
+    // Even voters retract, some of them twice at once
+    const retracting = indexes.filter(i => i % 2 === 0)
+    const retracted = await Promise.all(
+      [...retracting, ...retracting.slice(0, 20)].map(i => retractVote(ctx, voter(i).id))
+    )
+
+    expect(retracted.filter(record => record !== null)).toHaveLength(retracting.length)
+    const remaining = indexes.filter(i => i % 2 === 1)
+    const expected = expectedTotals(remaining.map(i => ({ options: [pickOf(i)], guests: guestsOf(i) })))
+    expect(await totalsOf(ctx)).toEqual({ ...expected, voters: remaining.length })
+  })
+
+  it('keeps approval totals exact while votes are cast, changed and retracted together', async () => {
+    const ctx = createTestPoll('approval')
+    const approvalsOf = (i: number) => OPTION_IDS.filter((_, option) => option <= i % OPTION_IDS.length)
+    await Promise.all(
+      indexes.map(i => castVote(ctx, voter(i), { restaurantId: approvalsOf(i)[0], approvals: approvalsOf(i) }, guestsOf(i)))
+    )
+
+    // A third change their approvals, a third retract and a third are left alone, all at once
+    const changedApprovals = [OPTION_IDS[2]]
+    await Promise.all(indexes.map(i => {
+      if (i % 3 === 0) {
+        return changeVote(ctx, voter(i), { restaurantId: changedApprovals[0], approvals: changedApprovals })
+      }
+      if (i % 3 === 1) {
+        return retractVote(ctx, voter(i).id)
+      }
+      return Promise.resolve(null)
+    }))
+
+    const kept = indexes.filter(i => i % 3 !== 1)
+    const expected = expectedTotals(kept.map(i => ({
+      options: i % 3 === 0 ? changedApprovals : approvalsOf(i),
+      guests: guestsOf(i),
+    })))
+    expect(await totalsOf(ctx)).toEqual({ ...expected, voters: kept.length })
+  })
+})
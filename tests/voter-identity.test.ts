@@ -0,0 +1,58 @@
+// Voter Identity
+// Claims, releases and re-claims names and checks which voter tokens still work.
+
+import { describe, expect, it } from 'vitest'
+import type { VercelRequest } from '@vercel/node'
+import { releaseVoterName, resolveVoter, VOTER_TOKEN_HEADER } from '../api/voter-identity'
+
+process.env.STORAGE_DRIVER = 'memory'
+
+let eventCount = 0
+
+const nextEventId = () => `voter-identity-test-${++eventCount}`
+
+function request(token?: string): VercelRequest {
+  return { headers: token ? { [VOTER_TOKEN_HEADER.toLowerCase()]: token } : {} } as unknown as VercelRequest
+}
+
+async function claim(eventId: string, name: string): Promise<string> {
+  const resolution = await resolveVoter(request(), eventId, name)
+  if (!resolution.ok || !resolution.issuedToken) {
+    throw new Error(`Could not claim ${name}`)
+  }
+  return resolution.issuedToken
+}
+
+describe('voter identity', () => {
+  it('accepts the token for a claimed name and rejects the name without it', async () => {
+    const eventId = nextEventId()
+    const token = await claim(eventId, 'Alex')
+
+    expect(await resolveVoter(request(token), eventId, 'someone else')).toEqual({ ok: true, voter: { id: 'alex', name: 'Alex' } })
+    expect(await resolveVoter(request(), eventId, ' alex ')).toMatchObject({ ok: false, status: 409 })
+  })
+
+  it('rejects a released voter token', async () => {
+    const eventId = nextEventId()
+    const token = await claim(eventId, 'Alex')
+
+    expect(await releaseVoterName(eventId, 'alex')).toBe(true)
+    expect(await resolveVoter(request(token), eventId, 'Alex')).toMatchObject({ ok: false, status: 401 })
+  })
+
+  it('keeps a released voter token dead after someone else claims the name', async () => {
+    const eventId = nextEventId()
+    const oldToken = await claim(eventId, 'Alex')
+    await releaseVoterName(eventId, 'alex')
+    const newToken = await claim(eventId, 'alex')
+
+    expect(await resolveVoter(request(oldToken), eventId, 'Alex')).toMatchObject({ ok: false, status: 401 })
+    expect(await resolveVoter(request(newToken), eventId, 'Alex')).toEqual({ ok: true, voter: { id: 'alex', name: 'alex' } })
+  })
+
+  it('does not accept a token at another event', async () => {
+    const token = await claim(nextEventId(), 'Alex')
+
+    expect(await resolveVoter(request(token), nextEventId(), 'Alex')).toMatchObject({ ok: false, status: 401 })
+  })
+})